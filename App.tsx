@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 // FIX: Explicitly import UserStatus as a type to prevent runtime import errors if it's only a type definition.
-import { type View, type User, type BatchProcessorPreset, type Language, type UserStatus } from './types';
+import { type View, type User, type BatchProcessorPreset, type Language, type UserStatus, type Permission, type GenerationPreset } from './types';
 import Sidebar from './components/Sidebar';
 import AiTextSuiteView from './components/views/AiTextSuiteView';
 import AiImageSuiteView from './components/views/AiImageSuiteView';
@@ -13,8 +13,8 @@ import WelcomeAnimation from './components/WelcomeAnimation';
 import LibraryView from './components/views/LibraryView';
 import { MenuIcon, LogoIcon, XIcon, SunIcon, MoonIcon, CheckCircleIcon, AlertTriangleIcon, PartyPopperIcon, RefreshCwIcon, UsersIcon, ServerIcon, ShieldCheckIcon, TerminalIcon, SparklesIcon, ChevronRightIcon, AppleIcon } from './components/Icons';
 // FIX: Moved getAvailableServersForUser to userService.ts to fix circular dependency and added it to imports here.
-import { signOutUser, logActivity, getVeoAuthTokens, getSharedMasterApiKey, updateUserLastSeen, assignPersonalTokenAndIncrementUsage, saveUserPersonalAuthToken, getServerUsageCounts, updateUserProxyServer, updateTokenStatusToExpired, getAvailableServersForUser } from './services/userService';
-import { createChatSession, streamChatResponse } from './services/geminiService';
+import { signOutUser, logActivity, updateUserLastSeen, saveUserPersonalAuthToken, getServerUsageCounts, updateUserProxyServer, getAvailableServersForUser } from './services/userService';
+import { createChatSession, streamChatResponse, getGeminiStatus } from './services/geminiService';
 import Spinner from './components/common/Spinner';
 import { loadData, saveData } from './services/indexedDBService';
 import { type Chat } from '@google/genai';
@@ -30,7 +30,11 @@ import { clearVideoCache } from './services/videoCacheService';
 import localforage from 'localforage';
 import { supabase, type Database } from './services/supabaseClient';
 import { handleApiError } from './services/errorHandler';
-import { runComprehensiveTokenTest } from './services/imagenV3Service';
+import { getSessionUser, updateSessionUser } from './services/authService';
+import { hasPermission } from './services/permissionService';
+import { getSubscriptionState, syncExpiredSubscription } from './services/subscriptionService';
+import { checkStorageQuota, type StorageWarning } from './services/storageService';
+import { getPresetView } from './services/generationPresetService';
 import ConsoleLogSidebar from './components/ConsoleLogSidebar';
 import { getTranslations } from './services/translations';
 import { getProxyServers } from './services/contentService';
@@ -201,8 +205,8 @@ const ServerSelectionModal: React.FC<ServerSelectionModalProps> = ({ isOpen, ser
 const App: React.FC = () => {
   const [sessionChecked, setSessionChecked] = useState(false);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [activeApiKey, setActiveApiKey] = useState<string | null>(null);
-  const [isApiKeyLoading, setIsApiKeyLoading] = useState(true);
+  // Whether the selected server holds a Gemini API key; null until known. The key stays on the server.
+  const [isGeminiConfigured, setIsGeminiConfigured] = useState<boolean | null>(null);
   const [activeView, setActiveView] = useState<View>('home');
   const [theme, setTheme] = useState('light'); // Default to light, load async
   // FIX: Add language state management
@@ -210,18 +214,11 @@ const App: React.FC = () => {
   const [videoGenPreset, setVideoGenPreset] = useState<VideoGenPreset | null>(null);
   const [imageToReEdit, setImageToReEdit] = useState<ImageEditPreset | null>(null);
   const [imageGenPresetPrompt, setImageGenPresetPrompt] = useState<string | null>(null);
+  const [generationPreset, setGenerationPreset] = useState<GenerationPreset | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isLogSidebarOpen, setIsLogSidebarOpen] = useState(false);
   const [isShowingWelcome, setIsShowingWelcome] = useState(false);
   const [justLoggedIn, setJustLoggedIn] = useState(false);
-  // Removed needsTokenAssignment as we no longer force the modal
-  const [veoTokenRefreshedAt, setVeoTokenRefreshedAt] = useState<string | null>(null);
-  
-  // State for manual token assignment (used by ApiKeyStatus)
-  const [scanProgress, setScanProgress] = useState({ current: 0, total: 0 });
-  const isAssigningTokenRef = useRef(false);
-  
-  const [needsSilentTokenAssignment, setNeedsSilentTokenAssignment] = useState(false);
   const [showServerModal, setShowServerModal] = useState(false);
   const [serverOptions, setServerOptions] = useState<{ servers: string[], usage: Record<string, number> }>({ servers: [], usage: {} });
   const [serverModalPurpose, setServerModalPurpose] = useState<'login' | 'change'>('login');
@@ -232,7 +229,7 @@ const App: React.FC = () => {
 
   const handleUserUpdate = useCallback((updatedUser: User) => {
     setCurrentUser(updatedUser);
-    localStorage.setItem('currentUser', JSON.stringify(updatedUser));
+    updateSessionUser(updatedUser);
   }, []);
 
   const handleLogout = useCallback(async () => {
@@ -242,12 +239,10 @@ const App: React.FC = () => {
       updateUserProxyServer(currentUser.id, null);
     }
     await signOutUser();
-    localStorage.removeItem('currentUser');
-    sessionStorage.removeItem('monoklix_session_api_key'); // Clean up session key
     sessionStorage.removeItem('session_started_at'); // Clean up session start time
     sessionStorage.removeItem('selectedProxyServer'); // Clean up proxy selection
     setCurrentUser(null);
-    setActiveApiKey(null);
+    setIsGeminiConfigured(null);
     setActiveView('home');
   }, [currentUser]);
 
@@ -312,140 +307,33 @@ const App: React.FC = () => {
     };
   }, [handleUserUpdate]);
   
-  // Effect to check for an active session in localStorage on initial load.
+  // Effect to check for an active session on initial load.
   useEffect(() => {
-    try {
-        const savedUserJson = localStorage.getItem('currentUser');
-        if (savedUserJson) {
-            const user = JSON.parse(savedUserJson);
-            setCurrentUser(user);
-            sessionStorage.setItem('session_started_at', new Date().toISOString());
-        }
-    } catch (error) {
-        console.error("Failed to parse user from localStorage", error);
-        localStorage.removeItem('currentUser');
+    const user = getSessionUser();
+    if (user) {
+        setCurrentUser(user);
+        sessionStorage.setItem('session_started_at', new Date().toISOString());
     }
     setSessionChecked(true);
   }, []);
 
-  // Logic to assign token, kept for manual claiming via ApiKeyStatus component
-  const assignTokenProcess = useCallback(async (): Promise<{ success: boolean; error: string | null; }> => {
-        if (!currentUser || isAssigningTokenRef.current) {
-            return { success: false, error: "Process is already running or user is not available." };
-        }
-        
-        isAssigningTokenRef.current = true;
-        
-        console.log('Starting auto-assignment process...');
-
-        const tokensJSON = sessionStorage.getItem('veoAuthTokens');
-        if (!tokensJSON) {
-            // Updated error message to be more user-friendly and actionable
-            const errorMsg = "Connection setup incomplete. Please click 'Try Again' to update your access token.";
-            isAssigningTokenRef.current = false;
-            return { success: false, error: errorMsg };
-        }
-        
-        let tokenAssigned = false;
-        let finalError: string | null = "All connection slots are currently full. Please try again in a moment or contact the admin.";
-
-        try {
-            const sharedTokens: { token: string; createdAt: string }[] = JSON.parse(tokensJSON);
-            setScanProgress({ current: 0, total: sharedTokens.length });
-            
-            // Randomize for load distribution
-            for (let i = sharedTokens.length - 1; i > 0; i--) {
-                const j = Math.floor(Math.random() * (i + 1));
-                [sharedTokens[i], sharedTokens[j]] = [sharedTokens[j], sharedTokens[i]];
-            }
-
-            for (const [index, tokenData] of sharedTokens.entries()) {
-                setScanProgress({ current: index + 1, total: sharedTokens.length });
-                console.log(`[Auto-Assign] Testing shared token... ${tokenData.token.slice(-6)}`);
-                const results = await runComprehensiveTokenTest(tokenData.token);
-                const isImagenOk = results.find(r => r.service === 'Imagen')?.success;
-                const isVeoOk = results.find(r => r.service === 'Veo')?.success;
-
-                if (isImagenOk && isVeoOk) {
-                    console.log(`[Auto-Assign] Found valid token: ...${tokenData.token.slice(-6)}. Assigning to user.`);
-                    const assignResult = await assignPersonalTokenAndIncrementUsage(currentUser.id, tokenData.token);
-
-                    if (assignResult.success === false) {
-                        console.warn(`[Auto-Assign] Could not assign token ...${tokenData.token.slice(-6)}: ${assignResult.message}. Trying next.`);
-                        if (assignResult.message === 'DB_SCHEMA_MISSING_COLUMN_personal_auth_token' && currentUser.role === 'admin') {
-                            finalError = "Database schema is outdated.";
-                            alert("Database schema is outdated.\n\nPlease go to your Supabase dashboard and run the following SQL command to add the required column:\n\nALTER TABLE public.users ADD COLUMN personal_auth_token TEXT;");
-                            break;
-                        }
-                    } else {
-                        handleUserUpdate(assignResult.user);
-                        console.log('[Auto-Assign] Successfully assigned personal token.');
-                        tokenAssigned = true;
-                        finalError = null;
-                        break;
-                    }
-                } else {
-                    console.warn(`[Auto-Assign] Token ...${tokenData.token.slice(-6)} failed health check. Skipping token.`);
-                    // The functionality to mark tokens as expired is currently disabled per user request.
-                    // updateTokenStatusToExpired(tokenData.token);
-                }
-            }
-
-            if (!tokenAssigned) {
-                console.log('[Auto-Assign] No valid shared tokens found after testing all available ones.');
-            }
-
-        } catch (error) {
-            console.error('[Auto-Assign] An error occurred during the token assignment process:', error);
-            finalError = "An unexpected error occurred during assignment. Please try again.";
-        } finally {
-            isAssigningTokenRef.current = false;
-        }
-        
-        return { success: tokenAssigned, error: finalError };
-    }, [currentUser, handleUserUpdate]);
-
-    // Effect for handling personal token failure with automatic fallback
+    // A personal token that stops working is cleared, so requests fall back to the token vault.
     const handlePersonalTokenFailure = useCallback(async () => {
-        if (isAssigningTokenRef.current || !currentUser || !currentUser.personalAuthToken) {
+        if (!currentUser || !currentUser.personalAuthToken) {
             return;
         }
 
-        console.warn('[Token Fallback] Personal token failed. Initiating silent auto-fallback process.');
+        console.warn('[Token Fallback] Personal token failed. Clearing it and falling back to the token vault.');
 
         const clearResult = await saveUserPersonalAuthToken(currentUser.id, null);
         
-        // FIX: Inverted the if/else block to check for the failure case first.
-        // This explicitly narrows the type for the 'else' branch, resolving the type error where `clearResult.message` was not accessible.
         if (clearResult.success === false) {
             console.error("[Token Fallback] Failed to clear the invalid token.", clearResult.message);
         } else {
             handleUserUpdate(clearResult.user);
-            // This will trigger the silent assignment effect after re-render
-            setNeedsSilentTokenAssignment(true);
         }
     }, [currentUser, handleUserUpdate]);
 
-    // Effect to handle silent, background token assignment on failure.
-    useEffect(() => {
-        if (!needsSilentTokenAssignment || !currentUser) return;
-        
-        const runSilentAssignment = async () => {
-            console.log('[Token Fallback] Running silent token assignment process in background.');
-            const result = await assignTokenProcess();
-            if (result.success) {
-                console.log('[Token Fallback] Silently assigned new token successfully.');
-            } else {
-                console.error('[Token Fallback] Silent token assignment failed:', result.error);
-            }
-            setNeedsSilentTokenAssignment(false); // Reset trigger
-        }
-        
-        runSilentAssignment();
-
-    }, [needsSilentTokenAssignment, currentUser, assignTokenProcess]);
-
-
     useEffect(() => {
         eventBus.on('personalTokenFailed', handlePersonalTokenFailure);
         return () => {
@@ -456,57 +344,25 @@ const App: React.FC = () => {
   const initializeSessionData = useCallback(async (userId: string) => {
     if (!userId) return;
     
-    setIsApiKeyLoading(true);
     try {
-      // Fetch master key and VEO tokens in parallel for efficiency
-      const [masterKey, tokensData] = await Promise.all([
-        getSharedMasterApiKey(),
-        getVeoAuthTokens(),
-      ]);
-
-      // Handle Master API Key
-      if (masterKey) {
-        sessionStorage.setItem('monoklix_session_api_key', masterKey);
-        setActiveApiKey(masterKey);
-        console.log(`[Session] Shared master API key (...${masterKey.slice(-4)}) loaded.`);
-      } else {
-        console.error("CRITICAL: Could not fetch master API key from Supabase.");
-        setActiveApiKey(null);
-      }
-
-      // Handle VEO Auth Tokens
-      if (tokensData && tokensData.length > 0) {
-        sessionStorage.setItem('veoAuthTokens', JSON.stringify(tokensData));
-        sessionStorage.setItem('veoAuthToken', tokensData[0].token);
-        sessionStorage.setItem('veoAuthTokenCreatedAt', tokensData[0].createdAt);
-        setVeoTokenRefreshedAt(new Date().toISOString());
-        console.log(`[Session] ${tokensData.length} VEO Auth Tokens loaded.`);
-      } else {
-        sessionStorage.removeItem('veoAuthTokens');
-        sessionStorage.removeItem('veoAuthToken');
-        sessionStorage.removeItem('veoAuthTokenCreatedAt');
-        console.warn("[Session] Could not fetch any VEO Auth Tokens from Supabase.");
-      }
+      // The Gemini key and the shared VEO token pool are both held by the proxy, so only whether
+      // a key is configured is fetched here.
+      const { configured } = await getGeminiStatus();
+      setIsGeminiConfigured(configured);
+      if (!configured) console.error("CRITICAL: The server has no Gemini API key configured.");
     } catch (error) {
-      console.error("[Session] Error initializing session data (API key & VEO tokens):", error);
-      setActiveApiKey(null); // Ensure we're in a clean error state
-    } finally {
-      setIsApiKeyLoading(false);
+      console.error("[Session] Error initializing session data (Gemini status):", error);
+      setIsGeminiConfigured(false); // Ensure we're in a clean error state
     }
   }, []);
 
-  // Effect to fetch session data (API keys, tokens) on app load/refresh if user exists.
+  // Effect to fetch session data (Gemini status) on app load/refresh if user exists.
   useEffect(() => {
     if (currentUser?.id) {
       initializeSessionData(currentUser.id);
     } else {
       // Clear all session-specific data on logout or if no user
-      setActiveApiKey(null);
-      sessionStorage.removeItem('monoklix_session_api_key');
-      sessionStorage.removeItem('veoAuthTokens');
-      sessionStorage.removeItem('veoAuthToken');
-      sessionStorage.removeItem('veoAuthTokenCreatedAt');
-      setIsApiKeyLoading(false);
+      setIsGeminiConfigured(null);
     }
   }, [currentUser?.id, initializeSessionData]);
 
@@ -532,6 +388,46 @@ const App: React.FC = () => {
         }
     }, [currentUser?.id]);
 
+    // Effect for the subscription lifecycle: warn before the end date, and apply the downgrade once it passes.
+    useEffect(() => {
+        if (!currentUser) return;
+
+        const checkSubscription = () => {
+            const state = getSubscriptionState(currentUser);
+            if (state.phase === 'expiringSoon' && state.expiresAt && sessionStorage.getItem('renewal_warning_for') !== String(state.expiresAt)) {
+                sessionStorage.setItem('renewal_warning_for', String(state.expiresAt));
+                setNotification(T.subscriptionExpiringSoon
+                    .replace('{days}', String(state.daysLeft))
+                    .replace('{date}', new Date(state.expiresAt).toLocaleDateString()));
+            }
+            syncExpiredSubscription(currentUser);
+        };
+
+        checkSubscription();
+        const lifecycleInterval = setInterval(checkSubscription, 60000); // Once a minute
+        return () => clearInterval(lifecycleInterval);
+    }, [currentUser, T.subscriptionExpiringSoon]);
+
+    // Effect for storage warnings: once per session when the quota is nearly used, and whenever videos are evicted.
+    useEffect(() => {
+        if (!currentUser?.id) return;
+
+        const handleStorageWarning = ({ estimate, evicted }: StorageWarning) => {
+            if (evicted > 0) {
+                setNotification(T.storageVideosEvicted.replace('{count}', String(evicted)));
+            } else if (estimate && !sessionStorage.getItem('storage_warning_shown')) {
+                sessionStorage.setItem('storage_warning_shown', 'true');
+                setNotification(T.storageAlmostFull.replace('{percent}', String(Math.round(estimate.ratio * 100))));
+            }
+        };
+
+        eventBus.on('storageWarning', handleStorageWarning);
+        checkStorageQuota();
+        return () => {
+            eventBus.remove('storageWarning', handleStorageWarning);
+        };
+    }, [currentUser?.id, T.storageVideosEvicted, T.storageAlmostFull]);
+
     // Effect for real-time remote logout listener
     useEffect(() => {
         if (!currentUser?.id) return;
@@ -566,28 +462,19 @@ const App: React.FC = () => {
         };
     }, [currentUser?.id, handleLogout, T.sessionTerminated]);
     
-    // Effect for 1-hour session timeout
+    // Effect for session expiry: the session could not be renewed (expired or revoked).
     useEffect(() => {
-        let sessionTimeoutId: number;
-
-        if (currentUser) {
-            const ONE_HOUR_IN_MS = 60 * 60 * 1000;
-            console.log(`[Session] Starting 1-hour auto-logout timer.`);
-            
-            sessionTimeoutId = window.setTimeout(() => {
-                console.log('[Session] 1-hour session expired. Forcing logout.');
-                handleLogout();
-            }, ONE_HOUR_IN_MS);
-        }
+        const handleSessionExpired = () => {
+            console.log('[Session] Session expired. Forcing logout.');
+            alert(T.sessionExpired);
+            handleLogout();
+        };
 
-        // Cleanup function to clear the timer if the user logs out manually or component unmounts
+        eventBus.on('sessionExpired', handleSessionExpired);
         return () => {
-            if (sessionTimeoutId) {
-                clearTimeout(sessionTimeoutId);
-                console.log('[Session] Auto-logout timer cleared.');
-            }
+            eventBus.remove('sessionExpired', handleSessionExpired);
         };
-    }, [currentUser, handleLogout]);
+    }, [handleLogout, T.sessionExpired]);
 
   const proceedWithPostLoginFlow = (user: User) => {
     // Directly let user in without blocking modal.
@@ -734,6 +621,11 @@ const App: React.FC = () => {
     setActiveView('ai-image-suite');
   };
 
+  const handleRegenerate = (preset: GenerationPreset) => {
+    setGenerationPreset(preset);
+    setActiveView(getPresetView(preset));
+  };
+
   const handleUsePromptInGenerator = (prompt: string) => {
     setImageGenPresetPrompt(prompt);
     setActiveView('ai-image-suite');
@@ -749,7 +641,12 @@ const App: React.FC = () => {
         return <GetStartedView language={language} />;
       case 'ai-text-suite':
         // FIX: Add missing 'language' prop
-        return <AiTextSuiteView currentUser={currentUser!} language={language} />;
+        return <AiTextSuiteView
+                  currentUser={currentUser!}
+                  generationPreset={generationPreset}
+                  clearGenerationPreset={() => setGenerationPreset(null)}
+                  language={language}
+                />;
       case 'ai-image-suite':
         // FIX: Add missing 'language' prop
         return <AiImageSuiteView 
@@ -759,6 +656,8 @@ const App: React.FC = () => {
                   clearReEdit={() => setImageToReEdit(null)}
                   presetPrompt={imageGenPresetPrompt}
                   clearPresetPrompt={() => setImageGenPresetPrompt(null)}
+                  generationPreset={generationPreset}
+                  clearGenerationPreset={() => setGenerationPreset(null)}
                   currentUser={currentUser!}
                   onUserUpdate={handleUserUpdate}
                   language={language}
@@ -771,6 +670,8 @@ const App: React.FC = () => {
                   currentUser={currentUser!}
                   preset={videoGenPreset} 
                   clearPreset={() => setVideoGenPreset(null)}
+                  generationPreset={generationPreset}
+                  clearGenerationPreset={() => setGenerationPreset(null)}
                   onCreateVideo={handleCreateVideoFromImage}
                   onReEdit={handleReEditImage}
                   onUserUpdate={handleUserUpdate}
@@ -781,7 +682,7 @@ const App: React.FC = () => {
           return <AiPromptLibrarySuiteView onUsePrompt={handleUsePromptInGenerator} language={language} />;
       case 'gallery':
         // FIX: Add missing 'language' prop
-        return <GalleryView onCreateVideo={handleCreateVideoFromImage} onReEdit={handleReEditImage} language={language} />;
+        return <GalleryView onCreateVideo={handleCreateVideoFromImage} onReEdit={handleReEditImage} onRegenerate={handleRegenerate} language={language} />;
       case 'api-generator':
           // FIX: Add missing 'language' prop
           return <ApiGeneratorView language={language} currentUser={currentUser!} onUserUpdate={handleUserUpdate} />;
@@ -794,8 +695,6 @@ const App: React.FC = () => {
                     // This prop is now obsolete, but kept for compatibility.
                     tempApiKey={null}
                     onUserUpdate={handleUserUpdate} 
-                    veoTokenRefreshedAt={veoTokenRefreshedAt}
-                    assignTokenProcess={assignTokenProcess}
                     language={language}
                     setLanguage={setLanguage}
                  />;
@@ -805,7 +704,7 @@ const App: React.FC = () => {
     }
   };
   
-  if (!sessionChecked || (currentUser && isApiKeyLoading)) {
+  if (!sessionChecked) {
       return (
           <div className="flex items-center justify-center min-h-screen bg-neutral-100 dark:bg-neutral-900">
               <Spinner />
@@ -838,9 +737,13 @@ const App: React.FC = () => {
   let isBlocked = false;
   let blockMessage = { title: T.accessDenied, body: "" };
 
-  const adminOnlyViews: View[] = ['api-generator', 'master-dashboard'];
+  const viewPermissions: Partial<Record<View, Permission>> = {
+    'api-generator': 'tokens.generate',
+    'master-dashboard': 'servers.view',
+  };
+  const requiredPermission = viewPermissions[activeView as View];
 
-  if (adminOnlyViews.includes(activeView) && currentUser.role !== 'admin') {
+  if (requiredPermission && !hasPermission(requiredPermission, currentUser)) {
       isBlocked = true;
       blockMessage = { title: T.accessDenied, body: T.adminOnlyFeature };
   } 
@@ -857,6 +760,11 @@ const App: React.FC = () => {
           isBlocked = false;
       }
   }
+  // A subscription or trial that ran out leaves the user inactive with the old end date
+  else if (currentUser.status === 'inactive' && getSubscriptionState(currentUser).phase === 'expired') {
+      isBlocked = true;
+      blockMessage = { title: T.subscriptionExpired, body: T.subscriptionExpiredMessage };
+  }
   // Block any other status (e.g., inactive, pending_payment, trial)
   else {
       isBlocked = true;
@@ -948,10 +856,8 @@ const App: React.FC = () => {
                   <RefreshCwIcon className="w-5 h-5 text-neutral-600 dark:text-neutral-400" />
               </button>
               <ApiKeyStatus 
-                activeApiKey={activeApiKey} 
-                veoTokenRefreshedAt={veoTokenRefreshedAt} 
+                isGeminiConfigured={isGeminiConfigured}
                 currentUser={currentUser}
-                assignTokenProcess={assignTokenProcess}
                 onUserUpdate={handleUserUpdate}
                 onOpenChangeServerModal={handleOpenChangeServerModal}
                 language={language}
@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { LogoIcon } from './components/Icons';
-import { loginUser } from './services/userService';
+import { requestLoginCode, verifyLoginCode, verifyMagicLink } from './services/authService';
 import Spinner from './components/common/Spinner';
 import { type User } from './types';
 import { APP_VERSION } from './services/appConfig';
@@ -10,29 +10,104 @@ interface LoginPageProps {
     onLoginSuccess: (user: User) => void;
 }
 
+const MAGIC_LINK_PARAM = 'login';
+
 const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
     const [isLoading, setIsLoading] = useState(false);
     const [email, setEmail] = useState('');
+    const [code, setCode] = useState('');
+    const [step, setStep] = useState<'email' | 'code'>('email');
+    const [resendAvailableAt, setResendAvailableAt] = useState(0);
+    const [now, setNow] = useState(Date.now());
     const [error, setError] = useState<string | null>(null);
     const T = getTranslations().loginPage;
     const commonT = getTranslations().common;
-    
-    const handleLogin = async (e: React.FormEvent) => {
+
+    const getErrorMessage = (message: string) => {
+        const errorKey = message as keyof typeof commonT.errors;
+        return commonT.errors[errorKey] || message;
+    };
+
+    // Magic link: the emailed link opens the app with ?login=<token>.
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const linkToken = params.get(MAGIC_LINK_PARAM);
+        if (!linkToken) return;
+
+        // The token is single-use; keep it out of the address bar and history.
+        params.delete(MAGIC_LINK_PARAM);
+        const query = params.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+
+        setIsLoading(true);
+        verifyMagicLink(linkToken).then(result => {
+            if (result.success === true) {
+                onLoginSuccess(result.user);
+            } else {
+                setError(getErrorMessage(result.message));
+                setIsLoading(false);
+            }
+        });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    // Ticks the resend countdown while it is running.
+    useEffect(() => {
+        if (step !== 'code' || resendAvailableAt <= Date.now()) return;
+        const intervalId = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(intervalId);
+    }, [step, resendAvailableAt]);
+
+    const sendCode = async () => {
+        setError(null);
+        setIsLoading(true);
+
+        const result = await requestLoginCode(email);
+
+        if (result.success === true) {
+            setStep('code');
+            setCode('');
+            setResendAvailableAt(Date.now() + 30 * 1000);
+        } else {
+            if (result.retryAfterSeconds) setResendAvailableAt(Date.now() + result.retryAfterSeconds * 1000);
+            setError(getErrorMessage(result.message));
+        }
+        setNow(Date.now());
+        setIsLoading(false);
+    };
+
+    const handleRequestCode = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await sendCode();
+    };
+
+    const handleVerifyCode = async (e: React.FormEvent) => {
         e.preventDefault();
         setError(null);
         setIsLoading(true);
-        
-        const result = await loginUser(email);
-        
+
+        const result = await verifyLoginCode(email, code);
+
         if (result.success === true) {
             onLoginSuccess(result.user);
-        } else {
-            const errorKey = result.message as keyof typeof commonT.errors;
-            setError(commonT.errors[errorKey] || result.message);
+            return;
+        }
+        const message = getErrorMessage(result.message);
+        setError(result.attemptsLeft ? `${message} ${T.attemptsLeft.replace('{count}', String(result.attemptsLeft))}` : message);
+        if (result.message === 'loginExpired' || result.message === 'tooManyAttempts') {
+            setCode('');
         }
         setIsLoading(false);
     };
 
+    const handleChangeEmail = () => {
+        setStep('email');
+        setCode('');
+        setError(null);
+    };
+
+    const resendSeconds = Math.max(0, Math.ceil((resendAvailableAt - now) / 1000));
+
     return (
         <div className="flex items-center justify-center min-h-screen bg-neutral-100 dark:bg-neutral-900 p-4">
             <div className="w-full max-w-md p-8 space-y-6 bg-white dark:bg-neutral-950 rounded-xl shadow-lg border border-neutral-200 dark:border-neutral-800">
@@ -49,7 +124,8 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
                 <>
                     {error && <p className="text-center text-sm text-red-500 dark:text-red-400 p-3 bg-red-500/10 rounded-md">{error}</p>}
                     
-                    <form className="mt-6 space-y-4" onSubmit={handleLogin}>
+                    {step === 'email' ? (
+                    <form className="mt-6 space-y-4" onSubmit={handleRequestCode}>
                          <div>
                             <label htmlFor="email-input" className="sr-only">{T.emailPlaceholder}</label>
                             <input
@@ -74,6 +150,50 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
                             </button>
                         </div>
                     </form>
+                    ) : (
+                    <form className="mt-6 space-y-4" onSubmit={handleVerifyCode}>
+                        <p className="text-center text-sm text-neutral-600 dark:text-neutral-400">
+                            {T.codeSentTo.replace('{email}', email.trim().toLowerCase())}
+                        </p>
+                        <div>
+                            <label htmlFor="code-input" className="sr-only">{T.codePlaceholder}</label>
+                            <input
+                                id="code-input"
+                                type="text"
+                                inputMode="numeric"
+                                autoComplete="one-time-code"
+                                pattern="[0-9]{6}"
+                                maxLength={6}
+                                required
+                                autoFocus
+                                value={code}
+                                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                                className="appearance-none rounded-md relative block w-full px-3 py-3 border border-neutral-300 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800 placeholder-neutral-500 text-neutral-900 dark:text-neutral-200 text-center tracking-[0.5em] font-mono focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm"
+                                placeholder={T.codePlaceholder}
+                                disabled={isLoading}
+                             />
+                        </div>
+
+                        <div className="pt-2">
+                            <button
+                                type="submit"
+                                disabled={isLoading || code.length !== 6}
+                                className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+                            >
+                                {isLoading ? <Spinner /> : T.verifyButton}
+                            </button>
+                        </div>
+
+                        <div className="flex justify-between text-sm">
+                            <button type="button" onClick={handleChangeEmail} disabled={isLoading} className="text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300 disabled:opacity-50">
+                                {T.useDifferentEmail}
+                            </button>
+                            <button type="button" onClick={sendCode} disabled={isLoading || resendSeconds > 0} className="font-medium text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50 disabled:no-underline">
+                                {resendSeconds > 0 ? T.resendIn.replace('{seconds}', String(resendSeconds)) : T.resendCode}
+                            </button>
+                        </div>
+                    </form>
+                    )}
 
                     <div className="mt-6 pt-6 border-t border-neutral-200 dark:border-neutral-800 text-center">
                         <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-4">{T.noAccount}</p>
@@ -1,106 +1,23 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { KeyIcon, CheckCircleIcon, XIcon, AlertTriangleIcon, RefreshCwIcon, SparklesIcon, TelegramIcon, ServerIcon, ImageIcon, VideoIcon } from './Icons';
+import { KeyIcon, CheckCircleIcon, XIcon, AlertTriangleIcon, RefreshCwIcon, TelegramIcon } from './Icons';
 import Spinner from './common/Spinner';
+import TokenVaultStatus from './common/TokenVaultStatus';
 import { runApiHealthCheck, type HealthCheckResult } from '../services/geminiService';
 import { type User, type Language } from '../types';
-import { saveUserPersonalAuthToken, assignPersonalTokenAndIncrementUsage } from '../services/userService';
-import { runComprehensiveTokenTest, type TokenTestResult } from '../services/imagenV3Service';
+import { saveUserPersonalAuthToken } from '../services/userService';
+import { runComprehensiveTokenTest } from '../services/imagenV3Service';
 import { getTranslations } from '../services/translations';
+import { getHealthSnapshot, resetHealthRegistry, type HealthEntry } from '../services/healthRegistryService';
+import eventBus from '../services/eventBus';
 
-// --- NEW: Token Selection Modal ---
-interface TokenSelectionModalProps {
+// --- Token Vault Modal: status of the shared pool held by the proxy ---
+interface TokenVaultModalProps {
     isOpen: boolean;
     onClose: () => void;
-    currentUser: User;
-    onUserUpdate: (user: User) => void;
-    assignTokenProcess: () => Promise<{ success: boolean; error: string | null; }>;
-    language: Language;
 }
 
-const TokenSelectionModal: React.FC<TokenSelectionModalProps> = ({ isOpen, onClose, currentUser, onUserUpdate, assignTokenProcess, language }) => {
-    const [tokens, setTokens] = useState<{ token: string; createdAt: string }[]>([]);
-    // State to store individual service results for each token
-    const [testResults, setTestResults] = useState<Map<string, { status: 'idle' | 'testing' | 'complete', results?: TokenTestResult[] }>>(new Map());
-    const [claimingToken, setClaimingToken] = useState<string | null>(null);
-    const [isAutoAssigning, setIsAutoAssigning] = useState(false);
-    const [autoMessage, setAutoMessage] = useState('');
-    
-    useEffect(() => {
-        if (isOpen) {
-            const tokensJSON = sessionStorage.getItem('veoAuthTokens');
-            if (tokensJSON) {
-                try {
-                    const parsed = JSON.parse(tokensJSON);
-                    setTokens(Array.isArray(parsed) ? parsed : []);
-                } catch (e) {
-                    console.error("Failed to parse tokens", e);
-                }
-            }
-        }
-    }, [isOpen]);
-
-    const handleTestToken = async (token: string) => {
-        setTestResults(prev => new Map(prev).set(token, { status: 'testing' }));
-        
-        try {
-            // This runs individual tests for Imagen and Veo specifically for this token
-            // Because we updated apiClient.ts, this will NOT retry with other tokens if it fails.
-            const results = await runComprehensiveTokenTest(token);
-            
-            setTestResults(prev => new Map(prev).set(token, { 
-                status: 'complete', 
-                results
-            }));
-        } catch (e) {
-            // Fallback if the test function itself crashes
-            setTestResults(prev => new Map(prev).set(token, { status: 'complete', results: [
-                { service: 'Imagen', success: false, message: 'Error' },
-                { service: 'Veo', success: false, message: 'Error' }
-            ] }));
-        }
-    };
-
-    const handleClaimToken = async (token: string) => {
-        setClaimingToken(token);
-        // First clear existing token
-        await saveUserPersonalAuthToken(currentUser.id, null);
-        
-        const result = await assignPersonalTokenAndIncrementUsage(currentUser.id, token);
-        
-        setClaimingToken(null); // Stop spinner regardless of result
-
-        // FIX: Inverted the if/else block to check for the failure case first.
-        // This explicitly narrows the type for the 'else' branch, resolving the type error where `result.message` was not accessible.
-        if (result.success === false) {
-            alert(`Failed to claim: ${result.message}`);
-        } else {
-            onUserUpdate(result.user);
-            // Close modal after a short delay to show the success tick
-            setTimeout(onClose, 1000);
-        }
-    };
-
-    const handleAutoAssign = async () => {
-        setIsAutoAssigning(true);
-        setAutoMessage('Scanning for optimal token...');
-        
-        // First clear existing token to ensure clean state
-        await saveUserPersonalAuthToken(currentUser.id, null);
-
-        const result = await assignTokenProcess();
-        
-        if (result.success) {
-            setAutoMessage('Success! Token assigned.');
-            setTimeout(onClose, 1500);
-        } else {
-            setAutoMessage(result.error || 'Auto-assignment failed.');
-            setTimeout(() => {
-                setIsAutoAssigning(false);
-                setAutoMessage('');
-            }, 3000);
-        }
-    };
-
+const TokenVaultModal: React.FC<TokenVaultModalProps> = ({ isOpen, onClose }) => {
+    const T = getTranslations().tokenVaultStatus;
     if (!isOpen) return null;
 
     return (
@@ -111,133 +28,96 @@ const TokenSelectionModal: React.FC<TokenSelectionModalProps> = ({ isOpen, onClo
                 </button>
 
                 <div className="text-center mb-6">
-                    <h1 className="text-2xl font-bold mb-2">Select Access Token</h1>
-                    <p className="text-neutral-500 dark:text-neutral-400 text-sm">Choose a token from the pool or let AI auto-assign one for you.</p>
+                    <h1 className="text-2xl font-bold mb-2">{T.title}</h1>
+                    <p className="text-neutral-500 dark:text-neutral-400 text-sm">{T.description}</p>
                 </div>
 
-                {/* Auto Assign Button */}
-                <button
-                    onClick={handleAutoAssign}
-                    disabled={isAutoAssigning}
-                    className="w-full flex items-center justify-center gap-3 p-4 mb-6 bg-gradient-to-r from-primary-600 to-blue-600 text-white rounded-xl shadow-lg hover:shadow-primary-500/25 hover:scale-[1.01] transition-all group disabled:opacity-70 disabled:cursor-not-allowed shrink-0"
-                >
-                    {isAutoAssigning ? <Spinner /> : <SparklesIcon className="w-6 h-6" />}
-                    <div className="text-left">
-                        <p className="font-bold text-base">{isAutoAssigning ? 'Auto-Assigning...' : 'Auto Assign Best Token'}</p>
-                        <p className="text-xs opacity-80 font-normal">{isAutoAssigning ? autoMessage : 'Recommended: Automatically finds a working token.'}</p>
-                    </div>
-                </button>
+                <div className="flex-1 overflow-y-auto custom-scrollbar min-h-0">
+                    <TokenVaultStatus allowTesting />
+                </div>
+            </div>
+        </div>
+    );
+};
 
-                <div className="border-b border-neutral-200 dark:border-neutral-800 mb-4 shrink-0"></div>
-
-                <h3 className="text-sm font-bold text-neutral-600 dark:text-neutral-400 mb-3 shrink-0">Available Tokens in Pool ({tokens.length})</h3>
-
-                {/* Token List */}
-                <div className="flex-1 overflow-y-auto custom-scrollbar pr-2 space-y-3 min-h-0">
-                    {tokens.length === 0 ? (
-                         <p className="text-center text-neutral-500 py-10">No tokens available in the pool.</p>
-                    ) : (
-                        tokens.map((t, idx) => {
-                            const testState = testResults.get(t.token);
-                            const isCurrent = currentUser.personalAuthToken === t.token;
-                            const status = testState?.status || 'idle';
-                            const results = testState?.results;
-                            
-                            const imagenResult = results?.find(r => r.service === 'Imagen');
-                            const veoResult = results?.find(r => r.service === 'Veo');
-                            
-                            // Determine overall success for enabling the claim button
-                            const isClaimable = results?.some(r => r.success) || false;
-
-                            return (
-                                <div key={idx} className={`p-3 rounded-xl border transition-all ${isCurrent ? 'bg-green-50 border-green-500 dark:bg-green-900/20' : 'bg-neutral-50 dark:bg-neutral-800/50 border-neutral-200 dark:border-neutral-700'}`}>
-                                    <div className="flex items-center justify-between mb-3">
-                                        <div className="flex items-center gap-2">
-                                            <div className="bg-neutral-200 dark:bg-neutral-700 p-1.5 rounded-md">
-                                                <KeyIcon className="w-4 h-4 text-neutral-600 dark:text-neutral-300"/>
-                                            </div>
-                                            <span className="font-mono text-sm font-semibold">Token #{idx + 1} <span className="text-xs font-normal opacity-50 ml-1">(...{t.token.slice(-6)})</span></span>
-                                            {isCurrent && <span className="text-[10px] bg-green-100 text-green-700 px-2 py-0.5 rounded-full font-bold">CURRENT</span>}
-                                        </div>
-                                        <div className="flex gap-2">
-                                            <button 
-                                                onClick={() => handleTestToken(t.token)}
-                                                disabled={status === 'testing'}
-                                                className="px-3 py-1.5 text-xs font-semibold bg-white dark:bg-neutral-700 border border-neutral-300 dark:border-neutral-600 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-600 transition-colors shadow-sm"
-                                            >
-                                                {status === 'testing' ? <Spinner/> : 'Test'}
-                                            </button>
-                                            <button 
-                                                onClick={() => handleClaimToken(t.token)}
-                                                disabled={isCurrent || claimingToken !== null || (status !== 'idle' && !isClaimable)} 
-                                                className={`px-3 py-1.5 text-xs font-semibold rounded-lg transition-colors text-white flex items-center justify-center gap-1.5 min-w-[80px] ${isCurrent ? 'bg-green-600 opacity-100 shadow-md' : isClaimable ? 'bg-green-600 hover:bg-green-700 shadow-md hover:scale-105' : 'bg-neutral-400 hover:bg-neutral-500'}`}
-                                                title={!isClaimable && status !== 'idle' ? "Token failed validation" : "Claim this token"}
-                                            >
-                                                {isCurrent ? (
-                                                    <CheckCircleIcon className="w-4 h-4 text-white" />
-                                                ) : claimingToken === t.token ? (
-                                                    <Spinner/> 
-                                                ) : (
-                                                    'Claim'
-                                                )}
-                                            </button>
-                                        </div>
-                                    </div>
 
-                                    {/* Status Indicators - No Spinners here, just icons/text */}
-                                    <div className="grid grid-cols-2 gap-2">
-                                        {/* Imagen Status */}
-                                        <div className={`flex items-center justify-between p-2 rounded-lg border ${imagenResult ? (imagenResult.success ? 'bg-green-100/50 border-green-200 dark:bg-green-900/20 dark:border-green-800' : 'bg-red-100/50 border-red-200 dark:bg-red-900/20 dark:border-red-800') : 'bg-neutral-100 dark:bg-neutral-800 border-transparent'}`}>
-                                            <div className="flex items-center gap-2">
-                                                <ImageIcon className="w-4 h-4 opacity-70"/>
-                                                <span className="text-xs font-medium">Imagen</span>
-                                            </div>
-                                            {status === 'testing' ? (
-                                                <span className="text-[10px] text-neutral-500 animate-pulse">Checking...</span>
-                                            ) : imagenResult ? (
-                                                imagenResult.success ? <CheckCircleIcon className="w-4 h-4 text-green-600"/> : <XIcon className="w-4 h-4 text-red-500"/>
-                                            ) : (
-                                                <span className="text-[10px] text-neutral-400">Untested</span>
-                                            )}
-                                        </div>
+// --- Health scores recorded by the API client for each token and proxy server ---
+const HealthScoresPanel: React.FC = () => {
+    const T = getTranslations().apiKeyStatus;
+    const [snapshot, setSnapshot] = useState(getHealthSnapshot());
 
-                                        {/* Veo Status */}
-                                        <div className={`flex items-center justify-between p-2 rounded-lg border ${veoResult ? (veoResult.success ? 'bg-green-100/50 border-green-200 dark:bg-green-900/20 dark:border-green-800' : 'bg-red-100/50 border-red-200 dark:bg-red-900/20 dark:border-red-800') : 'bg-neutral-100 dark:bg-neutral-800 border-transparent'}`}>
-                                            <div className="flex items-center gap-2">
-                                                <VideoIcon className="w-4 h-4 opacity-70"/>
-                                                <span className="text-xs font-medium">Veo 3</span>
-                                            </div>
-                                            {status === 'testing' ? (
-                                                <span className="text-[10px] text-neutral-500 animate-pulse">Checking...</span>
-                                            ) : veoResult ? (
-                                                veoResult.success ? <CheckCircleIcon className="w-4 h-4 text-green-600"/> : <XIcon className="w-4 h-4 text-red-500"/>
-                                            ) : (
-                                                <span className="text-[10px] text-neutral-400">Untested</span>
-                                            )}
-                                        </div>
-                                    </div>
-                                </div>
-                            );
-                        })
-                    )}
+    useEffect(() => {
+        const refresh = () => setSnapshot(getHealthSnapshot());
+        eventBus.on('healthRegistryUpdated', refresh);
+        return () => eventBus.remove('healthRegistryUpdated', refresh);
+    }, []);
+
+    const renderEntry = (entry: HealthEntry, label: string) => {
+        const percent = Math.round(entry.score * 100);
+        const barColor = percent >= 70 ? 'bg-green-500' : percent >= 40 ? 'bg-yellow-500' : 'bg-red-500';
+        return (
+            <div key={entry.id} className="text-xs">
+                <div className="flex justify-between items-center gap-2">
+                    <span className="font-mono truncate">{label}</span>
+                    <span className="flex items-center gap-1.5 flex-shrink-0">
+                        {entry.expired ? (
+                            <span className="text-red-500 font-semibold">{T.expired}</span>
+                        ) : entry.circuitOpen && (
+                            <span className="text-yellow-600 dark:text-yellow-400 font-semibold">{T.circuitOpen}</span>
+                        )}
+                        <span className="text-neutral-500">{entry.successes}/{entry.successes + entry.failures}</span>
+                        {entry.avgLatencyMs !== null && <span className="text-neutral-500">{(entry.avgLatencyMs / 1000).toFixed(1)}s</span>}
+                        <span className="font-semibold w-8 text-right">{percent}%</span>
+                    </span>
                 </div>
+                <div className="h-1 mt-1 bg-neutral-200 dark:bg-neutral-700 rounded-full overflow-hidden">
+                    <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }}></div>
+                </div>
+            </div>
+        );
+    };
+
+    const hasData = snapshot.servers.length > 0 || snapshot.tokens.length > 0;
+
+    return (
+        <div className="mt-4 pt-4 border-t border-neutral-200 dark:border-neutral-700">
+            <div className="flex justify-between items-center mb-2">
+                <h4 className="font-semibold text-sm">{T.connectionHealth}</h4>
+                {hasData && (
+                    <button onClick={resetHealthRegistry} className="text-xs text-primary-600 dark:text-primary-400 hover:underline">{T.resetScores}</button>
+                )}
             </div>
+            {!hasData ? (
+                <p className="text-xs text-neutral-500">{T.noHealthData}</p>
+            ) : (
+                <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-3 pr-1">
+                    {snapshot.servers.length > 0 && (
+                        <div className="space-y-2">
+                            <p className="text-xs font-bold text-neutral-500 uppercase">{T.servers}</p>
+                            {snapshot.servers.map(entry => renderEntry(entry, entry.id.replace('https://', '').replace('.monoklix.com', '').toUpperCase()))}
+                        </div>
+                    )}
+                    {snapshot.tokens.length > 0 && (
+                        <div className="space-y-2">
+                            <p className="text-xs font-bold text-neutral-500 uppercase">{T.tokens}</p>
+                            {snapshot.tokens.map(entry => renderEntry(entry, entry.id))}
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
 
-
 interface ApiKeyStatusProps {
-    activeApiKey: string | null;
-    veoTokenRefreshedAt: string | null;
+    isGeminiConfigured: boolean | null;
     currentUser: User;
-    assignTokenProcess: () => Promise<{ success: boolean; error: string | null; }>;
     onUserUpdate: (user: User) => void;
     onOpenChangeServerModal: () => void;
     language: Language;
 }
 
-const ApiKeyStatus: React.FC<ApiKeyStatusProps> = ({ activeApiKey, currentUser, assignTokenProcess, onUserUpdate, onOpenChangeServerModal, language }) => {
+const ApiKeyStatus: React.FC<ApiKeyStatusProps> = ({ isGeminiConfigured, currentUser, onUserUpdate, onOpenChangeServerModal, language }) => {
     // FIX: Removed the 'language' argument from getTranslations as it's not expected.
     const T = getTranslations().apiKeyStatus;
     const [isPopoverOpen, setIsPopoverOpen] = useState(false);
@@ -245,8 +125,7 @@ const ApiKeyStatus: React.FC<ApiKeyStatusProps> = ({ activeApiKey, currentUser,
     const [results, setResults] = useState<HealthCheckResult[] | null>(null);
     const popoverRef = useRef<HTMLDivElement>(null);
     
-    // New state for the robust token selection modal
-    const [isTokenSelectionOpen, setIsTokenSelectionOpen] = useState(false);
+    const [isTokenVaultOpen, setIsTokenVaultOpen] = useState(false);
 
     const [isEditingToken, setIsEditingToken] = useState(false);
     const [tokenInput, setTokenInput] = useState('');
@@ -329,14 +208,9 @@ const ApiKeyStatus: React.FC<ApiKeyStatusProps> = ({ activeApiKey, currentUser,
 
     return (
         <div className="relative" ref={popoverRef}>
-            {/* Replaced the old ClaimTokenModal with the new TokenSelectionModal */}
-            <TokenSelectionModal
-                isOpen={isTokenSelectionOpen}
-                onClose={() => setIsTokenSelectionOpen(false)}
-                currentUser={currentUser}
-                onUserUpdate={onUserUpdate}
-                assignTokenProcess={assignTokenProcess}
-                language={language}
+            <TokenVaultModal
+                isOpen={isTokenVaultOpen}
+                onClose={() => setIsTokenVaultOpen(false)}
             />
 
             <button
@@ -344,7 +218,7 @@ const ApiKeyStatus: React.FC<ApiKeyStatusProps> = ({ activeApiKey, currentUser,
                 className="p-2 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
                 aria-label={T.ariaLabel}
             >
-                <KeyIcon className={`w-5 h-5 ${activeApiKey ? 'text-green-500' : 'text-red-500'}`} />
+                <KeyIcon className={`w-5 h-5 ${isGeminiConfigured ? 'text-green-500' : 'text-red-500'}`} />
             </button>
 
             {isPopoverOpen && (
@@ -357,10 +231,10 @@ const ApiKeyStatus: React.FC<ApiKeyStatusProps> = ({ activeApiKey, currentUser,
                     <div className="space-y-3 text-sm">
                         <div className="flex justify-between items-center p-2 bg-neutral-100 dark:bg-neutral-800 rounded-md">
                             <span className="font-semibold text-neutral-600 dark:text-neutral-300">{T.sharedApiKey}:</span>
-                            {activeApiKey ? (
-                                <span className="font-mono text-green-600 dark:text-green-400">...{activeApiKey.slice(-4)}</span>
+                            {isGeminiConfigured ? (
+                                <span className="text-green-600 dark:text-green-400 font-semibold">{T.configured}</span>
                             ) : (
-                                <span className="text-red-500 font-semibold">{T.notLoaded}</span>
+                                <span className="text-red-500 font-semibold">{isGeminiConfigured === false ? T.notConfigured : T.notLoaded}</span>
                             )}
                         </div>
                         
@@ -436,7 +310,7 @@ const ApiKeyStatus: React.FC<ApiKeyStatusProps> = ({ activeApiKey, currentUser,
                         <div className="grid grid-cols-2 gap-3">
                              <button
                                 onClick={handleHealthCheck}
-                                disabled={isChecking || !activeApiKey}
+                                disabled={isChecking || !isGeminiConfigured}
                                 className="w-full flex items-center justify-center gap-2 bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 text-sm"
                             >
                                 {isChecking ? <Spinner /> : <RefreshCwIcon className="w-4 h-4" />}
@@ -444,14 +318,14 @@ const ApiKeyStatus: React.FC<ApiKeyStatusProps> = ({ activeApiKey, currentUser,
                             </button>
                              <button
                                 onClick={() => {
-                                    setIsTokenSelectionOpen(true);
+                                    setIsTokenVaultOpen(true);
                                     setIsPopoverOpen(false);
                                 }}
                                 disabled={isChecking}
                                 className="w-full flex items-center justify-center gap-2 bg-green-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 text-sm"
                             >
-                                 <SparklesIcon className="w-4 h-4" />
-                                {T.claimNew}
+                                 <KeyIcon className="w-4 h-4" />
+                                {T.tokenVault}
                             </button>
                         </div>
                          <a
@@ -465,6 +339,8 @@ const ApiKeyStatus: React.FC<ApiKeyStatusProps> = ({ activeApiKey, currentUser,
                         </a>
                     </div>
 
+                    <HealthScoresPanel />
+
                     {results && (
                         <div className="mt-4 pt-4 border-t border-neutral-200 dark:border-neutral-700 max-h-60 overflow-y-auto custom-scrollbar space-y-2">
                             {results.map((result, index) => {
@@ -1,10 +1,20 @@
-import React from 'react';
-import { type View, type NavItem, type User, UserStatus, Language } from '../types';
+import React, { useState, useEffect } from 'react';
+import { type View, type NavItem, type User, type GenerationJob, UserStatus, Language } from '../types';
 import {
-  ImageIcon, VideoIcon, SettingsIcon, BookOpenIcon, LogoutIcon, GalleryIcon, LogoIcon, XIcon, LibraryIcon, FileTextIcon, GraduationCapIcon, TrendingUpIcon, RobotIcon, MegaphoneIcon, DatabaseIcon, TelegramIcon, ActivityIcon, SparklesIcon
+  ImageIcon, VideoIcon, SettingsIcon, BookOpenIcon, LogoutIcon, GalleryIcon, LogoIcon, XIcon, LibraryIcon, FileTextIcon, GraduationCapIcon, TrendingUpIcon, RobotIcon, MegaphoneIcon, DatabaseIcon, TelegramIcon, ActivityIcon, SparklesIcon, CheckCircleIcon, AlertTriangleIcon, RefreshCwIcon
 } from './Icons';
 import { APP_VERSION } from '../services/appConfig';
 import { getTranslations } from '../services/translations';
+import { subscribeToJobs, removeJob, cancelJob, clearFinishedJobs, isJobActive } from '../services/jobService';
+import { hasPermission } from '../services/permissionService';
+import CreditMeter from './common/CreditMeter';
+
+// Maps the tool that started a job to the suite it lives in, so a tray entry can take the user back to it.
+const JOB_SOURCE_VIEWS: Record<string, View> = {
+    'video-generation': 'ai-video-suite',
+    'product-review': 'ai-video-suite',
+    'batch-processor': 'ai-video-suite',
+};
 
 
 const getNavItems = (language: Language): NavItem[] => {
@@ -20,8 +30,8 @@ const getNavItems = (language: Language): NavItem[] => {
         { id: 'ai-prompt-library-suite', label: T.promptLibrary, section: 'free', icon: LibraryIcon, isNew: true },
         { id: 'gallery', label: T.imageGallery, section: 'free', icon: GalleryIcon },  
         { id: 'support-group', label: T.supportGroup, section: 'bottom', icon: TelegramIcon, isExternal: true, url: 'https://t.me/+r_PkHl9yRck5NzJl' },
-        { id: 'master-dashboard', label: "Server Status", section: 'admin', icon: ActivityIcon, roles: ['admin'] },
-        { id: 'settings', label: T.settings, section: 'bottom', icon: SettingsIcon, roles: ['admin', 'user'] },
+        { id: 'master-dashboard', label: "Server Status", section: 'admin', icon: ActivityIcon, permission: 'servers.view' },
+        { id: 'settings', label: T.settings, section: 'bottom', icon: SettingsIcon },
         { id: 'logout', label: T.logout, section: 'bottom', icon: LogoutIcon }
     ];
 };
@@ -42,6 +52,9 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView, onLogout,
   const navItems = getNavItems(language);
   // FIX: Remove the `language` argument from `getTranslations` call to match the function signature.
   const T = getTranslations().sidebar;
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+
+  useEffect(() => subscribeToJobs(setJobs), []);
 
   const handleItemClick = async (viewId: View | 'logout') => {
     if (viewId === 'logout') {
@@ -141,7 +154,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView, onLogout,
   const renderSection = (section: NavItem['section'], title?: string) => {
     const filteredItems = navItems.filter(item => {
         if (item.section !== section) return false;
-        if (item.roles && !item.roles.includes(currentUser.role)) return false;
+        if (item.permission && !hasPermission(item.permission, currentUser)) return false;
         if (item.disabledForStatus && item.disabledForStatus.includes(currentUser.status)) return false;
         if (item.hideForStatus && item.hideForStatus.includes(currentUser.status)) return false;
         return true;
@@ -159,6 +172,50 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView, onLogout,
     );
   }
 
+  const renderJobStatusIcon = (job: GenerationJob) => {
+    if (isJobActive(job)) return <RefreshCwIcon className="w-4 h-4 text-primary-500 animate-spin" />;
+    if (job.status === 'completed') return <CheckCircleIcon className="w-4 h-4 text-green-500" />;
+    if (job.status === 'cancelled') return <XIcon className="w-4 h-4 text-neutral-400" />;
+    return <AlertTriangleIcon className="w-4 h-4 text-red-500" />;
+  };
+
+  const renderJobsTray = () => {
+    if (jobs.length === 0) return null;
+    const hasFinishedJobs = jobs.some(job => !isJobActive(job));
+
+    return (
+      <div className="mb-4">
+        <div className="flex items-center justify-between px-4 pb-2">
+          <h3 className="text-xs font-bold text-neutral-400 dark:text-neutral-500 uppercase tracking-wide">{T.backgroundJobs}</h3>
+          {hasFinishedJobs && (
+            <button onClick={clearFinishedJobs} className="text-xs text-primary-600 dark:text-primary-400 hover:underline">{T.clearFinishedJobs}</button>
+          )}
+        </div>
+        <ul className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+          {jobs.map(job => (
+            <li key={job.id} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-neutral-100 dark:bg-neutral-800/50">
+              <span className="flex-shrink-0">{renderJobStatusIcon(job)}</span>
+              <button
+                onClick={() => JOB_SOURCE_VIEWS[job.sourceView] && handleItemClick(JOB_SOURCE_VIEWS[job.sourceView])}
+                className="flex-1 min-w-0 text-left"
+              >
+                <p className="text-xs font-semibold text-neutral-700 dark:text-neutral-200 truncate">{job.label}</p>
+                <p className={`text-xs truncate ${job.status === 'failed' ? 'text-red-500' : 'text-neutral-500'}`}>{job.status === 'failed' ? job.error : job.statusMessage}</p>
+              </button>
+              {isJobActive(job) ? (
+                <button onClick={() => cancelJob(job.id)} className="flex-shrink-0 text-xs text-red-500 hover:underline">{T.cancelJob}</button>
+              ) : (
+                <button onClick={() => removeJob(job.id)} className="flex-shrink-0 p-1 text-neutral-400 hover:text-neutral-700 dark:hover:text-white" aria-label={T.dismissJob}>
+                  <XIcon className="w-3 h-3" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
   return (
     <>
       {/* Overlay for mobile */}
@@ -187,6 +244,8 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView, onLogout,
         </div>
         
         <div className="mt-auto pt-4 border-t border-neutral-200 dark:border-neutral-800">
+          {renderJobsTray()}
+          <div className="mb-3"><CreditMeter /></div>
           {renderSection('bottom')}
           <p className="mt-4 text-center text-neutral-500 dark:text-neutral-600 text-xs">© 2025 MONOklix.com ({APP_VERSION})</p>
         </div>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { runApiHealthCheck, type HealthCheckResult } from '../../services/geminiService';
+import { runApiHealthCheck, getGeminiStatus, type HealthCheckResult } from '../../services/geminiService';
 import { XIcon, CheckCircleIcon, AlertTriangleIcon, RefreshCwIcon } from '../Icons';
 import Spinner from './Spinner';
 import { type User, type Language } from '../../types';
@@ -15,27 +15,28 @@ interface ApiHealthCheckModalProps {
 const ApiHealthCheckModal: React.FC<ApiHealthCheckModalProps> = ({ isOpen, onClose, user, language }) => {
     const [isChecking, setIsChecking] = useState(true);
     const [results, setResults] = useState<HealthCheckResult[] | null>(null);
-    const [activeApiKey, setActiveApiKey] = useState<string | null | undefined>(null);
+    // The user's key suffix, a note that the server's key is in use, or null when there is none
+    const [activeKeyLabel, setActiveKeyLabel] = useState<string | null>(null);
     // FIX: Remove `language` argument from `getTranslations` call.
     const T = getTranslations().apiHealthCheckModal;
 
     const handleHealthCheck = async () => {
         setIsChecking(true);
         setResults(null);
-        let keyToCheck: string | null | undefined;
-        if (user) {
-            // We are checking a specific user, so ONLY use their key.
-            keyToCheck = user.apiKey;
-        } else {
-            // This is a general check for the currently active session key.
-            keyToCheck = sessionStorage.getItem('monoklix_session_api_key');
-        }
-        setActiveApiKey(keyToCheck);
+        setActiveKeyLabel(user?.apiKey ? `...${user.apiKey.slice(-4)}` : null);
         
         try {
-            const checkResults = await runApiHealthCheck({
-                textKey: keyToCheck || undefined,
-            });
+            let checkResults: HealthCheckResult[];
+            if (user) {
+                // We are checking a specific user, so ONLY use their key. The server runs the check.
+                if (!user.apiKey) throw new Error(T.noKey);
+                checkResults = await runApiHealthCheck({ apiKey: user.apiKey });
+            } else {
+                // This is a general check of the key held by the server.
+                const { configured } = await getGeminiStatus();
+                setActiveKeyLabel(configured ? T.serverKey : null);
+                checkResults = await runApiHealthCheck();
+            }
             setResults(checkResults);
         } catch (error) {
             setResults([{ service: T.failed, model: 'N/A', status: 'error', message: error instanceof Error ? error.message : T.unknownError }]);
@@ -116,8 +117,8 @@ const ApiHealthCheckModal: React.FC<ApiHealthCheckModalProps> = ({ isOpen, onClo
                             )}
                             <div className="flex justify-between items-center p-2 bg-neutral-100 dark:bg-neutral-800 rounded-md text-sm">
                                 <span className="font-semibold text-neutral-600 dark:text-neutral-300">{T.activeKey}</span>
-                                {activeApiKey ? (
-                                    <span className="font-mono text-green-600 dark:text-green-400">...{activeApiKey.slice(-4)}</span>
+                                {activeKeyLabel ? (
+                                    <span className="font-mono text-green-600 dark:text-green-400">{activeKeyLabel}</span>
                                 ) : (
                                     <span className="text-red-500 font-semibold">{user ? T.noKey : T.notSet}</span>
                                 )}
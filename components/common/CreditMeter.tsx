@@ -0,0 +1,78 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { getTranslations } from '../../services/translations';
+import { getVeoProxyUrl } from '../../services/apiClient';
+import { fetchCreditSummary, type CreditOperation, type CreditSummary } from '../../services/creditService';
+import eventBus from '../../services/eventBus';
+
+interface CreditMeterProps {
+    // The sidebar shows only the bar; Settings also lists what each generation costs.
+    showCosts?: boolean;
+}
+
+const OPERATION_ORDER: CreditOperation[] = ['veo_standard', 'veo_fast', 'imagen_generate', 'imagen_recipe', 'tts'];
+
+/**
+ * The signed-in user's credits for this month. Renders nothing when the proxy has no credit ledger.
+ */
+const CreditMeter: React.FC<CreditMeterProps> = ({ showCosts = false }) => {
+    const T = getTranslations().creditMeter;
+    const [summary, setSummary] = useState<CreditSummary | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setSummary(await fetchCreditSummary(getVeoProxyUrl()));
+        } catch (e) {
+            console.warn('🪙 [Credits] Could not load the credit balance.', e);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+        eventBus.on('creditsUpdated', refresh);
+        return () => eventBus.remove('creditsUpdated', refresh);
+    }, [refresh]);
+
+    if (!summary) return null;
+
+    const isUnlimited = summary.allowance === null || summary.remaining === null;
+    const usedPercent = isUnlimited || !summary.allowance ? 0 : Math.min(100, Math.round((summary.used / summary.allowance) * 100));
+    const barColor = usedPercent >= 90 ? 'bg-red-500' : usedPercent >= 70 ? 'bg-yellow-500' : 'bg-primary-500';
+
+    return (
+        <div className="p-3 bg-neutral-100 dark:bg-neutral-800/50 rounded-lg">
+            <div className="flex justify-between items-baseline text-sm">
+                <span className="font-semibold">{T.title}</span>
+                <span className="text-neutral-600 dark:text-neutral-400">
+                    {isUnlimited ? T.unlimited : T.remaining.replace('{remaining}', String(summary.remaining))}
+                </span>
+            </div>
+            {!isUnlimited && (
+                <>
+                    <div className="mt-2 h-2 w-full bg-neutral-200 dark:bg-neutral-700 rounded-full overflow-hidden">
+                        <div className={`h-full ${barColor} transition-all`} style={{ width: `${usedPercent}%` }}></div>
+                    </div>
+                    <div className="mt-1 flex justify-between text-xs text-neutral-500">
+                        <span>{T.usage.replace('{used}', String(summary.used)).replace('{allowance}', String(summary.allowance))}</span>
+                        <span>{T.resetsOn.replace('{date}', new Date(summary.resetsAt).toLocaleDateString())}</span>
+                    </div>
+                </>
+            )}
+            {showCosts && (
+                <div className="mt-4">
+                    <p className="text-xs font-semibold text-neutral-600 dark:text-neutral-400 mb-1">{T.costsTitle}</p>
+                    <ul className="text-xs text-neutral-600 dark:text-neutral-400 space-y-1">
+                        {OPERATION_ORDER.map(operation => (
+                            <li key={operation} className="flex justify-between">
+                                <span>{T.operations[operation]}</span>
+                                <span className="font-mono">{summary.costs[operation] ?? 0}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    <p className="text-xs text-neutral-500 mt-2">{T.personalTokenNote}</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CreditMeter;
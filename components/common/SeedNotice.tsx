@@ -0,0 +1,29 @@
+import React from 'react';
+import { getTranslations } from '../../services/translations';
+import { RefreshCwIcon } from '../Icons';
+
+interface SeedNoticeProps {
+    seed: number | null;
+    onClear: () => void;
+}
+
+/**
+ * Tells the user a regenerated item's seed is being reused, with a way back to random seeds.
+ * Renders nothing when no seed is kept.
+ */
+const SeedNotice: React.FC<SeedNoticeProps> = ({ seed, onClear }) => {
+    const T = getTranslations().seedNotice;
+    if (seed === null) return null;
+
+    return (
+        <div className="flex items-center justify-between gap-2 p-3 mb-4 text-sm bg-primary-50 dark:bg-primary-900/20 text-primary-800 dark:text-primary-200 rounded-lg">
+            <span>{T.keptSeed.replace('{seed}', String(seed))}</span>
+            <button onClick={onClear} className="flex items-center gap-1 font-semibold hover:underline flex-shrink-0">
+                <RefreshCwIcon className="w-4 h-4" />
+                {T.newSeed}
+            </button>
+        </div>
+    );
+};
+
+export default SeedNotice;
@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CheckCircleIcon, XIcon, AlertTriangleIcon, RefreshCwIcon, KeyIcon } from '../Icons';
+import Spinner from './Spinner';
+import { getTranslations } from '../../services/translations';
+import { getVeoProxyUrl } from '../../services/apiClient';
+import { fetchVaultStatus, toVaultToken, type VaultStatus, type VaultTokenStatus } from '../../services/tokenVaultService';
+import { runComprehensiveTokenTest, type TokenTestResult } from '../../services/imagenV3Service';
+
+interface TokenVaultStatusProps {
+    // Defaults to the user's selected proxy server.
+    serverUrl?: string;
+    // Shows a Test button per token that runs an Imagen and Veo request pinned to it.
+    allowTesting?: boolean;
+}
+
+const STATE_STYLES: Record<VaultTokenStatus['state'], string> = {
+    available: 'bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300',
+    cooling_down: 'bg-yellow-100 dark:bg-yellow-900/50 text-yellow-700 dark:text-yellow-300',
+    expired: 'bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300',
+};
+
+/**
+ * Read-only view of the shared token pool held by a proxy's token vault. Token values never
+ * reach the browser; tokens are identified by the vault's opaque IDs.
+ */
+const TokenVaultStatus: React.FC<TokenVaultStatusProps> = ({ serverUrl, allowTesting = false }) => {
+    const T = getTranslations().tokenVaultStatus;
+    const targetServer = serverUrl || getVeoProxyUrl();
+    const [status, setStatus] = useState<VaultStatus | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [testingId, setTestingId] = useState<string | null>(null);
+    const [testResults, setTestResults] = useState<Map<string, TokenTestResult[]>>(new Map());
+
+    const refresh = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setStatus(await fetchVaultStatus(targetServer, AbortSignal.timeout(10000)));
+        } catch (e) {
+            console.error('[Token Vault] Failed to load status', e);
+            setError(e instanceof Error ? e.message : T.loadFail);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [targetServer, T.loadFail]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleTest = async (tokenId: string) => {
+        setTestingId(tokenId);
+        const results = await runComprehensiveTokenTest(toVaultToken(tokenId));
+        setTestResults(prev => new Map(prev).set(tokenId, results));
+        setTestingId(null);
+        refresh();
+    };
+
+    const stateLabel = (state: VaultTokenStatus['state']) =>
+        state === 'available' ? T.available : state === 'cooling_down' ? T.coolingDown : T.expired;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex justify-between items-center gap-2">
+                <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                    {T.server}: <span className="font-mono">{targetServer.replace('https://', '')}</span>
+                </p>
+                <button onClick={refresh} disabled={isLoading} className="flex items-center gap-1.5 text-xs font-semibold py-1.5 px-3 rounded-full bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600 disabled:opacity-50">
+                    {isLoading ? <Spinner /> : <RefreshCwIcon className="w-3 h-3" />}
+                    {T.refresh}
+                </button>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-md flex items-center gap-2 border border-red-200 dark:border-red-800">
+                    <AlertTriangleIcon className="w-5 h-5 text-red-500 flex-shrink-0" />
+                    <p className="text-xs text-red-700 dark:text-red-300">{error}</p>
+                </div>
+            )}
+
+            {status && (
+                <>
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                        <div className="p-2 rounded-md bg-green-50 dark:bg-green-900/20">
+                            <p className="text-lg font-bold text-green-700 dark:text-green-300">{status.available}</p>
+                            <p className="text-[10px] uppercase font-semibold text-neutral-500">{T.available}</p>
+                        </div>
+                        <div className="p-2 rounded-md bg-yellow-50 dark:bg-yellow-900/20">
+                            <p className="text-lg font-bold text-yellow-700 dark:text-yellow-300">{status.coolingDown}</p>
+                            <p className="text-[10px] uppercase font-semibold text-neutral-500">{T.coolingDown}</p>
+                        </div>
+                        <div className="p-2 rounded-md bg-red-50 dark:bg-red-900/20">
+                            <p className="text-lg font-bold text-red-700 dark:text-red-300">{status.expired}</p>
+                            <p className="text-[10px] uppercase font-semibold text-neutral-500">{T.expired}</p>
+                        </div>
+                    </div>
+
+                    {status.tokens.length === 0 ? (
+                        <p className="text-xs text-neutral-500 p-3 bg-neutral-100 dark:bg-neutral-800 rounded-md">{T.noTokens}</p>
+                    ) : (
+                        <div className="max-h-72 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+                            {status.tokens.map((token: VaultTokenStatus) => {
+                                const results = testResults.get(token.id);
+                                return (
+                                    <div key={token.id} className="p-2 rounded-md border bg-neutral-50 dark:bg-neutral-800/50 border-neutral-200 dark:border-neutral-700 text-xs">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="flex items-center gap-2 font-mono min-w-0">
+                                                <KeyIcon className="w-3 h-3 flex-shrink-0 opacity-60" />
+                                                <span className="truncate">{T.token} {token.id.substring(0, 8)}</span>
+                                            </span>
+                                            <span className="flex items-center gap-2 flex-shrink-0">
+                                                <span className="text-neutral-500">{T.successes} {token.successes} · {T.failures} {token.failures}</span>
+                                                <span className={`px-2 py-0.5 rounded-full font-semibold ${STATE_STYLES[token.state]}`}>
+                                                    {stateLabel(token.state)}
+                                                </span>
+                                                {allowTesting && (
+                                                    <button onClick={() => handleTest(token.id)} disabled={testingId !== null || token.state === 'expired'} className="w-12 flex justify-center font-semibold py-0.5 px-2 rounded-full bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600 disabled:opacity-50">
+                                                        {testingId === token.id ? <Spinner /> : T.test}
+                                                    </button>
+                                                )}
+                                            </span>
+                                        </div>
+                                        <p className="text-[10px] text-neutral-500 mt-1">
+                                            {T.lastUsed}: {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleTimeString() : T.never}
+                                            {token.cooldownSeconds > 0 && ` · ${T.cooldown.replace('{seconds}', String(token.cooldownSeconds))}`}
+                                        </p>
+                                        {results && (
+                                            <div className="flex gap-3 mt-1">
+                                                {results.map(result => (
+                                                    <span key={result.service} title={result.message} className={`flex items-center gap-1 font-semibold ${result.success ? 'text-green-600' : 'text-red-500'}`}>
+                                                        {result.success ? <CheckCircleIcon className="w-3 h-3" /> : <XIcon className="w-3 h-3" />}
+                                                        {result.service}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default TokenVaultStatus;
@@ -1,11 +1,13 @@
 import React from 'react';
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { getAllUsers, updateUserStatus, replaceUsers, exportAllUserData, forceUserLogout, updateUserSubscription, saveUserPersonalAuthToken, addNewUser, removeUser, updateUserBatch02 } from '../../services/userService';
+import { getAllUsers, updateUserStatus, replaceUsers, exportAllUserData, forceUserLogout, updateUserSubscription, renewUserSubscriptions, saveUserPersonalAuthToken, addNewUser, removeUser, updateUserBatch02 } from '../../services/userService';
 import { type User, type UserStatus, type UserRole, type Language } from '../../types';
 import { UsersIcon, XIcon, DownloadIcon, UploadIcon, CheckCircleIcon, AlertTriangleIcon, VideoIcon, TrashIcon, DatabaseIcon, KeyIcon } from '../Icons';
 import Spinner from '../common/Spinner';
 import ApiHealthCheckModal from '../common/ApiHealthCheckModal';
 import ConfirmationModal from '../common/ConfirmationModal';
+import { hasPermission, ROLE_LABELS } from '../../services/permissionService';
+import { getExpiringUsers, getSubscriptionState, RENEWAL_WARNING_DAYS } from '../../services/subscriptionService';
 
 const formatStatus = (user: User): { text: string; color: 'green' | 'yellow' | 'red' | 'blue' } => {
     switch(user.status) {
@@ -205,6 +207,120 @@ const UsageDashboard: React.FC<{ users: User[] }> = ({ users }) => {
 };
 
 
+const ExpiringSubscriptions: React.FC<{ users: User[]; canRenew: boolean; onRenew: (users: User[], months: 6 | 12) => Promise<void> }> = ({ users, canRenew, onRenew }) => {
+    const expiringUsers = useMemo(() => getExpiringUsers(users.filter(u => u.role !== 'admin')), [users]);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [renewMonths, setRenewMonths] = useState<6 | 12>(6);
+    const [isRenewing, setIsRenewing] = useState(false);
+
+    // Drop selections for users who renewed or left the list since.
+    useEffect(() => {
+        setSelectedIds(prev => new Set(expiringUsers.filter(u => prev.has(u.id)).map(u => u.id)));
+    }, [expiringUsers]);
+
+    if (expiringUsers.length === 0) return null;
+
+    const allSelected = selectedIds.size === expiringUsers.length;
+
+    const toggleUser = (userId: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(userId)) next.delete(userId);
+            else next.add(userId);
+            return next;
+        });
+    };
+
+    const handleRenew = async () => {
+        const selectedUsers = expiringUsers.filter(u => selectedIds.has(u.id));
+        if (selectedUsers.length === 0) return;
+        setIsRenewing(true);
+        await onRenew(selectedUsers, renewMonths);
+        setIsRenewing(false);
+        setSelectedIds(new Set());
+    };
+
+    return (
+        <div className="bg-white dark:bg-neutral-900 p-6 rounded-lg shadow-sm mb-8">
+            <div className="flex justify-between items-center mb-4 flex-wrap gap-4">
+                <div className="flex items-center gap-2">
+                    <AlertTriangleIcon className="w-5 h-5 text-yellow-500" />
+                    <h3 className="text-xl font-semibold text-neutral-800 dark:text-neutral-200">Expiring Soon ({expiringUsers.length})</h3>
+                </div>
+                {canRenew && (
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={renewMonths}
+                            onChange={(e) => setRenewMonths(Number(e.target.value) as 6 | 12)}
+                            className="text-sm bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg p-2 focus:ring-2 focus:ring-primary-500 focus:outline-none"
+                        >
+                            <option value={6}>6 Months</option>
+                            <option value={12}>12 Months</option>
+                        </select>
+                        <button
+                            onClick={handleRenew}
+                            disabled={selectedIds.size === 0 || isRenewing}
+                            className="flex items-center justify-center gap-2 text-sm bg-primary-600 text-white font-semibold py-2 px-3 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 w-40"
+                        >
+                            {isRenewing ? <Spinner /> : `Renew Selected (${selectedIds.size})`}
+                        </button>
+                    </div>
+                )}
+            </div>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-4">
+                Subscriptions and trials ending in the next {RENEWAL_WARNING_DAYS} days, and subscriptions that have already run out. Renewing extends a running subscription from its end date.
+            </p>
+            <div className="overflow-x-auto max-h-72 custom-scrollbar">
+                <table className="w-full text-sm text-left text-neutral-500 dark:text-neutral-400">
+                    <thead className="text-xs text-neutral-700 uppercase bg-neutral-100 dark:bg-neutral-800/50 dark:text-neutral-400">
+                        <tr>
+                            {canRenew && (
+                                <th scope="col" className="px-4 py-3">
+                                    <input
+                                        type="checkbox"
+                                        checked={allSelected}
+                                        onChange={() => setSelectedIds(allSelected ? new Set() : new Set(expiringUsers.map(u => u.id)))}
+                                        aria-label="Select all"
+                                    />
+                                </th>
+                            )}
+                            <th scope="col" className="px-6 py-3">Email</th>
+                            <th scope="col" className="px-6 py-3">Status</th>
+                            <th scope="col" className="px-6 py-3">Ends</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {expiringUsers.map(user => {
+                            const { text, color } = formatStatus(user);
+                            const state = getSubscriptionState(user);
+                            return (
+                                <tr key={user.id} className="bg-white dark:bg-neutral-950 border-b dark:border-neutral-800">
+                                    {canRenew && (
+                                        <td className="px-4 py-3">
+                                            <input type="checkbox" checked={selectedIds.has(user.id)} onChange={() => toggleUser(user.id)} aria-label={`Select ${user.email}`} />
+                                        </td>
+                                    )}
+                                    <td className="px-6 py-3 font-medium text-neutral-900 dark:text-white">{user.email || '-'}</td>
+                                    <td className="px-6 py-3">
+                                        <span className={`px-2 py-1 rounded-full text-xs font-semibold ${statusColors[color]}`}>{text}</span>
+                                    </td>
+                                    <td className="px-6 py-3">
+                                        {state.expiresAt ? new Date(state.expiresAt).toLocaleDateString() : '-'}
+                                        {state.phase === 'expired'
+                                            ? <span className="text-red-500 font-bold"> (Expired)</span>
+                                            : <span className="text-yellow-600 dark:text-yellow-400"> ({state.daysLeft} day(s) left)</span>}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+
 const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) => {
     const [users, setUsers] = useState<User[] | null>([]);
     const [loading, setLoading] = useState(true);
@@ -212,6 +328,7 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [selectedUser, setSelectedUser] = useState<User | null>(null);
     const [newStatus, setNewStatus] = useState<UserStatus>('trial');
+    const canEdit = hasPermission('users.edit');
     const [subscriptionDuration, setSubscriptionDuration] = useState<6 | 12>(6);
     const [personalToken, setPersonalToken] = useState<string>('');
     const [batch02, setBatch02] = useState<string>('');
@@ -320,6 +437,18 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
         setTimeout(() => setStatusMessage(null), 5000);
     };
     
+    const handleBulkRenew = async (usersToRenew: User[], months: 6 | 12) => {
+        setStatusMessage({ type: 'loading', message: `Renewing ${usersToRenew.length} subscription(s)...` });
+        const { renewed, failed } = await renewUserSubscriptions(usersToRenew, months);
+        if (failed > 0) {
+            setStatusMessage({ type: 'error', message: `Renewed ${renewed} subscription(s) for ${months} months. ${failed} failed.` });
+        } else {
+            setStatusMessage({ type: 'success', message: `Renewed ${renewed} subscription(s) for ${months} months.` });
+        }
+        fetchUsers();
+        setTimeout(() => setStatusMessage(null), 5000);
+    };
+
     const handleForceLogout = () => {
         if (!selectedUser) return;
         setIsConfirmLogoutOpen(true);
@@ -509,6 +638,7 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
     return (
         <>
             {users && <UsageDashboard users={users} />}
+            {users && <ExpiringSubscriptions users={users} canRenew={canEdit} onRenew={handleBulkRenew} />}
             <div className="bg-white dark:bg-neutral-900 p-6 rounded-lg shadow-sm">
                 <h2 className="text-xl font-semibold mb-2">User Database</h2>
                 <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-6">Manage users, subscriptions, and database backups.</p>
@@ -533,19 +663,27 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
                             <CheckCircleIcon className="w-4 h-4" />
                             API Health Summary
                         </button>
+                        {hasPermission('users.create') && (
                         <button onClick={() => setIsAddUserModalOpen(true)} className="flex items-center gap-2 text-sm bg-green-600 text-white font-semibold py-2 px-3 rounded-lg hover:bg-green-700 transition-colors">
                             <UsersIcon className="w-4 h-4" />
                             Add User
                         </button>
+                        )}
+                        {hasPermission('users.import') && (
+                        <>
                         <input type="file" ref={fileInputRef} onChange={handleFileImport} accept=".json" className="hidden" />
                         <button onClick={handleImportClick} className="flex items-center gap-2 text-sm bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-200 font-semibold py-2 px-3 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors">
                             <UploadIcon className="w-4 h-4" />
                             Import
                         </button>
+                        </>
+                        )}
+                        {hasPermission('users.export') && (
                         <button onClick={handleExport} className="flex items-center gap-2 text-sm bg-primary-600 text-white font-semibold py-2 px-3 rounded-lg hover:bg-primary-700 transition-colors">
                             <DownloadIcon className="w-4 h-4" />
                             Export
                         </button>
+                        )}
                     </div>
                 </div>
 
@@ -647,7 +785,7 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
                                                         <span className={`px-2 py-1 rounded-full text-xs font-semibold ${statusColors[color]}`}>
                                                             {text}
                                                         </span>
-                                                        {user.status === 'subscription' && user.subscriptionExpiry && (
+                                                        {(user.status === 'subscription' || user.status === 'trial') && user.subscriptionExpiry && (
                                                             <div className="text-xs text-neutral-500 mt-1">
                                                                 Expires: {new Date(user.subscriptionExpiry).toLocaleDateString()}
                                                                 {Date.now() > user.subscriptionExpiry && <span className="text-red-500 font-bold"> (Expired)</span>}
@@ -734,8 +872,9 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
                                 <div>
                                     <label htmlFor="new-role" className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-1">Role</label>
                                     <select id="new-role" value={newUser.role} onChange={(e) => setNewUser({...newUser, role: e.target.value as UserRole})} className="w-full bg-neutral-50 dark:bg-neutral-700 border border-neutral-300 dark:border-neutral-600 rounded-lg p-2">
-                                        <option value="user">User</option>
-                                        <option value="admin">Admin</option>
+                                        {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                                        ))}
                                     </select>
                                 </div>
                             </div>
@@ -772,6 +911,7 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
                                     id="status-select"
                                     value={newStatus}
                                     onChange={(e) => setNewStatus(e.target.value as UserStatus)}
+                                    disabled={!canEdit}
                                     className="w-full bg-neutral-50 dark:bg-neutral-700 border border-neutral-300 dark:border-neutral-600 rounded-lg p-2 focus:ring-2 focus:ring-primary-500 focus:outline-none"
                                 >
                                     <option value="trial">Trial</option>
@@ -789,6 +929,7 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
                                     type="text"
                                     value={personalToken}
                                     onChange={(e) => setPersonalToken(e.target.value)}
+                                    disabled={!canEdit}
                                     placeholder="User's personal __SESSION token"
                                     className="w-full bg-neutral-50 dark:bg-neutral-700 border border-neutral-300 dark:border-neutral-600 rounded-lg p-2 focus:ring-2 focus:ring-primary-500 focus:outline-none font-mono text-xs"
                                 />
@@ -802,6 +943,7 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
                                     type="text"
                                     value={batch02}
                                     onChange={(e) => setBatch02(e.target.value)}
+                                    disabled={!canEdit}
                                     placeholder="e.g., batch_02"
                                     className="w-full bg-neutral-50 dark:bg-neutral-700 border border-neutral-300 dark:border-neutral-600 rounded-lg p-2 focus:ring-2 focus:ring-primary-500 focus:outline-none"
                                 />
@@ -826,6 +968,7 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
                         </div>
                         <div className="mt-6 flex justify-between items-center">
                             <div className="flex gap-2">
+                                {hasPermission('users.forceLogout') && (
                                 <button
                                     onClick={handleForceLogout}
                                     className="px-4 py-2 text-sm font-semibold text-white bg-yellow-600 rounded-lg hover:bg-yellow-700 transition-colors flex items-center gap-2"
@@ -833,6 +976,8 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
                                     <XIcon className="w-4 h-4" />
                                     Force Logout
                                 </button>
+                                )}
+                                {hasPermission('users.remove') && (
                                 <button
                                     onClick={handleRemoveUser}
                                     className="px-4 py-2 text-sm font-semibold text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors flex items-center gap-2"
@@ -840,6 +985,7 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
                                     <TrashIcon className="w-4 h-4" />
                                     Remove User
                                 </button>
+                                )}
                             </div>
                             <div className="flex gap-2">
                                 <button
@@ -848,12 +994,14 @@ const AdminDashboardView: React.FC<AdminDashboardViewProps> = ({ language }) =>
                                 >
                                     Cancel
                                 </button>
+                                {canEdit && (
                                 <button
                                     onClick={handleSaveChanges}
                                     className="px-4 py-2 text-sm font-semibold text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors"
                                 >
                                     Save Changes
                                 </button>
+                                )}
                             </div>
                         </div>
                     </div>
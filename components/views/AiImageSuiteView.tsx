@@ -5,10 +5,21 @@ import BackgroundRemoverView from './BackgroundRemoverView';
 import ProductPhotoView from './ProductPhotoView';
 import TiktokAffiliateView from './TiktokAffiliateView';
 import Tabs, { type Tab } from '../common/Tabs';
-import { type Language, type User } from '../../types';
+import { type GenerationPreset, type GenerationSourceView, type Language, type User } from '../../types';
 
 type TabId = 'generation' | 'enhancer' | 'remover' | 'product' | 'model';
 
+const PRESET_TABS: Partial<Record<GenerationSourceView, TabId>> = {
+    'image-generation': 'generation',
+    'product-photo': 'product',
+    'tiktok-affiliate': 'model',
+    'image-enhancer': 'enhancer',
+    'background-remover': 'remover',
+};
+
+const getPresetTab = (preset: GenerationPreset | null): TabId | undefined =>
+    preset ? PRESET_TABS[preset.metadata.sourceView] : undefined;
+
 interface VideoGenPreset {
   prompt: string;
   image: { base64: string; mimeType: string; };
@@ -26,12 +37,14 @@ interface AiImageSuiteViewProps {
   clearReEdit: () => void;
   presetPrompt: string | null;
   clearPresetPrompt: () => void;
+  generationPreset: GenerationPreset | null;
+  clearGenerationPreset: () => void;
   currentUser: User;
   onUserUpdate: (user: User) => void;
   language: Language;
 }
 
-const AiImageSuiteView: React.FC<AiImageSuiteViewProps> = ({ onCreateVideo, onReEdit, imageToReEdit, clearReEdit, presetPrompt, clearPresetPrompt, currentUser, onUserUpdate, language }) => {
+const AiImageSuiteView: React.FC<AiImageSuiteViewProps> = ({ onCreateVideo, onReEdit, imageToReEdit, clearReEdit, presetPrompt, clearPresetPrompt, generationPreset, clearGenerationPreset, currentUser, onUserUpdate, language }) => {
     const [activeTab, setActiveTab] = useState<TabId>('generation');
 
     const tabs: Tab<TabId>[] = [
@@ -54,8 +67,21 @@ const AiImageSuiteView: React.FC<AiImageSuiteViewProps> = ({ onCreateVideo, onRe
         }
     }, [presetPrompt]);
 
+    const presetTab = getPresetTab(generationPreset);
+
+    useEffect(() => {
+        if (presetTab) {
+            setActiveTab(presetTab);
+        }
+    }, [presetTab, generationPreset]);
+
     const renderActiveTabContent = () => {
-        const commonProps = { onReEdit, onCreateVideo, currentUser, onUserUpdate, language };
+        // Only the tool the preset came from gets it, once its tab is showing
+        const commonProps = {
+            onReEdit, onCreateVideo, currentUser, onUserUpdate, language,
+            generationPreset: presetTab === activeTab ? generationPreset : null,
+            clearGenerationPreset,
+        };
         switch (activeTab) {
             case 'generation':
                 return <ImageGenerationView 
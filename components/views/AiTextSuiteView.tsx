@@ -3,16 +3,27 @@ import ContentIdeasView from './ContentIdeasView';
 import MarketingCopyView from './MarketingCopyView';
 import StaffMonoklixView from './StaffMonoklixView';
 import Tabs, { type Tab } from '../common/Tabs';
-import { type User, type Language } from '../../types';
+import { type GenerationPreset, type GenerationSourceView, type User, type Language } from '../../types';
 
 type TabId = 'staff-monoklix' | 'content-ideas' | 'marketing-copy';
 
+const PRESET_TABS: Partial<Record<GenerationSourceView, TabId>> = {
+    'staff-monoklix': 'staff-monoklix',
+    'content-ideas': 'content-ideas',
+    'marketing-copy': 'marketing-copy',
+};
+
+const getPresetTab = (preset: GenerationPreset | null): TabId | undefined =>
+    preset ? PRESET_TABS[preset.metadata.sourceView] : undefined;
+
 interface AiTextSuiteViewProps {
     currentUser: User;
+    generationPreset: GenerationPreset | null;
+    clearGenerationPreset: () => void;
     language: Language;
 }
 
-const AiTextSuiteView: React.FC<AiTextSuiteViewProps> = ({ currentUser, language }) => {
+const AiTextSuiteView: React.FC<AiTextSuiteViewProps> = ({ currentUser, generationPreset, clearGenerationPreset, language }) => {
     const [activeTab, setActiveTab] = useState<TabId>('staff-monoklix');
 
     const tabs: Tab<TabId>[] = [
@@ -21,16 +32,30 @@ const AiTextSuiteView: React.FC<AiTextSuiteViewProps> = ({ currentUser, language
         { id: 'marketing-copy', label: "Marketing Copy" },
     ];
 
+    const presetTab = getPresetTab(generationPreset);
+
+    useEffect(() => {
+        if (presetTab) {
+            setActiveTab(presetTab);
+        }
+    }, [presetTab, generationPreset]);
+
     const renderActiveTabContent = () => {
+        // Only the tool the preset came from gets it, once its tab is showing
+        const commonProps = {
+            language,
+            generationPreset: presetTab === activeTab ? generationPreset : null,
+            clearGenerationPreset,
+        };
         switch (activeTab) {
             case 'staff-monoklix':
-                return <StaffMonoklixView language={language} />;
+                return <StaffMonoklixView {...commonProps} />;
             case 'content-ideas':
-                return <ContentIdeasView language={language} />;
+                return <ContentIdeasView {...commonProps} />;
             case 'marketing-copy':
-                return <MarketingCopyView language={language} />;
+                return <MarketingCopyView {...commonProps} />;
             default:
-                return <StaffMonoklixView language={language} />;
+                return <StaffMonoklixView {...commonProps} />;
         }
     };
 
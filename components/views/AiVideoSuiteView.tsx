@@ -4,12 +4,20 @@ import { VideoCombinerView } from './VideoCombinerView';
 import VoiceStudioView from './VoiceStudioView';
 import ProductReviewView from './ProductReviewView';
 import Tabs, { type Tab } from '../common/Tabs';
-import { type BatchProcessorPreset, type User, type Language } from '../../types';
+import { type BatchProcessorPreset, type GenerationPreset, type GenerationSourceView, type User, type Language } from '../../types';
 import BatchProcessorView from './BatchProcessorView';
 
 
 type TabId = 'generation' | 'storyboard' | 'batch' | 'combiner' | 'voice';
 
+const PRESET_TABS: Partial<Record<GenerationSourceView, TabId>> = {
+    'video-generation': 'generation',
+    'voice-studio': 'voice',
+};
+
+const getPresetTab = (preset: GenerationPreset | null): TabId | undefined =>
+    preset ? PRESET_TABS[preset.metadata.sourceView] : undefined;
+
 interface VideoGenPreset {
   prompt: string;
   image: { base64: string; mimeType: string; };
@@ -23,6 +31,8 @@ interface ImageEditPreset {
 interface AiVideoSuiteViewProps {
   preset: VideoGenPreset | null;
   clearPreset: () => void;
+  generationPreset: GenerationPreset | null;
+  clearGenerationPreset: () => void;
   onReEdit: (preset: ImageEditPreset) => void;
   onCreateVideo: (preset: VideoGenPreset) => void;
   currentUser: User;
@@ -30,7 +40,7 @@ interface AiVideoSuiteViewProps {
   language: Language;
 }
 
-const AiVideoSuiteView: React.FC<AiVideoSuiteViewProps> = ({ preset, clearPreset, onReEdit, onCreateVideo, currentUser, onUserUpdate, language }) => {
+const AiVideoSuiteView: React.FC<AiVideoSuiteViewProps> = ({ preset, clearPreset, generationPreset, clearGenerationPreset, onReEdit, onCreateVideo, currentUser, onUserUpdate, language }) => {
     const [activeTab, setActiveTab] = useState<TabId>('generation');
 
     const tabs: Tab<TabId>[] = [
@@ -46,6 +56,14 @@ const AiVideoSuiteView: React.FC<AiVideoSuiteViewProps> = ({ preset, clearPreset
             setActiveTab('generation');
         }
     }, [preset]);
+
+    const presetTab = getPresetTab(generationPreset);
+
+    useEffect(() => {
+        if (presetTab) {
+            setActiveTab(presetTab);
+        }
+    }, [presetTab, generationPreset]);
     
     useEffect(() => {
         if (currentUser.role !== 'admin' && (activeTab === 'batch' || activeTab === 'combiner')) {
@@ -59,6 +77,8 @@ const AiVideoSuiteView: React.FC<AiVideoSuiteViewProps> = ({ preset, clearPreset
                 return <VideoGenerationView 
                             preset={preset} 
                             clearPreset={clearPreset} 
+                            generationPreset={presetTab === 'generation' ? generationPreset : null}
+                            clearGenerationPreset={clearGenerationPreset}
                             currentUser={currentUser}
                             onUserUpdate={onUserUpdate}
                             language={language}
@@ -76,11 +96,17 @@ const AiVideoSuiteView: React.FC<AiVideoSuiteViewProps> = ({ preset, clearPreset
             case 'combiner':
                 return <VideoCombinerView language={language} />;
             case 'voice':
-                return <VoiceStudioView language={language} />;
+                return <VoiceStudioView
+                            generationPreset={presetTab === 'voice' ? generationPreset : null}
+                            clearGenerationPreset={clearGenerationPreset}
+                            language={language}
+                        />;
             default:
                 return <VideoGenerationView 
                             preset={preset} 
                             clearPreset={clearPreset} 
+                            generationPreset={presetTab === 'generation' ? generationPreset : null}
+                            clearGenerationPreset={clearGenerationPreset}
                             currentUser={currentUser}
                             onUserUpdate={onUserUpdate}
                             language={language}
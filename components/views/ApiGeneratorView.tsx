@@ -84,7 +84,7 @@ const ApiGeneratorView: React.FC<ApiGeneratorViewProps> = ({ language, currentUs
         setCheckingKeyId(key.id);
         setHealthCheckResults(prev => new Map(prev).set(key.id, null));
         try {
-            const results = await runApiHealthCheck({ textKey: key.apiKey });
+            const results = await runApiHealthCheck({ apiKey: key.apiKey });
             setHealthCheckResults(prev => new Map(prev).set(key.id, results));
         } catch (error: any) {
             const errorResult: HealthCheckResult = { service: 'Health Check', model: 'N/A', status: 'error', message: error.message };
@@ -1,6 +1,6 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { editOrComposeWithImagen } from '../../services/imagenV3Service';
-import { addHistoryItem } from '../../services/historyService';
+import { addHistoryItem, saveReferenceImages } from '../../services/historyService';
 import ImageUpload from '../common/ImageUpload';
 import Spinner from '../common/Spinner';
 import { type MultimodalContent } from '../../services/geminiService';
@@ -10,7 +10,10 @@ import { getBackgroundRemovalPrompt } from '../../services/promptManager';
 import { handleApiError } from '../../services/errorHandler';
 import { incrementImageUsage } from '../../services/userService';
 // FIX: Add missing Language import.
-import { type User, type Language } from '../../types';
+import { type User, type Language, type GenerationPreset } from '../../types';
+import SeedNotice from '../common/SeedNotice';
+import { getBatchSeed } from '../../services/generationPresetService';
+import { MODELS } from '../../services/aiConfig';
 
 
 interface ImageData extends MultimodalContent {
@@ -39,6 +42,8 @@ interface ImageEditPreset {
 interface BackgroundRemoverViewProps {
   onReEdit: (preset: ImageEditPreset) => void;
   onCreateVideo: (preset: VideoGenPreset) => void;
+  generationPreset: GenerationPreset | null;
+  clearGenerationPreset: () => void;
   currentUser: User;
   onUserUpdate: (user: User) => void;
   // FIX: Add 'language' to props interface.
@@ -47,12 +52,13 @@ interface BackgroundRemoverViewProps {
 
 const SESSION_KEY = 'backgroundRemoverState';
 
-const BackgroundRemoverView: React.FC<BackgroundRemoverViewProps> = ({ onReEdit, onCreateVideo, currentUser, onUserUpdate, language }) => {
+const BackgroundRemoverView: React.FC<BackgroundRemoverViewProps> = ({ onReEdit, onCreateVideo, generationPreset, clearGenerationPreset, currentUser, onUserUpdate, language }) => {
   const [imageData, setImageData] = useState<ImageData | null>(null);
   const [resultImage, setResultImage] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [imageUploadKey, setImageUploadKey] = useState(Date.now());
+  const [keptSeed, setKeptSeed] = useState<number | null>(null);
 
   
   useEffect(() => {
@@ -62,6 +68,17 @@ const BackgroundRemoverView: React.FC<BackgroundRemoverViewProps> = ({ onReEdit,
     sessionStorage.removeItem(SESSION_KEY);
   }, []);
 
+  useEffect(() => {
+    if (generationPreset) {
+      const image = generationPreset.referenceImages[0];
+      setImageData(image ? { ...image, previewUrl: `data:${image.mimeType};base64,${image.base64}` } : null);
+      setImageUploadKey(Date.now());
+      setKeptSeed(generationPreset.keepSeed ? generationPreset.metadata.seed ?? null : null);
+      setResultImage(null);
+      clearGenerationPreset();
+    }
+  }, [generationPreset, clearGenerationPreset]);
+
   const handleImageUpload = useCallback((base64: string, mimeType: string, file: File) => {
     setImageData({ base64, mimeType, previewUrl: URL.createObjectURL(file) });
     setResultImage(null);
@@ -82,6 +99,7 @@ const BackgroundRemoverView: React.FC<BackgroundRemoverViewProps> = ({ onReEdit,
     setError(null);
     setResultImage(null);
     
+    const seed = getBatchSeed(keptSeed, 0);
     try {
       const prompt = getBackgroundRemovalPrompt();
       const result = await editOrComposeWithImagen({
@@ -93,7 +111,8 @@ const BackgroundRemoverView: React.FC<BackgroundRemoverViewProps> = ({ onReEdit,
             caption: 'image for background removal' 
         }],
         config: {
-            aspectRatio: '1:1'
+            aspectRatio: '1:1',
+            seed
         }
       });
 
@@ -105,6 +124,14 @@ const BackgroundRemoverView: React.FC<BackgroundRemoverViewProps> = ({ onReEdit,
             type: 'Image',
             prompt: 'Background Removed',
             result: imageBase64,
+            metadata: {
+                sourceView: 'background-remover',
+                model: MODELS.imageEdit,
+                seed,
+                aspectRatio: '1:1',
+                referenceImageIds: await saveReferenceImages([imageData]),
+                inputs: {},
+            }
         });
 
         const updateResult = await incrementImageUsage(currentUser);
@@ -120,7 +147,7 @@ const BackgroundRemoverView: React.FC<BackgroundRemoverViewProps> = ({ onReEdit,
     } finally {
       setIsLoading(false);
     }
-  }, [imageData, currentUser, onUserUpdate]);
+  }, [imageData, currentUser, onUserUpdate, keptSeed]);
 
   const handleReset = useCallback(() => {
     setImageData(null);
@@ -128,6 +155,7 @@ const BackgroundRemoverView: React.FC<BackgroundRemoverViewProps> = ({ onReEdit,
     setError(null);
     setIsLoading(false);
     setImageUploadKey(Date.now());
+    setKeptSeed(null);
     sessionStorage.removeItem(SESSION_KEY);
   }, []);
 
@@ -140,10 +168,11 @@ const BackgroundRemoverView: React.FC<BackgroundRemoverViewProps> = ({ onReEdit,
       
       <div className="flex-1 flex flex-col justify-center">
           {/* FIX: Add missing 'language' prop to ImageUpload component. */}
-          <ImageUpload key={imageUploadKey} id="bg-remover-upload" onImageUpload={handleImageUpload} onRemove={handleRemoveImage} title="Upload Image" language={language}/>
+          <ImageUpload key={imageUploadKey} id="bg-remover-upload" initialImage={imageData} onImageUpload={handleImageUpload} onRemove={handleRemoveImage} title="Upload Image" language={language}/>
       </div>
       
       <div className="pt-4 mt-auto">
+          <SeedNotice seed={keptSeed} onClear={() => setKeptSeed(null)} />
           <div className="flex gap-4">
             <button
               onClick={handleRemove}
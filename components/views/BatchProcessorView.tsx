@@ -1,12 +1,15 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { generateVideo } from '../../services/geminiService';
-import { addHistoryItem } from '../../services/historyService';
+import { startJob, subscribeToJobs, findJobs, cancelJob, isJobActive } from '../../services/jobService';
+import { abortableDelay } from '../../utils/abortUtils';
 import Spinner from '../common/Spinner';
 import { UploadIcon, PlayIcon, TrashIcon, CheckCircleIcon, XIcon, ClipboardListIcon } from '../Icons';
 import { MODELS } from '../../services/aiConfig';
-import { type BatchItem, type BatchProcessorPreset, type Language } from '../../types';
+import { type BatchItem, type BatchProcessorPreset, type Language, type GenerationJobStatus } from '../../types';
 import { getTranslations } from '../../services/translations';
 
+const JOB_SOURCE_VIEW = 'batch-processor';
+
 interface Log {
   timestamp: string;
   message: string;
@@ -28,7 +31,10 @@ const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPr
   const [isProcessing, setIsProcessing] = useState(false);
   const [logs, setLogs] = useState<Log[]>([{ timestamp: new Date().toLocaleTimeString(), message: 'Engine ready. Upload a file to start.', type: 'info' }]);
   const [progress, setProgress] = useState({ completed: 0, failed: 0 });
-  const isCancelledRef = useRef(false);
+  // One job per prompt, all on the same queue. The sourceKey identifies the batch run.
+  const [batchJobIds, setBatchJobIds] = useState<string[]>([]);
+  const seenStatusesRef = useRef<Record<string, GenerationJobStatus>>({});
+  const wasProcessingRef = useRef(false);
   const logContainerRef = useRef<HTMLDivElement>(null);
   
   useEffect(() => {
@@ -40,6 +46,56 @@ const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPr
   const addLog = useCallback((message: string, type: 'info' | 'success' | 'error' = 'info') => {
     setLogs(prev => [{ timestamp: new Date().toLocaleTimeString(), message, type }, ...prev]);
   }, []);
+
+  // Reattach to the most recent batch run if it was started before this view was mounted.
+  useEffect(() => {
+    const latestJob = findJobs(JOB_SOURCE_VIEW)[0];
+    if (!latestJob) return;
+    const runJobs = findJobs(JOB_SOURCE_VIEW, latestJob.sourceKey).reverse();
+    if (!runJobs.some(isJobActive)) return;
+    setBatchJobIds(runJobs.map(job => job.id));
+    addLog(`Resumed tracking a batch of ${runJobs.length} videos running in the background.`, 'info');
+  }, [addLog]);
+
+  useEffect(() => {
+    if (batchJobIds.length === 0) return;
+
+    return subscribeToJobs(allJobs => {
+      const runJobs = batchJobIds
+        .map(id => allJobs.find(job => job.id === id))
+        .filter((job): job is NonNullable<typeof job> => !!job);
+
+      runJobs.forEach(job => {
+        const previousStatus = seenStatusesRef.current[job.id];
+        if (previousStatus === job.status) return;
+        seenStatusesRef.current[job.id] = job.status;
+
+        const position = batchJobIds.indexOf(job.id) + 1;
+        if (job.status === 'running') {
+          addLog(`Processing [${position}/${batchJobIds.length}]: ${job.label}`, 'info');
+        } else if (job.status === 'completed') {
+          addLog(`Successfully generated video for: ${job.label}`, 'success');
+        } else if (job.status === 'failed') {
+          addLog(`Failed to generate video for: ${job.label}. Error: ${job.error || 'Unknown error'}`, 'error');
+        } else if (job.status === 'cancelled' && previousStatus === 'running') {
+          addLog(`Cancelled video for: ${job.label}`, 'info');
+        }
+      });
+
+      setProgress({
+        completed: runJobs.filter(job => job.status === 'completed').length,
+        failed: runJobs.filter(job => job.status === 'failed').length,
+      });
+
+      const stillProcessing = runJobs.some(isJobActive);
+      const wasCancelled = runJobs.some(job => job.status === 'cancelled');
+      if (wasProcessingRef.current && !stillProcessing && !wasCancelled) {
+        addLog('Batch process completed.', 'info');
+      }
+      wasProcessingRef.current = stillProcessing;
+      setIsProcessing(stillProcessing);
+    });
+  }, [batchJobIds, addLog]);
   
   useEffect(() => {
     if (preset) {
@@ -119,59 +175,48 @@ const BatchProcessorView: React.FC<BatchProcessorViewProps> = ({ preset, clearPr
   const handleStartProcess = async () => {
     if (batchItems.length === 0) return;
 
-    const tokensJSON = sessionStorage.getItem('veoAuthTokens');
-    if (!tokensJSON || tokensJSON === '[]') {
-      addLog('Veo Authentication Token is required. Please set it using the Key icon in the header.', 'error');
-      return;
-    }
-
     setIsProcessing(true);
-    isCancelledRef.current = false;
     setLogs([]);
     setProgress({ completed: 0, failed: 0 });
+    seenStatusesRef.current = {};
     addLog(`Starting batch process for ${batchItems.length} videos...`, 'info');
 
-    for (let i = 0; i < batchItems.length; i++) {
-        if (isCancelledRef.current) {
-            addLog('Process cancelled by user.', 'info');
-            break;
-        }
-
-        const item = batchItems[i];
+    const runId = String(Date.now());
+    const jobIds = batchItems.map((item, i) => {
         const prompt = item.prompt;
-        addLog(`Processing [${i + 1}/${batchItems.length}]: ${prompt}`, 'info');
-
-        try {
-            const imagePayload = item.image ? { imageBytes: item.image.base64, mimeType: item.image.mimeType } : undefined;
-            const { videoFile } = await generateVideo(prompt, model, aspectRatio, resolution, "", imagePayload);
+        return startJob<File>({
+            kind: 'video',
+            label: prompt,
+            sourceView: JOB_SOURCE_VIEW,
+            sourceKey: runId,
+            queue: JOB_SOURCE_VIEW,
+            run: async ({ setStatus, signal }) => {
+                // Add a small delay between requests to be polite to the API
+                if (i > 0) {
+                    await abortableDelay(1000, signal);
+                }
+                const imagePayload = item.image ? { imageBytes: item.image.base64, mimeType: item.image.mimeType } : undefined;
+                const { videoFile } = await generateVideo(prompt, model, aspectRatio, resolution, "", imagePayload, setStatus, signal);
 
-            if (!videoFile) {
-                throw new Error("Video generation did not return any output.");
-            }
-            
-            await addHistoryItem({ type: 'Video', prompt: `Batch: ${prompt}`, result: videoFile });
-            
-            addLog(`Successfully generated video for: ${prompt}`, 'success');
-            setProgress(p => ({ ...p, completed: p.completed + 1 }));
-        } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : "Unknown error";
-            addLog(`Failed to generate video for: ${prompt}. Error: ${errorMessage}`, 'error');
-            setProgress(p => ({ ...p, failed: p.failed + 1 }));
-        }
-         // Add a small delay between requests to be polite to the API
-        if (i < batchItems.length - 1) {
-             await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-    }
-    
-    if (!isCancelledRef.current) {
-        addLog('Batch process completed.', 'info');
-    }
-    setIsProcessing(false);
+                if (!videoFile) {
+                    throw new Error("Video generation did not return any output.");
+                }
+                return videoFile;
+            },
+            toHistoryItem: (videoFile) => ({
+                type: 'Video',
+                prompt: `Batch: ${prompt}`,
+                result: videoFile,
+            }),
+        });
+    });
+    setBatchJobIds(jobIds);
   };
 
   const handleStopProcess = () => {
-    isCancelledRef.current = true;
+    // Aborts the video in progress and marks the remaining queued prompts as cancelled.
+    batchJobIds.forEach(id => cancelJob(id));
+    addLog('Process cancelled by user.', 'info');
   };
 
   const getLogIcon = (type: Log['type']) => {
@@ -1,46 +1,48 @@
-import React, { useState, useEffect } from 'react';
-import { 
-  getFormattedCacheStats,
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  getCachedVideos,
   clearVideoCache,
-  getCacheStats, // Import getCacheStats to get raw size
+  deleteCachedVideo,
+  MAX_CACHE_SIZE_MB,
+  MAX_VIDEOS,
+  type CachedVideoInfo,
 } from '../../services/videoCacheService';
-import { TrashIcon, RefreshCwIcon, DatabaseIcon } from '../Icons';
+import { getStorageEstimate, requestPersistentStorage, formatBytes, STORAGE_WARNING_RATIO, type StorageEstimate } from '../../services/storageService';
+import { setHistoryItemFavorite } from '../../services/historyService';
+import { getTranslations } from '../../services/translations';
+import { TrashIcon, RefreshCwIcon, DatabaseIcon, ShieldCheckIcon } from '../Icons';
 import Spinner from '../common/Spinner';
 
-// This is a rough estimation as the constant is not exported from the service.
-const MAX_CACHE_SIZE_MB = 500;
-
+/**
+ * Browser storage usage, persistence and the video cache, where videos can be pinned or deleted.
+ */
 const CacheManagerView: React.FC = () => {
-  const [stats, setStats] = useState<{
-    size: string;
-    count: number;
-    percentage: number;
-  } | null>(null);
+  const T = getTranslations().settingsView.cache;
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [videos, setVideos] = useState<CachedVideoInfo[] | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isClearing, setIsClearing] = useState(false);
+  const [isRequestingPersistence, setIsRequestingPersistence] = useState(false);
 
-  const loadStats = async () => {
+  const loadStats = useCallback(async () => {
     setIsLoading(true);
     try {
-      const formattedStats = await getFormattedCacheStats();
-      const rawStats = await getCacheStats();
-      const maxSizeBytes = MAX_CACHE_SIZE_MB * 1024 * 1024;
-      const percentage = maxSizeBytes > 0 ? Math.round((rawStats.totalSize / maxSizeBytes) * 100) : 0;
-
-      setStats({ ...formattedStats, percentage });
+      const [storageEstimate, cachedVideos] = await Promise.all([getStorageEstimate(), getCachedVideos()]);
+      setEstimate(storageEstimate);
+      setVideos(cachedVideos);
     } catch (error) {
       console.error('Failed to load cache stats:', error);
     } finally {
       setIsLoading(false);
     }
-  };
+  }, []);
 
   useEffect(() => {
     loadStats();
-  }, []);
+  }, [loadStats]);
 
   const handleClearCache = async () => {
-    if (!confirm('Are you sure you want to clear the entire video cache? This cannot be undone.')) {
+    if (!confirm(T.confirmClear)) {
       return;
     }
 
@@ -48,143 +50,207 @@ const CacheManagerView: React.FC = () => {
     try {
       await clearVideoCache();
       await loadStats();
-      alert('Video cache cleared successfully!');
+      alert(T.clearSuccess);
     } catch (error) {
       console.error('Failed to clear cache:', error);
-      alert('Failed to clear cache. Please try again.');
+      alert(T.clearFail);
     } finally {
       setIsClearing(false);
     }
   };
 
+  const handleRequestPersistence = async () => {
+    setIsRequestingPersistence(true);
+    const persisted = await requestPersistentStorage();
+    setIsRequestingPersistence(false);
+    if (!persisted) alert(T.persistDenied);
+    await loadStats();
+  };
+
+  // A video is pinned while its gallery item is a favourite, so pinning goes through the gallery
+  const handleTogglePin = async (video: CachedVideoInfo) => {
+    try {
+      await setHistoryItemFavorite(video.id, !video.pinned);
+      await loadStats();
+    } catch (error) {
+      alert(`${T.pinFail} ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleDeleteVideo = async (video: CachedVideoInfo) => {
+    if (!confirm(T.confirmDeleteVideo)) return;
+    try {
+      await deleteCachedVideo(video.id);
+      await loadStats();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const cacheSize = videos?.reduce((sum, video) => sum + video.size, 0) || 0;
+  const pinnedCount = videos?.filter(video => video.pinned).length || 0;
+  const percentage = estimate ? Math.round(estimate.ratio * 100) : 0;
+
   return (
-    <div className="max-w-2xl mx-auto p-6">
-      <div className="bg-white dark:bg-neutral-900 rounded-lg shadow-sm p-6">
+    <div className="bg-white dark:bg-neutral-900 p-6 rounded-lg shadow-sm">
         <div className="flex items-center gap-3 mb-6">
           <DatabaseIcon className="w-8 h-8 text-primary-500" />
           <div>
-            <h1 className="text-2xl font-bold">Video Cache Manager</h1>
+            <h2 className="text-xl font-semibold">{T.title}</h2>
             <p className="text-sm text-neutral-500 dark:text-neutral-400">
-              Manage your locally cached videos
+              {T.subtitle}
             </p>
           </div>
         </div>
 
-        {isLoading ? (
+        {isLoading && !videos ? (
           <div className="flex items-center justify-center py-12">
             <Spinner />
           </div>
-        ) : stats ? (
+        ) : videos ? (
           <div className="space-y-6">
-            {/* Cache Stats */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="bg-neutral-50 dark:bg-neutral-800 rounded-lg p-4">
-                <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-1">
-                  Storage Used
-                </p>
-                <p className="text-2xl font-bold text-neutral-900 dark:text-neutral-100">
-                  {stats.size}
-                </p>
+            {/* Browser storage */}
+            <div>
+              <div className="flex justify-between text-sm text-neutral-600 dark:text-neutral-400 mb-2">
+                <span>{T.siteStorage}</span>
+                {estimate && (
+                  <span>
+                    {T.usageOf
+                      .replace('{usage}', formatBytes(estimate.usage))
+                      .replace('{quota}', formatBytes(estimate.quota))
+                      .replace('{percent}', String(percentage))}
+                  </span>
+                )}
+              </div>
+              {estimate ? (
+                <>
+                  <div className="w-full bg-neutral-200 dark:bg-neutral-700 rounded-full h-3 overflow-hidden">
+                    <div
+                      className={`h-full rounded-full transition-all duration-500 ${
+                        estimate.ratio >= STORAGE_WARNING_RATIO
+                          ? 'bg-red-500'
+                          : percentage > 60
+                          ? 'bg-yellow-500'
+                          : 'bg-primary-500'
+                      }`}
+                      style={{ width: `${Math.min(percentage, 100)}%` }}
+                    />
+                  </div>
+                  {estimate.ratio >= STORAGE_WARNING_RATIO && (
+                    <p className="text-xs text-red-500 mt-2">{T.almostFull}</p>
+                  )}
+                </>
+              ) : (
+                <p className="text-xs text-neutral-500">{T.estimateUnavailable}</p>
+              )}
+            </div>
+
+            {/* Persistence */}
+            {estimate && (
+              <div className="flex items-center justify-between gap-4 bg-neutral-50 dark:bg-neutral-800 rounded-lg p-4">
+                <div>
+                  <p className="text-sm font-semibold">{T.persistent}</p>
+                  <p className="text-xs text-neutral-600 dark:text-neutral-400">{estimate.persisted ? T.persistentOn : T.persistentOff}</p>
+                </div>
+                {!estimate.persisted && (
+                  <button onClick={handleRequestPersistence} disabled={isRequestingPersistence} className="flex-shrink-0 bg-primary-600 text-white font-semibold py-2 px-4 rounded-lg text-sm hover:bg-primary-700 transition-colors disabled:opacity-50">
+                    {isRequestingPersistence ? <Spinner /> : T.makePersistent}
+                  </button>
+                )}
               </div>
+            )}
 
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="bg-neutral-50 dark:bg-neutral-800 rounded-lg p-4">
-                <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-1">
-                  Videos Cached
-                </p>
-                <p className="text-2xl font-bold text-neutral-900 dark:text-neutral-100">
-                  {stats.count}
-                </p>
+                <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-1">{T.storageUsed}</p>
+                <p className="text-2xl font-bold text-neutral-900 dark:text-neutral-100">{formatBytes(cacheSize)}</p>
+              </div>
+              <div className="bg-neutral-50 dark:bg-neutral-800 rounded-lg p-4">
+                <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-1">{T.videosCached}</p>
+                <p className="text-2xl font-bold text-neutral-900 dark:text-neutral-100">{videos.length}</p>
+              </div>
+              <div className="bg-neutral-50 dark:bg-neutral-800 rounded-lg p-4">
+                <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-1">{T.pinnedVideos}</p>
+                <p className="text-2xl font-bold text-neutral-900 dark:text-neutral-100">{pinnedCount}</p>
               </div>
             </div>
 
-            {/* Progress Bar */}
+            {/* Cached videos, most recently watched first */}
             <div>
-              <div className="flex justify-between text-sm text-neutral-600 dark:text-neutral-400 mb-2">
-                <span>Cache Usage</span>
-                <span>{stats.percentage}%</span>
-              </div>
-              <div className="w-full bg-neutral-200 dark:bg-neutral-700 rounded-full h-3 overflow-hidden">
-                <div
-                  className={`h-full rounded-full transition-all duration-500 ${
-                    stats.percentage > 90
-                      ? 'bg-red-500'
-                      : stats.percentage > 70
-                      ? 'bg-yellow-500'
-                      : 'bg-primary-500'
-                  }`}
-                  style={{ width: `${Math.min(stats.percentage, 100)}%` }}
-                />
-              </div>
-              {stats.percentage > 90 && (
-                <p className="text-xs text-red-500 mt-2">
-                  ⚠️ Cache is almost full. Older videos will be automatically removed.
-                </p>
+              <h3 className="font-semibold mb-2">{T.videosTitle}</h3>
+              {videos.length === 0 ? (
+                <p className="text-sm text-neutral-500">{T.noVideos}</p>
+              ) : (
+                <ul className="max-h-72 overflow-y-auto custom-scrollbar divide-y divide-neutral-200 dark:divide-neutral-700 border border-neutral-200 dark:border-neutral-700 rounded-lg">
+                  {videos.map(video => (
+                    <li key={video.id} className="flex items-center gap-3 p-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm truncate">{video.metadata.prompt || T.untitled}</p>
+                        <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                          {T.videoDetails
+                            .replace('{size}', formatBytes(video.size))
+                            .replace('{date}', new Date(video.timestamp).toLocaleString())}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleTogglePin(video)}
+                        className={`p-2 rounded-full transition-colors ${video.pinned ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-600 dark:text-primary-400' : 'text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800'}`}
+                        title={video.pinned ? T.unpin : T.pin}
+                      >
+                        <ShieldCheckIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteVideo(video)}
+                        className="p-2 rounded-full text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                        title={T.deleteVideo}
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
               )}
             </div>
 
             {/* Information */}
             <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
               <h3 className="font-semibold text-blue-900 dark:text-blue-100 mb-2">
-                How Video Caching Works
+                {T.howItWorks}
               </h3>
               <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1">
-                <li>• Videos are stored locally in your browser</li>
-                <li>• Maximum cache size: 500 MB</li>
-                <li>• Maximum videos: 50</li>
-                <li>• Oldest videos are automatically removed when limit is reached</li>
-                <li>• Videos persist even after closing the browser</li>
+                <li>{T.l1}</li>
+                <li>{T.l2.replace('{videos}', String(MAX_VIDEOS)).replace('{size}', String(MAX_CACHE_SIZE_MB))}</li>
+                <li>{T.l3}</li>
+                <li>{T.l4}</li>
               </ul>
             </div>
 
             {/* Actions */}
             <div className="flex gap-3">
-              <button
-                onClick={loadStats}
-                disabled={isLoading}
-                className="flex items-center justify-center gap-2 bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-200 font-semibold py-2 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50"
-              >
-                <RefreshCwIcon className="w-4 h-4" />
-                Refresh Stats
+              <button onClick={loadStats} disabled={isLoading} className="flex items-center justify-center gap-2 bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-200 font-semibold py-2 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50">
+                <RefreshCwIcon className="w-4 h-4" /> {T.refresh}
               </button>
-
-              <button
-                onClick={handleClearCache}
-                disabled={isClearing || stats.count === 0}
-                className="flex items-center justify-center gap-2 bg-red-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {isClearing ? (
-                  <>
-                    <Spinner />
-                    Clearing...
-                  </>
-                ) : (
-                  <>
-                    <TrashIcon className="w-4 h-4" />
-                    Clear All Cache
-                  </>
-                )}
+              <button onClick={handleClearCache} disabled={isClearing || videos.length === 0} className="flex items-center justify-center gap-2 bg-red-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                {isClearing ? (<><Spinner /> {T.clearing}</>) : (<><TrashIcon className="w-4 h-4" /> {T.clear}</>)}
               </button>
             </div>
 
             {/* Tips */}
             <div className="border-t border-neutral-200 dark:border-neutral-700 pt-4">
-              <h3 className="font-semibold mb-2">💡 Tips</h3>
+              <h3 className="font-semibold mb-2">💡 {T.tips}</h3>
               <ul className="text-sm text-neutral-600 dark:text-neutral-400 space-y-1">
-                <li>• Clear cache if videos are not loading properly</li>
-                <li>• Old videos are automatically removed to save space</li>
-                <li>• Cache is shared across all tabs of this website</li>
-                <li>• Incognito mode does not persist cache</li>
+                <li>{T.tip1}</li>
+                <li>{T.tip2}</li>
+                <li>{T.tip3}</li>
+                <li>{T.tip4}</li>
               </ul>
             </div>
           </div>
         ) : (
-          <div className="text-center py-12 text-neutral-500">
-            Failed to load cache statistics
-          </div>
+          <div className="text-center py-12 text-neutral-500">{T.failLoad}</div>
         )}
-      </div>
     </div>
   );
 };
 
-export default CacheManagerView;
\ No newline at end of file
+export default CacheManagerView;
@@ -8,7 +8,8 @@ import { TrendingUpIcon, DownloadIcon, ClipboardIcon, CheckCircleIcon } from '..
 import TwoColumnLayout from '../common/TwoColumnLayout';
 import { getContentIdeasPrompt } from '../../services/promptManager';
 import { handleApiError } from '../../services/errorHandler';
-import { type Language } from '../../types';
+import { type GenerationPreset, type Language } from '../../types';
+import { MODELS } from '../../services/aiConfig';
 
 
 const downloadText = (text: string, fileName: string) => {
@@ -26,11 +27,18 @@ const downloadText = (text: string, fileName: string) => {
 const languages = ["English", "Bahasa Malaysia"];
 const SESSION_KEY = 'contentIdeasState';
 
+// Form fields kept in GenerationMetadata.inputs
+interface ContentIdeasInputs {
+    topic: string;
+}
+
 interface ContentIdeasViewProps {
     language: Language;
+    generationPreset: GenerationPreset | null;
+    clearGenerationPreset: () => void;
 }
 
-const ContentIdeasView: React.FC<ContentIdeasViewProps> = ({ language }) => {
+const ContentIdeasView: React.FC<ContentIdeasViewProps> = ({ language, generationPreset, clearGenerationPreset }) => {
     const [topic, setTopic] = useState('');
     const [response, setResponse] = useState<GenerateContentResponse | null>(null);
     const [isLoading, setIsLoading] = useState(false);
@@ -57,6 +65,17 @@ const ContentIdeasView: React.FC<ContentIdeasViewProps> = ({ language }) => {
         } catch (e) { console.error("Failed to save state to session storage", e); }
     }, [topic, response, selectedLanguage]);
 
+    useEffect(() => {
+        if (generationPreset) {
+            const { metadata } = generationPreset;
+            const inputs = metadata.inputs as Partial<ContentIdeasInputs>;
+            setTopic(inputs.topic || '');
+            if (metadata.language) setSelectedLanguage(metadata.language);
+            setResponse(null);
+            clearGenerationPreset();
+        }
+    }, [generationPreset, clearGenerationPreset]);
+
 
     const handleGenerate = useCallback(async () => {
         if (!topic.trim()) {
@@ -77,6 +96,12 @@ const ContentIdeasView: React.FC<ContentIdeasViewProps> = ({ language }) => {
                 type: 'Copy',
                 prompt: `Content Ideas for: ${topic} (Lang: ${selectedLanguage})`,
                 result: result.text ?? '',
+                metadata: {
+                    sourceView: 'content-ideas',
+                    model: MODELS.text,
+                    language: selectedLanguage,
+                    inputs: { topic } satisfies ContentIdeasInputs,
+                },
             });
         } catch (e) {
             handleApiError(e);
@@ -1,13 +1,16 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { getHistory, deleteHistoryItem } from '../../services/historyService';
+import { searchHistory, deleteHistoryItem, updateHistoryItem, setHistoryItemFavorite, markHistoryVideoUsed, normalizeTags, getHistoryTags, getHistoryFolders, createHistoryFolder, renameHistoryFolder, deleteHistoryFolder, loadGalleryFilters, saveGalleryFilters, exportHistoryArchive, importHistoryArchive, type GalleryFilters } from '../../services/historyService';
 // FIX: Add missing Language import.
-import { type HistoryItem, type AiLogItem, type Language } from '../../types';
-import { ImageIcon, VideoIcon, DownloadIcon, TrashIcon, PlayIcon, AudioIcon, WandIcon, ClipboardListIcon, ChevronDownIcon, ClipboardIcon, CheckCircleIcon, AlertTriangleIcon } from '../Icons';
+import { type HistoryItem, type HistoryItemType, type HistoryFolder, type HistorySort, type AiLogItem, type Language, type Workspace, type WorkspaceItem, type WorkspaceMember, type GenerationPreset } from '../../types';
+import { ImageIcon, VideoIcon, DownloadIcon, TrashIcon, PlayIcon, AudioIcon, WandIcon, ClipboardListIcon, ChevronDownIcon, ClipboardIcon, CheckCircleIcon, AlertTriangleIcon, UsersIcon, UploadIcon, XIcon, RefreshCwIcon, SparklesIcon, StarIcon, FolderIcon } from '../Icons';
 import Tabs, { type Tab } from '../common/Tabs';
 import PreviewModal from '../common/PreviewModal'; // Import the new component
 import { getLogs, clearLogs } from '../../services/aiLogService';
 import Spinner from '../common/Spinner';
 import { getTranslations } from '../../services/translations';
+import { getSessionUser } from '../../services/authService';
+import { buildGenerationPreset, canRegenerate } from '../../services/generationPresetService';
+import { getWorkspaces, createWorkspace, getWorkspaceMembers, addWorkspaceMember, removeWorkspaceMember, getWorkspaceItems, publishHistoryItem, uploadBrandAsset, deleteWorkspaceItem } from '../../services/workspaceService';
 
 interface VideoGenPreset {
   prompt: string;
@@ -22,11 +25,12 @@ interface ImageEditPreset {
 interface GalleryViewProps {
   onCreateVideo: (preset: VideoGenPreset) => void;
   onReEdit: (preset: ImageEditPreset) => void;
+  onRegenerate: (preset: GenerationPreset) => void;
   // FIX: Add language to props.
   language: Language;
 }
 
-type GalleryTabId = 'images' | 'videos' | 'log';
+type GalleryTabId = 'images' | 'videos' | 'workspace' | 'log';
 
 const AiLogPanel: React.FC = () => {
     const [logs, setLogs] = useState<AiLogItem[]>([]);
@@ -122,9 +126,10 @@ const AiLogPanel: React.FC = () => {
                     return (
                         <ul className="text-sm space-y-2 text-neutral-700 dark:text-neutral-300">
                             <li className="flex justify-between items-center"><strong>{T.log.model || 'Model:'}</strong> <span className="font-mono text-xs bg-neutral-200 dark:bg-neutral-700 px-2 py-1 rounded">{log.model}</span></li>
-                            <li className="flex justify-between items-center"><strong>{T.log.status || 'Status:'}</strong> <span className={`font-semibold ${log.status === 'Error' ? 'text-red-500' : 'text-green-500'}`}>{log.status}</span></li>
+                            <li className="flex justify-between items-center"><strong>{T.log.status || 'Status:'}</strong> <span className={`font-semibold ${log.status === 'Error' ? 'text-red-500' : log.status === 'Cancelled' ? 'text-neutral-500' : 'text-green-500'}`}>{log.status}</span></li>
                             <li className="flex justify-between items-center"><strong>{T.log.cost || 'Est. Cost / Tokens:'}</strong> {log.cost ? `$${log.cost.toFixed(4)}` : (log.tokenCount > 0 ? log.tokenCount.toLocaleString() : T.log.na || 'N/A')}</li>
                             {log.error && <li className="pt-2 mt-2 border-t border-neutral-200 dark:border-neutral-700"><strong>{T.log.error || 'Error:'}</strong> <span className="text-red-500">{log.error}</span></li>}
+                            {log.requestId && <li className="flex justify-between items-center"><strong>{T.log.requestId || 'Request ID:'}</strong> <span className="font-mono text-xs select-all">{log.requestId}</span></li>}
                         </ul>
                     );
                 default: return null;
@@ -181,7 +186,7 @@ const AiLogPanel: React.FC = () => {
                                     <p className="text-xs text-neutral-500 dark:text-neutral-400">{new Date(log.timestamp).toLocaleString()}</p>
                                 </div>
                                 <div className="flex-shrink-0">
-                                    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${log.status === 'Error' ? 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300' : 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300'}`}>{log.status}</span>
+                                    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${log.status === 'Error' ? 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300' : log.status === 'Cancelled' ? 'bg-neutral-200 text-neutral-700 dark:bg-neutral-700 dark:text-neutral-300' : 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300'}`}>{log.status}</span>
                                 </div>
                                 <ChevronDownIcon className={`w-5 h-5 text-neutral-400 flex-shrink-0 transition-transform ${expandedLogId === log.id ? 'rotate-180' : ''}`} />
                             </div>
@@ -198,20 +203,596 @@ const AiLogPanel: React.FC = () => {
     );
 };
 
+type WorkspaceSectionId = 'gallery' | 'brand' | 'members';
 
-const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, language }) => {
+interface WorkspacePanelProps {
+    workspaces: Workspace[];
+    onWorkspacesChanged: () => Promise<void>;
+}
+
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ workspaces, onWorkspacesChanged }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(workspaces[0]?.id ?? null);
+    const [section, setSection] = useState<WorkspaceSectionId>('gallery');
+    const [items, setItems] = useState<WorkspaceItem[]>([]);
+    const [members, setMembers] = useState<WorkspaceMember[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [newWorkspaceName, setNewWorkspaceName] = useState('');
+    const [newMemberEmail, setNewMemberEmail] = useState('');
+    const assetInputRef = useRef<HTMLInputElement>(null);
+    const T = getTranslations().galleryView;
+    const WT = T.workspace;
+    const currentUserId = getSessionUser()?.id;
+
+    const workspace = workspaces.find(ws => ws.id === selectedId) || workspaces[0] || null;
+    const isOwner = workspace?.role === 'owner';
+
+    const refresh = useCallback(async () => {
+        if (!workspace) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            if (section === 'members') {
+                setMembers(await getWorkspaceMembers(workspace.id));
+            } else {
+                setItems(await getWorkspaceItems(workspace.id, section));
+            }
+        } catch (e) {
+            setError(WT.loadError.replace('{error}', e instanceof Error ? e.message : String(e)));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [workspace?.id, section]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    // Runs a change, then reloads the current section. Errors are shown instead of thrown.
+    const runAction = async (action: () => Promise<unknown>, reload = true) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await action();
+            if (reload) await refresh();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newWorkspaceName.trim()) return;
+        runAction(async () => {
+            const created = await createWorkspace(newWorkspaceName);
+            setNewWorkspaceName('');
+            await onWorkspacesChanged();
+            setSelectedId(created.id);
+        });
+    };
+
+    const handleAddMember = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!workspace || !newMemberEmail.trim()) return;
+        runAction(async () => {
+            await addWorkspaceMember(workspace.id, newMemberEmail);
+            setNewMemberEmail('');
+        });
+    };
+
+    const handleRemoveMember = (member: WorkspaceMember) => {
+        if (!workspace) return;
+        const isSelf = member.userId === currentUserId;
+        const message = isSelf ? WT.confirmLeave : WT.confirmRemoveMember.replace('{email}', member.email || member.userId);
+        if (!window.confirm(message)) return;
+        runAction(async () => {
+            await removeWorkspaceMember(workspace.id, member.userId);
+            if (isSelf) {
+                await onWorkspacesChanged();
+                setSelectedId(null);
+            }
+        }, !isSelf);
+    };
+
+    const handleDeleteItem = (item: WorkspaceItem) => {
+        if (!workspace || !window.confirm(WT.confirmDeleteItem)) return;
+        runAction(() => deleteWorkspaceItem(workspace.id, item.id));
+    };
+
+    const handleAssetSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!workspace || !file) return;
+        runAction(() => uploadBrandAsset(workspace.id, file));
+    };
+
+    const renderCreateForm = () => (
+        <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+                type="text"
+                value={newWorkspaceName}
+                onChange={e => setNewWorkspaceName(e.target.value)}
+                placeholder={WT.createPlaceholder}
+                maxLength={80}
+                className="flex-1 min-w-0 bg-neutral-50 dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none"
+            />
+            <button type="submit" disabled={isBusy || !newWorkspaceName.trim()} className="bg-primary-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-primary-700 transition-colors text-sm disabled:opacity-50">
+                {WT.create}
+            </button>
+        </form>
+    );
+
+    const renderItem = (item: WorkspaceItem) => {
+        const canDelete = isOwner || item.authorId === currentUserId;
+        const createdAt = item.sourceCreatedAt ?? item.createdAt;
+        return (
+            <div key={item.id} className="group relative aspect-square bg-neutral-200 dark:bg-neutral-800 rounded-lg overflow-hidden shadow-md">
+                {item.url && item.mimeType.startsWith('image/') && <img src={item.url} alt={item.prompt} className="w-full h-full object-cover" />}
+                {item.url && item.mimeType.startsWith('video/') && <video src={item.url} className="w-full h-full object-cover" controls playsInline title={item.prompt} />}
+                {item.mimeType.startsWith('audio/') && (
+                    <div className="w-full h-full flex flex-col items-center justify-center gap-3 p-3">
+                        <AudioIcon className="w-10 h-10 text-neutral-500" />
+                        {item.url && <audio src={item.url} controls className="w-full" />}
+                    </div>
+                )}
+                <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-black/20 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-between p-3 pointer-events-none">
+                    <p className="text-white text-xs line-clamp-3 drop-shadow-md">{item.prompt}</p>
+                    <div className="flex items-end justify-between gap-2">
+                        <div className="text-white text-xs drop-shadow-md min-w-0">
+                            <p className="font-semibold truncate">{WT.byAuthor.replace('{author}', item.authorName)}</p>
+                            <p className="opacity-80">{WT.createdOn.replace('{date}', new Date(createdAt).toLocaleDateString())}</p>
+                        </div>
+                        <div className="flex gap-2 pointer-events-auto">
+                            {item.url && (
+                                <a href={item.url} target="_blank" rel="noopener noreferrer" className="p-2 bg-white/80 text-black rounded-full hover:bg-white transition-colors transform hover:scale-110" title={T.download}>
+                                    <DownloadIcon className="w-4 h-4" />
+                                </a>
+                            )}
+                            {canDelete && (
+                                <button onClick={() => handleDeleteItem(item)} disabled={isBusy} className="p-2 bg-red-500/80 text-white rounded-full hover:bg-red-500 transition-colors transform hover:scale-110" title={T.delete}>
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    const renderMembers = () => (
+        <div className="max-w-2xl space-y-4">
+            {isOwner && (
+                <form onSubmit={handleAddMember} className="flex gap-2">
+                    <input
+                        type="email"
+                        value={newMemberEmail}
+                        onChange={e => setNewMemberEmail(e.target.value)}
+                        placeholder={WT.addMemberPlaceholder}
+                        className="flex-1 min-w-0 bg-neutral-50 dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none"
+                    />
+                    <button type="submit" disabled={isBusy || !newMemberEmail.trim()} className="bg-primary-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-primary-700 transition-colors text-sm disabled:opacity-50">
+                        {WT.addMember}
+                    </button>
+                </form>
+            )}
+            <ul className="divide-y divide-neutral-200 dark:divide-neutral-800">
+                {members.map(member => {
+                    const isSelf = member.userId === currentUserId;
+                    const canRemove = member.role !== 'owner' && (isOwner || isSelf);
+                    return (
+                        <li key={member.userId} className="flex items-center justify-between gap-4 py-3">
+                            <div className="min-w-0">
+                                <p className="font-semibold text-sm truncate">{member.fullName || member.email} {isSelf && <span className="text-neutral-500 font-normal">{WT.you}</span>}</p>
+                                {member.fullName && <p className="text-xs text-neutral-500 truncate">{member.email}</p>}
+                            </div>
+                            <div className="flex items-center gap-3 flex-shrink-0">
+                                <span className={`px-2 py-1 rounded-full text-xs font-semibold ${member.role === 'owner' ? 'bg-primary-100 text-primary-800 dark:bg-primary-900/50 dark:text-primary-300' : 'bg-neutral-200 text-neutral-700 dark:bg-neutral-700 dark:text-neutral-300'}`}>
+                                    {member.role === 'owner' ? WT.owner : WT.member}
+                                </span>
+                                {canRemove && (
+                                    <button onClick={() => handleRemoveMember(member)} disabled={isBusy} className="text-sm text-red-500 hover:text-red-700 font-semibold disabled:opacity-50">
+                                        {isSelf ? WT.leave : WT.removeMember}
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+
+    const renderSection = () => {
+        if (isLoading) return <div className="flex-1 flex justify-center items-center py-20"><Spinner /></div>;
+        if (section === 'members') return renderMembers();
+        if (items.length === 0) {
+            return <p className="text-center text-sm text-neutral-500 py-20">{section === 'brand' ? WT.brandEmpty : WT.galleryEmpty}</p>;
+        }
+        return (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                {items.map(renderItem)}
+            </div>
+        );
+    };
+
+    if (!workspace) {
+        return (
+            <div className="flex-1 flex items-center justify-center text-center text-neutral-500 dark:text-neutral-400">
+                <div className="max-w-md w-full">
+                    <div className="inline-block p-4 bg-neutral-100 dark:bg-neutral-800/50 rounded-full mb-4">
+                        <UsersIcon className="w-10 h-10" />
+                    </div>
+                    <p className="font-semibold">{WT.emptyTitle}</p>
+                    <p className="text-sm mb-6">{WT.emptySubtitle}</p>
+                    {renderCreateForm()}
+                    {error && <p className="text-sm text-red-500 mt-3">{error}</p>}
+                </div>
+            </div>
+        );
+    }
+
+    const sections: { id: WorkspaceSectionId; label: string }[] = [
+        { id: 'gallery', label: WT.sharedGallery },
+        { id: 'brand', label: WT.brandAssets },
+        { id: 'members', label: WT.members },
+    ];
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4 flex-shrink-0">
+                <div className="flex items-center gap-3">
+                    <h2 className="text-xl font-bold">{WT.title}</h2>
+                    <select
+                        value={workspace.id}
+                        onChange={e => setSelectedId(e.target.value)}
+                        aria-label={WT.select}
+                        className="bg-neutral-50 dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none"
+                    >
+                        {workspaces.map(ws => <option key={ws.id} value={ws.id}>{ws.name} ({ws.role === 'owner' ? WT.owner : WT.member})</option>)}
+                    </select>
+                </div>
+                <div className="w-full sm:w-80">{renderCreateForm()}</div>
+            </div>
+            <div className="flex items-center justify-between border-b border-neutral-200 dark:border-neutral-700 mb-4 flex-shrink-0">
+                <div className="flex">
+                    {sections.map(s => (
+                        <button
+                            key={s.id}
+                            onClick={() => setSection(s.id)}
+                            className={`px-4 py-2 text-sm font-semibold -mb-px border-b-2 transition-colors ${
+                                section === s.id
+                                    ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                                    : 'border-transparent text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200'
+                            }`}
+                        >
+                            {s.label}
+                        </button>
+                    ))}
+                </div>
+                {section === 'brand' && (
+                    <>
+                        <input ref={assetInputRef} type="file" accept="image/png,image/jpeg,image/webp" className="hidden" onChange={handleAssetSelected} />
+                        <button onClick={() => assetInputRef.current?.click()} disabled={isBusy} className="flex items-center gap-2 text-sm font-semibold text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50">
+                            <UploadIcon className="w-4 h-4" /> {WT.uploadAsset}
+                        </button>
+                    </>
+                )}
+            </div>
+            {error && <p className="text-sm text-red-500 mb-4 flex-shrink-0">{error}</p>}
+            <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar min-h-0">
+                {renderSection()}
+            </div>
+        </div>
+    );
+};
+
+
+const PAGE_SIZE = 40;
+const IMAGE_TYPES: HistoryItemType[] = ['Image', 'Canvas'];
+const VIDEO_TYPES: HistoryItemType[] = ['Video'];
+const DEFAULT_FILTERS: GalleryFilters = { sort: 'newest' };
+
+// <input type="date"> works in local 'YYYY-MM-DD' dates
+const toDateInputValue = (timestamp?: number): string => {
+    if (timestamp === undefined) return '';
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInputValue = (value: string, endOfDay: boolean): number | undefined =>
+    value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime() : undefined;
+
+const hasActiveFilters = (filters: GalleryFilters): boolean =>
+    !!(filters.search || filters.tags?.length || filters.folderId || filters.favoritesOnly || filters.from !== undefined || filters.to !== undefined);
+
+interface GalleryFilterBarProps {
+    filters: GalleryFilters;
+    onChange: (filters: GalleryFilters) => void;
+    searchInput: string;
+    onSearchInputChange: (value: string) => void;
+    folders: HistoryFolder[];
+    knownTags: string[];
+    onFoldersChanged: () => Promise<void>;
+}
+
+const GalleryFilterBar: React.FC<GalleryFilterBarProps> = ({ filters, onChange, searchInput, onSearchInputChange, folders, knownTags, onFoldersChanged }) => {
+    const T = getTranslations().galleryView.filters;
+    const selectedFolder = folders.find(folder => folder.id === filters.folderId) || null;
+    const tagOptions = Array.from(new Set([...knownTags, ...(filters.tags || [])])).sort();
+    const inputClass = "bg-neutral-50 dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none";
+    const linkButtonClass = "text-xs font-semibold text-primary-600 dark:text-primary-400 hover:underline";
+
+    const update = (changes: Partial<GalleryFilters>) => onChange({ ...filters, ...changes });
+
+    const toggleTag = (tag: string) => {
+        const tags = filters.tags || [];
+        update({ tags: tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag] });
+    };
+
+    const handleNewFolder = async () => {
+        const name = window.prompt(T.newFolderPrompt);
+        if (!name?.trim()) return;
+        const folder = await createHistoryFolder(name);
+        await onFoldersChanged();
+        if (folder) update({ folderId: folder.id });
+    };
+
+    const handleRenameFolder = async () => {
+        if (!selectedFolder) return;
+        const name = window.prompt(T.renameFolderPrompt, selectedFolder.name);
+        if (!name?.trim()) return;
+        await renameHistoryFolder(selectedFolder, name);
+        await onFoldersChanged();
+    };
+
+    const handleDeleteFolder = async () => {
+        if (!selectedFolder || !window.confirm(T.confirmDeleteFolder.replace('{folder}', selectedFolder.name))) return;
+        await deleteHistoryFolder(selectedFolder.id);
+        update({ folderId: undefined });
+        await onFoldersChanged();
+    };
+
+    const handleClear = () => {
+        onSearchInputChange('');
+        onChange({ sort: filters.sort });
+    };
+
+    return (
+        <div className="flex-shrink-0 mb-4 space-y-3">
+            <div className="flex flex-wrap gap-2">
+                <input
+                    type="search"
+                    value={searchInput}
+                    onChange={e => onSearchInputChange(e.target.value)}
+                    placeholder={T.searchPlaceholder}
+                    className={`flex-1 min-w-[12rem] ${inputClass}`}
+                />
+                <select value={filters.folderId || ''} onChange={e => update({ folderId: e.target.value || undefined })} className={inputClass} aria-label={T.folder}>
+                    <option value="">{T.allFolders}</option>
+                    {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+                </select>
+                <select value={filters.sort || 'newest'} onChange={e => update({ sort: e.target.value as HistorySort })} className={inputClass} aria-label={T.sortLabel}>
+                    <option value="newest">{T.sort.newest}</option>
+                    <option value="oldest">{T.sort.oldest}</option>
+                    <option value="favoritesFirst">{T.sort.favoritesFirst}</option>
+                </select>
+            </div>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="checkbox" checked={!!filters.favoritesOnly} onChange={e => update({ favoritesOnly: e.target.checked || undefined })} className="rounded text-primary-600 focus:ring-primary-500" />
+                    {T.favoritesOnly}
+                </label>
+                <label className="flex items-center gap-2">
+                    {T.from}
+                    <input type="date" value={toDateInputValue(filters.from)} onChange={e => update({ from: fromDateInputValue(e.target.value, false) })} className={`${inputClass} py-1`} />
+                </label>
+                <label className="flex items-center gap-2">
+                    {T.to}
+                    <input type="date" value={toDateInputValue(filters.to)} onChange={e => update({ to: fromDateInputValue(e.target.value, true) })} className={`${inputClass} py-1`} />
+                </label>
+                <button onClick={handleNewFolder} className={linkButtonClass}>{T.newFolder}</button>
+                {selectedFolder && (
+                    <>
+                        <button onClick={handleRenameFolder} className={linkButtonClass}>{T.renameFolder}</button>
+                        <button onClick={handleDeleteFolder} className="text-xs font-semibold text-red-600 dark:text-red-400 hover:underline">{T.deleteFolder}</button>
+                    </>
+                )}
+                {hasActiveFilters(filters) && <button onClick={handleClear} className={linkButtonClass}>{T.clear}</button>}
+            </div>
+            {tagOptions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs font-semibold text-neutral-500 dark:text-neutral-400">{T.tags}</span>
+                    {tagOptions.map(tag => {
+                        const isSelected = filters.tags?.includes(tag);
+                        return (
+                            <button
+                                key={tag}
+                                onClick={() => toggleTag(tag)}
+                                className={`px-2 py-1 rounded-full text-xs font-semibold transition-colors ${isSelected ? 'bg-primary-600 text-white' : 'bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-200 hover:bg-neutral-300 dark:hover:bg-neutral-600'}`}
+                            >
+                                #{tag}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface OrganizeItemModalProps {
+    item: HistoryItem;
+    folders: HistoryFolder[];
+    knownTags: string[];
+    onClose: () => void;
+    onSaved: () => void;
+}
+
+/**
+ * Edits the tags and folder of one history item.
+ */
+const OrganizeItemModal: React.FC<OrganizeItemModalProps> = ({ item, folders, knownTags, onClose, onSaved }) => {
+    const T = getTranslations().galleryView.organize;
+    const [tagsInput, setTagsInput] = useState((item.tags || []).join(', '));
+    const [folderId, setFolderId] = useState(item.folderId || '');
+    const [isSaving, setIsSaving] = useState(false);
+    const inputClass = "w-full bg-neutral-50 dark:bg-neutral-900 border border-neutral-300 dark:border-neutral-700 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none";
+
+    const currentTags = normalizeTags(tagsInput.split(','));
+    const suggestions = knownTags.filter(tag => !currentTags.includes(tag));
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            await updateHistoryItem(item.id, { tags: currentTags, folderId: folderId || undefined });
+            onSaved();
+        } catch (err) {
+            alert(err instanceof Error ? err.message : String(err));
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-zoomIn p-4" aria-modal="true" role="dialog" onClick={onClose}>
+            <form className="bg-white dark:bg-neutral-800 rounded-lg shadow-xl w-full max-w-sm p-6 space-y-4" onClick={e => e.stopPropagation()} onSubmit={handleSave}>
+                <div className="flex justify-between items-center">
+                    <h3 className="text-lg font-bold">{T.title}</h3>
+                    <button type="button" onClick={onClose} className="p-1 text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200">
+                        <XIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium mb-1">{T.tags}</label>
+                    <input type="text" value={tagsInput} onChange={e => setTagsInput(e.target.value)} placeholder={T.tagsPlaceholder} className={inputClass} />
+                    {suggestions.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                            {suggestions.map(tag => (
+                                <button
+                                    type="button"
+                                    key={tag}
+                                    onClick={() => setTagsInput([...currentTags, tag].join(', '))}
+                                    className="px-2 py-0.5 rounded-full text-xs bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600"
+                                >
+                                    +{tag}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <div>
+                    <label className="block text-sm font-medium mb-1">{T.folder}</label>
+                    <select value={folderId} onChange={e => setFolderId(e.target.value)} className={inputClass}>
+                        <option value="">{T.noFolder}</option>
+                        {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+                    </select>
+                </div>
+                <div className="flex justify-end gap-2">
+                    <button type="button" onClick={onClose} className="bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-4 rounded-md text-sm hover:bg-neutral-300 dark:hover:bg-neutral-600">
+                        {T.cancel}
+                    </button>
+                    <button type="submit" disabled={isSaving} className="bg-primary-600 text-white font-semibold py-2 px-4 rounded-md text-sm hover:bg-primary-700 disabled:opacity-50">
+                        {isSaving ? <Spinner /> : T.save}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, onRegenerate, language }) => {
     const [allItems, setAllItems] = useState<HistoryItem[]>([]);
     const [activeTab, setActiveTab] = useState<GalleryTabId>('images');
     const [blobUrls, setBlobUrls] = useState(new Map<string, string>());
     const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+    const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+    const [itemToPublish, setItemToPublish] = useState<HistoryItem | null>(null);
+    const [publishingId, setPublishingId] = useState<string | null>(null);
+    const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+    const [filters, setFilters] = useState<GalleryFilters>(DEFAULT_FILTERS);
+    const [filtersLoaded, setFiltersLoaded] = useState(false);
+    const [searchInput, setSearchInput] = useState('');
+    const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+    const [totals, setTotals] = useState({ images: 0, videos: 0 });
+    const [folders, setFolders] = useState<HistoryFolder[]>([]);
+    const [knownTags, setKnownTags] = useState<string[]>([]);
+    const [itemToOrganize, setItemToOrganize] = useState<HistoryItem | null>(null);
+    const [isBackingUp, setIsBackingUp] = useState(false);
+    const [isRestoring, setIsRestoring] = useState(false);
+    const restoreInputRef = useRef<HTMLInputElement>(null);
     const blobUrlsRef = useRef(new Map<string, string>());
+    // Numbers each refresh, so a slow search cannot overwrite the results of a newer one
+    const refreshCountRef = useRef(0);
     const T = getTranslations().galleryView;
 
+    // Only the open tab's page is read; the other tab just needs its count.
     const refreshHistory = useCallback(async () => {
-        const history = await getHistory();
-        setAllItems(history);
+        if (!filtersLoaded) return;
+        const refresh = ++refreshCountRef.current;
+        const [images, videos] = await Promise.all([
+            searchHistory({ ...filters, types: IMAGE_TYPES, limit: activeTab === 'images' ? visibleCount : 0 }),
+            searchHistory({ ...filters, types: VIDEO_TYPES, limit: activeTab === 'videos' ? visibleCount : 0 }),
+        ]);
+        if (refresh !== refreshCountRef.current) return;
+        setAllItems(activeTab === 'videos' ? videos.items : images.items);
+        setTotals({ images: images.total, videos: videos.total });
+    }, [filters, filtersLoaded, activeTab, visibleCount]);
+
+    const refreshLibrary = useCallback(async () => {
+        try {
+            const [userFolders, tags] = await Promise.all([getHistoryFolders(), getHistoryTags()]);
+            setFolders(userFolders);
+            setKnownTags(tags);
+        } catch (e) {
+            console.warn('🔎 [Gallery] Could not load folders and tags.', e);
+        }
     }, []);
 
+    const refreshWorkspaces = useCallback(async () => {
+        try {
+            setWorkspaces(await getWorkspaces());
+        } catch (e) {
+            // Workspaces are optional; the personal gallery works without them.
+            console.warn('👥 [Workspaces] Could not load workspaces.', e);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadGalleryFilters()
+            .then(saved => {
+                if (saved) {
+                    setFilters({ ...DEFAULT_FILTERS, ...saved });
+                    setSearchInput(saved.search || '');
+                }
+            })
+            .catch(e => console.warn('🔎 [Gallery] Could not load the saved filters.', e))
+            .finally(() => setFiltersLoaded(true));
+        refreshLibrary();
+        refreshWorkspaces();
+    }, [refreshLibrary, refreshWorkspaces]);
+
+    useEffect(() => {
+        if (!filtersLoaded) return;
+        saveGalleryFilters(filters).catch(e => console.warn('🔎 [Gallery] Could not save the filters.', e));
+    }, [filters, filtersLoaded]);
+
+    // Search as the user types, once they pause
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setFilters(prev => (prev.search || '') === searchInput ? prev : { ...prev, search: searchInput || undefined });
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [searchInput]);
+
+    useEffect(() => {
+        setVisibleCount(PAGE_SIZE);
+        setPreviewIndex(null);
+    }, [filters, activeTab]);
+
     useEffect(() => {
         refreshHistory();
     }, [refreshHistory]);
@@ -276,6 +857,7 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
                 const extension = item.type === 'Video' ? 'mp4' : 'wav';
                 fileName = `monoklix-${item.type.toLowerCase()}-${item.id}.${extension}`;
                 href = blobUrls.get(item.id) || null;
+                if (href) markHistoryVideoUsed(item);
                 break;
             case 'Storyboard':
             case 'Copy':
@@ -309,17 +891,109 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
     const handleDelete = async (id: string) => {
         if (window.confirm(T.confirmDelete || "Are you sure you want to delete this item from your history?")) {
             await deleteHistoryItem(id);
-            await refreshHistory();
+            await Promise.all([refreshHistory(), refreshLibrary()]);
         }
     };
     
-    const imageItems = allItems.filter(item => item.type === 'Image' || item.type === 'Canvas');
-    const videoItems = allItems.filter(item => item.type === 'Video');
-    const itemsToDisplay = activeTab === 'images' ? imageItems : videoItems;
+    const publishToWorkspace = async (item: HistoryItem, workspace: Workspace) => {
+        setItemToPublish(null);
+        setPublishingId(item.id);
+        try {
+            await publishHistoryItem(workspace.id, item);
+            alert(T.published.replace('{workspace}', workspace.name));
+        } catch (e) {
+            alert(e instanceof Error ? e.message : String(e));
+        } finally {
+            setPublishingId(null);
+        }
+    };
+
+    const handleBackup = async (onlyFiltered: boolean) => {
+        setIsBackingUp(true);
+        try {
+            const backup = await exportHistoryArchive(onlyFiltered ? { ...filters, types: [...IMAGE_TYPES, ...VIDEO_TYPES] } : undefined);
+            const url = URL.createObjectURL(backup.archive);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `monoklix-gallery-${toDateInputValue(Date.now())}.zip`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+            if (backup.missingMedia > 0) {
+                alert(T.backup.missingMedia.replace('{count}', String(backup.missingMedia)));
+            }
+        } catch (e) {
+            alert(`${T.backup.failed} ${e instanceof Error ? e.message : String(e)}`);
+        } finally {
+            setIsBackingUp(false);
+        }
+    };
+
+    const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsRestoring(true);
+        try {
+            const result = await importHistoryArchive(file);
+            alert(T.backup.restored
+                .replace('{imported}', String(result.imported))
+                .replace('{duplicates}', String(result.duplicates))
+                .replace('{failed}', String(result.failed))
+                + (result.trimmed > 0 ? ` ${T.backup.trimmed.replace('{count}', String(result.trimmed))}` : ''));
+            await Promise.all([refreshHistory(), refreshLibrary()]);
+        } catch (err) {
+            alert(`${T.backup.restoreFailed} ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    const handleToggleFavorite = async (item: HistoryItem) => {
+        await setHistoryItemFavorite(item.id, item.favoriteAt === undefined);
+        await refreshHistory();
+    };
+
+    const handleOrganized = async () => {
+        setItemToOrganize(null);
+        await Promise.all([refreshHistory(), refreshLibrary()]);
+    };
+
+    const handleRegenerate = async (item: HistoryItem, keepSeed: boolean) => {
+        setRegeneratingId(item.id);
+        try {
+            const preset = await buildGenerationPreset(item, keepSeed);
+            if (preset) {
+                onRegenerate(preset);
+            } else {
+                alert(T.regenerateFailed);
+            }
+        } catch (e) {
+            console.error('🔁 [Regenerate] Could not build the preset.', e);
+            alert(T.regenerateFailed);
+        } finally {
+            setRegeneratingId(null);
+        }
+    };
+
+    const handlePublish = (item: HistoryItem) => {
+        if (workspaces.length === 0) {
+            alert(T.noWorkspaces);
+        } else if (workspaces.length === 1) {
+            publishToWorkspace(item, workspaces[0]);
+        } else {
+            setItemToPublish(item);
+        }
+    };
+
+    const itemsToDisplay = allItems;
+    const totalForTab = activeTab === 'videos' ? totals.videos : totals.images;
 
     const tabs: Tab<GalleryTabId>[] = [
-        { id: 'images', label: T.tabs.images, count: imageItems.length },
-        { id: 'videos', label: T.tabs.videos, count: videoItems.length },
+        { id: 'images', label: T.tabs.images, count: totals.images },
+        { id: 'videos', label: T.tabs.videos, count: totals.videos },
+        { id: 'workspace', label: T.tabs.workspace, count: workspaces.length || undefined },
         { id: 'log', label: T.tabs.log },
     ];
 
@@ -365,9 +1039,36 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
                         </div>
                     </div>
                 )}
+
+                {item.favoriteAt !== undefined && (
+                    <div className="absolute top-2 right-2 p-1 bg-black/50 rounded-full group-hover:opacity-0 transition-opacity">
+                        <StarIcon className="w-4 h-4 text-yellow-400" />
+                    </div>
+                )}
                 
                 <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-black/20 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-between p-3">
-                    <p className="text-white text-xs line-clamp-3 drop-shadow-md">{item.prompt}</p>
+                    <div className="flex justify-between items-start gap-2">
+                        <p className="text-white text-xs line-clamp-3 drop-shadow-md">{item.prompt}</p>
+                        <div className="flex gap-1 flex-shrink-0">
+                            <button
+                                onClick={(e) => handleActionClick(e, () => setItemToOrganize(item))}
+                                className="p-1.5 bg-black/50 text-white rounded-full hover:bg-black/70 transition-colors"
+                                title={T.organizeItem}
+                            >
+                                <FolderIcon className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={(e) => handleActionClick(e, () => handleToggleFavorite(item))}
+                                className="p-1.5 bg-black/50 rounded-full hover:bg-black/70 transition-colors"
+                                title={item.favoriteAt !== undefined ? T.unfavorite : T.favorite}
+                            >
+                                <StarIcon className={`w-4 h-4 ${item.favoriteAt !== undefined ? 'text-yellow-400' : 'text-white'}`} />
+                            </button>
+                        </div>
+                    </div>
+                    {item.tags && item.tags.length > 0 && (
+                        <p className="text-white/80 text-[10px] truncate drop-shadow-md">{item.tags.map(tag => `#${tag}`).join(' ')}</p>
+                    )}
                     <div className="flex justify-end gap-2">
                         {isImage && (
                           <>
@@ -387,6 +1088,34 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
                             </button>
                           </>
                         )}
+                        {canRegenerate(item) && (
+                          <>
+                            <button
+                                onClick={(e) => handleActionClick(e, () => handleRegenerate(item, true))}
+                                disabled={regeneratingId === item.id}
+                                className="p-2 bg-blue-600/80 text-white rounded-full hover:bg-blue-600 transition-colors transform hover:scale-110 disabled:opacity-50"
+                                title={`${T.regenerate}: ${T.regenerateHelp}`}
+                            >
+                                <RefreshCwIcon className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={(e) => handleActionClick(e, () => handleRegenerate(item, false))}
+                                disabled={regeneratingId === item.id}
+                                className="p-2 bg-amber-500/80 text-white rounded-full hover:bg-amber-500 transition-colors transform hover:scale-110 disabled:opacity-50"
+                                title={`${T.remix}: ${T.remixHelp}`}
+                            >
+                                <SparklesIcon className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                        <button
+                            onClick={(e) => handleActionClick(e, () => handlePublish(item))}
+                            disabled={publishingId === item.id}
+                            className="p-2 bg-green-600/80 text-white rounded-full hover:bg-green-600 transition-colors transform hover:scale-110 disabled:opacity-50"
+                            title={T.publish}
+                        >
+                            {publishingId === item.id ? <Spinner /> : <UsersIcon className="w-4 h-4" />}
+                        </button>
                         <button
                             onClick={(e) => handleActionClick(e, () => downloadAsset(item))}
                             className="p-2 bg-white/80 text-black rounded-full hover:bg-white transition-colors transform hover:scale-110"
@@ -411,26 +1140,22 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
         switch (activeTab) {
             case 'images':
             case 'videos':
-                if (itemsToDisplay.length > 0) {
-                    return (
-                        <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar min-h-0">
-                            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-                                {itemsToDisplay.map((item, index) => renderGridItem(item, index))}
-                            </div>
-                        </div>
-                    );
-                }
                 return (
-                    <div className="flex-1 flex items-center justify-center text-center text-neutral-500 dark:text-neutral-400">
-                        <div>
-                            <div className="inline-block p-4 bg-neutral-100 dark:bg-neutral-800/50 rounded-full mb-4">
-                                {activeTab === 'images' ? <ImageIcon className="w-10 h-10" /> : <VideoIcon className="w-10 h-10" />}
-                            </div>
-                            <p className="font-semibold">{T.emptyTitle.replace('{tab}', activeTab === 'images' ? T.tabs.images : T.tabs.videos)}</p>
-                            <p className="text-sm">{T.emptySubtitle}</p>
-                        </div>
-                    </div>
+                    <>
+                        <GalleryFilterBar
+                            filters={filters}
+                            onChange={setFilters}
+                            searchInput={searchInput}
+                            onSearchInputChange={setSearchInput}
+                            folders={folders}
+                            knownTags={knownTags}
+                            onFoldersChanged={refreshLibrary}
+                        />
+                        {renderItems()}
+                    </>
                 );
+            case 'workspace':
+                return <WorkspacePanel workspaces={workspaces} onWorkspacesChanged={refreshWorkspaces} />;
             case 'log':
                 return <AiLogPanel />;
             default:
@@ -438,13 +1163,100 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
         }
     };
 
+    const renderItems = () => {
+        if (itemsToDisplay.length > 0) {
+            return (
+                <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar min-h-0">
+                    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                        {itemsToDisplay.map((item, index) => renderGridItem(item, index))}
+                    </div>
+                    {itemsToDisplay.length < totalForTab && (
+                        <div className="flex justify-center mt-6">
+                            <button
+                                onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                                className="bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-4 rounded-md text-sm hover:bg-neutral-300 dark:hover:bg-neutral-600"
+                            >
+                                {T.filters.loadMore.replace('{count}', String(totalForTab - itemsToDisplay.length))}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            );
+        }
+        if (hasActiveFilters(filters)) {
+            return (
+                <div className="flex-1 flex items-center justify-center text-center text-neutral-500 dark:text-neutral-400">
+                    <div>
+                        <p className="font-semibold">{T.filters.noMatches}</p>
+                        <button
+                            onClick={() => {
+                                setSearchInput('');
+                                setFilters({ sort: filters.sort });
+                            }}
+                            className="text-sm font-semibold text-primary-600 dark:text-primary-400 hover:underline mt-2"
+                        >
+                            {T.filters.clear}
+                        </button>
+                    </div>
+                </div>
+            );
+        }
+        return (
+            <div className="flex-1 flex items-center justify-center text-center text-neutral-500 dark:text-neutral-400">
+                <div>
+                    <div className="inline-block p-4 bg-neutral-100 dark:bg-neutral-800/50 rounded-full mb-4">
+                        {activeTab === 'images' ? <ImageIcon className="w-10 h-10" /> : <VideoIcon className="w-10 h-10" />}
+                    </div>
+                    <p className="font-semibold">{T.emptyTitle.replace('{tab}', activeTab === 'images' ? T.tabs.images : T.tabs.videos)}</p>
+                    <p className="text-sm">{T.emptySubtitle}</p>
+                </div>
+            </div>
+        );
+    };
+
     const itemToPreview = previewIndex !== null ? itemsToDisplay[previewIndex] : null;
 
+    // Opening a video plays it, which keeps it in the video cache longest
+    useEffect(() => {
+        if (itemToPreview) markHistoryVideoUsed(itemToPreview);
+    }, [itemToPreview?.id]);
+
     return (
         <div className="h-full flex flex-col">
-            <div className="flex-shrink-0">
-                <h1 className="text-2xl font-bold sm:text-3xl">{T.title}</h1>
-                <p className="text-neutral-500 dark:text-neutral-400 mt-1">{T.subtitle}</p>
+            <div className="flex-shrink-0 flex flex-wrap justify-between items-start gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold sm:text-3xl">{T.title}</h1>
+                    <p className="text-neutral-500 dark:text-neutral-400 mt-1">{T.subtitle}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {hasActiveFilters(filters) && (activeTab === 'images' || activeTab === 'videos') && (
+                        <button
+                            onClick={() => handleBackup(true)}
+                            disabled={isBackingUp || isRestoring}
+                            className="flex items-center gap-2 bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-4 rounded-md text-sm hover:bg-neutral-300 dark:hover:bg-neutral-600 disabled:opacity-50"
+                            title={T.backup.backupFilteredHelp}
+                        >
+                            <DownloadIcon className="w-4 h-4" /> {T.backup.backupFiltered}
+                        </button>
+                    )}
+                    <button
+                        onClick={() => handleBackup(false)}
+                        disabled={isBackingUp || isRestoring}
+                        className="flex items-center gap-2 bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-4 rounded-md text-sm hover:bg-neutral-300 dark:hover:bg-neutral-600 disabled:opacity-50"
+                        title={T.backup.backupHelp}
+                    >
+                        {isBackingUp ? <Spinner /> : <DownloadIcon className="w-4 h-4" />} {T.backup.backup}
+                    </button>
+                    <button
+                        onClick={() => restoreInputRef.current?.click()}
+                        disabled={isBackingUp || isRestoring}
+                        className="flex items-center gap-2 bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-4 rounded-md text-sm hover:bg-neutral-300 dark:hover:bg-neutral-600 disabled:opacity-50"
+                        title={T.backup.restoreHelp}
+                    >
+                        {isRestoring ? <Spinner /> : <UploadIcon className="w-4 h-4" />} {T.backup.restore}
+                    </button>
+                    <input ref={restoreInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleRestore} />
+                </div>
             </div>
             
             <div className="flex-shrink-0 my-6 flex justify-center">
@@ -480,6 +1292,40 @@ const GalleryView: React.FC<GalleryViewProps> = ({ onCreateVideo, onReEdit, lang
                     language={language}
                 />
             )}
+
+            {itemToOrganize && (
+                <OrganizeItemModal
+                    item={itemToOrganize}
+                    folders={folders}
+                    knownTags={knownTags}
+                    onClose={() => setItemToOrganize(null)}
+                    onSaved={handleOrganized}
+                />
+            )}
+
+            {itemToPublish && (
+                <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-zoomIn p-4" aria-modal="true" role="dialog" onClick={() => setItemToPublish(null)}>
+                    <div className="bg-white dark:bg-neutral-800 rounded-lg shadow-xl w-full max-w-sm p-6" onClick={e => e.stopPropagation()}>
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-lg font-bold">{T.chooseWorkspace}</h3>
+                            <button onClick={() => setItemToPublish(null)} className="p-1 text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200">
+                                <XIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <div className="space-y-2">
+                            {workspaces.map(ws => (
+                                <button
+                                    key={ws.id}
+                                    onClick={() => publishToWorkspace(itemToPublish, ws)}
+                                    className="w-full text-left px-4 py-3 rounded-md bg-neutral-100 dark:bg-neutral-700/50 hover:bg-primary-100 dark:hover:bg-primary-900/40 font-semibold text-sm transition-colors"
+                                >
+                                    {ws.name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { addHistoryItem } from '../../services/historyService';
+import { addHistoryItem, saveReferenceImages } from '../../services/historyService';
 import ImageUpload from '../common/ImageUpload';
 import Spinner from '../common/Spinner';
 import { type MultimodalContent } from '../../services/geminiService';
@@ -10,7 +10,10 @@ import { handleApiError } from '../../services/errorHandler';
 import { editOrComposeWithImagen } from '../../services/imagenV3Service';
 import { incrementImageUsage } from '../../services/userService';
 // FIX: Add missing Language import.
-import { type User, type Language } from '../../types';
+import { type User, type Language, type GenerationPreset } from '../../types';
+import SeedNotice from '../common/SeedNotice';
+import { getBatchSeed } from '../../services/generationPresetService';
+import { MODELS } from '../../services/aiConfig';
 
 
 interface ImageData extends MultimodalContent {
@@ -19,6 +22,11 @@ interface ImageData extends MultimodalContent {
 
 type EnhancementType = 'upscale' | 'colors';
 
+// Form fields kept in GenerationMetadata.inputs
+interface ImageEnhancerInputs {
+  enhancementType: EnhancementType;
+}
+
 const triggerDownload = (data: string, fileNameBase: string) => {
     const link = document.createElement('a');
     link.href = `data:image/png;base64,${data}`;
@@ -41,6 +49,8 @@ interface ImageEditPreset {
 interface ImageEnhancerViewProps {
   onReEdit: (preset: ImageEditPreset) => void;
   onCreateVideo: (preset: VideoGenPreset) => void;
+  generationPreset: GenerationPreset | null;
+  clearGenerationPreset: () => void;
   currentUser: User;
   onUserUpdate: (user: User) => void;
   // FIX: Add 'language' to props interface.
@@ -49,13 +59,14 @@ interface ImageEnhancerViewProps {
 
 const SESSION_KEY = 'imageEnhancerState';
 
-const ImageEnhancerView: React.FC<ImageEnhancerViewProps> = ({ onReEdit, onCreateVideo, currentUser, onUserUpdate, language }) => {
+const ImageEnhancerView: React.FC<ImageEnhancerViewProps> = ({ onReEdit, onCreateVideo, generationPreset, clearGenerationPreset, currentUser, onUserUpdate, language }) => {
   const [imageData, setImageData] = useState<ImageData | null>(null);
   const [resultImage, setResultImage] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [enhancementType, setEnhancementType] = useState<EnhancementType>('upscale');
   const [imageUploadKey, setImageUploadKey] = useState(Date.now());
+  const [keptSeed, setKeptSeed] = useState<number | null>(null);
 
   useEffect(() => {
     try {
@@ -78,6 +89,20 @@ const ImageEnhancerView: React.FC<ImageEnhancerViewProps> = ({ onReEdit, onCreat
     } catch (e) { console.error("Failed to save state to session storage", e); }
   }, [enhancementType]);
 
+  useEffect(() => {
+    if (generationPreset) {
+      const { metadata } = generationPreset;
+      const inputs = metadata.inputs as Partial<ImageEnhancerInputs>;
+      const image = generationPreset.referenceImages[0];
+      setImageData(image ? { ...image, previewUrl: `data:${image.mimeType};base64,${image.base64}` } : null);
+      setImageUploadKey(Date.now());
+      setEnhancementType(inputs.enhancementType || 'upscale');
+      setKeptSeed(generationPreset.keepSeed ? metadata.seed ?? null : null);
+      setResultImage(null);
+      clearGenerationPreset();
+    }
+  }, [generationPreset, clearGenerationPreset]);
+
   const handleImageUpload = useCallback((base64: string, mimeType: string, file: File) => {
     setImageData({ base64, mimeType, previewUrl: URL.createObjectURL(file) });
     setResultImage(null);
@@ -100,12 +125,13 @@ const ImageEnhancerView: React.FC<ImageEnhancerViewProps> = ({ onReEdit, onCreat
     
     const prompt = getImageEnhancementPrompt(enhancementType);
     const historyPrompt = enhancementType === 'upscale' ? "Image Upscaled" : "Image Colors Enhanced";
+    const seed = getBatchSeed(keptSeed, 0);
 
     try {
        const result = await editOrComposeWithImagen({
           prompt,
           images: [{ ...imageData, category: 'MEDIA_CATEGORY_SUBJECT', caption: 'image to enhance' }],
-          config: { aspectRatio: '1:1' }
+          config: { aspectRatio: '1:1', seed }
       });
       const imageBase64 = result.imagePanels[0]?.generatedImages[0]?.encodedImage;
 
@@ -115,6 +141,14 @@ const ImageEnhancerView: React.FC<ImageEnhancerViewProps> = ({ onReEdit, onCreat
             type: 'Image',
             prompt: historyPrompt,
             result: imageBase64,
+            metadata: {
+                sourceView: 'image-enhancer',
+                model: MODELS.imageEdit,
+                seed,
+                aspectRatio: '1:1',
+                referenceImageIds: await saveReferenceImages([imageData]),
+                inputs: { enhancementType } satisfies ImageEnhancerInputs,
+            }
         });
 
         const updateResult = await incrementImageUsage(currentUser);
@@ -130,7 +164,7 @@ const ImageEnhancerView: React.FC<ImageEnhancerViewProps> = ({ onReEdit, onCreat
     } finally {
       setIsLoading(false);
     }
-  }, [imageData, enhancementType, currentUser, onUserUpdate]);
+  }, [imageData, enhancementType, currentUser, onUserUpdate, keptSeed]);
 
   const handleReset = useCallback(() => {
     setImageData(null);
@@ -138,6 +172,7 @@ const ImageEnhancerView: React.FC<ImageEnhancerViewProps> = ({ onReEdit, onCreat
     setError(null);
     setEnhancementType('upscale');
     setImageUploadKey(Date.now());
+    setKeptSeed(null);
     sessionStorage.removeItem(SESSION_KEY);
   }, []);
 
@@ -150,10 +185,11 @@ const ImageEnhancerView: React.FC<ImageEnhancerViewProps> = ({ onReEdit, onCreat
       
       <div className="flex-1 flex flex-col justify-center">
           {/* FIX: Add missing 'language' prop to ImageUpload component. */}
-          <ImageUpload key={imageUploadKey} id="enhancer-upload" onImageUpload={handleImageUpload} onRemove={handleRemoveImage} title="Upload Image to Enhance" language={language}/>
+          <ImageUpload key={imageUploadKey} id="enhancer-upload" initialImage={imageData} onImageUpload={handleImageUpload} onRemove={handleRemoveImage} title="Upload Image to Enhance" language={language}/>
       </div>
       
       <div className="space-y-4 pt-4 mt-auto">
+          <SeedNotice seed={keptSeed} onClear={() => setKeptSeed(null)} />
           <div className="flex justify-center gap-4">
               <button onClick={() => setEnhancementType('upscale')} className={`px-6 py-2 rounded-full font-semibold transition-colors text-sm ${enhancementType === 'upscale' ? 'bg-primary-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>Upscale & Sharpen</button>
               <button onClick={() => setEnhancementType('colors')} className={`px-6 py-2 rounded-full font-semibold transition-colors text-sm ${enhancementType === 'colors' ? 'bg-primary-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>Enhance Colors</button>
@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { addHistoryItem } from '../../services/historyService';
+import { addHistoryItem, saveReferenceImages } from '../../services/historyService';
 import Spinner from '../common/Spinner';
 import { UploadIcon, TrashIcon, DownloadIcon, VideoIcon, StarIcon, WandIcon, AlertTriangleIcon, RefreshCwIcon } from '../Icons';
 import { type MultimodalContent } from '../../services/geminiService';
@@ -8,10 +8,15 @@ import { getImageEditingPrompt } from '../../services/promptManager';
 import { handleApiError } from '../../services/errorHandler';
 import { generateImageWithImagen, editOrComposeWithImagen } from '../../services/imagenV3Service';
 import { incrementImageUsage } from '../../services/userService';
+import { addLogEntry } from '../../services/aiLogService';
+import { isAbortError } from '../../utils/abortUtils';
 // FIX: Add missing Language import.
-import { type User, type Language } from '../../types';
+import { type User, type Language, type GenerationPreset } from '../../types';
 import CreativeDirectionPanel from '../common/CreativeDirectionPanel';
+import SeedNotice from '../common/SeedNotice';
 import { getInitialCreativeDirectionState, type CreativeDirectionState } from '../../services/creativeDirectionService';
+import { getBatchSeed } from '../../services/generationPresetService';
+import { MODELS } from '../../services/aiConfig';
 
 interface ImageData extends MultimodalContent {
   id: string;
@@ -20,6 +25,12 @@ interface ImageData extends MultimodalContent {
 
 type ImageSlot = string | { error: string } | null;
 
+// Form fields kept in GenerationMetadata.inputs
+interface ImageGenerationInputs {
+  prompt: string;
+  negativePrompt: string;
+}
+
 const downloadImage = (base64Image: string, fileName: string) => {
   const link = document.createElement('a');
   link.href = `data:image/png;base64,${base64Image}`;
@@ -46,6 +57,8 @@ interface ImageGenerationViewProps {
   clearReEdit: () => void;
   presetPrompt: string | null;
   clearPresetPrompt: () => void;
+  generationPreset: GenerationPreset | null;
+  clearGenerationPreset: () => void;
   currentUser: User;
   onUserUpdate: (user: User) => void;
   // FIX: Add language to props.
@@ -54,7 +67,7 @@ interface ImageGenerationViewProps {
 
 const SESSION_KEY = 'imageGenerationState';
 
-const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo, onReEdit, imageToReEdit, clearReEdit, presetPrompt, clearPresetPrompt, currentUser, onUserUpdate, language }) => {
+const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo, onReEdit, imageToReEdit, clearReEdit, presetPrompt, clearPresetPrompt, generationPreset, clearGenerationPreset, currentUser, onUserUpdate, language }) => {
   const [prompt, setPrompt] = useState('');
   const [images, setImages] = useState<ImageSlot[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -65,10 +78,12 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [progress, setProgress] = useState(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const [negativePrompt, setNegativePrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState<'1:1' | '9:16' | '16:9' | '3:4' | '4:3'>('1:1');
   const [creativeState, setCreativeState] = useState<CreativeDirectionState>(getInitialCreativeDirectionState());
+  const [keptSeed, setKeptSeed] = useState<number | null>(null);
 
   const isEditing = referenceImages.length > 0;
 
@@ -117,6 +132,28 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
     }
   }, [presetPrompt, clearPresetPrompt]);
 
+  useEffect(() => {
+    if (generationPreset) {
+      const { metadata } = generationPreset;
+      const inputs = metadata.inputs as Partial<ImageGenerationInputs>;
+      setReferenceImages(generationPreset.referenceImages.map((image, i) => ({
+        id: `preset-${Date.now()}-${i}`,
+        previewUrl: `data:${image.mimeType};base64,${image.base64}`,
+        ...image,
+      })));
+      setPrompt(inputs.prompt || '');
+      setNegativePrompt(inputs.negativePrompt || '');
+      if (metadata.aspectRatio) setAspectRatio(metadata.aspectRatio as typeof aspectRatio);
+      setCreativeState(metadata.creativeDirection || getInitialCreativeDirectionState());
+      setNumberOfImages(1);
+      setKeptSeed(generationPreset.keepSeed ? metadata.seed ?? null : null);
+      setImages([]);
+      window.scrollTo(0, 0);
+      clearGenerationPreset();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [generationPreset, clearGenerationPreset]);
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files) return;
@@ -160,13 +197,14 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
     setReferenceImages(prev => prev.filter(img => img.id !== id));
   };
   
-  const generateOneImage = useCallback(async (index: number, onStatusUpdate: (status: string) => void) => {
+  const generateOneImage = useCallback(async (index: number, onStatusUpdate: (status: string) => void, signal?: AbortSignal) => {
       setImages(prev => {
           const newImages = [...prev];
           newImages[index] = null; // Set to loading
           return newImages;
       });
       
+      const seed = getBatchSeed(keptSeed, index);
       try {
           let resultImage: string | undefined;
           if (isEditing) {
@@ -183,8 +221,8 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
               const result = await editOrComposeWithImagen({
                   prompt: editingPrompt,
                   images: referenceImages.map(img => ({ ...img, category: 'MEDIA_CATEGORY_SUBJECT', caption: 'image to edit' })),
-                  config: { aspectRatio }
-              }, onStatusUpdate);
+                  config: { aspectRatio, seed }
+              }, onStatusUpdate, signal);
               resultImage = result.imagePanels[0]?.generatedImages[0]?.encodedImage;
           } else {
               const creativeDetails = Object.entries(creativeState)
@@ -199,9 +237,10 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
                   config: {
                       sampleCount: 1,
                       aspectRatio,
-                      negativePrompt
+                      negativePrompt,
+                      seed
                   }
-              }, onStatusUpdate);
+              }, onStatusUpdate, false, signal);
               resultImage = result.imagePanels[0]?.generatedImages[0]?.encodedImage;
           }
 
@@ -212,7 +251,16 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
           await addHistoryItem({
               type: 'Image',
               prompt: isEditing ? `Image Edit: ${prompt}` : `Image Generation: ${prompt}`,
-              result: resultImage
+              result: resultImage,
+              metadata: {
+                  sourceView: 'image-generation',
+                  model: isEditing ? MODELS.imageEdit : MODELS.imageGeneration,
+                  seed,
+                  aspectRatio,
+                  referenceImageIds: await saveReferenceImages(referenceImages),
+                  creativeDirection: creativeState,
+                  inputs: { prompt, negativePrompt } satisfies ImageGenerationInputs,
+              }
           });
 
           // FIX: Pass the full currentUser object instead of just the ID, as required by the function signature.
@@ -228,6 +276,15 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
           });
 
       } catch (e) {
+          if (isAbortError(e)) {
+              addLogEntry({ model: 'IMAGEN', prompt, output: 'Image generation cancelled by user.', tokenCount: 0, status: 'Cancelled' });
+              setImages(prev => {
+                  const newImages = [...prev];
+                  newImages[index] = { error: 'Cancelled' };
+                  return newImages;
+              });
+              return;
+          }
           const userFriendlyMessage = handleApiError(e);
           console.error(`Image Generation Failed (Slot ${index + 1}): ${userFriendlyMessage}`);
           setImages(prev => {
@@ -236,7 +293,7 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
               return newImages;
           });
       }
-  }, [prompt, referenceImages, isEditing, negativePrompt, aspectRatio, currentUser, onUserUpdate, creativeState]);
+  }, [prompt, referenceImages, isEditing, negativePrompt, aspectRatio, currentUser, onUserUpdate, creativeState, keptSeed]);
 
   const handleGenerate = useCallback(async () => {
     if (!prompt.trim() && !isEditing) {
@@ -249,16 +306,28 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
     setImages(Array(numberOfImages).fill(null));
     setSelectedImageIndex(0);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     for (let i = 0; i < numberOfImages; i++) {
+        if (controller.signal.aborted) {
+            setImages(prev => prev.map(slot => (slot === null ? { error: 'Cancelled' } : slot)));
+            break;
+        }
         setProgress(i + 1);
-        await generateOneImage(i, setStatusMessage);
+        await generateOneImage(i, setStatusMessage, controller.signal);
     }
 
+    abortControllerRef.current = null;
     setIsLoading(false);
     setProgress(0);
     setStatusMessage('');
   }, [numberOfImages, isEditing, prompt, generateOneImage]);
   
+  const handleCancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const handleRetry = useCallback(async (index: number) => {
     await generateOneImage(index, setStatusMessage);
   }, [generateOneImage]);
@@ -282,6 +351,7 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
     setProgress(0);
     setStatusMessage('');
     setCreativeState(getInitialCreativeDirectionState());
+    setKeptSeed(null);
     sessionStorage.removeItem(SESSION_KEY);
   }, []);
 
@@ -355,16 +425,16 @@ const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ onCreateVideo
       </div>
 
       <div className="pt-4 mt-auto">
+        <SeedNotice seed={keptSeed} onClear={() => setKeptSeed(null)} />
         <div className="flex gap-4">
           <button onClick={handleGenerate} disabled={isLoading} className="w-full flex items-center justify-center gap-2 bg-primary-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
             {isLoading ? <Spinner /> : isEditing ? 'Apply Edit' : 'Generate Image'}
           </button>
           <button
-            onClick={handleReset}
-            disabled={isLoading}
+            onClick={isLoading ? handleCancel : handleReset}
             className="flex-shrink-0 bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-200 font-semibold py-3 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50"
           >
-            Reset
+            {isLoading ? 'Cancel' : 'Reset'}
           </button>
         </div>
         {error && !isLoading && <p className="text-red-500 dark:text-red-400 mt-2 text-center">{error}</p>}
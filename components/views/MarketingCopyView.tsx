@@ -6,7 +6,8 @@ import { MegaphoneIcon, DownloadIcon, ClipboardIcon, CheckCircleIcon } from '../
 import TwoColumnLayout from '../common/TwoColumnLayout';
 import { getMarketingCopyPrompt } from '../../services/promptManager';
 import { handleApiError } from '../../services/errorHandler';
-import { type Language } from '../../types';
+import { type GenerationPreset, type Language } from '../../types';
+import { MODELS } from '../../services/aiConfig';
 
 
 const tones = ["Professional", "Casual", "Witty", "Persuasive", "Empathetic", "Bold"];
@@ -26,11 +27,21 @@ const downloadText = (text: string, fileName: string) => {
 
 const SESSION_KEY = 'marketingCopyState';
 
+// Form fields kept in GenerationMetadata.inputs
+interface MarketingCopyInputs {
+    productDetails: string;
+    targetAudience: string;
+    keywords: string;
+    tone: string;
+}
+
 interface MarketingCopyViewProps {
     language: Language;
+    generationPreset: GenerationPreset | null;
+    clearGenerationPreset: () => void;
 }
 
-const MarketingCopyView: React.FC<MarketingCopyViewProps> = ({ language }) => {
+const MarketingCopyView: React.FC<MarketingCopyViewProps> = ({ language, generationPreset, clearGenerationPreset }) => {
     const [productDetails, setProductDetails] = useState('');
     const [targetAudience, setTargetAudience] = useState('');
     const [keywords, setKeywords] = useState('');
@@ -63,6 +74,20 @@ const MarketingCopyView: React.FC<MarketingCopyViewProps> = ({ language }) => {
         } catch (e) { console.error("Failed to save state to session storage", e); }
     }, [productDetails, targetAudience, keywords, selectedTone, selectedLanguage, generatedCopy]);
 
+    useEffect(() => {
+        if (generationPreset) {
+            const { metadata } = generationPreset;
+            const inputs = metadata.inputs as Partial<MarketingCopyInputs>;
+            setProductDetails(inputs.productDetails || '');
+            setTargetAudience(inputs.targetAudience || '');
+            setKeywords(inputs.keywords || '');
+            if (inputs.tone && tones.includes(inputs.tone)) setSelectedTone(inputs.tone);
+            if (metadata.language) setSelectedLanguage(metadata.language);
+            setGeneratedCopy('');
+            clearGenerationPreset();
+        }
+    }, [generationPreset, clearGenerationPreset]);
+
     const handleGenerate = useCallback(async () => {
         if (!productDetails.trim()) {
             setError("Product/Service details are required to generate marketing copy.");
@@ -88,6 +113,12 @@ const MarketingCopyView: React.FC<MarketingCopyViewProps> = ({ language }) => {
                 type: 'Copy',
                 prompt: `Marketing Copy for: ${productDetails.substring(0, 50)}... (Lang: ${selectedLanguage})`,
                 result: result,
+                metadata: {
+                    sourceView: 'marketing-copy',
+                    model: MODELS.text,
+                    language: selectedLanguage,
+                    inputs: { productDetails, targetAudience, keywords, tone: selectedTone } satisfies MarketingCopyInputs,
+                },
             });
         } catch (e) {
             handleApiError(e);
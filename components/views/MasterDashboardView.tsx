@@ -7,6 +7,9 @@ import { cropImageToAspectRatio } from '../../services/imageService';
 import CreativeDirectionPanel from '../common/CreativeDirectionPanel';
 import { getInitialCreativeDirectionState, type CreativeDirectionState } from '../../services/creativeDirectionService';
 import { runComprehensiveTokenTest, type TokenTestResult } from '../../services/imagenV3Service';
+import { parseUploadResponse, parseImagePanelsResponse, parseVeoOperationsResponse, normalizeVideoOperation } from '../../services/proxySchemas';
+import { getProxyServers } from '../../services/contentService';
+import { fetchProxyMetrics, estimateQuantile, type ProxyMetricsSummary, type LatencyBucket } from '../../services/proxyMetricsService';
 
 // --- CONFIG ---
 const SERVERS = Array.from({ length: 10 }, (_, i) => ({
@@ -130,6 +133,242 @@ const TokenHealthTester: React.FC = () => {
     );
 };
 
+// --- PROXY METRICS ---
+const METRICS_REFRESH_MS = 30000;
+
+interface ServerMetricsState {
+    summary?: ProxyMetricsSummary;
+    error?: string;
+}
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+const formatSeconds = (seconds: number | null) => {
+    if (seconds === null) return '--';
+    return seconds < 1 ? `${Math.round(seconds * 1000)}ms` : `${seconds.toFixed(1)}s`;
+};
+
+const formatUptime = (seconds: number | null) => {
+    if (seconds === null) return '--';
+    const hours = Math.floor(seconds / 3600);
+    return hours >= 24 ? `${Math.floor(hours / 24)}d ${hours % 24}h` : `${hours}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+const serverLabel = (url: string) => url.replace(/^https?:\/\//, '');
+
+const MetricBar: React.FC<{ label: string; value: number; max: number; display: string; color: string }> = ({ label, value, max, display, color }) => (
+    <div className="flex items-center gap-2 text-[10px]">
+        <span className="w-32 truncate font-mono text-neutral-500" title={label}>{label}</span>
+        <div className="flex-1 h-2.5 bg-neutral-100 dark:bg-neutral-800 rounded overflow-hidden">
+            <div className={`h-full rounded ${color}`} style={{ width: `${max > 0 ? Math.min(100, (value / max) * 100) : 0}%` }} />
+        </div>
+        <span className="w-16 text-right font-mono font-semibold">{display}</span>
+    </div>
+);
+
+// Bars show how many requests finished within each bucket (not cumulative).
+const LatencyHistogram: React.FC<{ buckets: LatencyBucket[] }> = ({ buckets }) => {
+    const bars = buckets.map((bucket, i) => ({
+        label: bucket.le === Infinity ? `>${buckets[i - 1]?.le ?? 0}s` : `≤${bucket.le}s`,
+        count: bucket.count - (buckets[i - 1]?.count ?? 0),
+    }));
+    const max = Math.max(1, ...bars.map(bar => bar.count));
+    const width = 100 / Math.max(1, bars.length);
+
+    if (bars.length === 0) {
+        return <p className="text-[10px] text-neutral-400">No requests yet.</p>;
+    }
+    return (
+        <div>
+            <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-16">
+                {bars.map((bar, i) => {
+                    const height = (bar.count / max) * 40;
+                    return (
+                        <rect key={bar.label} x={i * width + width * 0.1} y={40 - height} width={width * 0.8} height={height} className="fill-primary-500">
+                            <title>{`${bar.label}: ${bar.count}`}</title>
+                        </rect>
+                    );
+                })}
+            </svg>
+            <div className="flex text-[8px] text-neutral-400 font-mono">
+                {bars.map(bar => <span key={bar.label} className="flex-1 text-center truncate">{bar.label}</span>)}
+            </div>
+        </div>
+    );
+};
+
+const ServerMetricsCard: React.FC<{ url: string; state?: ServerMetricsState }> = ({ url, state }) => {
+    const summary = state?.summary;
+    const upstream = Object.entries<number>(summary?.upstreamStatuses ?? {}).sort((a, b) => b[1] - a[1]);
+    const maxUpstream = Math.max(0, ...upstream.map(([, count]) => count));
+    const routes = summary?.routes.slice(0, 6) ?? [];
+    const maxRouteRequests = Math.max(0, ...routes.map(route => route.requests));
+    const inFlight = Object.values<number>(summary?.inFlightGenerations ?? {}).reduce((total, n) => total + n, 0);
+
+    return (
+        <div className="bg-white dark:bg-neutral-900 rounded-lg border border-neutral-200 dark:border-neutral-800 p-3 space-y-3">
+            <div className="flex justify-between items-center">
+                <h4 className="font-bold text-sm font-mono truncate" title={url}>{serverLabel(url)}</h4>
+                {state?.error
+                    ? <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded-full bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300">Unreachable</span>
+                    : summary && <span className="text-[10px] text-neutral-500">Up {formatUptime(summary.uptimeSeconds)}</span>}
+            </div>
+
+            {state?.error && <p className="text-xs text-red-600 break-words">{state.error}</p>}
+            {!state && <div className="flex justify-center py-4"><Spinner /></div>}
+
+            {summary && (
+                <>
+                    <div className="grid grid-cols-4 gap-1 text-center">
+                        {[
+                            { label: 'Requests', value: summary.totalRequests.toLocaleString() },
+                            { label: '5xx', value: summary.totalServerErrors.toLocaleString() },
+                            { label: 'In Flight', value: `${inFlight} / ${summary.activeVideoJobs} jobs` },
+                            { label: 'Sent', value: formatBytes(summary.totalBytes) },
+                        ].map(stat => (
+                            <div key={stat.label} className="bg-neutral-50 dark:bg-neutral-800 rounded p-1">
+                                <p className="text-[9px] uppercase text-neutral-500">{stat.label}</p>
+                                <p className="text-xs font-bold">{stat.value}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div>
+                        <p className="text-[10px] font-bold uppercase text-neutral-500 mb-1">Latency</p>
+                        <LatencyHistogram buckets={summary.latencyBuckets} />
+                    </div>
+
+                    <div className="space-y-1">
+                        <p className="text-[10px] font-bold uppercase text-neutral-500">Routes (requests · p95 · bytes)</p>
+                        {routes.map(route => (
+                            <div key={route.route}>
+                                <MetricBar
+                                    label={route.route}
+                                    value={route.requests}
+                                    max={maxRouteRequests}
+                                    display={route.requests.toLocaleString()}
+                                    color={route.serverErrors > 0 ? 'bg-red-500' : 'bg-blue-500'}
+                                />
+                                <p className="text-[9px] text-neutral-400 font-mono text-right">
+                                    p95 {formatSeconds(route.p95Seconds)} · {formatBytes(route.bytes)}{route.serverErrors > 0 && ` · ${route.serverErrors} 5xx`}
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="space-y-1">
+                        <p className="text-[10px] font-bold uppercase text-neutral-500">Upstream Status Codes</p>
+                        {upstream.length === 0 && <p className="text-[10px] text-neutral-400">No upstream calls yet.</p>}
+                        {upstream.map(([status, count]) => (
+                            <MetricBar
+                                key={status}
+                                label={status}
+                                value={count}
+                                max={maxUpstream}
+                                display={count.toLocaleString()}
+                                color={status.startsWith('2') ? 'bg-green-500' : status.startsWith('4') ? 'bg-yellow-500' : 'bg-red-500'}
+                            />
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+const ProxyMetricsPanel: React.FC = () => {
+    const [serverUrls, setServerUrls] = useState<string[]>([]);
+    const [metrics, setMetrics] = useState<Record<string, ServerMetricsState>>({});
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [autoRefresh, setAutoRefresh] = useState(false);
+
+    const refresh = useCallback(async () => {
+        setIsRefreshing(true);
+        try {
+            const urls = await getProxyServers();
+            setServerUrls(urls);
+            const results = await Promise.allSettled(urls.map(url => fetchProxyMetrics(url, AbortSignal.timeout(10000))));
+            setMetrics(results.reduce((acc, result, i) => ({
+                ...acc,
+                [urls[i]]: result.status === 'fulfilled'
+                    ? { summary: result.value }
+                    : { error: result.reason instanceof Error ? result.reason.message : String(result.reason) },
+            }), {} as Record<string, ServerMetricsState>));
+        } finally {
+            setIsRefreshing(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    useEffect(() => {
+        if (!autoRefresh) return;
+        const interval = window.setInterval(refresh, METRICS_REFRESH_MS);
+        return () => clearInterval(interval);
+    }, [autoRefresh, refresh]);
+
+    const summaries = serverUrls.map(url => metrics[url]?.summary).filter((s): s is ProxyMetricsSummary => !!s);
+    const maxRequests = Math.max(0, ...summaries.map(s => s.totalRequests));
+    const maxP95 = Math.max(0, ...summaries.map(s => estimateQuantile(s.latencyBuckets, 0.95) ?? 0));
+
+    return (
+        <div className="bg-white dark:bg-neutral-900 p-6 rounded-xl shadow-sm border border-neutral-200 dark:border-neutral-800">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-bold flex items-center gap-2">
+                    <ActivityIcon className="w-5 h-5 text-primary-500" /> Proxy Metrics
+                </h2>
+                <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-1 text-xs cursor-pointer">
+                        <input type="checkbox" checked={autoRefresh} onChange={e => setAutoRefresh(e.target.checked)} />
+                        Auto-refresh ({METRICS_REFRESH_MS / 1000}s)
+                    </label>
+                    <button
+                        onClick={refresh}
+                        disabled={isRefreshing}
+                        className="flex items-center gap-1 px-3 py-1.5 bg-neutral-800 dark:bg-neutral-700 text-white text-xs font-bold rounded hover:bg-neutral-700 dark:hover:bg-neutral-600 disabled:opacity-50"
+                    >
+                        <RefreshCwIcon className={`w-3 h-3 ${isRefreshing ? 'animate-spin' : ''}`} /> Refresh
+                    </button>
+                </div>
+            </div>
+
+            {summaries.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+                    <div className="space-y-1">
+                        <p className="text-[10px] font-bold uppercase text-neutral-500">Requests per Server</p>
+                        {summaries.map(s => (
+                            <MetricBar key={s.serverUrl} label={serverLabel(s.serverUrl)} value={s.totalRequests} max={maxRequests} display={s.totalRequests.toLocaleString()} color="bg-blue-500" />
+                        ))}
+                    </div>
+                    <div className="space-y-1">
+                        <p className="text-[10px] font-bold uppercase text-neutral-500">p95 Latency per Server</p>
+                        {summaries.map(s => {
+                            const p95 = estimateQuantile(s.latencyBuckets, 0.95);
+                            return <MetricBar key={s.serverUrl} label={serverLabel(s.serverUrl)} value={p95 ?? 0} max={maxP95} display={formatSeconds(p95)} color="bg-purple-500" />;
+                        })}
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+                {serverUrls.map(url => <ServerMetricsCard key={url} url={url} state={metrics[url]} />)}
+            </div>
+        </div>
+    );
+};
+
 const MasterDashboardView: React.FC<MasterDashboardViewProps> = ({ currentUser, language }) => {
     const [promptLanguage, setPromptLanguage] = useState<'English' | 'Bahasa Malaysia'>('English');
     const [prompt, setPrompt] = useState(PRESET_PROMPTS['English']);
@@ -265,7 +504,7 @@ const MasterDashboardView: React.FC<MasterDashboardViewProps> = ({ currentUser,
                 const data = await safeJson(res);
                 if (!res.ok) throw new Error(data.error?.message || data.message || 'Fetch failed');
 
-                const imageBase64 = data.imagePanels?.[0]?.generatedImages?.[0]?.encodedImage;
+                const imageBase64 = parseImagePanelsResponse(data, 'IMAGEN GENERATE').imagePanels[0]?.generatedImages[0]?.encodedImage;
                 if (!imageBase64) throw new Error('No image returned');
 
                 const duration = ((Date.now() - startTime) / 1000).toFixed(2) + 's';
@@ -293,8 +532,7 @@ const MasterDashboardView: React.FC<MasterDashboardViewProps> = ({ currentUser,
                     });
                     const uploadData = await safeJson(uploadRes);
                     if (!uploadRes.ok) throw new Error(uploadData.error?.message || `Upload failed`);
-                    const mediaId = uploadData.result?.data?.json?.result?.uploadMediaGenerationId || uploadData.mediaGenerationId?.mediaGenerationId || uploadData.mediaId;
-                    mediaIds.push(mediaId);
+                    mediaIds.push(parseUploadResponse(uploadData, 'IMAGEN UPLOAD'));
                 }
 
                 // Step 2: Recipe
@@ -312,7 +550,7 @@ const MasterDashboardView: React.FC<MasterDashboardViewProps> = ({ currentUser,
                 const recipeData = await safeJson(recipeRes);
                 if (!recipeRes.ok) throw new Error(recipeData.error?.message || 'Recipe failed');
                 
-                const imageBase64 = recipeData.imagePanels?.[0]?.generatedImages?.[0]?.encodedImage;
+                const imageBase64 = parseImagePanelsResponse(recipeData, 'IMAGEN RECIPE').imagePanels[0]?.generatedImages[0]?.encodedImage;
                 if (!imageBase64) throw new Error('No image returned');
 
                 const duration = ((Date.now() - startTime) / 1000).toFixed(2) + 's';
@@ -346,7 +584,7 @@ const MasterDashboardView: React.FC<MasterDashboardViewProps> = ({ currentUser,
                 });
                 const uploadData = await safeJson(uploadRes);
                 if (!uploadRes.ok) throw new Error(uploadData.error?.message || 'Upload failed');
-                const mediaId = uploadData.mediaGenerationId?.mediaGenerationId || uploadData.mediaId;
+                const mediaId = parseUploadResponse(uploadData, 'VEO UPLOAD');
                 
                 // Step 2: Generate
                 updateServerState(server.id, { status: 'running' });
@@ -359,8 +597,7 @@ const MasterDashboardView: React.FC<MasterDashboardViewProps> = ({ currentUser,
                 });
                 const genData = await safeJson(genRes);
                 if (!genRes.ok) throw new Error(genData.error?.message || 'Generation failed');
-                let operations = genData.operations;
-                if (!operations || operations.length === 0) throw new Error('No operations returned');
+                let operations = parseVeoOperationsResponse(genData, 'VEO I2V GENERATE').operations;
                 
                 // Step 3: Poll
                 let finalUrl = null;
@@ -373,21 +610,20 @@ const MasterDashboardView: React.FC<MasterDashboardViewProps> = ({ currentUser,
                      });
                      const statusData = await safeJson(statusRes);
                      if (!statusRes.ok) continue;
-                     operations = statusData.operations;
-                     const op = operations[0];
+                     operations = parseVeoOperationsResponse(statusData, 'VEO STATUS', true).operations;
+                     if (operations.length === 0) continue;
+                     const op = normalizeVideoOperation(operations[0]);
                      
                      // FIX: Added strict check for FAILED status string to stop loop immediately
                      if (op.status === 'MEDIA_GENERATION_STATUS_FAILED') {
                          throw new Error('Generation Failed: MEDIA_GENERATION_STATUS_FAILED');
                      }
 
-                     const isSuccess = op.done || ['MEDIA_GENERATION_STATUS_COMPLETED', 'MEDIA_GENERATION_STATUS_SUCCESS', 'MEDIA_GENERATION_STATUS_SUCCESSFUL'].includes(op.status);
-
-                     if (isSuccess) {
-                         finalUrl = op.operation?.metadata?.video?.fifeUrl || op.metadata?.video?.fifeUrl || op.result?.generatedVideo?.[0]?.fifeUrl || op.result?.generatedVideos?.[0]?.fifeUrl || op.video?.fifeUrl || op.fifeUrl;
+                     if (op.state === 'completed') {
+                         finalUrl = op.videoUrl;
                          if (finalUrl) break;
                      }
-                     if (op.error) throw new Error(op.error.message || 'Generation error');
+                     if (op.state === 'failed') throw new Error(op.errorMessage || 'Generation error');
                      appendLog(server.id, `Status: ${op.status || 'Processing'}...`);
                 }
                 
@@ -613,6 +849,9 @@ const MasterDashboardView: React.FC<MasterDashboardViewProps> = ({ currentUser,
                 </div>
             </div>
 
+            {/* Proxy Metrics */}
+            <ProxyMetricsPanel />
+
             {/* Server Grid */}
             <div className="flex-1 overflow-y-auto p-1">
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-5 gap-4">
@@ -1,18 +1,21 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import ImageUpload from '../common/ImageUpload';
 import { type MultimodalContent } from '../../services/geminiService';
-import { addHistoryItem } from '../../services/historyService';
+import { addHistoryItem, saveReferenceImages } from '../../services/historyService';
 import Spinner from '../common/Spinner';
 import { CameraIcon, DownloadIcon, WandIcon, VideoIcon, AlertTriangleIcon, RefreshCwIcon } from '../Icons';
 import TwoColumnLayout from '../common/TwoColumnLayout';
 import { getProductPhotoPrompt } from '../../services/promptManager';
-import { type Language, type User } from '../../types';
+import { type Language, type User, type GenerationPreset } from '../../types';
 import { getTranslations } from '../../services/translations';
 import { editOrComposeWithImagen } from '../../services/imagenV3Service';
 import { handleApiError } from '../../services/errorHandler';
 import { incrementImageUsage } from '../../services/userService';
 import CreativeDirectionPanel from '../common/CreativeDirectionPanel';
+import SeedNotice from '../common/SeedNotice';
 import { getInitialCreativeDirectionState, type CreativeDirectionState } from '../../services/creativeDirectionService';
+import { getBatchSeed } from '../../services/generationPresetService';
+import { MODELS } from '../../services/aiConfig';
 
 
 const triggerDownload = (data: string, fileNameBase: string) => {
@@ -37,6 +40,8 @@ interface ImageEditPreset {
 interface ProductPhotoViewProps {
   onReEdit: (preset: ImageEditPreset) => void;
   onCreateVideo: (preset: VideoGenPreset) => void;
+  generationPreset: GenerationPreset | null;
+  clearGenerationPreset: () => void;
   language: Language;
   currentUser: User;
   onUserUpdate: (user: User) => void;
@@ -46,6 +51,11 @@ const SESSION_KEY = 'productPhotoState';
 
 type ImageSlot = string | { error: string } | null;
 
+// Form fields kept in GenerationMetadata.inputs
+interface ProductPhotoInputs {
+  customPrompt: string;
+}
+
 const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
     <div>
         <h2 className="text-lg font-semibold mb-2">{title}</h2>
@@ -53,7 +63,7 @@ const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title
     </div>
 );
 
-const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateVideo, language, currentUser, onUserUpdate }) => {
+const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateVideo, generationPreset, clearGenerationPreset, language, currentUser, onUserUpdate }) => {
   const [productImage, setProductImage] = useState<MultimodalContent | null>(null);
   const [images, setImages] = useState<ImageSlot[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -66,6 +76,7 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
   const [aspectRatio, setAspectRatio] = useState<'1:1' | '9:16' | '16:9' | '3:4' | '4:3'>('1:1');
   const [imageUploadKey, setImageUploadKey] = useState(Date.now());
   const [progress, setProgress] = useState(0);
+  const [keptSeed, setKeptSeed] = useState<number | null>(null);
   
   // FIX: Remove `language` argument from `getTranslations` call to match the function signature.
   const T = getTranslations().productPhotoView;
@@ -95,6 +106,23 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [creativeState, customPrompt, numberOfImages, aspectRatio]);
 
+  useEffect(() => {
+    if (generationPreset) {
+      const { metadata } = generationPreset;
+      const inputs = metadata.inputs as Partial<ProductPhotoInputs>;
+      setProductImage(generationPreset.referenceImages[0] || null);
+      setImageUploadKey(Date.now());
+      setCustomPrompt(inputs.customPrompt || '');
+      setCreativeState(metadata.creativeDirection || getInitialCreativeDirectionState());
+      if (metadata.aspectRatio) setAspectRatio(metadata.aspectRatio as typeof aspectRatio);
+      setNumberOfImages(1);
+      setKeptSeed(generationPreset.keepSeed ? metadata.seed ?? null : null);
+      setImages([]);
+      clearGenerationPreset();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [generationPreset, clearGenerationPreset]);
+
   const handleRemoveImage = useCallback(() => {
     setProductImage(null);
   }, []);
@@ -114,11 +142,12 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
         creativeDirection: creativeState
     });
 
+    const seed = getBatchSeed(keptSeed, index);
     try {
         const result = await editOrComposeWithImagen({
             prompt,
             images: [{ ...productImage, category: 'MEDIA_CATEGORY_SUBJECT', caption: 'product' }],
-            config: { aspectRatio }
+            config: { aspectRatio, seed }
         });
         const imageBase64 = result.imagePanels?.[0]?.generatedImages?.[0]?.encodedImage;
         
@@ -126,7 +155,16 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
             await addHistoryItem({
                 type: 'Image',
                 prompt: `Product Photo: ${prompt.substring(0, 50)}...`,
-                result: imageBase64
+                result: imageBase64,
+                metadata: {
+                    sourceView: 'product-photo',
+                    model: MODELS.imageEdit,
+                    seed,
+                    aspectRatio,
+                    referenceImageIds: await saveReferenceImages([productImage]),
+                    creativeDirection: creativeState,
+                    inputs: { customPrompt } satisfies ProductPhotoInputs,
+                }
             });
             
             const updateResult = await incrementImageUsage(currentUser);
@@ -151,7 +189,7 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
             return newImages;
         });
     }
-  }, [productImage, creativeState, customPrompt, aspectRatio, currentUser, onUserUpdate]);
+  }, [productImage, creativeState, customPrompt, aspectRatio, currentUser, onUserUpdate, keptSeed]);
 
   const handleGenerate = useCallback(async () => {
     if (!productImage) {
@@ -191,6 +229,7 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
     setAspectRatio('1:1');
     setImageUploadKey(Date.now());
     setProgress(0);
+    setKeptSeed(null);
     sessionStorage.removeItem(SESSION_KEY);
   }, []);
 
@@ -203,7 +242,7 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
 
       <Section title={T.uploadProduct}>
         {/* FIX: Add missing 'language' prop to ImageUpload component. */}
-        <ImageUpload key={imageUploadKey} id="product-photo-upload" onImageUpload={(base64, mimeType) => setProductImage({ base64, mimeType })} onRemove={handleRemoveImage} title={T.uploadTitle} language={language} />
+        <ImageUpload key={imageUploadKey} id="product-photo-upload" initialImage={productImage} onImageUpload={(base64, mimeType) => setProductImage({ base64, mimeType })} onRemove={handleRemoveImage} title={T.uploadTitle} language={language} />
       </Section>
 
       <Section title={T.customPrompt}>
@@ -254,6 +293,7 @@ const ProductPhotoView: React.FC<ProductPhotoViewProps> = ({ onReEdit, onCreateV
       </Section>
       
       <div className="pt-4 mt-auto">
+          <SeedNotice seed={keptSeed} onClear={() => setKeptSeed(null)} />
           <div className="flex gap-4">
             <button
                 onClick={handleGenerate}
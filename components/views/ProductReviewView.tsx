@@ -10,13 +10,14 @@ import { getProductReviewImagePrompt, getProductReviewStoryboardPrompt, getImage
 import { type User, type Language } from '../../types';
 import { MODELS } from '../../services/aiConfig';
 import { incrementVideoUsage, incrementImageUsage } from '../../services/userService';
-import { addLogEntry } from '../../services/aiLogService';
 import { triggerUserWebhook } from '../../services/webhookService';
 import PreviewModal from '../common/PreviewModal';
 import { handleApiError } from '../../services/errorHandler';
 import { editOrComposeWithImagen } from '../../services/imagenV3Service';
 import CreativeDirectionPanel from '../common/CreativeDirectionPanel';
 import { getInitialCreativeDirectionState, type CreativeDirectionState } from '../../services/creativeDirectionService';
+import { startJob, subscribeToJob, findJobs, waitForJob, removeJob, cancelJob } from '../../services/jobService';
+import eventBus from '../../services/eventBus';
 
 
 const contentTypeOptions = ["None", "Random", "Hard Selling", "Soft Selling", "Storytelling", "Problem/Solution", "ASMR / Sensory", "Unboxing", "Educational", "Testimonial"];
@@ -54,6 +55,9 @@ const downloadText = (text: string, fileName: string) => {
 };
 
 const SESSION_KEY = 'productReviewState';
+const JOB_SOURCE_VIEW = 'product-review';
+
+type VideoJobResult = { videoFile: File; thumbnailUrl: string | null };
 
 const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreateVideo, currentUser, onUserUpdate, language }) => {
   const [productImage, setProductImage] = useState<MultimodalContent | null>(null);
@@ -90,6 +94,9 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
   const [videoGenerationErrors, setVideoGenerationErrors] = useState<(string | null)[]>(Array(4).fill(null));
   const [downloadingVideoIndex, setDownloadingVideoIndex] = useState<number | null>(null);
   const isVideoCancelledRef = useRef(false);
+  const [sceneJobIds, setSceneJobIds] = useState<(string | null)[]>(Array(4).fill(null));
+  // Job ID whose final outcome is already shown for each scene, so resubscribing doesn't re-apply it.
+  const appliedSceneJobsRef = useRef<(string | null)[]>(Array(4).fill(null));
   
   const [productImageUploadKey, setProductImageUploadKey] = useState(Date.now());
   const [faceImageUploadKey, setFaceImageUploadKey] = useState(Date.now() + 1);
@@ -166,6 +173,80 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
     };
   }, []);
 
+  // Reattach to the latest job of each scene (e.g. after navigating away and back).
+  useEffect(() => {
+    setSceneJobIds(Array.from({ length: 4 }, (_, i) => findJobs(JOB_SOURCE_VIEW, String(i))[0]?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    const unsubscribers = sceneJobIds.map((jobId, index) => {
+      if (!jobId) return null;
+      return subscribeToJob<VideoJobResult>(jobId, (job) => {
+        if (job.status === 'queued' || job.status === 'running') {
+          setVideoGenerationStatus(prev => {
+            const newStatus = [...prev];
+            newStatus[index] = 'loading';
+            return newStatus;
+          });
+          return;
+        }
+        if (appliedSceneJobsRef.current[index] === job.id) return;
+        appliedSceneJobsRef.current[index] = job.id;
+
+        if (job.status === 'completed' && job.result) {
+          const { videoFile, thumbnailUrl } = job.result;
+          const objectUrl = URL.createObjectURL(videoFile);
+
+          setGeneratedVideos(prev => {
+            const newVideos = [...prev];
+            if (newVideos[index] && newVideos[index]?.startsWith('blob:')) {
+              URL.revokeObjectURL(newVideos[index]!);
+            }
+            newVideos[index] = objectUrl;
+            return newVideos;
+          });
+          setGeneratedThumbnails(prev => {
+            const newThumbs = [...prev];
+            newThumbs[index] = thumbnailUrl;
+            return newThumbs;
+          });
+          setVideoFilenames(prev => {
+            const newNames = [...prev];
+            newNames[index] = videoFile.name;
+            return newNames;
+          });
+          setVideoGenerationStatus(prev => {
+            const newStatus = [...prev];
+            newStatus[index] = 'success';
+            return newStatus;
+          });
+        } else if (job.status === 'failed') {
+          const userFriendlyMessage = handleApiError(new Error(job.error));
+          setVideoGenerationErrors(prev => {
+            const newErrors = [...prev];
+            newErrors[index] = userFriendlyMessage;
+            return newErrors;
+          });
+          setVideoGenerationStatus(prev => {
+            const newStatus = [...prev];
+            newStatus[index] = 'error';
+            return newStatus;
+          });
+        } else if (job.status === 'cancelled') {
+          setVideoGenerationStatus(prev => {
+            const newStatus = [...prev];
+            newStatus[index] = 'idle';
+            return newStatus;
+          });
+        }
+      });
+    });
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe?.());
+    };
+  }, [sceneJobIds]);
+
   // Effect to re-parse scenes whenever the storyboard text is edited by the user.
   useEffect(() => {
     if (storyboard) {
@@ -310,7 +391,11 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
             throw new Error("The AI did not return an image. Please try a different prompt.");
         }
         
-        await addHistoryItem({ type: 'Image', prompt: `Storyboard Scene ${index + 1}: ${parsedScenes[index].substring(0, 50)}...`, result: imageBase64 });
+        await addHistoryItem({
+            type: 'Image',
+            prompt: `Storyboard Scene ${index + 1}: ${parsedScenes[index].substring(0, 50)}...`,
+            result: imageBase64,
+        });
 
         const updateResult = await incrementImageUsage(currentUser);
         if (updateResult.success && updateResult.user) {
@@ -372,7 +457,11 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
             throw new Error("The AI did not return an edited image. Please try a different prompt.");
         }
         
-        await addHistoryItem({ type: 'Image', prompt: `Edited Storyboard Scene ${index + 1}: ${editPrompt}`, result: imageBase64 });
+        await addHistoryItem({
+            type: 'Image',
+            prompt: `Edited Storyboard Scene ${index + 1}: ${editPrompt}`,
+            result: imageBase64,
+        });
 
         const updateResult = await incrementImageUsage(currentUser);
         if (updateResult.success && updateResult.user) {
@@ -527,61 +616,45 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
         const fullPrompt = promptLines.join('\n');
         
         const image = { imageBytes: imageBase64, mimeType: 'image/png' };
-        
-        const { videoFile, thumbnailUrl } = await generateVideo(
-            fullPrompt, 
-            videoModel, 
-            videoAspectRatio, 
-            videoResolution, 
-            negativePrompt,
-            image
-        );
-
-        if (videoFile) {
-            const objectUrl = URL.createObjectURL(videoFile);
-
-            setGeneratedVideos(prev => {
-                const newVideos = [...prev];
-                if (newVideos[index] && newVideos[index]?.startsWith('blob:')) {
-                    URL.revokeObjectURL(newVideos[index]!);
-                }
-                newVideos[index] = objectUrl;
-                return newVideos;
-            });
-             setGeneratedThumbnails(prev => {
-                const newThumbs = [...prev];
-                newThumbs[index] = thumbnailUrl;
-                return newThumbs;
-            });
-
-            setVideoGenerationStatus(prev => {
-                const newStatus = [...prev];
-                newStatus[index] = 'success';
-                return newStatus;
-            });
-            setVideoFilenames(prev => {
-                const newNames = [...prev];
-                newNames[index] = videoFile.name;
-                return newNames;
-            });
-
-            addHistoryItem({ type: 'Video', prompt: `Scene ${index + 1} Video`, result: videoFile }).then(async () => {
+
+        // Run through the job manager so the scene keeps generating if the user leaves this view.
+        const jobId = startJob<VideoJobResult>({
+            kind: 'video',
+            label: `Storyboard Scene ${index + 1}`,
+            sourceView: JOB_SOURCE_VIEW,
+            sourceKey: String(index),
+            run: ({ setStatus, signal }) => generateVideo(
+                fullPrompt, 
+                videoModel, 
+                videoAspectRatio, 
+                videoResolution, 
+                negativePrompt,
+                image,
+                setStatus,
+                signal
+            ),
+            toHistoryItem: ({ videoFile }) => ({
+                type: 'Video',
+                prompt: `Scene ${index + 1} Video`,
+                result: videoFile,
+            }),
+            afterSave: async () => {
                 const updateResult = await incrementVideoUsage(currentUser);
                 if (updateResult.success && updateResult.user) {
-                    onUserUpdate(updateResult.user);
+                    eventBus.dispatch('userUsageUpdated', updateResult.user);
                 }
-            }).catch(err => {
-                console.error("Background video processing failed:", err);
-                addLogEntry({
-                    model: videoModel,
-                    prompt: `Background save for Scene ${index + 1}`,
-                    output: `Failed to save video to history/gallery. Error: ${err.message}`,
-                    tokenCount: 0,
-                    status: 'Error',
-                    error: err.message
-                });
-            });
-        }
+            },
+        });
+
+        setSceneJobIds(prev => {
+            const newJobIds = [...prev];
+            newJobIds[index] = jobId;
+            return newJobIds;
+        });
+
+        // Wait so "Create All 4 Videos" still runs scenes one after another.
+        // The outcome itself is applied by the scene job subscription.
+        await waitForJob(jobId).catch(() => {});
 
     } catch (e) {
         const userFriendlyMessage = handleApiError(e);
@@ -615,6 +688,8 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
   
   const handleCancelVideos = () => {
       isVideoCancelledRef.current = true;
+      // Also stop the scene that is currently generating, not just the ones after it.
+      sceneJobIds.forEach(jobId => jobId && cancelJob(jobId));
       setIsGeneratingVideos(false); // Immediately update UI
   };
 
@@ -671,6 +746,9 @@ const ProductReviewView: React.FC<ProductReviewViewProps> = ({ onReEdit, onCreat
     setVideoFilenames(Array(4).fill(null));
     setVideoGenerationErrors(Array(4).fill(null));
     isVideoCancelledRef.current = false;
+    findJobs(JOB_SOURCE_VIEW).forEach(job => removeJob(job.id));
+    setSceneJobIds(Array(4).fill(null));
+    appliedSceneJobsRef.current = Array(4).fill(null);
     
     sessionStorage.removeItem(SESSION_KEY);
   }, []);
@@ -1,30 +1,39 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { type User, type AiLogItem, type Language } from '../../types';
-import { updateUserProfile, updateUserWebhookUrl, saveUserPersonalAuthToken, assignPersonalTokenAndIncrementUsage } from '../../services/userService';
+import { type User, type AiLogItem, type Language, type Permission } from '../../types';
+import { updateUserProfile, updateUserWebhookUrl, saveUserPersonalAuthToken } from '../../services/userService';
 import {
     CreditCardIcon, CheckCircleIcon, XIcon, WebhookIcon, EyeIcon, EyeOffIcon, ChatIcon,
-    AlertTriangleIcon, DatabaseIcon, TrashIcon, RefreshCwIcon, WhatsAppIcon, InformationCircleIcon, SparklesIcon
+    AlertTriangleIcon, WhatsAppIcon, InformationCircleIcon, SparklesIcon
 } from '../Icons';
 import Spinner from '../common/Spinner';
+import TokenVaultStatus from '../common/TokenVaultStatus';
+import CreditMeter from '../common/CreditMeter';
 import { sendTestUserWebhook } from '../../services/webhookService';
 import AdminDashboardView from './AdminDashboardView';
 import ETutorialAdminView from './ETutorialAdminView';
+import CacheManagerView from './CacheManagerView';
 import Tabs, { type Tab } from '../common/Tabs';
-import { runApiHealthCheck, type HealthCheckResult } from '../../services/geminiService';
+import { runApiHealthCheck, getGeminiStatus, type HealthCheckResult } from '../../services/geminiService';
 import { getTranslations } from '../../services/translations';
-import { getFormattedCacheStats, clearVideoCache } from '../../services/videoCacheService';
 import { runComprehensiveTokenTest, type TokenTestResult } from '../../services/imagenV3Service';
+import { hasPermission } from '../../services/permissionService';
 
 // Define the types for the tabs in the settings view
 type SettingsTabId = 'profile' | 'api' | 'content-admin' | 'user-db';
 
+// Tabs not listed here are open to everyone.
+const TAB_PERMISSIONS: Partial<Record<SettingsTabId, Permission>> = {
+    'content-admin': 'content.edit',
+    'user-db': 'users.view',
+};
+
 const getTabs = (): Tab<SettingsTabId>[] => {
     const T = getTranslations().settingsView;
     return [
         { id: 'profile', label: T.tabs.profile },
         { id: 'api', label: T.tabs.api },
-        { id: 'content-admin', label: T.tabs.contentAdmin, adminOnly: true },
-        { id: 'user-db', label: T.tabs.userDb, adminOnly: true },
+        { id: 'content-admin', label: T.tabs.contentAdmin },
+        { id: 'user-db', label: T.tabs.userDb },
     ];
 }
 
@@ -39,8 +48,6 @@ interface SettingsViewProps {
   onUserUpdate: (user: User) => void;
   language: Language;
   setLanguage: (lang: Language) => void;
-  veoTokenRefreshedAt: string | null;
-  assignTokenProcess: () => Promise<{ success: boolean; error: string | null; }>;
 }
 
 // --- PANELS ---
@@ -108,6 +115,9 @@ const ProfilePanel: React.FC<ProfilePanelProps> = ({ currentUser, onUserUpdate,
                 <p className="text-sm text-neutral-600 dark:text-neutral-400">{T.accountStatus} <span className={`font-bold ${accountStatus.colorClass}`}>{accountStatus.text}</span></p>
                 {expiryInfo && <p className="text-sm text-neutral-500 dark:text-neutral-500 mt-1">{expiryInfo}</p>}
             </div>
+            <div className="mb-6">
+                <CreditMeter showCosts />
+            </div>
             <div className="space-y-6">
                 <div>
                     <label className="block text-sm font-medium text-neutral-600 dark:text-neutral-400 mb-1">{T.fullName}</label>
@@ -134,182 +144,22 @@ const ProfilePanel: React.FC<ProfilePanelProps> = ({ currentUser, onUserUpdate,
     );
 };
 
-const CacheManagerPanel: React.FC = () => {
-    const T = getTranslations().settingsView.cache;
-  const [stats, setStats] = useState<{
-    size: string;
-    count: number;
-  } | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isClearing, setIsClearing] = useState(false);
-
-  const loadStats = async () => {
-    setIsLoading(true);
-    try {
-      const formattedStats = await getFormattedCacheStats();
-      setStats(formattedStats);
-    } catch (error) {
-      console.error('Failed to load cache stats:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadStats();
-  }, []);
-
-  const handleClearCache = async () => {
-    if (!confirm(T.confirmClear)) {
-      return;
-    }
-
-    setIsClearing(true);
-    try {
-      await clearVideoCache();
-      await loadStats();
-      alert(T.clearSuccess);
-    } catch (error) {
-      console.error('Failed to clear cache:', error);
-      alert(T.clearFail);
-    } finally {
-      setIsClearing(false);
-    }
-  };
-
-  return (
-    <div className="bg-white dark:bg-neutral-900 p-6 rounded-lg shadow-sm">
-        <div className="flex items-center gap-3 mb-6">
-          <DatabaseIcon className="w-8 h-8 text-primary-500" />
-          <div>
-            <h2 className="text-xl font-semibold">{T.title}</h2>
-            <p className="text-sm text-neutral-500 dark:text-neutral-400">
-              {T.subtitle}
-            </p>
-          </div>
-        </div>
-
-        {isLoading ? (
-          <div className="flex items-center justify-center py-12">
-            <Spinner />
-          </div>
-        ) : stats ? (
-          <div className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="bg-neutral-50 dark:bg-neutral-800 rounded-lg p-4">
-                <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-1">{T.storageUsed}</p>
-                <p className="text-2xl font-bold text-neutral-900 dark:text-neutral-100">{stats.size}</p>
-              </div>
-              <div className="bg-neutral-50 dark:bg-neutral-800 rounded-lg p-4">
-                <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-1">{T.videosCached}</p>
-                <p className="text-2xl font-bold text-neutral-900 dark:text-neutral-100">{stats.count}</p>
-              </div>
-            </div>
-            
-            <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-              <h3 className="font-semibold text-blue-900 dark:text-blue-100 mb-2">
-                {T.howItWorks}
-              </h3>
-              <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1">
-                <li>{T.l1}</li>
-                <li>{T.l2}</li>
-                <li>{T.l3}</li>
-                <li>{T.l4}</li>
-              </ul>
-            </div>
-
-            <div className="flex gap-3">
-              <button onClick={loadStats} disabled={isLoading} className="flex items-center justify-center gap-2 bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-200 font-semibold py-2 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors disabled:opacity-50">
-                <RefreshCwIcon className="w-4 h-4" /> {T.refresh}
-              </button>
-              <button onClick={handleClearCache} disabled={isClearing || stats.count === 0} className="flex items-center justify-center gap-2 bg-red-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
-                {isClearing ? (<><Spinner /> {T.clearing}</>) : (<><TrashIcon className="w-4 h-4" /> {T.clear}</>)}
-              </button>
-            </div>
-
-            <div className="border-t border-neutral-200 dark:border-neutral-700 pt-4">
-              <h3 className="font-semibold mb-2">💡 {T.tips}</h3>
-              <ul className="text-sm text-neutral-600 dark:text-neutral-400 space-y-1">
-                <li>{T.tip1}</li>
-                <li>{T.tip2}</li>
-                <li>{T.tip3}</li>
-                <li>{T.tip4}</li>
-              </ul>
-            </div>
-          </div>
-        ) : (
-          <div className="text-center py-12 text-neutral-500">{T.failLoad}</div>
-        )}
-      </div>
-  );
-};
-
-const ClaimTokenModal: React.FC<{
-  status: 'searching' | 'success' | 'error';
-  error: string | null;
-  onRetry: () => void;
-  onClose: () => void;
-}> = ({ status, error, onRetry, onClose }) => {
-    const T = getTranslations().claimTokenModal;
-    return (
-    <div className="fixed inset-0 bg-black/70 flex flex-col items-center justify-center z-50 p-4 animate-zoomIn" aria-modal="true" role="dialog">
-        <div className="bg-white dark:bg-neutral-900 rounded-lg shadow-xl p-8 text-center max-w-sm w-full">
-        {status === 'searching' && (
-            <>
-            <Spinner />
-            <h2 className="text-xl font-bold mt-4">{T.searchingTitle}</h2>
-            <p className="text-neutral-500 dark:text-neutral-400 mt-2 text-sm">
-                {T.searchingMessage}
-            </p>
-            </>
-        )}
-        {status === 'success' && (
-            <>
-            <CheckCircleIcon className="w-12 h-12 text-green-500 mx-auto" />
-            <h2 className="text-xl font-bold mt-4">{T.successTitle}</h2>
-            <p className="text-neutral-500 dark:text-neutral-400 mt-2 text-sm">
-                {T.successMessage}
-            </p>
-            </>
-        )}
-        {status === 'error' && (
-            <>
-            <AlertTriangleIcon className="w-12 h-12 text-red-500 mx-auto" />
-            <h2 className="text-xl font-bold mt-4">{T.errorTitle}</h2>
-            <p className="text-neutral-500 dark:text-neutral-400 mt-2 text-sm">
-                {error || T.errorMessageDefault}
-            </p>
-            <div className="mt-6 flex gap-4">
-                <button onClick={onClose} className="w-full bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors">
-                {T.closeButton}
-                </button>
-                <button onClick={onRetry} className="w-full bg-primary-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-primary-700 transition-colors">
-                {T.retryButton}
-                </button>
-            </div>
-            </>
-        )}
-        </div>
-    </div>
-)};
-
 interface ApiIntegrationsPanelProps {
   currentUser: User;
   onUserUpdate: (user: User) => void;
   language: Language;
-  veoTokenRefreshedAt: string | null;
-  assignTokenProcess: () => Promise<{ success: boolean; error: string | null; }>;
 }
 
-const ApiIntegrationsPanel: React.FC<ApiIntegrationsPanelProps> = ({ currentUser, onUserUpdate, language, veoTokenRefreshedAt, assignTokenProcess }) => {
+const ApiIntegrationsPanel: React.FC<ApiIntegrationsPanelProps> = ({ currentUser, onUserUpdate, language }) => {
     const T = getTranslations().settingsView.api;
+    const vaultT = getTranslations().tokenVaultStatus;
     const commonT_errors = getTranslations().common.errors;
     const [webhookUrl, setWebhookUrl] = useState(currentUser.webhookUrl || '');
     const [webhookStatus, setWebhookStatus] = useState<{ type: 'idle' | 'loading' | 'success' | 'error'; message: string }>({ type: 'idle', message: '' });
 
     const [isCheckingHealth, setIsCheckingHealth] = useState(false);
     const [healthCheckResults, setHealthCheckResults] = useState<HealthCheckResult[] | null>(null);
-    const [veoTokens, setVeoTokens] = useState<{ token: string; createdAt: string }[]>([]);
+    const [isGeminiConfigured, setIsGeminiConfigured] = useState(false);
 
     const [personalAuthToken, setPersonalAuthToken] = useState(currentUser.personalAuthToken || '');
     const [showPersonalToken, setShowPersonalToken] = useState(false);
@@ -318,67 +168,6 @@ const ApiIntegrationsPanel: React.FC<ApiIntegrationsPanelProps> = ({ currentUser
     const [testStatus, setTestStatus] = useState<'idle' | 'testing'>('idle');
     const [testResults, setTestResults] = useState<TokenTestResult[] | null>(null);
 
-    const [claimStatus, setClaimStatus] = useState<'idle' | 'searching' | 'success' | 'error'>('idle');
-    const [claimError, setClaimError] = useState<string | null>(null);
-
-    const [testingToken, setTestingToken] = useState<string | null>(null);
-    const [testResultsMap, setTestResultsMap] = useState<Map<string, TokenTestResult[]>>(new Map());
-    const [claimingToken, setClaimingToken] = useState<string | null>(null);
-    const [tokenStatusMessage, setTokenStatusMessage] = useState<{ type: 'success' | 'error' | 'loading'; message: string } | null>(null);
-
-    const handleTestSharedToken = useCallback(async (token: string) => {
-        setTestingToken(token);
-        const results = await runComprehensiveTokenTest(token);
-        setTestResultsMap(prev => new Map(prev).set(token, results));
-        setTestingToken(null);
-    }, []);
-
-    const handleClaimSharedToken = useCallback(async (token: string) => {
-        if (!confirm(T.confirmClaim.replace('{token}', token.slice(-6)))) {
-            return;
-        }
-        setClaimingToken(token);
-        setTokenStatusMessage({ type: 'loading', message: T.claiming.replace('{token}', token.slice(-6)) });
-
-        const result = await assignPersonalTokenAndIncrementUsage(currentUser.id, token);
-
-        if (result.success === false) {
-            setTokenStatusMessage({ type: 'error', message: result.message || T.claimFail });
-        } else {
-            onUserUpdate(result.user);
-            setTokenStatusMessage({ type: 'success', message: T.claimSuccess });
-        }
-        
-        setClaimingToken(null);
-        setTimeout(() => setTokenStatusMessage(null), 5000);
-    }, [currentUser.id, onUserUpdate, T]);
-
-
-    const handleClaimNewToken = useCallback(async () => {
-        setClaimStatus('searching');
-        setClaimError(null);
-
-        const clearResult = await saveUserPersonalAuthToken(currentUser.id, null);
-        
-        if (clearResult.success === false) {
-            setClaimError(clearResult.message || 'Failed to clear previous token.');
-            setClaimStatus('error');
-        } else {
-            onUserUpdate(clearResult.user);
-            
-            const assignResult = await assignTokenProcess();
-            if (assignResult.success) {
-                setClaimStatus('success');
-                setTimeout(() => {
-                    setClaimStatus('idle');
-                }, 2000);
-            } else {
-                setClaimError(assignResult.error || 'Failed to assign token.');
-                setClaimStatus('error');
-            }
-        }
-    }, [currentUser.id, onUserUpdate, assignTokenProcess]);
-
     const handleTestToken = useCallback(async () => {
         setTestStatus('testing');
         setTestResults(null);
@@ -388,22 +177,11 @@ const ApiIntegrationsPanel: React.FC<ApiIntegrationsPanelProps> = ({ currentUser
     }, [personalAuthToken]);
 
     useEffect(() => {
-        const tokensJSON = sessionStorage.getItem('veoAuthTokens');
-        if (tokensJSON) {
-            try {
-                const parsedTokens = JSON.parse(tokensJSON);
-                if (Array.isArray(parsedTokens)) {
-                    setVeoTokens(parsedTokens);
-                }
-            } catch (e) {
-                console.error("Failed to parse VEO auth from session storage", e);
-                setVeoTokens([]);
-            }
-        } else {
-            setVeoTokens([]);
-        }
-    }, [veoTokenRefreshedAt]);
-    
+        getGeminiStatus()
+            .then(({ configured }) => setIsGeminiConfigured(configured))
+            .catch(error => console.error('Failed to load Gemini status:', error));
+    }, []);
+
     useEffect(() => {
         const tokenFromProp = currentUser.personalAuthToken || '';
         setPersonalAuthToken(tokenFromProp);
@@ -442,10 +220,7 @@ const ApiIntegrationsPanel: React.FC<ApiIntegrationsPanelProps> = ({ currentUser
         setIsCheckingHealth(true);
         setHealthCheckResults(null);
         try {
-            const activeApiKey = sessionStorage.getItem('monoklix_session_api_key');
-            const results = await runApiHealthCheck({
-                textKey: activeApiKey || undefined,
-            });
+            const results = await runApiHealthCheck();
             setHealthCheckResults(results);
         } catch (error: any) {
             setHealthCheckResults([{ service: T.fail, model: 'N/A', status: 'error', message: error.message }]);
@@ -462,9 +237,6 @@ const ApiIntegrationsPanel: React.FC<ApiIntegrationsPanelProps> = ({ currentUser
             default: return { border: 'border-neutral-500', icon: null, text: '' };
         }
     };
-    
-    const locale = language === 'ms' ? 'ms-MY' : 'en-US';
-    const activeApiKey = sessionStorage.getItem('monoklix_session_api_key');
 
     const handleSavePersonalToken = async () => {
         setPersonalTokenSaveStatus('saving');
@@ -482,23 +254,8 @@ const ApiIntegrationsPanel: React.FC<ApiIntegrationsPanelProps> = ({ currentUser
         setTimeout(() => setPersonalTokenSaveStatus('idle'), 3000);
     };
 
-    const getStatusButtonStyles = (result: TokenTestResult | undefined) => {
-        if (!result) return { text: 'Not Tested', className: 'bg-neutral-200 dark:bg-neutral-700 text-neutral-600 dark:text-neutral-300' };
-        if (result.success) return { text: 'OK', className: 'bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300' };
-        return { text: 'Failed', className: 'bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300' };
-    };
-
-
     return (
         <>
-            {claimStatus !== 'idle' && (
-                <ClaimTokenModal
-                    status={claimStatus}
-                    error={claimError}
-                    onClose={() => setClaimStatus('idle')}
-                    onRetry={handleClaimNewToken}
-                />
-            )}
             <div className="bg-white dark:bg-neutral-900 p-6 rounded-lg shadow-sm space-y-8">
                 <div>
                     <h2 className="text-xl font-semibold mb-2">{T.title}</h2>
@@ -510,7 +267,7 @@ const ApiIntegrationsPanel: React.FC<ApiIntegrationsPanelProps> = ({ currentUser
                     </div>
                     <div className="mt-4 p-3 bg-neutral-100 dark:bg-neutral-800 rounded-lg flex justify-between items-center">
                         <span className="font-semibold text-neutral-700 dark:text-neutral-200">{T.sharedStatus}</span>
-                        {activeApiKey ? (
+                        {isGeminiConfigured ? (
                             <span className="flex items-center gap-2 font-semibold text-green-600 dark:text-green-400">
                                 <CheckCircleIcon className="w-5 h-5" />
                                 {T.connected}
@@ -526,6 +283,7 @@ const ApiIntegrationsPanel: React.FC<ApiIntegrationsPanelProps> = ({ currentUser
                 
                 <div className="border-t border-neutral-200 dark:border-neutral-800 pt-8">
                     <h2 className="text-xl font-semibold mb-2">{T.authTokenTitle}</h2>
+                    <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-3">{T.authTokenHint}</p>
                     <div className="relative">
                         <input
                             type={showPersonalToken ? 'text' : 'password'}
@@ -567,9 +325,6 @@ const ApiIntegrationsPanel: React.FC<ApiIntegrationsPanelProps> = ({ currentUser
                         <button onClick={handleTestToken} disabled={!personalAuthToken || testStatus === 'testing'} className="bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-700 flex justify-center items-center gap-2 disabled:opacity-50">
                              {testStatus === 'testing' ? <Spinner /> : <SparklesIcon className="w-4 h-4" />}
                             {T.runTest}
-                        </button>
-                        <button onClick={handleClaimNewToken} disabled={personalTokenSaveStatus === 'saving' || claimStatus !== 'idle'} className="bg-neutral-200 dark:bg-neutral-700 font-semibold py-2 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors">
-                            {T.claimNew}
                         </button>
                          {personalTokenSaveStatus === 'saved' && (
                             <span className="flex items-center gap-2 text-sm text-green-600">
@@ -589,65 +344,10 @@ const ApiIntegrationsPanel: React.FC<ApiIntegrationsPanelProps> = ({ currentUser
                 <div className="border-t border-neutral-200 dark:border-neutral-800 pt-8">
                      <div className="border-2 border-indigo-400 dark:border-indigo-600 rounded-lg p-4 bg-indigo-50 dark:bg-indigo-900/30">
                         <h3 className="text-lg font-semibold text-indigo-800 dark:text-indigo-200 mb-2">
-                            {T.tokenGroupTitle}
+                            {vaultT.title}
                         </h3>
-                        <p className="text-xs text-indigo-600 dark:text-indigo-400 mb-3" dangerouslySetInnerHTML={{ __html: T.tokenGroupDesc }} />
-                        
-                        {tokenStatusMessage && (
-                            <div className={`p-2 rounded text-xs mb-2 ${tokenStatusMessage.type === 'loading' ? 'bg-blue-100 text-blue-800' : tokenStatusMessage.type === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-                                {tokenStatusMessage.message}
-                            </div>
-                        )}
-
-                        {veoTokens.length > 0 ? (
-                            <div className="mt-4 space-y-2">
-                                {veoTokens.map((tokenData, index) => {
-                                    const results = testResultsMap.get(tokenData.token);
-                                    const imagenResult = results?.find(r => r.service === 'Imagen');
-                                    const veoResult = results?.find(r => r.service === 'Veo');
-                                    const imagenStatus = getStatusButtonStyles(imagenResult);
-                                    const veoStatus = getStatusButtonStyles(veoResult);
-                                    return (
-                                        <div key={index} className={`p-3 rounded-md border bg-neutral-100 dark:bg-neutral-800/50 border-neutral-200 dark:border-neutral-700`}>
-                                            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-                                                <div className="flex-1 text-sm">
-                                                    <p className={`font-semibold text-neutral-800 dark:text-neutral-200`}>
-                                                        {`${T.sharedToken} #${index + 1}`}
-                                                        <span className="font-mono text-xs ml-2">...{tokenData.token.slice(-6)}</span>
-                                                    </p>
-                                                    <p className={`text-xs text-neutral-500 dark:text-neutral-400`}>
-                                                        {T.created}: {new Date(tokenData.createdAt).toLocaleString(locale)}
-                                                    </p>
-                                                </div>
-                                                <div className="grid grid-cols-2 sm:flex sm:items-center sm:flex-shrink-0 gap-2">
-                                                    <div title={imagenResult?.message || 'Status test for Imagen'} className={`flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs rounded-full ${imagenStatus.className}`}>
-                                                        <span className="font-medium">IMAGEN</span>
-                                                        <span className="font-bold">{imagenStatus.text}</span>
-                                                    </div>
-                                                    <div title={veoResult?.message || 'Status test for Veo3'} className={`flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs rounded-full ${veoStatus.className}`}>
-                                                        <span className="font-medium">VEO3</span>
-                                                        <span className="font-bold">{veoStatus.text}</span>
-                                                    </div>
-                                                     <button onClick={() => handleTestSharedToken(tokenData.token)} disabled={testingToken !== null} className="sm:w-20 flex justify-center text-xs font-semibold py-1.5 px-3 rounded-full bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600 disabled:opacity-50">
-                                                        {testingToken === tokenData.token ? <Spinner /> : T.test}
-                                                    </button>
-                                                    <button onClick={() => handleClaimSharedToken(tokenData.token)} disabled={claimingToken !== null || currentUser.personalAuthToken === tokenData.token} className="sm:w-20 flex justify-center text-xs font-semibold py-1.5 px-3 rounded-full bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50 disabled:bg-primary-800">
-                                                        {claimingToken === tokenData.token ? <Spinner /> : currentUser.personalAuthToken === tokenData.token ? T.claimed : T.claim}
-                                                    </button>
-                                                </div>
-                                            </div>
-                                        </div>
-                                    );
-                                })}
-                            </div>
-                        ) : (
-                            <div className="mt-4 p-3 bg-yellow-100 dark:bg-yellow-900/30 rounded-md flex items-center gap-2 border border-yellow-200 dark:border-yellow-800">
-                                <AlertTriangleIcon className="w-5 h-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0" />
-                                <p className="text-sm font-semibold text-yellow-800 dark:text-yellow-200">
-                                    {T.noTokens}
-                                </p>
-                            </div>
-                        )}
+                        <p className="text-xs text-indigo-600 dark:text-indigo-400 mb-3">{vaultT.description}</p>
+                        <TokenVaultStatus allowTesting />
                     </div>
                 </div>
 
@@ -719,7 +419,10 @@ const ApiIntegrationsPanel: React.FC<ApiIntegrationsPanelProps> = ({ currentUser
 
 const SettingsView: React.FC<SettingsViewProps> = (props) => {
     const T = getTranslations().settingsView;
-    const TABS = getTabs();
+    const TABS = getTabs().filter(tab => {
+        const permission = TAB_PERMISSIONS[tab.id];
+        return !permission || hasPermission(permission, props.currentUser);
+    });
     const [activeTab, setActiveTab] = useState<SettingsTabId>('profile');
     const { currentUser, language, setLanguage } = props;
 
@@ -729,7 +432,7 @@ const SettingsView: React.FC<SettingsViewProps> = (props) => {
                 return (
                     <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
                         <ProfilePanel currentUser={currentUser} onUserUpdate={props.onUserUpdate} language={language} setLanguage={setLanguage} />
-                        <CacheManagerPanel />
+                        <CacheManagerView />
                     </div>
                 );
             case 'api': 
@@ -737,8 +440,6 @@ const SettingsView: React.FC<SettingsViewProps> = (props) => {
                             currentUser={currentUser} 
                             onUserUpdate={props.onUserUpdate} 
                             language={language}
-                            veoTokenRefreshedAt={props.veoTokenRefreshedAt}
-                            assignTokenProcess={props.assignTokenProcess}
                         />;
             case 'content-admin': return <ETutorialAdminView />;
             case 'user-db': return <AdminDashboardView language={language} />;
@@ -754,7 +455,6 @@ const SettingsView: React.FC<SettingsViewProps> = (props) => {
                     tabs={TABS}
                     activeTab={activeTab}
                     setActiveTab={setActiveTab}
-                    isAdmin={currentUser.role === 'admin'}
                 />
             </div>
             <div className="mt-6">
@@ -8,7 +8,8 @@ import {
 } from '../Icons';
 import TwoColumnLayout from '../common/TwoColumnLayout';
 import { getStaffMonoklixPrompt } from '../../services/promptManager';
-import { type Language } from '../../types';
+import { type GenerationPreset, type Language } from '../../types';
+import { MODELS } from '../../services/aiConfig';
 import { getTranslations } from '../../services/translations';
 import { handleApiError } from '../../services/errorHandler';
 
@@ -50,11 +51,19 @@ const downloadText = (text: string, fileName: string) => {
     URL.revokeObjectURL(url);
 };
 
+// Form fields kept in GenerationMetadata.inputs
+interface StaffMonoklixInputs {
+    agentId: string;
+    userInput: string;
+}
+
 interface StaffMonoklixViewProps {
     language: Language;
+    generationPreset: GenerationPreset | null;
+    clearGenerationPreset: () => void;
 }
 
-const StaffMonoklixView: React.FC<StaffMonoklixViewProps> = ({ language }) => {
+const StaffMonoklixView: React.FC<StaffMonoklixViewProps> = ({ language, generationPreset, clearGenerationPreset }) => {
     const [selectedAgentId, setSelectedAgentId] = useState<string>('wan');
     const [userInput, setUserInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
@@ -89,6 +98,18 @@ const StaffMonoklixView: React.FC<StaffMonoklixViewProps> = ({ language }) => {
         } catch (e) { console.error("Failed to save state to session storage", e); }
     }, [selectedAgentId, userInput, generatedCopy, selectedLanguage]);
 
+    useEffect(() => {
+        if (generationPreset) {
+            const { metadata } = generationPreset;
+            const inputs = metadata.inputs as Partial<StaffMonoklixInputs>;
+            if (aiAgents.some(agent => agent.id === inputs.agentId)) setSelectedAgentId(inputs.agentId!);
+            setUserInput(inputs.userInput || '');
+            if (metadata.language) setSelectedLanguage(metadata.language);
+            setGeneratedCopy('');
+            clearGenerationPreset();
+        }
+    }, [generationPreset, clearGenerationPreset]);
+
     const handleGenerate = useCallback(async () => {
         if (!userInput.trim()) {
             setError(`Please provide input for ${selectedAgent.name}.`);
@@ -112,6 +133,12 @@ const StaffMonoklixView: React.FC<StaffMonoklixViewProps> = ({ language }) => {
                 type: 'Copy',
                 prompt: `Staff MONOklix (${selectedAgent.name}): ${userInput.substring(0, 50)}... (Lang: ${selectedLanguage})`,
                 result: result,
+                metadata: {
+                    sourceView: 'staff-monoklix',
+                    model: MODELS.text,
+                    language: selectedLanguage,
+                    inputs: { agentId: selectedAgent.id, userInput } satisfies StaffMonoklixInputs,
+                },
             });
         } catch (e) {
             handleApiError(e);
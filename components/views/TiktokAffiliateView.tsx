@@ -2,12 +2,12 @@ import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react'
 import ImageUpload from '../common/ImageUpload';
 // FIX: Removed invalid import for 'composeImage'.
 import { type MultimodalContent } from '../../services/geminiService';
-import { addHistoryItem } from '../../services/historyService';
+import { addHistoryItem, saveReferenceImages } from '../../services/historyService';
 import Spinner from '../common/Spinner';
 // FIX: Added missing UserIcon and TikTokIcon to fix 'Cannot find name' errors.
 import { StarIcon, DownloadIcon, ImageIcon, VideoIcon, WandIcon, AlertTriangleIcon, RefreshCwIcon, XIcon, UserIcon, TikTokIcon } from '../Icons';
 import { getTiktokAffiliatePrompt } from '../../services/promptManager';
-import { type User, type Language } from '../../types';
+import { type User, type Language, type GenerationPreset } from '../../types';
 import { incrementImageUsage } from '../../services/userService';
 import { handleApiError } from '../../services/errorHandler';
 import { editOrComposeWithImagen } from '../../services/imagenV3Service';
@@ -15,7 +15,10 @@ import { getTranslations } from '../../services/translations';
 // FIX: Added missing TwoColumnLayout import to fix 'Cannot find name' error.
 import TwoColumnLayout from '../common/TwoColumnLayout';
 import CreativeDirectionPanel from '../common/CreativeDirectionPanel';
+import SeedNotice from '../common/SeedNotice';
 import { getInitialCreativeDirectionState, type CreativeDirectionState } from '../../services/creativeDirectionService';
+import { getBatchSeed } from '../../services/generationPresetService';
+import { MODELS } from '../../services/aiConfig';
 
 
 const CreativeButton: React.FC<{
@@ -52,6 +55,8 @@ interface ImageEditPreset {
 interface TiktokAffiliateViewProps {
   onReEdit: (preset: ImageEditPreset) => void;
   onCreateVideo: (preset: VideoGenPreset) => void;
+  generationPreset: GenerationPreset | null;
+  clearGenerationPreset: () => void;
   language: Language;
   currentUser: User;
   onUserUpdate: (user: User) => void;
@@ -63,6 +68,14 @@ const SESSION_KEY = 'tiktokAffiliateState';
 
 type ImageSlot = string | { error: string } | null;
 
+// Form fields kept in GenerationMetadata.inputs. The reference images are the product photo,
+// then the face photo if there was one.
+interface TiktokAffiliateInputs {
+  gender: string;
+  modelFace: string;
+  customPrompt: string;
+}
+
 const SelectControl: React.FC<{
   id: string;
   value: string;
@@ -90,7 +103,7 @@ const triggerDownload = (data: string, fileNameBase: string) => {
     document.body.removeChild(link);
 };
 
-const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onCreateVideo, language, currentUser, onUserUpdate }) => {
+const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onCreateVideo, generationPreset, clearGenerationPreset, language, currentUser, onUserUpdate }) => {
     const [productImage, setProductImage] = useState<MultimodalContent | null>(null);
     const [faceImage, setFaceImage] = useState<MultimodalContent | null>(null);
     const [images, setImages] = useState<ImageSlot[]>([]);
@@ -108,6 +121,7 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
     const [productImageUploadKey, setProductImageUploadKey] = useState(Date.now());
     const [faceImageUploadKey, setFaceImageUploadKey] = useState(Date.now() + 1);
     const [progress, setProgress] = useState(0);
+    const [keptSeed, setKeptSeed] = useState<number | null>(null);
     
     // FIX: Remove `language` argument from `getTranslations` call to match the function signature.
     const T = getTranslations().tiktokAffiliateView;
@@ -141,6 +155,27 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
         gender, modelFace, creativeState, customPrompt, numberOfImages, aspectRatio
     ]);
 
+    useEffect(() => {
+        if (generationPreset) {
+            const { metadata, referenceImages } = generationPreset;
+            const inputs = metadata.inputs as Partial<TiktokAffiliateInputs>;
+            setProductImage(referenceImages[0] || null);
+            setFaceImage(referenceImages[1] || null);
+            setProductImageUploadKey(Date.now());
+            setFaceImageUploadKey(Date.now() + 1);
+            setGender(inputs.gender || 'Female');
+            setModelFace(inputs.modelFace || 'Random');
+            setCustomPrompt(inputs.customPrompt || '');
+            setCreativeState(metadata.creativeDirection || getInitialCreativeDirectionState());
+            if (metadata.aspectRatio) setAspectRatio(metadata.aspectRatio as typeof aspectRatio);
+            setNumberOfImages(1);
+            setKeptSeed(generationPreset.keepSeed ? metadata.seed ?? null : null);
+            setImages([]);
+            clearGenerationPreset();
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [generationPreset, clearGenerationPreset]);
+
     const generateOneImage = useCallback(async (index: number) => {
         if (!productImage) return;
 
@@ -167,11 +202,12 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
             imagesToCompose.push({ ...faceImage, category: 'MEDIA_CATEGORY_SUBJECT', caption: 'model face' });
         }
 
+        const seed = getBatchSeed(keptSeed, index);
         try {
             const result = await editOrComposeWithImagen({
                 prompt,
                 images: imagesToCompose,
-                config: { aspectRatio }
+                config: { aspectRatio, seed }
             });
             const imageBase64 = result.imagePanels[0]?.generatedImages[0]?.encodedImage;
 
@@ -179,7 +215,20 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
                 throw new Error("The AI did not return an image. Please try a different prompt.");
             }
             
-            await addHistoryItem({ type: 'Image', prompt: `TikTok Affiliate: Vibe - ${creativeState.vibe}, Model - ${gender}`, result: imageBase64 });
+            await addHistoryItem({
+                type: 'Image',
+                prompt: `TikTok Affiliate: Vibe - ${creativeState.vibe}, Model - ${gender}`,
+                result: imageBase64,
+                metadata: {
+                    sourceView: 'tiktok-affiliate',
+                    model: MODELS.imageEdit,
+                    seed,
+                    aspectRatio,
+                    referenceImageIds: await saveReferenceImages(faceImage ? [productImage, faceImage] : [productImage]),
+                    creativeDirection: creativeState,
+                    inputs: { gender, modelFace, customPrompt } satisfies TiktokAffiliateInputs,
+                }
+            });
     
             const updateResult = await incrementImageUsage(currentUser);
             if (updateResult.success && updateResult.user) {
@@ -200,7 +249,7 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
                 return newImages;
             });
         }
-    }, [productImage, faceImage, gender, modelFace, customPrompt, creativeState, aspectRatio, currentUser, onUserUpdate]);
+    }, [productImage, faceImage, gender, modelFace, customPrompt, creativeState, aspectRatio, currentUser, onUserUpdate, keptSeed]);
     
     const handleGenerate = useCallback(async () => {
         if (!productImage) {
@@ -244,6 +293,7 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
         setProductImageUploadKey(Date.now());
         setFaceImageUploadKey(Date.now() + 1);
         setProgress(0);
+        setKeptSeed(null);
         sessionStorage.removeItem(SESSION_KEY);
     }, []);
 
@@ -257,9 +307,9 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
           <Section title={T.assetAndModel}>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   {/* FIX: Add missing 'language' prop to ImageUpload component. */}
-                  <ImageUpload key={productImageUploadKey} id="tiktok-product-upload" onImageUpload={(base64, mimeType) => setProductImage({base64, mimeType})} onRemove={() => setProductImage(null)} title={T.productPhoto} description={T.productPhotoDesc} language={language}/>
+                  <ImageUpload key={productImageUploadKey} id="tiktok-product-upload" initialImage={productImage} onImageUpload={(base64, mimeType) => setProductImage({base64, mimeType})} onRemove={() => setProductImage(null)} title={T.productPhoto} description={T.productPhotoDesc} language={language}/>
                   {/* FIX: Add missing 'language' prop to ImageUpload component. */}
-                  <ImageUpload key={faceImageUploadKey} id="tiktok-face-upload" onImageUpload={(base64, mimeType) => setFaceImage({base64, mimeType})} onRemove={() => setFaceImage(null)} title={T.facePhoto} description={T.facePhotoDesc} language={language}/>
+                  <ImageUpload key={faceImageUploadKey} id="tiktok-face-upload" initialImage={faceImage} onImageUpload={(base64, mimeType) => setFaceImage({base64, mimeType})} onRemove={() => setFaceImage(null)} title={T.facePhoto} description={T.facePhotoDesc} language={language}/>
               </div>
           </Section>
 
@@ -315,6 +365,7 @@ const TiktokAffiliateView: React.FC<TiktokAffiliateViewProps> = ({ onReEdit, onC
           </Section>
 
            <div className="pt-4 mt-auto">
+                <SeedNotice seed={keptSeed} onClear={() => setKeptSeed(null)} />
                 <div className="flex gap-4">
                     <button onClick={handleGenerate} disabled={isLoading} className="w-full mt-2 flex items-center justify-center gap-2 bg-primary-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-sm">
                         {isLoading ? <Spinner /> : T.generateButton}
@@ -7,7 +7,9 @@ import { cropImageToAspectRatio } from '../../services/imageService';
 import CreativeDirectionPanel from '../common/CreativeDirectionPanel';
 import { getInitialCreativeDirectionState, type CreativeDirectionState } from '../../services/creativeDirectionService';
 import { runComprehensiveTokenTest, type TokenTestResult } from '../../services/imagenV3Service';
-import { assignPersonalTokenAndIncrementUsage } from '../../services/userService';
+import { parseUploadResponse, parseImagePanelsResponse } from '../../services/proxySchemas';
+import { ANY_VAULT_TOKEN, getVaultAuthHeaders, toVaultToken } from '../../services/tokenVaultService';
+import TokenVaultStatus from '../common/TokenVaultStatus';
 
 
 // --- CONFIG ---
@@ -18,6 +20,8 @@ const SERVERS = Array.from({ length: 10 }, (_, i) => ({
 }));
 
 type TestType = 'T2I' | 'I2I';
+// 'vault' lets each server's token vault pick a shared token; 'personal' uses the user's own token.
+type TokenSource = 'vault' | 'personal';
 type Status = 'idle' | 'uploading' | 'running' | 'success' | 'failed';
 
 interface ServerStats {
@@ -75,40 +79,15 @@ const downloadContent = (url: string, type: 'image' | 'video', filenamePrefix: s
 
 interface TokenHealthTesterProps {
     currentUser: User;
-    onUserUpdate: (user: User) => void;
-    tokenPool: { token: string; createdAt: string }[];
-    selectedToken: string;
-    setSelectedToken: (token: string) => void;
+    tokenSource: TokenSource;
+    setTokenSource: (source: TokenSource) => void;
 }
 
-const TokenHealthTester: React.FC<TokenHealthTesterProps> = ({ currentUser, onUserUpdate, tokenPool, selectedToken, setSelectedToken }) => {
-    const [isTestingPool, setIsTestingPool] = useState(false);
-    const [isClaiming, setIsClaiming] = useState(false);
-    const [poolResults, setPoolResults] = useState<TokenTestResult[] | null>(null);
-    const [claimMessage, setClaimMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
-    
+const TokenHealthTester: React.FC<TokenHealthTesterProps> = ({ currentUser, tokenSource, setTokenSource }) => {
     const [manualToken, setManualToken] = useState('');
     const [isTestingManual, setIsTestingManual] = useState(false);
     const [manualResults, setManualResults] = useState<TokenTestResult[] | null>(null);
 
-    const handleTokenChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-        setSelectedToken(e.target.value);
-        setPoolResults(null);
-        setClaimMessage(null);
-    };
-
-    const handleTestPool = async () => {
-        if (!selectedToken || selectedToken === 'random') return;
-        setIsTestingPool(true);
-        setPoolResults(null);
-        try {
-            const res = await runComprehensiveTokenTest(selectedToken);
-            setPoolResults(res);
-        } finally {
-            setIsTestingPool(false);
-        }
-    };
-    
     const handleManualTest = async () => {
         if (!manualToken.trim()) return;
         setIsTestingManual(true);
@@ -120,31 +99,6 @@ const TokenHealthTester: React.FC<TokenHealthTesterProps> = ({ currentUser, onUs
             setIsTestingManual(false);
         }
     };
-    
-    const handleClaim = async () => {
-        if (!selectedToken || selectedToken === 'random') return;
-        if (currentUser.personalAuthToken === selectedToken) {
-            setClaimMessage({ type: 'error', text: 'This token is already assigned to you.' });
-            setTimeout(() => setClaimMessage(null), 3000);
-            return;
-        }
-        setIsClaiming(true);
-        setClaimMessage(null);
-        try {
-            const result = await assignPersonalTokenAndIncrementUsage(currentUser.id, selectedToken);
-            if (result.success === false) {
-                 setClaimMessage({ type: 'error', text: result.message || 'Failed to claim token. It might have been taken.' });
-            } else {
-                 onUserUpdate(result.user);
-                 setClaimMessage({ type: 'success', text: 'Token claimed successfully!' });
-            }
-        } catch (e) {
-            setClaimMessage({ type: 'error', text: e instanceof Error ? e.message : 'An unexpected error occurred.' });
-        } finally {
-            setIsClaiming(false);
-            setTimeout(() => setClaimMessage(null), 5000);
-        }
-    };
 
     const getStatusBadge = (result?: TokenTestResult) => {
         if (!result) return <span className="text-xs text-neutral-400">Waiting...</span>;
@@ -179,50 +133,17 @@ const TokenHealthTester: React.FC<TokenHealthTesterProps> = ({ currentUser, onUs
     return (
         <div>
             <h3 className="text-sm font-bold flex items-center gap-2 mb-3 text-neutral-700 dark:text-neutral-300">
-                <KeyIcon className="w-4 h-4 text-primary-500" /> Token Pool Tester
+                <KeyIcon className="w-4 h-4 text-primary-500" /> Token Vault
             </h3>
-            {tokenPool.length > 0 ? (
-                <>
-                    <div className="flex gap-2 mb-3">
-                        <select
-                            value={selectedToken}
-                            onChange={handleTokenChange}
-                            className="flex-1 p-2 text-xs font-mono bg-neutral-100 dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded focus:ring-1 focus:ring-primary-500 outline-none"
-                        >
-                            <option value="random">-- Random Token --</option>
-                            {tokenPool.map(({ token, createdAt }) => (
-                                <option key={token} value={token}>
-                                    ...{token.slice(-10)} ({new Date(createdAt).toLocaleTimeString()})
-                                </option>
-                            ))}
-                        </select>
-                        <button 
-                            onClick={handleTestPool} 
-                            disabled={isTestingPool || !selectedToken || selectedToken === 'random'}
-                            className="w-20 flex justify-center items-center px-3 py-2 bg-neutral-800 dark:bg-neutral-700 text-white text-xs font-bold rounded hover:bg-neutral-700 dark:hover:bg-neutral-600 disabled:opacity-50"
-                        >
-                            {isTestingPool ? <Spinner /> : 'Test'}
-                        </button>
-                         <button 
-                            onClick={handleClaim} 
-                            disabled={isClaiming || !selectedToken || selectedToken === 'random'}
-                            className="w-20 flex justify-center items-center px-3 py-2 bg-blue-600 text-white text-xs font-bold rounded hover:bg-blue-700 disabled:opacity-50"
-                        >
-                            {isClaiming ? <Spinner /> : 'Claim'}
-                        </button>
-                    </div>
-                    {claimMessage && (
-                        <div className={`text-xs p-2 rounded mb-2 ${claimMessage.type === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-                            {claimMessage.text}
-                        </div>
-                    )}
-                    {renderResults(poolResults)}
-                </>
-            ) : (
-                 <p className="text-xs text-neutral-500 p-3 bg-neutral-100 dark:bg-neutral-800 rounded-md">
-                    No shared tokens found in session storage. Refresh the session from the header or check the Supabase `token_new_active` table.
-                </p>
-            )}
+            <select
+                value={tokenSource}
+                onChange={(e) => setTokenSource(e.target.value as TokenSource)}
+                className="w-full mb-3 p-2 text-xs bg-neutral-100 dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded focus:ring-1 focus:ring-primary-500 outline-none"
+            >
+                <option value="vault">Shared tokens (picked by each server's vault)</option>
+                <option value="personal" disabled={!currentUser.personalAuthToken}>My personal token{currentUser.personalAuthToken ? ` (...${currentUser.personalAuthToken.slice(-6)})` : ' (not set)'}</option>
+            </select>
+            <TokenVaultStatus allowTesting />
 
             <div className="mt-4 pt-4 border-t border-neutral-200 dark:border-neutral-800">
                 <p className="text-xs font-semibold mb-2 text-neutral-600 dark:text-neutral-400">Or test a different token manually:</p>
@@ -269,22 +190,13 @@ const UgcGeneratorView: React.FC<UgcGeneratorViewProps> = ({ currentUser, langua
         SERVERS.reduce((acc, server) => ({ ...acc, [server.id]: { status: 'idle', logs: [] } }), {})
     );
     
-    const [tokenPool, setTokenPool] = useState<{ token: string; createdAt: string }[]>([]);
-    const [selectedToken, setSelectedToken] = useState('random');
+    const [tokenSource, setTokenSource] = useState<TokenSource>('vault');
     
     const [viewState, setViewState] = useState<'idle' | 'processing' | 'results'>('idle');
     const [processingProgress, setProcessingProgress] = useState({ completed: 0, total: 0 });
 
     useEffect(() => {
-        const tokensJSON = sessionStorage.getItem('veoAuthTokens');
-        if (tokensJSON) {
-            try {
-                const parsed = JSON.parse(tokensJSON);
-                if (Array.isArray(parsed) && parsed.length > 0) {
-                    setTokenPool(parsed);
-                }
-            } catch (e) { console.error("Could not parse token pool", e); }
-        }
+        if (!currentUser.personalAuthToken) setTokenSource('vault');
     }, [currentUser.personalAuthToken]);
 
     const handleScroll = (direction: 'left' | 'right') => {
@@ -363,29 +275,22 @@ const UgcGeneratorView: React.FC<UgcGeneratorViewProps> = ({ currentUser, langua
         const randomSeed = Math.floor(Math.random() * 2147483647);
         appendLog(server.id, `Random Seed: ${randomSeed}`);
 
-        let authToken: string | null | undefined = null;
-
-        if (selectedToken === 'random') {
-            if (tokenPool.length > 0) {
-                const randomIndex = Math.floor(Math.random() * tokenPool.length);
-                authToken = tokenPool[randomIndex].token;
-                appendLog(server.id, `Using random token: ...${authToken.slice(-6)}`);
-            } else {
-                authToken = currentUser.personalAuthToken;
-                 if (authToken) {
-                    appendLog(server.id, `Token pool empty. Falling back to personal token.`);
-                 }
+        const personalToken = tokenSource === 'personal' ? currentUser.personalAuthToken : null;
+        // With the vault, the first response names the pool token it used; later steps (recipe
+        // after upload) are pinned to it because the uploaded media belongs to that token.
+        let vaultToken = ANY_VAULT_TOKEN;
+        const getHeaders = async (): Promise<Record<string, string>> => ({
+            'Content-Type': 'application/json',
+            ...(personalToken ? { 'Authorization': `Bearer ${personalToken}` } : await getVaultAuthHeaders(vaultToken)),
+        });
+        const pinVaultToken = (res: Response) => {
+            const tokenId = res.headers.get('x-vault-token-id');
+            if (!personalToken && tokenId && vaultToken === ANY_VAULT_TOKEN) {
+                vaultToken = toVaultToken(tokenId);
+                appendLog(server.id, `Using vault token ${tokenId.substring(0, 8)}`);
             }
-        } else {
-            authToken = selectedToken || currentUser.personalAuthToken;
-        }
-
-        if (!authToken) {
-            updateServerState(server.id, { status: 'failed', error: 'No Auth Token available. Please claim one from the pool.' });
-            appendLog(server.id, 'Error: No Auth Token available.');
-            incrementStats(server.id, false);
-            return;
-        }
+        };
+        appendLog(server.id, personalToken ? `Using personal token: ...${personalToken.slice(-6)}` : 'Using the server token vault');
         
         const fullPrompt = constructFullPrompt();
 
@@ -403,12 +308,13 @@ const UgcGeneratorView: React.FC<UgcGeneratorViewProps> = ({ currentUser, langua
                 appendLog(server.id, 'Sending generate request (Imagen)...');
                 const res = await fetch(`${server.url}/api/imagen/generate`, {
                     method: 'POST',
-                    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${authToken}` },
+                    headers: await getHeaders(),
                     body: JSON.stringify(payload)
                 });
+                pinVaultToken(res);
                 const data = await safeJson(res);
                 if (!res.ok) throw new Error(data.error?.message || data.message || 'Fetch failed');
-                const imageBase64 = data.imagePanels?.[0]?.generatedImages?.[0]?.encodedImage;
+                const imageBase64 = parseImagePanelsResponse(data, 'IMAGEN GENERATE').imagePanels[0]?.generatedImages[0]?.encodedImage;
                 if (!imageBase64) throw new Error('No image returned');
                 const duration = ((Date.now() - startTime) / 1000).toFixed(2) + 's';
                 updateServerState(server.id, { status: 'success', resultType: 'image', resultUrl: imageBase64, duration });
@@ -424,18 +330,18 @@ const UgcGeneratorView: React.FC<UgcGeneratorViewProps> = ({ currentUser, langua
                     appendLog(server.id, `Uploading image ${i + 1}/${validImages.length}...`);
                     const uploadRes = await fetch(`${server.url}/api/imagen/upload`, {
                         method: 'POST',
-                        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${authToken}` },
+                        headers: await getHeaders(),
                         body: JSON.stringify({ imageInput: { rawImageBytes: img.base64, mimeType: img.mimeType } })
                     });
+                    pinVaultToken(uploadRes);
                     const uploadData = await safeJson(uploadRes);
                     if (!uploadRes.ok) throw new Error(uploadData.error?.message || `Upload failed`);
-                    const mediaId = uploadData.result?.data?.json?.result?.uploadMediaGenerationId || uploadData.mediaGenerationId?.mediaGenerationId || uploadData.mediaId;
-                    mediaIds.push(mediaId);
+                    mediaIds.push(parseUploadResponse(uploadData, 'IMAGEN UPLOAD'));
                 }
                 updateServerState(server.id, { status: 'running' }); 
                 const recipeRes = await fetch(`${server.url}/api/imagen/run-recipe`, {
                      method: 'POST',
-                     headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${authToken}` },
+                     headers: await getHeaders(),
                      body: JSON.stringify({
                          userInstruction: fullPrompt,
                          seed: randomSeed,
@@ -445,7 +351,7 @@ const UgcGeneratorView: React.FC<UgcGeneratorViewProps> = ({ currentUser, langua
                 });
                 const recipeData = await safeJson(recipeRes);
                 if (!recipeRes.ok) throw new Error(recipeData.error?.message || 'Recipe failed');
-                const imageBase64 = recipeData.imagePanels?.[0]?.generatedImages?.[0]?.encodedImage;
+                const imageBase64 = parseImagePanelsResponse(recipeData, 'IMAGEN RECIPE').imagePanels[0]?.generatedImages[0]?.encodedImage;
                 if (!imageBase64) throw new Error('No image returned');
                 const duration = ((Date.now() - startTime) / 1000).toFixed(2) + 's';
                 updateServerState(server.id, { status: 'success', resultType: 'image', resultUrl: imageBase64, duration });
@@ -635,7 +541,7 @@ const UgcGeneratorView: React.FC<UgcGeneratorViewProps> = ({ currentUser, langua
                     <div className="lg:col-span-1 flex flex-col h-full">
                         <div className="space-y-4">
                             <div><label className="text-sm font-bold">Target Server:</label><select value={targetServerId} onChange={(e) => setTargetServerId(e.target.value)} className="w-full mt-1 p-2 bg-white dark:bg-neutral-700 border border-neutral-300 dark:border-neutral-600 rounded-md focus:ring-2 focus:ring-primary-500 outline-none text-sm"><option value="all">All Servers (1-10) - Staggered Test</option>{SERVERS.map(s => (<option key={s.id} value={s.id}>{s.name} Only</option>))}</select></div>
-                            <div className="pt-4 border-t border-neutral-200 dark:border-neutral-800"><TokenHealthTester currentUser={currentUser} onUserUpdate={onUserUpdate} tokenPool={tokenPool} selectedToken={selectedToken} setSelectedToken={setSelectedToken} /></div>
+                            <div className="pt-4 border-t border-neutral-200 dark:border-neutral-800"><TokenHealthTester currentUser={currentUser} tokenSource={tokenSource} setTokenSource={setTokenSource} /></div>
                         </div>
                         <div className="mt-auto space-y-2"><div className="flex gap-4"><button onClick={() => handleRunTests('T2I')} disabled={hasRefImages} className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded-lg transition-colors shadow-md flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"><ImageIcon className="w-5 h-5" /> Create T2I</button><button onClick={() => handleRunTests('I2I')} disabled={!hasRefImages} className="flex-1 bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-4 rounded-lg transition-colors shadow-md flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"><RefreshCwIcon className="w-5 h-5" /> Create I2I</button></div></div>
                     </div>
@@ -1,8 +1,8 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { generateVideo } from '../../services/geminiService';
-import { addHistoryItem } from '../../services/historyService';
+import { generateVideo, resumeVideoGeneration } from '../../services/geminiService';
+import { getPendingVideoJobs } from '../../services/veo3Service';
 import Spinner from '../common/Spinner';
-import { DownloadIcon, TrashIcon, StarIcon, AlertTriangleIcon, RefreshCwIcon } from '../Icons';
+import { DownloadIcon, TrashIcon, StarIcon, AlertTriangleIcon, RefreshCwIcon, XIcon } from '../Icons';
 import TwoColumnLayout from '../common/TwoColumnLayout';
 import ImageUpload from '../common/ImageUpload';
 import { MODELS } from '../../services/aiConfig';
@@ -10,10 +10,15 @@ import { addLogEntry } from '../../services/aiLogService';
 import { triggerUserWebhook } from '../../services/webhookService';
 import { handleApiError } from '../../services/errorHandler';
 // FIX: Add missing Language import.
-import { type User, type Language } from '../../types';
+import { type User, type Language, type GenerationPreset, type GenerationMetadata } from '../../types';
 import { incrementVideoUsage } from '../../services/userService';
 import CreativeDirectionPanel from '../common/CreativeDirectionPanel';
+import SeedNotice from '../common/SeedNotice';
 import { getInitialCreativeDirectionState, type CreativeDirectionState } from '../../services/creativeDirectionService';
+import { getBatchSeed } from '../../services/generationPresetService';
+import { saveReferenceImages } from '../../services/historyService';
+import { startJob, subscribeToJob, findJobs, removeJob, cancelJob } from '../../services/jobService';
+import eventBus from '../../services/eventBus';
 
 
 interface ImageData {
@@ -29,6 +34,8 @@ interface VideoGenPreset {
 interface VideoGenerationViewProps {
   preset: VideoGenPreset | null;
   clearPreset: () => void;
+  generationPreset: GenerationPreset | null;
+  clearGenerationPreset: () => void;
   currentUser: User;
   onUserUpdate: (user: User) => void;
   // FIX: Add language to props.
@@ -56,8 +63,24 @@ const voiceActorOptions = ["Male", "Female", "Mix Actor"];
 
 
 const SESSION_KEY = 'videoGenerationState';
+const JOB_SOURCE_VIEW = 'video-generation';
 
-const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clearPreset, currentUser, onUserUpdate, language }) => {
+type VideoJobResult = { videoFile: File; thumbnailUrl: string | null };
+
+// Form fields kept in GenerationMetadata.inputs. The voiceover language is the metadata's language.
+interface VideoGenerationInputs {
+  prompt: string;
+  negativePrompt: string;
+  dialogue: string;
+  dialogueAudio: string;
+  resolution: string;
+  includeCaptions: 'Yes' | 'No';
+  includeVoiceover: 'Yes' | 'No';
+  voiceoverMood: string;
+  voiceoverActor: string;
+}
+
+const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clearPreset, generationPreset, clearGenerationPreset, currentUser, language }) => {
   const [prompt, setPrompt] = useState('');
   const [negativePrompt, setNegativePrompt] = useState('');
   const [dialogue, setDialogue] = useState('');
@@ -80,6 +103,8 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
   const [resolution, setResolution] = useState("720p");
   const [aspectRatio, setAspectRatio] = useState("9:16");
   const [imageUploadKey, setImageUploadKey] = useState(Date.now());
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [keptSeed, setKeptSeed] = useState<number | null>(null);
 
   const [includeCaptions, setIncludeCaptions] = useState<'Yes' | 'No'>('No');
   const [includeVoiceover, setIncludeVoiceover] = useState<'Yes' | 'No'>('No');
@@ -199,6 +224,33 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
       }
   }, [preset, clearPreset]);
 
+  useEffect(() => {
+      if (generationPreset) {
+          const { metadata } = generationPreset;
+          const inputs = metadata.inputs as Partial<VideoGenerationInputs>;
+          const image = generationPreset.referenceImages[0] || null;
+          setPrompt(inputs.prompt || '');
+          setNegativePrompt(inputs.negativePrompt || '');
+          setDialogue(inputs.dialogue || '');
+          setDialogueAudio(inputs.dialogueAudio || '');
+          setResolution(inputs.resolution || '720p');
+          setIncludeCaptions(inputs.includeCaptions || 'No');
+          setIncludeVoiceover(inputs.includeVoiceover || 'No');
+          setVoiceoverMood(inputs.voiceoverMood || 'Normal');
+          setVoiceoverActor(inputs.voiceoverActor || 'Male');
+          setVoiceoverLanguage(metadata.language || 'English');
+          if (metadata.aspectRatio) setAspectRatio(metadata.aspectRatio);
+          setCreativeState(metadata.creativeDirection || getInitialCreativeDirectionState());
+          setReferenceImage(image);
+          setPreviewUrl(image ? `data:${image.mimeType};base64,${image.base64}` : null);
+          setImageUploadKey(Date.now());
+          setKeptSeed(generationPreset.keepSeed ? metadata.seed ?? null : null);
+
+          clearGenerationPreset();
+          window.scrollTo(0, 0);
+      }
+  }, [generationPreset, clearGenerationPreset]);
+
   // Cleanup blob URL on component unmount to prevent memory leaks
   useEffect(() => {
     // The ref holds the latest URL. The function captures the ref itself.
@@ -209,6 +261,72 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
     };
   }, []); // Empty array ensures it only runs on mount/unmount
 
+  // Reattach to the latest job started from this view (e.g. after navigating away and back).
+  // Videos the proxy was still generating when the page was reloaded are picked up again here.
+  useEffect(() => {
+    getPendingVideoJobs().forEach(jobRef => startJob<VideoJobResult>({
+        kind: 'video',
+        label: jobRef.prompt.substring(0, 60) || 'Video',
+        sourceView: JOB_SOURCE_VIEW,
+        run: ({ setStatus, signal }) => resumeVideoGeneration(jobRef, setStatus, signal),
+        toHistoryItem: ({ videoFile }) => ({
+            type: 'Video',
+            prompt: `Video Generation: ${jobRef.prompt.substring(0, 100)}...`,
+            result: videoFile,
+            // Only the prompt survives a reload, so this item cannot be regenerated
+            metadata: { sourceView: JOB_SOURCE_VIEW, model: MODELS.videoGenerationDefault },
+        }),
+        afterSave: async () => {
+            const updateResult = await incrementVideoUsage(currentUser);
+            if (updateResult.success && updateResult.user) {
+                eventBus.dispatch('userUsageUpdated', updateResult.user);
+            }
+        },
+    }));
+
+    const [latestJob] = findJobs(JOB_SOURCE_VIEW);
+    if (latestJob) {
+      setActiveJobId(latestJob.id);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!activeJobId) return;
+
+    return subscribeToJob<VideoJobResult>(activeJobId, (job) => {
+      if (job.status === 'queued' || job.status === 'running') {
+        setIsLoading(true);
+        setStatusMessage(job.statusMessage);
+      } else if (job.status === 'completed' && job.result) {
+        const objectUrl = URL.createObjectURL(job.result.videoFile);
+        console.log('✅ Video file received and object URL created:', objectUrl);
+        if (videoUrlRef.current && videoUrlRef.current.startsWith('blob:')) {
+          URL.revokeObjectURL(videoUrlRef.current);
+        }
+        setVideoUrl(objectUrl);
+        videoUrlRef.current = objectUrl; // Keep ref in sync for cleanup
+        setVideoFilename(job.result.videoFile.name);
+        setThumbnailUrl(job.result.thumbnailUrl);
+        setIsLoading(false);
+        setStatusMessage('');
+      } else if (job.status === 'failed') {
+        handleApiError(new Error(job.error));
+        setError("Failed");
+        setIsLoading(false);
+        setStatusMessage('');
+      } else if (job.status === 'cancelled') {
+        setIsLoading(false);
+        setStatusMessage('');
+      }
+    });
+  }, [activeJobId]);
+
+  const handleCancel = useCallback(() => {
+    if (activeJobId) {
+      cancelJob(activeJobId);
+    }
+  }, [activeJobId]);
+
 
   const handleImageUpload = useCallback((base64: string, mimeType: string, file: File) => {
       setReferenceImage({ base64, mimeType });
@@ -314,42 +432,40 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
       
       const fullPrompt = promptLines.join('\n');
 
-      try {
-          const image = referenceImage ? { imageBytes: referenceImage.base64, mimeType: referenceImage.mimeType } : undefined;
-          
-          const { videoFile, thumbnailUrl: newThumbnailUrl } = await generateVideo(fullPrompt, model, aspectRatio, resolution, dynamicNegativePrompt, image, setStatusMessage);
-
-          if (videoFile) {
-              const objectUrl = URL.createObjectURL(videoFile);
-              console.log('✅ Video file received and object URL created:', objectUrl);
-              setVideoUrl(objectUrl);
-              videoUrlRef.current = objectUrl; // Keep ref in sync for cleanup
-              setVideoFilename(videoFile.name);
-              setThumbnailUrl(newThumbnailUrl);
-              
-              // Save to history in the background
-              addHistoryItem({
-                  type: 'Video',
-                  prompt: `Video Generation: ${prompt.trim().substring(0, 100)}...`,
-                  result: videoFile,
-              }).then(async () => {
-                  const updateResult = await incrementVideoUsage(currentUser);
-                  if (updateResult.success && updateResult.user) {
-                      onUserUpdate(updateResult.user);
-                  }
-              }).catch(err => {
-                  console.error("Failed to save video to history:", err);
-                  setError("Video generated but failed to save to gallery. Please download it now.");
-              });
-          }
-      } catch (e) {
-          handleApiError(e);
-          setError("Failed");
-      } finally {
-          setIsLoading(false);
-          setStatusMessage('');
-      }
-  }, [prompt, creativeState, dialogue, dialogueAudio, isVeo3, referenceImage, model, aspectRatio, resolution, negativePrompt, voiceoverLanguage, voiceoverMood, currentUser, onUserUpdate, videoUrl, includeCaptions, includeVoiceover, voiceoverActor]);
+      const image = referenceImage ? { imageBytes: referenceImage.base64, mimeType: referenceImage.mimeType } : undefined;
+      const historyPrompt = `Video Generation: ${prompt.trim().substring(0, 100)}...`;
+      const seed = getBatchSeed(keptSeed, 0);
+      const metadata: GenerationMetadata = {
+          sourceView: JOB_SOURCE_VIEW,
+          model,
+          seed,
+          aspectRatio,
+          referenceImageIds: referenceImage ? await saveReferenceImages([referenceImage]) : [],
+          creativeDirection: creativeState,
+          language: voiceoverLanguage,
+          inputs: {
+              prompt, negativePrompt, dialogue, dialogueAudio, resolution,
+              includeCaptions, includeVoiceover, voiceoverMood, voiceoverActor,
+          } satisfies VideoGenerationInputs,
+      };
+
+      // The job manager owns the generation, so it keeps running (and is saved to the
+      // gallery) even if the user navigates away from this view.
+      const jobId = startJob<VideoJobResult>({
+          kind: 'video',
+          label: prompt.trim().substring(0, 60) || 'Image to video',
+          sourceView: JOB_SOURCE_VIEW,
+          run: ({ setStatus, signal }) => generateVideo(fullPrompt, model, aspectRatio, resolution, dynamicNegativePrompt, image, setStatus, signal, seed),
+          toHistoryItem: ({ videoFile }) => ({ type: 'Video', prompt: historyPrompt, result: videoFile, metadata }),
+          afterSave: async () => {
+              const updateResult = await incrementVideoUsage(currentUser);
+              if (updateResult.success && updateResult.user) {
+                  eventBus.dispatch('userUsageUpdated', updateResult.user);
+              }
+          },
+      });
+      setActiveJobId(jobId);
+  }, [prompt, creativeState, dialogue, dialogueAudio, isVeo3, referenceImage, model, aspectRatio, resolution, negativePrompt, voiceoverLanguage, voiceoverMood, currentUser, videoUrl, includeCaptions, includeVoiceover, voiceoverActor, keptSeed]);
 
   const handleDownloadVideo = async () => {
     if (!videoUrl || !videoFilename) return;
@@ -402,8 +518,13 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
     setVoiceoverActor('Male');
     setImageUploadKey(Date.now());
     setStatusMessage('');
+    setKeptSeed(null);
+    if (activeJobId) {
+        removeJob(activeJobId);
+        setActiveJobId(null);
+    }
     sessionStorage.removeItem(SESSION_KEY);
-  }, []);
+  }, [activeJobId]);
 
   const leftPanel = (
     <>
@@ -523,6 +644,7 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
         </div>
         
         <div className="pt-4 mt-auto">
+            <SeedNotice seed={keptSeed} onClear={() => setKeptSeed(null)} />
             <div className="flex gap-4">
                 <button onClick={handleGenerate} disabled={isLoading} className="w-full flex items-center justify-center gap-2 bg-primary-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
                     {isLoading ? <Spinner /> : 'Generate Video'}
@@ -547,6 +669,13 @@ const VideoGenerationView: React.FC<VideoGenerationViewProps> = ({ preset, clear
                   <Spinner />
                   <p className="mt-4 text-neutral-500 dark:text-neutral-400">{statusMessage || 'Generating...'}</p>
                   <p className="mt-2 text-xs text-neutral-400 dark:text-neutral-500">{loadingMessages[loadingMessageIndex]}</p>
+                  <button
+                      onClick={handleCancel}
+                      className="mt-4 flex items-center justify-center gap-2 bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-200 font-semibold py-2 px-4 rounded-lg hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors"
+                  >
+                      <XIcon className="w-4 h-4" />
+                      Cancel
+                  </button>
               </div>
           ) : error && !videoUrl ? ( // Only show error if there's no video to display
                <div className="text-center text-red-500 dark:text-red-400 p-4">
@@ -5,7 +5,8 @@ import { addHistoryItem } from '../../services/historyService';
 import Spinner from '../common/Spinner';
 import TwoColumnLayout from '../common/TwoColumnLayout';
 // FIX: Import Language type.
-import { type Language } from '../../types';
+import { type GenerationPreset, type Language } from '../../types';
+import { MODELS } from '../../services/aiConfig';
 import { handleApiError } from '../../services/errorHandler';
 
 
@@ -50,9 +51,20 @@ const musicStyleOptions = [
 
 const SESSION_KEY = 'voiceStudioState';
 
+// Form fields kept in GenerationMetadata.inputs
+interface VoiceStudioInputs {
+    script: string;
+    actor: string;
+    mood: string;
+    generationMode: 'speak' | 'sing';
+    musicStyle: string;
+}
+
 // FIX: Add props interface for the component.
 interface VoiceStudioViewProps {
     language: Language;
+    generationPreset: GenerationPreset | null;
+    clearGenerationPreset: () => void;
 }
 
 const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
@@ -62,7 +74,7 @@ const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title
     </div>
 );
 
-const VoiceStudioView: React.FC<VoiceStudioViewProps> = ({ language }) => {
+const VoiceStudioView: React.FC<VoiceStudioViewProps> = ({ language, generationPreset, clearGenerationPreset }) => {
     const [script, setScript] = useState('');
     const [actor, setActor] = useState(voiceActors[0].id);
     const [mood, setMood] = useState('Normal');
@@ -94,6 +106,20 @@ const VoiceStudioView: React.FC<VoiceStudioViewProps> = ({ language }) => {
         } catch (e) { console.error("Failed to save state to session storage", e); }
     }, [script, actor, mood, generationMode, musicStyle]);
 
+    useEffect(() => {
+        if (generationPreset) {
+            const inputs = generationPreset.metadata.inputs as Partial<VoiceStudioInputs>;
+            setScript(inputs.script || '');
+            if (voiceActors.some(va => va.id === inputs.actor)) setActor(inputs.actor!);
+            if (inputs.mood && moodOptions.includes(inputs.mood)) setMood(inputs.mood);
+            if (inputs.generationMode) setGenerationMode(inputs.generationMode);
+            if (inputs.musicStyle && musicStyleOptions.includes(inputs.musicStyle)) setMusicStyle(inputs.musicStyle);
+            setAudioUrl(null);
+            setAudioBlob(null);
+            clearGenerationPreset();
+        }
+    }, [generationPreset, clearGenerationPreset]);
+
     useEffect(() => {
         return () => {
             if (audioUrl) {
@@ -137,6 +163,12 @@ const VoiceStudioView: React.FC<VoiceStudioViewProps> = ({ language }) => {
                 type: 'Audio',
                 prompt: `Voice: ${actor}, Mood: ${mood}, Script: ${script.substring(0, 50)}...`,
                 result: blob,
+                metadata: {
+                    sourceView: 'voice-studio',
+                    model: MODELS.tts,
+                    language,
+                    inputs: { script, actor, mood, generationMode, musicStyle } satisfies VoiceStudioInputs,
+                },
             });
         } catch (e) {
             handleApiError(e);
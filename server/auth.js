@@ -0,0 +1,247 @@
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import fetch from 'node-fetch';
+import { issueSession, requireSession, revokeUserSessions, startRevocationSync, verifyRefreshToken, hasConfiguredSessionSecret } from './sessions.js';
+import { isSupabaseConfigured, supabaseRest } from './supabaseRest.js';
+import { applySubscriptionLifecycle } from './subscriptions.js';
+
+// ===============================
+// 🔑 AUTH
+// ===============================
+// Passwordless login. POST /api/auth/login/start emails a one-time code and a magic link to a
+// registered address; POST /api/auth/login/verify exchanges either one for a session (see
+// sessions.js). Pending logins are held in memory by the server that started them, so the
+// frontend sends every auth request to the same server.
+//
+// Environment:
+//   AUTH_EMAIL_WEBHOOK_URL   Receives { email, code, magicLink, expiresAt } as JSON and sends
+//                            the email (e.g. an n8n workflow). Required outside mock mode.
+//   AUTH_APP_URL             App URL used in magic links. Required to send login emails: the
+//                            Origin header is up to the caller, so it never goes into a link.
+//   AUTH_CODE_TTL_MS         How long a code and link stay valid (default 600000)
+//   AUTH_MAX_ATTEMPTS        Wrong codes allowed per login (default 5)
+//   AUTH_RESEND_COOLDOWN_MS  Minimum time between emails to one address (default 30000)
+
+const config = {
+  emailWebhookUrl: process.env.AUTH_EMAIL_WEBHOOK_URL || '',
+  appUrl: (process.env.AUTH_APP_URL || '').replace(/\/$/, ''),
+  codeTtlMs: Number(process.env.AUTH_CODE_TTL_MS ?? 10 * 60 * 1000),
+  maxAttempts: Number(process.env.AUTH_MAX_ATTEMPTS ?? 5),
+  resendCooldownMs: Number(process.env.AUTH_RESEND_COOLDOWN_MS ?? 30 * 1000),
+};
+
+// Roles holding 'users.forceLogout' in services/permissionService.ts.
+const FORCE_LOGOUT_ROLES = ['admin', 'support'];
+
+// Email -> { codeHash, linkHash, expiresAt, attempts, sentAt }
+const challenges = new Map();
+// Magic link hash -> email
+const linkEmails = new Map();
+
+const hash = (value) => createHash('sha256').update(value).digest('hex');
+
+const hashesMatch = (a, b) => a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+const authError = (res, status, message, code, extra = {}) => res.status(status).json({ error: { code: status, message, status: code, ...extra } });
+
+const deleteChallenge = (email) => {
+  const challenge = challenges.get(email);
+  if (challenge) linkEmails.delete(challenge.linkHash);
+  challenges.delete(email);
+};
+
+const pruneChallenges = () => {
+  const now = Date.now();
+  challenges.forEach((challenge, email) => {
+    if (challenge.expiresAt < now) deleteChallenge(email);
+  });
+};
+
+// ===============================
+// 👤 USERS
+// ===============================
+
+// Offline development only: every email is a lifetime user. ID -> user
+const mockUsers = new Map();
+
+const getMockUser = (email) => {
+  const user = { id: `mock-${hash(email).substring(0, 12)}`, email, created_at: new Date(0).toISOString(), full_name: null, phone: '', role: 'user', status: 'lifetime' };
+  mockUsers.set(user.id, user);
+  return user;
+};
+
+const findUser = async ({ email, id }, mockMode) => {
+  if (!isSupabaseConfigured()) {
+    if (!mockMode) throw new Error('Supabase is not configured (set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY)');
+    return email ? getMockUser(email) : mockUsers.get(id) || null;
+  }
+  const filter = email ? `email=eq.${encodeURIComponent(email)}` : `id=eq.${encodeURIComponent(id)}`;
+  const rows = await supabaseRest(`users?select=*&${filter}&limit=1`);
+  return rows[0] || null;
+};
+
+const createSession = (user, authTime) => ({
+  ...issueSession({ userId: user.id, username: (user.email || '').split('@')[0], role: user.role, status: user.status, authTime }),
+  user,
+});
+
+const sendLoginEmail = async (payload) => {
+  const response = await fetch(config.emailWebhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) throw new Error(`Email webhook failed (${response.status})`);
+};
+
+/**
+ * Registers the login, refresh and revoke endpoints.
+ */
+export const registerAuthRoutes = (app, log, { mockMode }) => {
+  if (!hasConfiguredSessionSecret()) {
+    log('warn', null, '⚠️ [AUTH] SESSION_SECRET is not set. Sessions will only work on this server until it restarts.');
+  }
+  if (!config.emailWebhookUrl) {
+    log('warn', null, mockMode
+      ? '🧪 [AUTH] AUTH_EMAIL_WEBHOOK_URL is not set. Login codes are logged and returned in the response.'
+      : '⚠️ [AUTH] AUTH_EMAIL_WEBHOOK_URL is not set. Nobody will be able to log in.');
+  }
+  if (config.emailWebhookUrl && !config.appUrl) {
+    log('warn', null, '⚠️ [AUTH] AUTH_APP_URL is not set. Login emails will not be sent.');
+  }
+  startRevocationSync(log);
+  setInterval(pruneChallenges, 60 * 1000).unref();
+
+  // ✉️ START LOGIN
+  app.post('/api/auth/login/start', async (req, res) => {
+    log('log', req, '✉️ [AUTH] Login code request');
+    try {
+      const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+      if (!email) return authError(res, 400, 'Email is required.', 'INVALID_ARGUMENT', { reason: 'emailRequired' });
+
+      const previous = challenges.get(email);
+      if (previous && Date.now() - previous.sentAt < config.resendCooldownMs) {
+        const retryAfter = Math.ceil((config.resendCooldownMs - (Date.now() - previous.sentAt)) / 1000);
+        res.setHeader('Retry-After', String(retryAfter));
+        return authError(res, 429, `Please wait ${retryAfter}s before requesting another code.`, 'RESOURCE_EXHAUSTED');
+      }
+
+      const user = await findUser({ email }, mockMode);
+      if (!user) return authError(res, 404, 'This email is not registered.', 'NOT_FOUND', { reason: 'emailNotRegistered' });
+      // Mock mode without a webhook logs the code instead of emailing it.
+      const logsCodeOnly = mockMode && !config.emailWebhookUrl;
+      if (!logsCodeOnly && !(config.emailWebhookUrl && config.appUrl)) {
+        return authError(res, 503, 'Login emails are not configured on this server.', 'UNAVAILABLE');
+      }
+
+      const code = String(randomInt(0, 1000000)).padStart(6, '0');
+      const linkToken = randomBytes(32).toString('base64url');
+      const expiresAt = Date.now() + config.codeTtlMs;
+      deleteChallenge(email);
+      challenges.set(email, { codeHash: hash(code), linkHash: hash(linkToken), expiresAt, attempts: 0, sentAt: Date.now() });
+      linkEmails.set(hash(linkToken), email);
+
+      // Only a link that is logged in mock mode, never emailed, may point at the caller's Origin.
+      const appUrl = config.appUrl || req.headers.origin || '';
+      const magicLink = `${appUrl}/?login=${encodeURIComponent(linkToken)}`;
+      if (config.emailWebhookUrl) {
+        await sendLoginEmail({ email, code, magicLink, expiresAt });
+        log('log', req, '✉️ [AUTH] Login email sent');
+        return res.json({ ok: true, expiresAt });
+      }
+      log('log', req, `🧪 [AUTH] Login code for ${email}: ${code} (link: ${magicLink})`);
+      res.json({ ok: true, expiresAt, devCode: code });
+    } catch (error) {
+      log('error', req, '❌ Proxy error (AUTH START):', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ✅ VERIFY CODE OR MAGIC LINK
+  app.post('/api/auth/login/verify', async (req, res) => {
+    log('log', req, '✅ [AUTH] Login verification');
+    try {
+      const { code, linkToken } = req.body || {};
+      let email;
+      if (typeof linkToken === 'string' && linkToken) {
+        email = linkEmails.get(hash(linkToken));
+      } else {
+        email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+      }
+
+      const challenge = email ? challenges.get(email) : null;
+      if (!challenge || challenge.expiresAt < Date.now()) {
+        if (email) deleteChallenge(email);
+        return authError(res, 410, 'This code or link has expired. Please request a new one.', 'LOGIN_EXPIRED', { reason: 'loginExpired' });
+      }
+
+      if (!linkToken) {
+        if (typeof code !== 'string' || !hashesMatch(hash(code.trim()), challenge.codeHash)) {
+          challenge.attempts += 1;
+          const attemptsLeft = config.maxAttempts - challenge.attempts;
+          if (attemptsLeft <= 0) {
+            deleteChallenge(email);
+            return authError(res, 429, 'Too many wrong codes. Please request a new one.', 'RESOURCE_EXHAUSTED', { reason: 'tooManyAttempts' });
+          }
+          log('warn', req, `✅ [AUTH] Wrong code (${attemptsLeft} attempt(s) left)`);
+          return authError(res, 401, 'That code is not correct.', 'INVALID_CODE', { reason: 'invalidCode', attemptsLeft });
+        }
+      }
+
+      deleteChallenge(email);
+      const user = await applySubscriptionLifecycle(await findUser({ email }, mockMode), log);
+      if (!user) return authError(res, 404, 'This email is not registered.', 'NOT_FOUND', { reason: 'emailNotRegistered' });
+      req.headers['x-user-username'] = email.split('@')[0];
+      log('log', req, '✅ [AUTH] Logged in');
+      res.json(createSession(user));
+    } catch (error) {
+      log('error', req, '❌ Proxy error (AUTH VERIFY):', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 🔄 REFRESH
+  // Re-reads the user, so the new access token carries their current role and status
+  // (including a subscription that has just expired).
+  app.post('/api/auth/refresh', async (req, res) => {
+    try {
+      const session = verifyRefreshToken(req.body?.refreshToken);
+      if (!session) return authError(res, 401, 'Your session has expired. Please log in again.', 'SESSION_INVALID');
+      req.headers['x-user-username'] = session.username;
+
+      const user = await applySubscriptionLifecycle(await findUser({ id: session.userId }, mockMode), log);
+      if (!user) return authError(res, 401, 'Your account no longer exists.', 'SESSION_INVALID');
+      const forcedLogoutAt = user.force_logout_at ? new Date(user.force_logout_at).getTime() : 0;
+      if (forcedLogoutAt >= session.authTime) {
+        revokeUserSessions(user.id, forcedLogoutAt);
+        return authError(res, 401, 'Your session was ended by an administrator.', 'SESSION_INVALID');
+      }
+      log('debug', req, '🔄 [AUTH] Session refreshed');
+      res.json(createSession(user, session.authTime));
+    } catch (error) {
+      log('error', req, '❌ Proxy error (AUTH REFRESH):', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 🚪 REVOKE (admins and support agents, or users ending their own sessions)
+  app.post('/api/auth/revoke', requireSession, async (req, res) => {
+    try {
+      const userId = req.body?.userId;
+      if (typeof userId !== 'string' || !userId) return authError(res, 400, 'userId is required.', 'INVALID_ARGUMENT');
+      if (!FORCE_LOGOUT_ROLES.includes(req.session.role) && req.session.userId !== userId) {
+        return authError(res, 403, 'You do not have permission to log this user out.', 'PERMISSION_DENIED');
+      }
+      const now = new Date();
+      revokeUserSessions(userId, now.getTime());
+      if (isSupabaseConfigured()) {
+        // Other servers and the user's open tabs pick the logout up from here.
+        await supabaseRest(`users?id=eq.${encodeURIComponent(userId)}`, { method: 'PATCH', body: { force_logout_at: now.toISOString() } });
+      }
+      log('log', req, `🚪 [AUTH] Sessions revoked for user ${userId}`);
+      res.json({ ok: true, revokedAt: now.getTime() });
+    } catch (error) {
+      log('error', req, '❌ Proxy error (AUTH REVOKE):', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+};
@@ -0,0 +1,303 @@
+import { randomUUID } from 'crypto';
+import { requireActiveSession, verifySessionToken, SESSION_HEADER } from './sessions.js';
+import { isSupabaseConfigured, supabaseRest } from './supabaseRest.js';
+
+// ===============================
+// 🪙 CREDITS
+// ===============================
+// Usage quotas for the shared token pool. Each user status gets a monthly credit allowance
+// (calendar month, UTC), and each generation costs credits by operation. A generation is
+// charged when it reaches this server, before the vault forwards it upstream, and refunded
+// when it fails: right away for an error response, or when a Veo status check (or a server-side
+// job) reports the video failed.
+//
+// Only requests made with a login session are charged. Personal tokens use the user's own
+// quota with Google and are free here. If the ledger cannot be read, generations are let
+// through rather than blocked.
+//
+// Tables:
+//   credit_ledger   id (uuid), user_id, operation, credits, period ('YYYY-MM'),
+//                   status ('charged' | 'refunded'), request_id, created_at, refunded_at
+//
+// Environment:
+//   CREDIT_ALLOWANCES  Monthly credits per status, e.g. "trial=50,subscription=1500"; a status
+//                      set to "unlimited" is never limited (defaults below)
+//   CREDIT_COSTS       Credits per operation, e.g. "veo_standard=20,veo_fast=10" (defaults below)
+
+const DEFAULT_ALLOWANCES = { trial: 50, subscription: 1500, lifetime: 3000, admin: 'unlimited' };
+const DEFAULT_COSTS = { veo_standard: 20, veo_fast: 10, imagen_generate: 2, imagen_recipe: 3, tts: 1 };
+// How long a charged Veo operation can still be refunded by a status check
+const OPERATION_REFUND_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+const parseMap = (value) => Object.fromEntries(
+  (value || '').split(',')
+    .map(entry => entry.split('=').map(part => part.trim()))
+    .filter(([key, amount]) => key && amount),
+);
+
+const readCosts = () => {
+  const costs = { ...DEFAULT_COSTS };
+  Object.entries(parseMap(process.env.CREDIT_COSTS)).forEach(([operation, amount]) => {
+    if (operation in costs && Number.isFinite(Number(amount))) costs[operation] = Math.max(0, Number(amount));
+  });
+  return costs;
+};
+
+const readAllowances = () => {
+  const allowances = { ...DEFAULT_ALLOWANCES };
+  Object.entries(parseMap(process.env.CREDIT_ALLOWANCES)).forEach(([status, amount]) => {
+    if (amount === 'unlimited') allowances[status] = 'unlimited';
+    else if (Number.isFinite(Number(amount))) allowances[status] = Math.max(0, Number(amount));
+  });
+  return allowances;
+};
+
+const config = { costs: readCosts(), allowances: readAllowances() };
+
+// Offline development only (no Supabase): charge ID -> ledger row
+const memoryLedger = new Map();
+// Veo operation name -> { chargeId, chargedAt }, for refunds when a status check reports failure
+const operationCharges = new Map();
+// User ID -> tail of that user's charge queue, so two generations can't both spend the last credits
+const chargeQueues = new Map();
+
+const getPeriod = (date = new Date()) => date.toISOString().substring(0, 7);
+
+const getPeriodEnd = (date = new Date()) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+
+/**
+ * Credits the user's status gets each month, or null when they are not limited.
+ * Statuses without an allowance (inactive, pending_payment) get none.
+ */
+const getAllowance = (status) => {
+  const allowance = config.allowances[status];
+  if (allowance === 'unlimited') return null;
+  return typeof allowance === 'number' ? allowance : 0;
+};
+
+const getVeoOperation = (requests) => {
+  const keys = Array.isArray(requests) ? requests.map(request => request?.videoModelKey || '') : [];
+  return {
+    operation: keys.some(key => !key.includes('fast')) ? 'veo_standard' : 'veo_fast',
+    count: Math.max(1, keys.length),
+  };
+};
+
+/**
+ * The operation a request is charged as and how many of it, or null for requests that cost nothing.
+ */
+export const getChargedOperation = (path, body) => {
+  switch (path) {
+    case '/api/veo/generate-t2v':
+    case '/api/veo/generate-i2v':
+      return getVeoOperation(body?.requests);
+    case '/api/veo/jobs':
+      return getVeoOperation(body?.request?.requests);
+    case '/api/imagen/generate':
+      return { operation: 'imagen_generate', count: 1 };
+    case '/api/imagen/run-recipe':
+      return { operation: 'imagen_recipe', count: 1 };
+    case '/api/gemini/tts':
+      return { operation: 'tts', count: 1 };
+    default:
+      return null;
+  }
+};
+
+// ===============================
+// 📒 LEDGER
+// ===============================
+
+const getUsedCredits = async (userId, period) => {
+  if (!isSupabaseConfigured()) {
+    let used = 0;
+    memoryLedger.forEach(row => {
+      if (row.user_id === userId && row.period === period && row.status === 'charged') used += row.credits;
+    });
+    return used;
+  }
+  const rows = await supabaseRest(`credit_ledger?select=credits&user_id=eq.${encodeURIComponent(userId)}&period=eq.${period}&status=eq.charged`);
+  return rows.reduce((sum, row) => sum + Number(row.credits || 0), 0);
+};
+
+const insertCharge = async (row) => {
+  if (!isSupabaseConfigured()) {
+    memoryLedger.set(row.id, row);
+    return;
+  }
+  await supabaseRest('credit_ledger', { method: 'POST', body: row });
+};
+
+/**
+ * The user's credits for the current month. `remaining` and `allowance` are null when unlimited.
+ */
+export const getCreditSummary = async ({ userId, status }) => {
+  const period = getPeriod();
+  const allowance = getAllowance(status);
+  const used = await getUsedCredits(userId, period);
+  return {
+    period,
+    allowance,
+    used,
+    remaining: allowance === null ? null : Math.max(0, allowance - used),
+    resetsAt: getPeriodEnd(),
+    costs: config.costs,
+  };
+};
+
+// Runs `task` after every earlier charge of the same user on this server has finished.
+const queueForUser = (userId, task) => {
+  const result = (chargeQueues.get(userId) || Promise.resolve()).then(task);
+  const tail = result.catch(() => {});
+  chargeQueues.set(userId, tail);
+  tail.then(() => {
+    if (chargeQueues.get(userId) === tail) chargeQueues.delete(userId);
+  });
+  return result;
+};
+
+/**
+ * Charges `operation` x `count` to the session's user. Resolves to { charged: true, id, credits }
+ * or, when the allowance would be exceeded, { charged: false, summary, credits }.
+ */
+export const chargeCredits = (session, { operation, count }, requestId) => queueForUser(session.userId, async () => {
+  const credits = config.costs[operation] * count;
+  const summary = await getCreditSummary(session);
+  if (summary.remaining !== null && summary.remaining < credits) {
+    return { charged: false, summary, credits };
+  }
+  const row = {
+    id: randomUUID(),
+    user_id: session.userId,
+    operation,
+    credits,
+    period: summary.period,
+    status: 'charged',
+    request_id: requestId || null,
+  };
+  await insertCharge(row);
+  return { charged: true, id: row.id, credits };
+});
+
+/**
+ * Gives a charge back. Refunding twice, or refunding a charge that does not exist, does nothing.
+ */
+export const refundCredits = async (chargeId, log, reason) => {
+  if (!chargeId) return;
+  try {
+    if (!isSupabaseConfigured()) {
+      const row = memoryLedger.get(chargeId);
+      if (!row || row.status !== 'charged') return;
+      row.status = 'refunded';
+    } else {
+      await supabaseRest(`credit_ledger?id=eq.${encodeURIComponent(chargeId)}&status=eq.charged`, {
+        method: 'PATCH',
+        body: { status: 'refunded', refunded_at: new Date().toISOString() },
+      });
+    }
+    log('log', null, `🪙 [CREDITS] Refunded charge ${chargeId} (${reason})`);
+  } catch (error) {
+    log('error', null, `❌ [CREDITS] Failed to refund charge ${chargeId}:`, error.message);
+  }
+};
+
+const pruneOperationCharges = () => {
+  const cutoff = Date.now() - OPERATION_REFUND_WINDOW_MS;
+  operationCharges.forEach((entry, name) => {
+    if (entry.chargedAt < cutoff) operationCharges.delete(name);
+  });
+};
+
+// Calls `onBody` with the JSON body just before it is sent.
+const onJsonResponse = (res, onBody) => {
+  const json = res.json.bind(res);
+  res.json = (body) => {
+    try {
+      onBody(body);
+    } catch {
+      // Never let bookkeeping break the response.
+    }
+    return json(body);
+  };
+};
+
+const creditError = (res, status, message, code, extra = {}) => res.status(status).json({ error: { code: status, message, status: code, ...extra } });
+
+// ===============================
+// 🧾 MIDDLEWARE & ROUTES
+// ===============================
+
+/**
+ * Express middleware factory: charges generation requests made with a session, answers 402
+ * when the user is out of credits, and refunds failed generations. The charge is available to
+ * route handlers as res.locals.creditCharge.
+ */
+export const createCreditMiddleware = (log) => async (req, res, next) => {
+  if (req.method !== 'POST') return next();
+
+  // Failed Veo operations give their credits back, whoever checks on them.
+  if (req.path === '/api/veo/status') {
+    onJsonResponse(res, (body) => {
+      (body?.operations || []).forEach(op => {
+        const name = op?.operation?.name;
+        const entry = name && operationCharges.get(name);
+        if (entry && op.status === 'MEDIA_GENERATION_STATUS_FAILED') {
+          operationCharges.delete(name);
+          refundCredits(entry.chargeId, log, `Veo operation ${name} failed`);
+        }
+      });
+    });
+    return next();
+  }
+
+  const charged = getChargedOperation(req.path, req.body);
+  const session = charged && verifySessionToken(req.headers[SESSION_HEADER]);
+  if (!session) return next();
+
+  let charge;
+  try {
+    charge = await chargeCredits(session, charged, req.id);
+  } catch (error) {
+    log('error', req, '❌ [CREDITS] Could not charge credits. Letting the generation through:', error.message);
+    return next();
+  }
+
+  if (!charge.charged) {
+    const { summary } = charge;
+    log('warn', req, `🪙 [CREDITS] Out of credits for ${charged.operation} (${summary.remaining}/${summary.allowance} left, needs ${charge.credits})`);
+    return creditError(res, 402, `Not enough credits: this needs ${charge.credits} and you have ${summary.remaining} left this month.`, 'INSUFFICIENT_CREDITS', {
+      required: charge.credits,
+      remaining: summary.remaining,
+      resetsAt: summary.resetsAt,
+    });
+  }
+
+  log('debug', req, `🪙 [CREDITS] Charged ${charge.credits} for ${charged.operation}`);
+  res.locals.creditCharge = charge;
+  if (req.path === '/api/veo/generate-t2v' || req.path === '/api/veo/generate-i2v') {
+    onJsonResponse(res, (body) => {
+      pruneOperationCharges();
+      (body?.operations || []).forEach(op => {
+        if (op?.operation?.name) operationCharges.set(op.operation.name, { chargeId: charge.id, chargedAt: Date.now() });
+      });
+    });
+  }
+  res.on('finish', () => {
+    if (res.statusCode >= 400) refundCredits(charge.id, log, `request failed with ${res.statusCode}`);
+  });
+  next();
+};
+
+/**
+ * Registers GET /api/credits, the signed-in user's balance for the current month.
+ */
+export const registerCreditRoutes = (app, log) => {
+  app.get('/api/credits', requireActiveSession, async (req, res) => {
+    try {
+      res.json(await getCreditSummary(req.session));
+    } catch (error) {
+      log('error', req, '❌ Proxy error (CREDITS):', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+};
@@ -0,0 +1,233 @@
+import { fetchUpstream } from './metrics.js';
+import { mockGeminiResponse } from './mockUpstream.js';
+import { requireActiveSession } from './sessions.js';
+import { isSupabaseConfigured, supabaseRest } from './supabaseRest.js';
+
+// ===============================
+// 💬 GEMINI PROXY
+// ===============================
+// Text, chat, Google Search grounding, TTS and health check calls to the Gemini REST API, so
+// the API key stays on the server. Callers authenticate with their session (X-Monoklix-Session, see
+// sessions.js) and send requests in the REST shape: { model, contents, systemInstruction?,
+// generationConfig? }. Responses are passed back unchanged; chat is streamed as
+// Server-Sent Events, one GenerateContentResponse per `data:` line.
+//
+// Environment:
+//   GEMINI_API_KEY          Gemini API key. Without it the newest row of master_api_key in
+//                           Supabase is used.
+//   GEMINI_KEY_REFRESH_MS   How long a key read from Supabase is reused (default 600000)
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+// Only Gemini models, and nothing that could change the upstream path.
+const MODEL_PATTERN = /^gemini-[\w.-]+$/;
+const HEALTH_CHECK_MODEL = 'gemini-2.5-flash';
+
+const config = {
+  apiKey: process.env.GEMINI_API_KEY || '',
+  keyRefreshMs: Number(process.env.GEMINI_KEY_REFRESH_MS ?? 10 * 60 * 1000),
+};
+
+let cachedKey = { value: null, fetchedAt: 0 };
+
+const getApiKey = async () => {
+  if (config.apiKey) return config.apiKey;
+  if (!isSupabaseConfigured()) return null;
+  if (cachedKey.value && Date.now() - cachedKey.fetchedAt < config.keyRefreshMs) return cachedKey.value;
+  const rows = await supabaseRest('master_api_key?select=api_key&order=created_at.desc&limit=1');
+  cachedKey = { value: rows[0]?.api_key || null, fetchedAt: Date.now() };
+  return cachedKey.value;
+};
+
+const geminiError = (res, status, message, code) => res.status(status).json({ error: { code: status, message, status: code } });
+
+// The first line of an upstream error, for health check results
+const getErrorSummary = (data, status) => String(data?.error?.message || `Gemini returned ${status}.`).split('\n')[0];
+
+// Builds the upstream body from a client request, or returns { error } if it is malformed.
+const buildContentRequest = (body, extra = {}) => {
+  if (!MODEL_PATTERN.test(body.model || '')) return { error: 'A Gemini model is required.' };
+  if (!Array.isArray(body.contents) || body.contents.length === 0) return { error: 'contents must be a non-empty array.' };
+  return {
+    model: body.model,
+    payload: {
+      contents: body.contents,
+      ...(typeof body.systemInstruction === 'string' && body.systemInstruction && { systemInstruction: { parts: [{ text: body.systemInstruction }] } }),
+      ...(body.generationConfig && { generationConfig: body.generationConfig }),
+      ...extra,
+    },
+  };
+};
+
+const buildSpeechRequest = (body) => {
+  if (typeof body.text !== 'string' || !body.text.trim()) return { error: 'text is required.' };
+  if (typeof body.voiceName !== 'string' || !body.voiceName) return { error: 'voiceName is required.' };
+  return {
+    model: TTS_MODEL,
+    payload: {
+      contents: [{ parts: [{ text: body.text }] }],
+      generationConfig: {
+        responseModalities: ['AUDIO'],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: body.voiceName } } },
+      },
+    },
+  };
+};
+
+const callGemini = async (model, method, payload, apiKey, signal) => fetchUpstream(
+  method,
+  `${GEMINI_API_BASE}/models/${model}:${method}${method === 'streamGenerateContent' ? '?alt=sse' : ''}`,
+  {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+    body: JSON.stringify(payload),
+    signal,
+  },
+);
+
+const readJson = async (response) => {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { error: { code: 502, message: `Gemini returned a non-JSON response (${response.status}).`, status: 'BAD_GATEWAY' } };
+  }
+};
+
+/**
+ * Registers the Gemini endpoints. In mock mode replies come from mockUpstream.js and no key
+ * is needed.
+ */
+export const registerGeminiRoutes = (app, log, { mockMode }) => {
+  if (!mockMode && !config.apiKey && !isSupabaseConfigured()) {
+    log('warn', null, '⚠️ [GEMINI] Neither GEMINI_API_KEY nor Supabase is configured. Gemini requests will fail.');
+  }
+
+  const handleGenerate = (label, buildRequest, { audio = false } = {}) => async (req, res) => {
+    log('log', req, `💬 [GEMINI ${label}] Request`);
+    try {
+      const { model, payload, error } = buildRequest(req.body || {});
+      if (error) return geminiError(res, 400, error, 'INVALID_ARGUMENT');
+      log('debug', req, '📦 Request body:', payload);
+
+      if (mockMode) {
+        const { status, body } = await mockGeminiResponse(req, { audio });
+        return res.status(status).json(body);
+      }
+
+      const apiKey = await getApiKey();
+      if (!apiKey) return geminiError(res, 503, 'Gemini is not configured on this server.', 'UNAVAILABLE');
+
+      const response = await callGemini(model, 'generateContent', payload, apiKey);
+      const data = await readJson(response);
+      if (!response.ok) {
+        log('error', req, `❌ Gemini API Error (${label}):`, data);
+        return res.status(response.status).json(data);
+      }
+
+      log('log', req, `✅ [GEMINI ${label}] Success - Tokens:`, data.usageMetadata?.totalTokenCount ?? 0);
+      res.json(data);
+    } catch (error) {
+      log('error', req, `❌ Proxy error (GEMINI ${label}):`, error);
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  // 📝 TEXT & MULTIMODAL
+  app.post('/api/gemini/generate', requireActiveSession, handleGenerate('GENERATE', body => buildContentRequest(body)));
+
+  // 🔎 GOOGLE SEARCH GROUNDING
+  app.post('/api/gemini/search', requireActiveSession, handleGenerate('SEARCH', body => buildContentRequest(body, { tools: [{ googleSearch: {} }] })));
+
+  // 🔊 TEXT-TO-SPEECH
+  app.post('/api/gemini/tts', requireActiveSession, handleGenerate('TTS', buildSpeechRequest, { audio: true }));
+
+  // 🩺 STATUS & HEALTH
+  // The key never leaves the server: clients learn whether one is configured, and a health
+  // check runs a tiny request with it here. Admins may check another key (e.g. one they are
+  // about to assign) by sending it as `apiKey`.
+  app.get('/api/gemini/status', requireActiveSession, async (req, res) => {
+    try {
+      res.json({ configured: mockMode || !!(await getApiKey()) });
+    } catch (error) {
+      log('error', req, '❌ Proxy error (GEMINI STATUS):', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post('/api/gemini/health', requireActiveSession, async (req, res) => {
+    const { model = HEALTH_CHECK_MODEL, apiKey: keyToCheck } = req.body || {};
+    if (!MODEL_PATTERN.test(model)) return geminiError(res, 400, 'A Gemini model is required.', 'INVALID_ARGUMENT');
+    if (keyToCheck !== undefined && (typeof keyToCheck !== 'string' || req.session.role !== 'admin')) {
+      return geminiError(res, 403, 'Only admins can check another API key.', 'PERMISSION_DENIED');
+    }
+    log('log', req, `🩺 [GEMINI HEALTH] Checking ${model}${keyToCheck ? ' with a supplied key' : ''}`);
+    try {
+      if (mockMode) return res.json({ model, ok: true, message: 'OK (mock)' });
+
+      const apiKey = keyToCheck || await getApiKey();
+      if (!apiKey) return res.json({ model, ok: false, message: 'Gemini is not configured on this server.' });
+
+      const response = await callGemini(model, 'generateContent', {
+        contents: [{ parts: [{ text: 'test' }] }],
+        generationConfig: { maxOutputTokens: 2, thinkingConfig: { thinkingBudget: 0 } },
+      }, apiKey);
+      const data = await readJson(response);
+      res.json({ model, ok: response.ok, message: response.ok ? 'OK' : getErrorSummary(data, response.status) });
+    } catch (error) {
+      log('error', req, '❌ Proxy error (GEMINI HEALTH):', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 💬 STREAMING CHAT
+  // The client sends the whole conversation each turn; nothing is kept here.
+  app.post('/api/gemini/chat', requireActiveSession, async (req, res) => {
+    log('log', req, '💬 [GEMINI CHAT] Request');
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    try {
+      const { model, payload, error } = buildContentRequest(req.body || {});
+      if (error) return geminiError(res, 400, error, 'INVALID_ARGUMENT');
+
+      const startStream = () => {
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.flushHeaders();
+      };
+
+      if (mockMode) {
+        const { status, body } = await mockGeminiResponse(req);
+        if (status !== 200) return res.status(status).json(body);
+        startStream();
+        return res.end(`data: ${JSON.stringify(body)}\r\n\r\n`);
+      }
+
+      const apiKey = await getApiKey();
+      if (!apiKey) return geminiError(res, 503, 'Gemini is not configured on this server.', 'UNAVAILABLE');
+
+      const response = await callGemini(model, 'streamGenerateContent', payload, apiKey, controller.signal);
+      if (!response.ok) {
+        const data = await readJson(response);
+        log('error', req, '❌ Gemini API Error (CHAT):', data);
+        return res.status(response.status).json(data);
+      }
+
+      startStream();
+      for await (const chunk of response.body) {
+        res.write(chunk);
+      }
+      res.end();
+      log('log', req, '✅ [GEMINI CHAT] Stream complete');
+    } catch (error) {
+      if (controller.signal.aborted) {
+        log('log', req, '🔌 [GEMINI CHAT] Client disconnected');
+        return;
+      }
+      log('error', req, '❌ Proxy error (GEMINI CHAT):', error);
+      // Once the stream has started the status can no longer change; just end it.
+      if (res.headersSent) return res.end();
+      res.status(500).json({ error: error.message });
+    }
+  });
+};
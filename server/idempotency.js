@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+import { GENERATION_ROUTES } from './metrics.js';
+import { verifySessionToken, SESSION_HEADER } from './sessions.js';
+
+// ===============================
+// 🔁 IDEMPOTENCY KEYS
+// ===============================
+// Clients send an `Idempotency-Key` header with each logical generation and reuse it when they
+// retry. A repeat of a request that already succeeded gets the original response back (with
+// `Idempotent-Replayed: true`) instead of starting a second billable operation. The replay
+// also names the original pool token (X-Vault-Token-Id), so status polls reach the token that
+// started the operation. A repeat that arrives while the original is still running waits for
+// it. Failed responses are not kept, so they can be retried.
+//
+// Keys belong to whoever sent them: the signed-in user, or the personal token for requests
+// without a session. Another user reusing a key starts their own request. Requests with
+// neither are left alone; the routes reject them anyway.
+//
+// Keys are remembered in memory by this server only, for a limited time. The client therefore
+// keeps a generation on one server once a request there may have started it (see apiClient.ts).
+//
+// Environment:
+//   IDEMPOTENCY_TTL_MS     How long a successful response is replayed (default 600000, 10 min)
+//   IDEMPOTENCY_MAX_BYTES  Memory cap for stored responses, oldest dropped first (default 268435456)
+
+const IDEMPOTENT_PATHS = [...Object.keys(GENERATION_ROUTES), '/api/veo/jobs'];
+const KEY_PATTERN = /^[\w-]{8,128}$/;
+
+const config = {
+  ttlMs: Number(process.env.IDEMPOTENCY_TTL_MS ?? 10 * 60 * 1000),
+  maxBytes: Number(process.env.IDEMPOTENCY_MAX_BYTES ?? 256 * 1024 * 1024),
+};
+
+// `${owner}:${path}:${key}` -> { fingerprint, createdAt, pending: Promise | null, response: { status, body, vaultTokenId, bytes } | null }
+const records = new Map();
+
+const hash = (value) => createHash('sha256').update(value).digest('hex');
+
+// The session's user, or a hash of the bearer token, so keys never collide across callers.
+const getOwner = (req) => {
+  const session = verifySessionToken(req.headers[SESSION_HEADER]);
+  if (session) return `user:${session.userId}`;
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  return token ? `token:${hash(token).substring(0, 16)}` : null;
+};
+
+const fingerprintBody = (body) => hash(JSON.stringify(body ?? null));
+
+const prune = () => {
+  const cutoff = Date.now() - config.ttlMs;
+  records.forEach((record, id) => {
+    if (!record.pending && record.createdAt < cutoff) records.delete(id);
+  });
+
+  // Map order is insertion order, so the oldest stored responses go first.
+  let total = Array.from(records.values()).reduce((sum, record) => sum + (record.response?.bytes || 0), 0);
+  for (const [id, record] of records) {
+    if (total <= config.maxBytes) break;
+    if (!record.response) continue;
+    total -= record.response.bytes;
+    records.delete(id);
+  }
+};
+
+const replay = (log, req, res, response) => {
+  log('log', req, '🔁 [IDEMPOTENCY] Replaying stored response');
+  res.setHeader('Idempotent-Replayed', 'true');
+  // Follow-up steps (status polls) must reach the pool token that started the operation.
+  if (response.vaultTokenId) res.setHeader('X-Vault-Token-Id', response.vaultTokenId);
+  res.status(response.status).json(response.body);
+};
+
+// Runs the route and keeps its response if it succeeds.
+const runAndRecord = (id, fingerprint, res, next) => {
+  let resolvePending;
+  const record = { fingerprint, createdAt: Date.now(), pending: new Promise(resolve => { resolvePending = resolve; }), response: null };
+  records.set(id, record);
+
+  let captured = null;
+  const originalJson = res.json;
+  res.json = function (body) {
+    captured = { status: res.statusCode, body, vaultTokenId: res.getHeader('X-Vault-Token-Id') || null };
+    return originalJson.call(this, body);
+  };
+
+  let settled = false;
+  const settle = () => {
+    if (settled) return;
+    settled = true;
+    record.pending = null;
+    if (captured && captured.status >= 200 && captured.status < 300) {
+      record.response = { ...captured, bytes: JSON.stringify(captured.body).length };
+      prune();
+    } else {
+      records.delete(id);
+    }
+    resolvePending(record.response);
+  };
+  res.on('finish', settle);
+  res.on('close', settle);
+  next();
+};
+
+/**
+ * Express middleware factory: applies Idempotency-Key handling to the generation routes and
+ * POST /api/veo/jobs. Requests without the header are unaffected.
+ */
+export const createIdempotencyMiddleware = (log) => async (req, res, next) => {
+  if (req.method !== 'POST' || !IDEMPOTENT_PATHS.includes(req.path)) return next();
+  const key = req.headers['idempotency-key'];
+  if (key === undefined) return next();
+  if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+    return res.status(400).json({ error: { code: 400, message: 'Idempotency-Key must be 8-128 letters, digits, dashes or underscores.', status: 'INVALID_ARGUMENT' } });
+  }
+
+  const owner = getOwner(req);
+  if (!owner) return next();
+
+  prune();
+  const id = `${owner}:${req.path}:${key}`;
+  const fingerprint = fingerprintBody(req.body);
+  let existing = records.get(id);
+
+  while (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      log('warn', req, '⚠️ [IDEMPOTENCY] Key reused with a different request body');
+      return res.status(422).json({ error: { code: 422, message: 'This Idempotency-Key was already used for a different request.', status: 'INVALID_ARGUMENT' } });
+    }
+    if (existing.response) return replay(log, req, res, existing.response);
+
+    log('log', req, '⏳ [IDEMPOTENCY] Waiting for the original request with this key');
+    const response = await existing.pending;
+    if (response) return replay(log, req, res, response);
+    // The original failed, so this repeat may try again, unless another repeat already is.
+    existing = records.get(id);
+  }
+
+  runAndRecord(id, fingerprint, res, next);
+};
@@ -1,45 +1,27 @@
 import express from 'express';
 import cors from 'cors';
-import fetch from 'node-fetch';
+import { registerMockRoutes } from './mockUpstream.js';
+import { registerVeoJobRoutes } from './veoJobs.js';
+import { log, requestContext } from './logger.js';
+import { fetchUpstream, metricsMiddleware, renderMetrics } from './metrics.js';
+import { createGenerationRateLimiter } from './rateLimiter.js';
+import { createIdempotencyMiddleware } from './idempotency.js';
+import { checkVideoUrl, getCachedVideo } from './videoCache.js';
+import { registerAuthRoutes } from './auth.js';
+import { createVaultAuth, registerTokenVaultRoutes } from './tokenVault.js';
+import { registerGeminiRoutes } from './geminiProxy.js';
+import { registerWooCommerceRoutes } from './wooCommerce.js';
+import { registerWorkspaceRoutes } from './workspaces.js';
+import { createCreditMiddleware, registerCreditRoutes } from './credits.js';
+import { startSubscriptionSweep } from './subscriptions.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 const VEO_API_BASE = 'https://aisandbox-pa.googleapis.com/v1';
-
-// ===============================
-// 📝 LOGGER
-// ===============================
-const log = (level, req, ...messages) => {
-  const timestamp = new Date().toLocaleString('sv-SE', {
-    timeZone: 'Asia/Kuala_Lumpur',
-  });
-  const username = req ? (req.headers['x-user-username'] || 'anonymous') : 'SYSTEM';
-  const prefix = `[${timestamp}] [${username}]`;
-
-  // Stringify objects for better readability
-  const processedMessages = messages.map(msg => {
-    if (typeof msg === 'object' && msg !== null) {
-      try {
-        // Truncate long base64 strings in logs
-        const tempMsg = JSON.parse(JSON.stringify(msg));
-        if (tempMsg?.imageInput?.rawImageBytes?.length > 100) {
-            tempMsg.imageInput.rawImageBytes = tempMsg.imageInput.rawImageBytes.substring(0, 50) + '...[TRUNCATED]';
-        }
-        return JSON.stringify(tempMsg, null, 2);
-      } catch (e) {
-        return '[Unserializable Object]';
-      }
-    }
-    return msg;
-  });
-
-  if (level === 'error') {
-    console.error(prefix, ...processedMessages);
-  } else {
-    console.log(prefix, ...processedMessages);
-  }
-};
-
+// 'live' forwards to Google; 'mock' serves emulated responses from mockUpstream.js
+const PROXY_MODE = process.env.PROXY_MODE === 'mock' ? 'mock' : 'live';
+// Advertised on /health so clients only use optional endpoints this server actually has.
+const FEATURES = ['veo-jobs', 'metrics', 'token-vault', 'gemini', 'auth', 'workspaces', 'credits'];
 
 // A helper to safely parse JSON from a response
 async function getJson(response, req) {
@@ -47,8 +29,7 @@ async function getJson(response, req) {
     try {
         return JSON.parse(text);
     } catch (e) {
-        log('error', req, `❌ Upstream API response is not valid JSON. Status: ${response.status}`);
-        log('error', req, `   Body: ${text}`);
+        log('error', req, `❌ Upstream API response is not valid JSON. Status: ${response.status}`, { body: text.substring(0, 1000) });
         return { 
             error: 'Bad Gateway', 
             message: 'The API returned an invalid (non-JSON) response.', 
@@ -61,30 +42,97 @@ async function getJson(response, req) {
 // ===============================
 // 🧩 MIDDLEWARE
 // ===============================
+app.use(requestContext);
+app.use(metricsMiddleware);
 app.use(cors({
   origin: [
     'http://localhost:8080',
     'https://dev.monoklix.com',
     'https://monoklix.com'
   ],
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['X-Request-Id', 'Retry-After', 'Content-Range', 'Accept-Ranges', 'X-Cache', 'Idempotent-Replayed', 'X-Vault-Token-Id']
+}));
+app.use(express.json({
+  limit: '50mb',
+  // Webhook signatures are computed over the exact bytes received.
+  verify: (req, res, buf) => {
+    if (req.originalUrl.startsWith('/api/woocommerce/')) req.rawBody = buf;
+  },
 }));
-app.use(express.json({ limit: '50mb' }));
+// These apply to the generation routes in live and mock mode. Replayed responses neither use a
+// vault token nor count towards rate limits, and limits see the token the vault picked.
+// Requests turned away by a rate limit are never charged credits.
+app.use(createIdempotencyMiddleware(log));
+app.use(createVaultAuth(log));
+app.use(createGenerationRateLimiter(log));
+app.use(createCreditMiddleware(log));
+
+// Mock routes are registered first so they shadow the real upstream routes below.
+if (PROXY_MODE === 'mock') {
+  registerMockRoutes(app, log);
+}
 
 // ===============================
 // 🔍 HEALTH CHECK
 // ===============================
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  res.json({ status: 'ok', mode: PROXY_MODE, features: FEATURES, timestamp: new Date().toISOString() });
 });
 
+// ===============================
+// 📈 METRICS
+// ===============================
+app.get('/metrics', (req, res) => {
+  res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.send(renderMetrics());
+});
+
+// ===============================
+// 🔑 AUTH
+// ===============================
+registerAuthRoutes(app, log, { mockMode: PROXY_MODE === 'mock' });
+
+// ===============================
+// 🔐 TOKEN VAULT
+// ===============================
+registerTokenVaultRoutes(app, log, { mockMode: PROXY_MODE === 'mock' });
+
+// ===============================
+// 💬 GEMINI
+// ===============================
+registerGeminiRoutes(app, log, { mockMode: PROXY_MODE === 'mock' });
+
+// ===============================
+// 🛒 WOOCOMMERCE
+// ===============================
+registerWooCommerceRoutes(app, log);
+
+// ===============================
+// 👥 WORKSPACES
+// ===============================
+registerWorkspaceRoutes(app, log);
+
+// ===============================
+// 🪙 CREDITS
+// ===============================
+registerCreditRoutes(app, log);
+
+// ===============================
+// 🗓️ SUBSCRIPTIONS
+// ===============================
+startSubscriptionSweep(log);
+
+// Server-side Veo jobs poll upstream through this server's own /api/veo routes.
+registerVeoJobRoutes(app, log, { selfUrl: `http://127.0.0.1:${PORT}` });
+
 // ===============================
 // ========== VEO3 ENDPOINTS ==========
 // ===============================
 
 // 🎬 TEXT-TO-VIDEO
 app.post('/api/veo/generate-t2v', async (req, res) => {
-  log('log', req, '\n🎬 ===== [T2V] TEXT-TO-VIDEO REQUEST =====');
+  log('log', req, '🎬 [T2V] Text-to-video request');
   try {
     const authToken = req.headers.authorization?.replace('Bearer ', '');
     if (!authToken) {
@@ -92,10 +140,10 @@ app.post('/api/veo/generate-t2v', async (req, res) => {
       return res.status(401).json({ error: 'No auth token provided' });
     }
 
-    log('log', req, '📤 Forwarding to Veo API...');
-    log('log', req, '📦 Request body:', req.body);
+    log('debug', req, '📤 Forwarding to Veo API...');
+    log('debug', req, '📦 Request body:', req.body);
 
-    const response = await fetch(`${VEO_API_BASE}/video:batchAsyncGenerateVideoText`, {
+    const response = await fetchUpstream('batchAsyncGenerateVideoText', `${VEO_API_BASE}/video:batchAsyncGenerateVideoText`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${authToken}`,
@@ -107,7 +155,7 @@ app.post('/api/veo/generate-t2v', async (req, res) => {
     });
 
     const data = await getJson(response, req);
-    log('log', req, '📨 Response status:', response.status);
+    log('debug', req, '📨 Response status:', response.status);
     
     if (!response.ok) {
       log('error', req, '❌ Veo API Error (T2V):', data);
@@ -115,7 +163,6 @@ app.post('/api/veo/generate-t2v', async (req, res) => {
     }
 
     log('log', req, '✅ [T2V] Success - Operations:', data.operations?.length || 0);
-    log('log', req, '=========================================\n');
     res.json(data);
   } catch (error) {
     log('error', req, '❌ Proxy error (T2V):', error);
@@ -125,7 +172,7 @@ app.post('/api/veo/generate-t2v', async (req, res) => {
 
 // 🖼️ IMAGE-TO-VIDEO
 app.post('/api/veo/generate-i2v', async (req, res) => {
-  log('log', req, '\n🖼️ ===== [I2V] IMAGE-TO-VIDEO REQUEST =====');
+  log('log', req, '🖼️ [I2V] Image-to-video request');
   try {
     const authToken = req.headers.authorization?.replace('Bearer ', '');
     if (!authToken) {
@@ -133,9 +180,9 @@ app.post('/api/veo/generate-i2v', async (req, res) => {
       return res.status(401).json({ error: 'No auth token provided' });
     }
 
-    log('log', req, '📦 Request body:', req.body);
+    log('debug', req, '📦 Request body:', req.body);
     
-    const response = await fetch(`${VEO_API_BASE}/video:batchAsyncGenerateVideoStartImage`, {
+    const response = await fetchUpstream('batchAsyncGenerateVideoStartImage', `${VEO_API_BASE}/video:batchAsyncGenerateVideoStartImage`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${authToken}`,
@@ -147,7 +194,7 @@ app.post('/api/veo/generate-i2v', async (req, res) => {
     });
 
     const data = await getJson(response, req);
-    log('log', req, '📨 Response status:', response.status);
+    log('debug', req, '📨 Response status:', response.status);
     
     if (!response.ok) {
       log('error', req, '❌ Veo API Error (I2V):', data);
@@ -155,7 +202,6 @@ app.post('/api/veo/generate-i2v', async (req, res) => {
     }
 
     log('log', req, '✅ [I2V] Success - Operations:', data.operations?.length || 0);
-    log('log', req, '=========================================\n');
     res.json(data);
   } catch (error) {
     log('error', req, '❌ Proxy error (I2V):', error);
@@ -165,7 +211,7 @@ app.post('/api/veo/generate-i2v', async (req, res) => {
 
 // 🔍 CHECK VIDEO STATUS
 app.post('/api/veo/status', async (req, res) => {
-  log('log', req, '\n🔍 ===== [STATUS] CHECK VIDEO STATUS =====');
+  log('log', req, '🔍 [STATUS] Check video status');
   try {
     const authToken = req.headers.authorization?.replace('Bearer ', '');
     if (!authToken) {
@@ -173,9 +219,9 @@ app.post('/api/veo/status', async (req, res) => {
       return res.status(401).json({ error: 'No auth token provided' });
     }
 
-    log('log', req, '📦 Payload:', req.body);
+    log('debug', req, '📦 Payload:', req.body);
     
-    const response = await fetch(`${VEO_API_BASE}/video:batchCheckAsyncVideoGenerationStatus`, {
+    const response = await fetchUpstream('batchCheckAsyncVideoGenerationStatus', `${VEO_API_BASE}/video:batchCheckAsyncVideoGenerationStatus`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${authToken}`,
@@ -187,7 +233,7 @@ app.post('/api/veo/status', async (req, res) => {
     });
 
     const data = await getJson(response, req);
-    log('log', req, '📨 Response status:', response.status);
+    log('debug', req, '📨 Response status:', response.status);
     
     if (!response.ok) {
       log('error', req, '❌ Veo API Error (Status):', data);
@@ -195,11 +241,10 @@ app.post('/api/veo/status', async (req, res) => {
     }
 
     if (data.operations?.[0]) {
-      log('log', req, '📊 Operation status:', data.operations[0].status, 'Done:', data.operations[0].done);
+      log('log', req, '📊 Operation status:', { status: data.operations[0].status, done: data.operations[0].done ?? false });
     }
 
     log('log', req, '✅ [STATUS] Success');
-    log('log', req, '=========================================\n');
     res.json(data);
   } catch (error) {
     log('error', req, '❌ Proxy error (STATUS):', error);
@@ -209,7 +254,7 @@ app.post('/api/veo/status', async (req, res) => {
 
 // 📤 VEO UPLOAD IMAGE
 app.post('/api/veo/upload', async (req, res) => {
-  log('log', req, '\n📤 ===== [VEO UPLOAD] IMAGE UPLOAD =====');
+  log('log', req, '📤 [VEO UPLOAD] Image upload');
   try {
     const authToken = req.headers.authorization?.replace('Bearer ', '');
     if (!authToken) {
@@ -217,10 +262,10 @@ app.post('/api/veo/upload', async (req, res) => {
       return res.status(401).json({ error: 'No auth token provided' });
     }
 
-    log('log', req, '📤 Mime type:', req.body.imageInput?.mimeType);
-    log('log', req, '📤 Aspect ratio:', req.body.imageInput?.aspectRatio);
+    log('debug', req, '📤 Mime type:', req.body.imageInput?.mimeType);
+    log('debug', req, '📤 Aspect ratio:', req.body.imageInput?.aspectRatio);
 
-    const response = await fetch(`${VEO_API_BASE}:uploadUserImage`, {
+    const response = await fetchUpstream('uploadUserImage', `${VEO_API_BASE}:uploadUserImage`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${authToken}`,
@@ -232,7 +277,7 @@ app.post('/api/veo/upload', async (req, res) => {
     });
 
     const data = await getJson(response, req);
-    log('log', req, '📨 Response status:', response.status);
+    log('debug', req, '📨 Response status:', response.status);
     
     if (!response.ok) {
       log('error', req, '❌ Upload Error:', data);
@@ -241,7 +286,6 @@ app.post('/api/veo/upload', async (req, res) => {
 
     const mediaId = data.mediaGenerationId?.mediaGenerationId || data.mediaId;
     log('log', req, '✅ [VEO UPLOAD] Success - MediaId:', mediaId);
-    log('log', req, '=========================================\n');
     res.json(data);
   } catch (error) {
     log('error', req, '❌ Proxy error (VEO UPLOAD):', error);
@@ -255,7 +299,7 @@ app.post('/api/veo/upload', async (req, res) => {
 
 // 🎨 GENERATE IMAGE (Imagen T2I)
 app.post('/api/imagen/generate', async (req, res) => {
-  log('log', req, '\n🎨 ===== [IMAGEN] GENERATE IMAGE =====');
+  log('log', req, '🎨 [IMAGEN] Generate image');
   try {
     const authToken = req.headers.authorization?.replace('Bearer ', '');
     if (!authToken) {
@@ -263,10 +307,10 @@ app.post('/api/imagen/generate', async (req, res) => {
       return res.status(401).json({ error: 'No auth token provided' });
     }
 
-    log('log', req, '📤 Forwarding to Imagen API...');
-    log('log', req, '📦 Request body:', req.body);
+    log('debug', req, '📤 Forwarding to Imagen API...');
+    log('debug', req, '📦 Request body:', req.body);
 
-    const response = await fetch(`${VEO_API_BASE}/whisk:generateImage`, {
+    const response = await fetchUpstream('generateImage', `${VEO_API_BASE}/whisk:generateImage`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${authToken}`,
@@ -278,7 +322,7 @@ app.post('/api/imagen/generate', async (req, res) => {
     });
 
     const data = await getJson(response, req);
-    log('log', req, '📨 Response status:', response.status);
+    log('debug', req, '📨 Response status:', response.status);
     
     if (!response.ok) {
       log('error', req, '❌ Imagen API Error:', data);
@@ -286,7 +330,6 @@ app.post('/api/imagen/generate', async (req, res) => {
     }
 
     log('log', req, '✅ [IMAGEN] Success - Generated:', data.imagePanels?.length || 0, 'panels');
-    log('log', req, '=========================================\n');
     res.json(data);
   } catch (error) {
     log('error', req, '❌ Proxy error (IMAGEN GENERATE):', error);
@@ -296,7 +339,7 @@ app.post('/api/imagen/generate', async (req, res) => {
 
 // ✏️ RUN RECIPE (Imagen Edit/Compose)
 app.post('/api/imagen/run-recipe', async (req, res) => {
-  log('log', req, '\n✏️ ===== [IMAGEN RECIPE] RUN RECIPE =====');
+  log('log', req, '✏️ [IMAGEN RECIPE] Run recipe');
   try {
     const authToken = req.headers.authorization?.replace('Bearer ', '');
     if (!authToken) {
@@ -304,10 +347,10 @@ app.post('/api/imagen/run-recipe', async (req, res) => {
       return res.status(401).json({ error: 'No auth token provided' });
     }
 
-    log('log', req, '📤 Forwarding recipe to Imagen API...');
-    log('log', req, '📦 Full body:', req.body);
+    log('debug', req, '📤 Forwarding recipe to Imagen API...');
+    log('debug', req, '📦 Full body:', req.body);
 
-    const response = await fetch(`${VEO_API_BASE}/whisk:runImageRecipe`, {
+    const response = await fetchUpstream('runImageRecipe', `${VEO_API_BASE}/whisk:runImageRecipe`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${authToken}`,
@@ -319,7 +362,7 @@ app.post('/api/imagen/run-recipe', async (req, res) => {
     });
 
     const data = await getJson(response, req);
-    log('log', req, '📨 Response status:', response.status);
+    log('debug', req, '📨 Response status:', response.status);
     
     if (!response.ok) {
       log('error', req, '❌ Imagen Recipe Error:', data);
@@ -329,9 +372,7 @@ app.post('/api/imagen/run-recipe', async (req, res) => {
     const panelCount = data.imagePanels?.length || 0;
     const imageCount = data.imagePanels?.[0]?.generatedImages?.length || 0;
     
-    log('log', req, '✅ [IMAGEN RECIPE] Success');
-    log('log', req, `   Generated ${panelCount} panel(s) with ${imageCount} image(s)`);
-    log('log', req, '=========================================\n');
+    log('log', req, `✅ [IMAGEN RECIPE] Success - Generated ${panelCount} panel(s) with ${imageCount} image(s)`);
     
     res.json(data);
   } catch (error) {
@@ -342,7 +383,7 @@ app.post('/api/imagen/run-recipe', async (req, res) => {
 
 // 📤 IMAGEN UPLOAD IMAGE
 app.post('/api/imagen/upload', async (req, res) => {
-  log('log', req, '\n📤 ===== [IMAGEN UPLOAD] IMAGE UPLOAD =====');
+  log('log', req, '📤 [IMAGEN UPLOAD] Image upload');
   try {
     const authToken = req.headers.authorization?.replace('Bearer ', '');
     if (!authToken) {
@@ -352,11 +393,11 @@ app.post('/api/imagen/upload', async (req, res) => {
 
     const uploadMediaInput = req.body.uploadMediaInput;
     if (uploadMediaInput) {
-      log('log', req, '📤 Media category:', uploadMediaInput.mediaCategory);
+      log('debug', req, '📤 Media category:', uploadMediaInput.mediaCategory);
     }
-    log('log', req, '📦 Full request body keys:', Object.keys(req.body));
+    log('debug', req, '📦 Full request body keys:', Object.keys(req.body));
 
-    const response = await fetch(`${VEO_API_BASE}:uploadUserImage`, {
+    const response = await fetchUpstream('uploadUserImage', `${VEO_API_BASE}:uploadUserImage`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${authToken}`,
@@ -368,7 +409,7 @@ app.post('/api/imagen/upload', async (req, res) => {
     });
 
     const data = await getJson(response, req);
-    log('log', req, '📨 Response status:', response.status);
+    log('debug', req, '📨 Response status:', response.status);
     
     if (!response.ok) {
       log('error', req, '❌ Imagen Upload Error:', data);
@@ -380,7 +421,6 @@ app.post('/api/imagen/upload', async (req, res) => {
                    data.mediaId;
     
     log('log', req, '✅ [IMAGEN UPLOAD] Success - MediaId:', mediaId);
-    log('log', req, '=========================================\n');
     res.json(data);
   } catch (error) {
     log('error', req, '❌ Proxy error (IMAGEN UPLOAD):', error);
@@ -391,8 +431,9 @@ app.post('/api/imagen/upload', async (req, res) => {
 // ===============================
 // 📥 DOWNLOAD VIDEO (CORS BYPASS)
 // ===============================
+// Served from the on-disk cache (see videoCache.js), with Range support for seeking.
 app.get('/api/veo/download-video', async (req, res) => {
-  log('log', req, '\n📥 ===== [DOWNLOAD] VIDEO DOWNLOAD =====');
+  log('log', req, '📥 [DOWNLOAD] Video download');
   try {
     const videoUrl = req.query.url;
     
@@ -401,45 +442,41 @@ app.get('/api/veo/download-video', async (req, res) => {
       return res.status(400).json({ error: 'Video URL is required' });
     }
 
-    log('log', req, '📥 Video URL:', videoUrl);
-    log('log', req, '📥 Fetching and streaming from Google Storage...');
-
-    const response = await fetch(videoUrl);
-    
-    if (!response.ok) {
-      log('error', req, '❌ Failed to fetch video:', response.status, response.statusText);
-      const errorBody = await response.text();
-      return res.status(response.status).json({ error: `Failed to download: ${response.statusText}`, details: errorBody });
-    }
-
-    const contentType = response.headers.get('content-type') || 'video/mp4';
-    const contentLength = response.headers.get('content-length');
-    const filename = `monoklix-video-${Date.now()}.mp4`;
-
-    log('log', req, '📦 Video headers received:', { contentType, contentLength });
-
-    res.setHeader('Content-Type', contentType);
-    if (contentLength) {
-      res.setHeader('Content-Length', contentLength);
+    const check = checkVideoUrl(videoUrl);
+    if (!check.allowed) {
+      log('warn', req, `🚫 [DOWNLOAD] Rejected: ${check.reason}`);
+      return res.status(403).json({ error: check.reason });
     }
-    res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
-    res.setHeader('Accept-Ranges', 'bytes');
 
-    response.body.pipe(res);
+    log('log', req, '📥 Video URL:', videoUrl);
 
-    response.body.on('end', () => {
-      log('log', req, '✅ [DOWNLOAD] Video stream finished to client.');
-      log('log', req, '=========================================\n');
-    });
+    const { entry, cacheHit } = await getCachedVideo(log, req, videoUrl);
+    log('log', req, `📦 [DOWNLOAD] Cache ${cacheHit ? 'hit' : 'miss'}`, { size: entry.size, range: req.headers.range || null });
 
-    response.body.on('error', (err) => {
-      log('error', req, '❌ [DOWNLOAD] Error during video stream pipe:', err);
-      if (!res.headersSent) {
+    res.setHeader('X-Cache', cacheHit ? 'HIT' : 'MISS');
+    res.sendFile(entry.path, {
+      headers: {
+        'Content-Type': entry.contentType,
+        'Content-Disposition': `inline; filename="monoklix-video-${Date.now()}.mp4"`,
+        'Cache-Control': 'private, max-age=86400',
+      },
+    }, (err) => {
+      if (!err) {
+        log('log', req, '✅ [DOWNLOAD] Video sent to client.');
+      } else if (err.status === 416) {
+        // Range outside the file: send() has already set Content-Range to the real size.
+        log('warn', req, '⚠️ [DOWNLOAD] Range not satisfiable:', req.headers.range);
+        res.status(416).end();
+      } else if (!res.headersSent) {
+        log('error', req, '❌ [DOWNLOAD] Error sending cached video:', err);
         res.status(500).json({ error: 'Error streaming video' });
       }
     });
-
   } catch (error) {
+    if (error.status) {
+      log('error', req, `❌ Failed to fetch video: ${error.message}`);
+      return res.status(error.status).json({ error: error.message, details: error.details });
+    }
     log('error', req, '❌ Proxy error (DOWNLOAD):', error);
     if (!res.headersSent) {
       res.status(500).json({ error: error.message });
@@ -451,26 +488,48 @@ app.get('/api/veo/download-video', async (req, res) => {
 // 🚀 SERVER START
 // ===============================
 app.listen(PORT, '0.0.0.0', () => {
-  const logSystem = (...args) => log('log', null, ...args);
-
-  logSystem('\n🚀 ===================================');
-  logSystem('🚀 Veo3 & Imagen Proxy Server STARTED');
-  logSystem('🚀 ===================================');
-  logSystem(`📍 Port: ${PORT}`);
-  logSystem(`📍 Local: http://localhost:${PORT}`);
-  logSystem(`📍 Health: http://localhost:${PORT}/health`);
-  logSystem('✅ CORS: Allow all origins');
-  logSystem('🔧 Debug logging: ENABLED');
-  logSystem('===================================\n');
-  logSystem('📋 VEO3 Endpoints:');
-  logSystem('   POST /api/veo/generate-t2v');
-  logSystem('   POST /api/veo/generate-i2v');
-  logSystem('   POST /api/veo/status');
-  logSystem('   POST /api/veo/upload');
-  logSystem('   GET  /api/veo/download-video');
-  logSystem('📋 IMAGEN Endpoints:');
-  logSystem('   POST /api/imagen/generate');
-  logSystem('   POST /api/imagen/run-recipe');
-  logSystem('   POST /api/imagen/upload');
-  logSystem('===================================\n');
+  log('log', null, '🚀 Veo3 & Imagen Proxy Server STARTED', {
+    port: Number(PORT),
+    mode: PROXY_MODE,
+    logLevel: process.env.LOG_LEVEL || 'info',
+    health: `http://localhost:${PORT}/health`,
+    metrics: `http://localhost:${PORT}/metrics`,
+    endpoints: [
+      'POST /api/veo/generate-t2v',
+      'POST /api/veo/generate-i2v',
+      'POST /api/veo/status',
+      'POST /api/veo/upload',
+      'GET /api/veo/download-video',
+      'POST /api/veo/jobs',
+      'GET /api/veo/jobs/:id',
+      'GET /api/veo/jobs/:id/events',
+      'DELETE /api/veo/jobs/:id',
+      'POST /api/imagen/generate',
+      'POST /api/imagen/run-recipe',
+      'POST /api/imagen/upload',
+      'POST /api/auth/login/start',
+      'POST /api/auth/login/verify',
+      'POST /api/auth/refresh',
+      'POST /api/auth/revoke',
+      'GET /api/vault/status',
+      'POST /api/gemini/generate',
+      'POST /api/gemini/search',
+      'POST /api/gemini/chat',
+      'POST /api/gemini/tts',
+      'GET /api/gemini/status',
+      'POST /api/gemini/health',
+      'POST /api/woocommerce/webhook',
+      'GET /api/woocommerce/events',
+      'POST /api/woocommerce/events/:id/replay',
+      'GET /api/workspaces',
+      'POST /api/workspaces',
+      'GET /api/workspaces/:id/members',
+      'POST /api/workspaces/:id/members',
+      'DELETE /api/workspaces/:id/members/:userId',
+      'GET /api/workspaces/:id/items',
+      'POST /api/workspaces/:id/items',
+      'DELETE /api/workspaces/:id/items/:itemId',
+      'GET /api/credits',
+    ],
+  });
 });
@@ -0,0 +1,133 @@
+import { randomUUID } from 'crypto';
+
+// ===============================
+// 📝 LOGGER
+// ===============================
+// Writes one JSON object per line. Every request gets a correlation ID, which is sent back
+// in the X-Request-Id header and attached to each line logged for that request. Tokens,
+// signed URL parameters and media bytes are redacted before anything is written.
+//
+// Environment:
+//   LOG_LEVEL   debug | info | warn | error (default info)
+
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+const LOG_LEVEL = LEVELS[process.env.LOG_LEVEL] ? process.env.LOG_LEVEL : 'info';
+
+// Accept a caller-supplied ID only if it is short and harmless to echo back.
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const SECRET_KEY_PATTERN = /token|authorization|secret|password|api[-_]?key|cookie/i;
+const MEDIA_KEY_PATTERN = /^(rawImageBytes|encodedImage|imageBytes|bytesBase64Encoded)$/;
+const PROMPT_KEY_PATTERN = /^(prompt|userInstruction)$/;
+const MAX_PROMPT_LENGTH = 120;
+const MAX_DEPTH = 8;
+
+const redactString = (value) => {
+  if (value.startsWith('data:') && value.includes(';base64,')) {
+    return `[data URL, ${value.length} chars]`;
+  }
+  if (value.length > 256 && /^[A-Za-z0-9+/=\r\n]+$/.test(value)) {
+    return `[base64, ${value.length} chars]`;
+  }
+  return value
+    .replace(/Bearer\s+[^\s"',]+/gi, 'Bearer [REDACTED]')
+    .replace(/ya29\.[\w.-]+/g, '[REDACTED]')
+    .replace(/([?&](?:sig|signature|token|access_token|key|X-Goog-Signature|X-Amz-Signature)=)[^&\s"]+/gi, '$1[REDACTED]');
+};
+
+/**
+ * Returns a copy of `value` that is safe to log.
+ */
+export const redact = (value, depth = 0) => {
+  if (typeof value === 'string') return redactString(value);
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message), ...(LOG_LEVEL === 'debug' && { stack: redactString(value.stack || '') }) };
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  const result = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (SECRET_KEY_PATTERN.test(key)) {
+      result[key] = '[REDACTED]';
+    } else if (MEDIA_KEY_PATTERN.test(key) && typeof item === 'string') {
+      result[key] = `[${item.length} chars]`;
+    } else if (PROMPT_KEY_PATTERN.test(key) && typeof item === 'string' && item.length > MAX_PROMPT_LENGTH) {
+      result[key] = `${item.substring(0, MAX_PROMPT_LENGTH)}...[${item.length} chars]`;
+    } else {
+      result[key] = redact(item, depth + 1);
+    }
+  }
+  return result;
+};
+
+/**
+ * Logs a line for `req` (or null for server-level messages). Strings become the message,
+ * anything else is redacted and attached as `data`. 'log' is accepted as an alias of 'info'.
+ */
+export const log = (level, req, ...messages) => {
+  const normalizedLevel = level === 'log' ? 'info' : (LEVELS[level] ? level : 'info');
+  if (LEVELS[normalizedLevel] < LEVELS[LOG_LEVEL]) return;
+
+  const text = messages.filter(msg => typeof msg !== 'object' || msg === null).map(String).join(' ').trim();
+  const objects = messages.filter(msg => typeof msg === 'object' && msg !== null);
+
+  const entry = {
+    time: new Date().toISOString(),
+    level: normalizedLevel,
+    msg: redactString(text),
+    requestId: req?.id ?? null,
+    user: req ? (req.headers['x-user-username'] || 'anonymous') : 'SYSTEM',
+    ...(req && { method: req.method, path: req.path }),
+    ...(objects.length > 0 && { data: redact(objects.length === 1 ? objects[0] : objects) }),
+  };
+
+  let line;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    line = JSON.stringify({ ...entry, data: '[Unserializable Object]' });
+  }
+  if (normalizedLevel === 'error' || normalizedLevel === 'warn') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+};
+
+/**
+ * The Express route pattern that handled `req` (e.g. '/api/veo/jobs/:id'), so IDs in the path
+ * do not create a separate label per request.
+ */
+export const getRouteLabel = (req) => (req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched');
+
+/**
+ * Express middleware: assigns the request ID and logs latency and outcome once the response is done.
+ */
+export const requestContext = (req, res, next) => {
+  const incoming = req.headers['x-request-id'];
+  req.id = typeof incoming === 'string' && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.setHeader('X-Request-Id', req.id);
+
+  const startedAt = process.hrtime.bigint();
+  let logged = false;
+  const logOutcome = (finished) => {
+    if (logged) return;
+    logged = true;
+    const status = res.statusCode;
+    const outcome = !finished ? 'client_closed' : status >= 500 ? 'server_error' : status >= 400 ? 'client_error' : 'success';
+    const level = outcome === 'server_error' ? 'error' : outcome === 'client_error' ? 'warn' : 'info';
+    log(level, req, 'Request completed', {
+      event: 'http_request',
+      route: getRouteLabel(req),
+      status,
+      outcome,
+      durationMs: Math.round(Number(process.hrtime.bigint() - startedAt) / 1e5) / 10,
+    });
+  };
+
+  res.on('finish', () => logOutcome(true));
+  res.on('close', () => logOutcome(res.writableFinished));
+  next();
+};
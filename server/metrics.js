@@ -0,0 +1,198 @@
+import fetch from 'node-fetch';
+import { getRouteLabel } from './logger.js';
+
+// ===============================
+// 📈 METRICS
+// ===============================
+// Prometheus-style counters, gauges and histograms, served as text on GET /metrics.
+// Routes are labelled by their Express pattern (e.g. '/api/veo/jobs/:id') so the number of
+// series stays bounded. Nothing user-specific (tokens, prompts, usernames) is ever a label.
+
+const PREFIX = 'monoklix_proxy';
+const LATENCY_BUCKETS_SECONDS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+// Routes that start a generation upstream, counted in the in-flight gauge while they run.
+export const GENERATION_ROUTES = {
+  '/api/veo/generate-t2v': 't2v',
+  '/api/veo/generate-i2v': 'i2v',
+  '/api/imagen/generate': 'imagen',
+  '/api/imagen/run-recipe': 'imagen_recipe',
+};
+
+const startTimeSeconds = Math.floor(Date.now() / 1000);
+
+// ===============================
+// 🧮 REGISTRY
+// ===============================
+
+const metrics = [];
+// Gauges whose values are read at scrape time: { name, help, collect: () => [[labels, value]] }
+const collectors = [];
+
+const labelKey = (labels) => JSON.stringify(labels);
+
+const escapeLabelValue = (value) => String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels) => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+const createMetric = (type, name, help) => {
+  const metric = { type, name: `${PREFIX}_${name}`, help, series: new Map() };
+  metrics.push(metric);
+  return metric;
+};
+
+const getSeries = (metric, labels, init) => {
+  const key = labelKey(labels);
+  if (!metric.series.has(key)) {
+    metric.series.set(key, { labels, ...init() });
+  }
+  return metric.series.get(key);
+};
+
+const incrementCounter = (metric, labels, amount = 1) => {
+  getSeries(metric, labels, () => ({ value: 0 })).value += amount;
+};
+
+const addToGauge = (metric, labels, amount) => {
+  getSeries(metric, labels, () => ({ value: 0 })).value += amount;
+};
+
+const observeHistogram = (metric, labels, value) => {
+  const series = getSeries(metric, labels, () => ({ buckets: LATENCY_BUCKETS_SECONDS.map(() => 0), sum: 0, count: 0 }));
+  LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+    if (value <= bound) series.buckets[index] += 1;
+  });
+  series.sum += value;
+  series.count += 1;
+};
+
+const httpRequests = createMetric('counter', 'http_requests_total', 'HTTP requests handled, by route, method and status code.');
+const httpDuration = createMetric('histogram', 'http_request_duration_seconds', 'Time taken to respond to HTTP requests, by route.');
+const responseBytes = createMetric('counter', 'http_response_bytes_total', 'Response body bytes sent, by route (includes streamed video downloads).');
+const upstreamResponses = createMetric('counter', 'upstream_responses_total', 'Responses from the upstream Google APIs, by endpoint and status code.');
+const upstreamDuration = createMetric('histogram', 'upstream_request_duration_seconds', 'Time taken by upstream Google API calls, by endpoint.');
+const rateLimited = createMetric('counter', 'rate_limited_total', 'Generation requests rejected with 429, by scope (user or token) and limit.');
+const inFlightGenerations = createMetric('gauge', 'in_flight_generations', 'Generation requests currently waiting on upstream, by type.');
+Object.values(GENERATION_ROUTES).forEach(type => addToGauge(inFlightGenerations, { type }, 0));
+
+/**
+ * Registers a gauge computed on every scrape. `collect` returns [labels, value] pairs.
+ */
+export const registerGaugeCollector = (name, help, collect) => {
+  collectors.push({ name: `${PREFIX}_${name}`, help, collect });
+};
+
+const renderMetric = (metric) => {
+  const lines = [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`];
+  for (const series of metric.series.values()) {
+    if (metric.type !== 'histogram') {
+      lines.push(`${metric.name}${formatLabels(series.labels)} ${series.value}`);
+      continue;
+    }
+    LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+      lines.push(`${metric.name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.buckets[index]}`);
+    });
+    lines.push(`${metric.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+    lines.push(`${metric.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+    lines.push(`${metric.name}_count${formatLabels(series.labels)} ${series.count}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Renders every metric in the Prometheus text exposition format (version 0.0.4).
+ */
+export const renderMetrics = () => {
+  const sections = metrics.map(renderMetric);
+  for (const collector of collectors) {
+    const lines = [`# HELP ${collector.name} ${collector.help}`, `# TYPE ${collector.name} gauge`];
+    for (const [labels, value] of collector.collect()) {
+      lines.push(`${collector.name}${formatLabels(labels)} ${value}`);
+    }
+    sections.push(lines.join('\n'));
+  }
+  sections.push([
+    `# HELP ${PREFIX}_start_time_seconds Unix time the proxy process started.`,
+    `# TYPE ${PREFIX}_start_time_seconds gauge`,
+    `${PREFIX}_start_time_seconds ${startTimeSeconds}`,
+  ].join('\n'));
+  return `${sections.join('\n\n')}\n`;
+};
+
+// ===============================
+// 🧩 INSTRUMENTATION
+// ===============================
+
+/**
+ * Express middleware: records count, latency and body size of every response, and tracks
+ * generation requests in flight.
+ */
+export const metricsMiddleware = (req, res, next) => {
+  const startedAt = process.hrtime.bigint();
+  const generationType = req.method === 'POST' ? GENERATION_ROUTES[req.path] : undefined;
+  if (generationType) addToGauge(inFlightGenerations, { type: generationType }, 1);
+
+  let bytes = 0;
+  const countChunk = (chunk, encoding) => {
+    if (!chunk || typeof chunk === 'function') return;
+    bytes += Buffer.isBuffer(chunk) ? chunk.length : Buffer.byteLength(chunk, typeof encoding === 'string' ? encoding : 'utf8');
+  };
+  const originalWrite = res.write;
+  const originalEnd = res.end;
+  res.write = function (chunk, encoding, ...rest) {
+    countChunk(chunk, encoding);
+    return originalWrite.call(this, chunk, encoding, ...rest);
+  };
+  res.end = function (chunk, encoding, ...rest) {
+    countChunk(chunk, encoding);
+    return originalEnd.call(this, chunk, encoding, ...rest);
+  };
+
+  let recorded = false;
+  const record = (finished) => {
+    if (recorded) return;
+    recorded = true;
+    if (generationType) addToGauge(inFlightGenerations, { type: generationType }, -1);
+
+    const route = getRouteLabel(req);
+    const status = finished ? String(res.statusCode) : 'client_closed';
+    incrementCounter(httpRequests, { route, method: req.method, status });
+    observeHistogram(httpDuration, { route }, Number(process.hrtime.bigint() - startedAt) / 1e9);
+    incrementCounter(responseBytes, { route }, bytes);
+  };
+
+  res.on('finish', () => record(true));
+  res.on('close', () => record(res.writableFinished));
+  next();
+};
+
+/**
+ * Counts a generation request rejected by the rate limiter.
+ */
+export const recordRateLimited = (scope, limit) => {
+  incrementCounter(rateLimited, { scope, limit });
+};
+
+/**
+ * `fetch` for upstream Google API calls that records the status code and latency under
+ * `endpoint`. Network failures are counted with status 'network_error' and rethrown.
+ */
+export const fetchUpstream = async (endpoint, url, options) => {
+  const startedAt = process.hrtime.bigint();
+  const observe = (status) => {
+    incrementCounter(upstreamResponses, { endpoint, status });
+    observeHistogram(upstreamDuration, { endpoint }, Number(process.hrtime.bigint() - startedAt) / 1e9);
+  };
+  try {
+    const response = await fetch(url, options);
+    observe(String(response.status));
+    return response;
+  } catch (error) {
+    observe('network_error');
+    throw error;
+  }
+};
@@ -0,0 +1,269 @@
+import { randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+
+// ===============================
+// 🧪 MOCK UPSTREAM
+// ===============================
+// Offline stand-in for the Veo and Imagen endpoints, enabled with PROXY_MODE=mock. Gemini
+// replies for geminiProxy.js come from mockGeminiResponse.
+// Responses follow the shapes returned by aisandbox-pa.googleapis.com so the frontend
+// (apiClient failover, polling, gallery) can be exercised without live tokens.
+//
+// Environment:
+//   MOCK_LATENCY_MS          Base latency added to every response (default 800)
+//   MOCK_LATENCY_JITTER_MS   Extra random latency, 0..N ms (default 400)
+//   MOCK_VIDEO_DURATION_MS   Time until a video operation completes (default 20000)
+//   MOCK_FAILURE             Failure to inject: safety | 401 | 500 | stuck (default none)
+//   MOCK_FAILURE_RATE        Probability (0-1) that MOCK_FAILURE is applied (default 1)
+//   MOCK_VIDEO_FILE          Path to an .mp4 served by download-video (default: tiny placeholder)
+//
+// A single request can also ask for a failure, which is useful for testing failover
+// between tokens: send an `x-mock-failure` header, or use a token containing
+// `mock-fail-<mode>` (e.g. `mock-fail-401`).
+
+const FAILURE_MODES = ['safety', '401', '500', 'stuck'];
+
+const config = {
+  latencyMs: Number(process.env.MOCK_LATENCY_MS ?? 800),
+  latencyJitterMs: Number(process.env.MOCK_LATENCY_JITTER_MS ?? 400),
+  videoDurationMs: Number(process.env.MOCK_VIDEO_DURATION_MS ?? 20000),
+  failure: FAILURE_MODES.includes(process.env.MOCK_FAILURE) ? process.env.MOCK_FAILURE : null,
+  failureRate: Number(process.env.MOCK_FAILURE_RATE ?? 1),
+  videoFile: process.env.MOCK_VIDEO_FILE || null,
+};
+
+// 1x1 transparent PNG, returned as the "generated" image.
+const PLACEHOLDER_PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+// Operation name -> { createdAt, stuck, sceneId }
+const operations = new Map();
+// How long an operation can still be polled once it would have completed. Older ones,
+// stuck ones included, are forgotten and then report as unknown.
+const OPERATION_RETENTION_MS = 60 * 60 * 1000;
+
+const ERROR_RESPONSES = {
+  safety: {
+    status: 400,
+    body: { error: { code: 400, message: 'Request contains an invalid argument. The prompt was blocked by safety filters.', status: 'INVALID_ARGUMENT' } },
+  },
+  '401': {
+    status: 401,
+    body: { error: { code: 401, message: 'Request had invalid authentication credentials. Expected OAuth 2 access token.', status: 'UNAUTHENTICATED' } },
+  },
+  '500': {
+    status: 500,
+    body: { error: { code: 500, message: 'Internal error encountered.', status: 'INTERNAL' } },
+  },
+};
+
+const delay = () => {
+  const ms = config.latencyMs + Math.random() * config.latencyJitterMs;
+  return new Promise(resolve => setTimeout(resolve, ms));
+};
+
+// Picks the failure for this request: per-request overrides first, then the global setting.
+const getFailure = (req) => {
+  const header = req.headers['x-mock-failure'];
+  if (FAILURE_MODES.includes(header)) return header;
+
+  const authToken = req.headers.authorization?.replace('Bearer ', '') || '';
+  const tokenMatch = authToken.match(/mock-fail-(safety|401|500|stuck)/);
+  if (tokenMatch) return tokenMatch[1];
+
+  if (config.failure && Math.random() < config.failureRate) return config.failure;
+  return null;
+};
+
+// Sends the injected error if there is one. 'stuck' only affects operations, so it is ignored here.
+const sendInjectedError = (req, res, log, failure) => {
+  const errorResponse = ERROR_RESPONSES[failure];
+  if (!errorResponse) return false;
+  log('error', req, `🧪 [MOCK] Injecting ${failure} failure`);
+  res.status(errorResponse.status).json(errorResponse.body);
+  return true;
+};
+
+const requireAuth = (req, res, log) => {
+  const authToken = req.headers.authorization?.replace('Bearer ', '');
+  if (!authToken) {
+    log('error', req, '❌ No auth token provided');
+    res.status(401).json({ error: 'No auth token provided' });
+    return false;
+  }
+  return true;
+};
+
+const pruneOperations = () => {
+  const cutoff = Date.now() - config.videoDurationMs - OPERATION_RETENTION_MS;
+  for (const [name, state] of operations) {
+    if (state.createdAt < cutoff) operations.delete(name);
+  }
+};
+
+const createOperations = (req, failure) => {
+  pruneOperations();
+  const requests = Array.isArray(req.body?.requests) && req.body.requests.length > 0 ? req.body.requests : [{}];
+  return requests.map(request => {
+    const name = `mock-operation-${randomUUID()}`;
+    const sceneId = request.metadata?.sceneId || randomUUID();
+    operations.set(name, { createdAt: Date.now(), stuck: failure === 'stuck', sceneId });
+    return {
+      operation: { name },
+      sceneId,
+      status: 'MEDIA_GENERATION_STATUS_PENDING',
+    };
+  });
+};
+
+const getOperationStatus = (req, operation) => {
+  const name = operation?.operation?.name;
+  const state = operations.get(name);
+  if (!state) {
+    return { ...operation, status: 'MEDIA_GENERATION_STATUS_FAILED', error: { code: 404, message: `Unknown operation: ${name}` } };
+  }
+
+  const elapsed = Date.now() - state.createdAt;
+  if (state.stuck || elapsed < config.videoDurationMs) {
+    const progress = state.stuck ? 50 : Math.floor((elapsed / config.videoDurationMs) * 100);
+    return {
+      operation: { name, metadata: { progressPercent: progress } },
+      sceneId: state.sceneId,
+      status: 'MEDIA_GENERATION_STATUS_ACTIVE',
+    };
+  }
+
+  const baseUrl = `${req.protocol}://${req.get('host')}`;
+  return {
+    operation: {
+      name,
+      metadata: {
+        video: {
+          fifeUrl: `${baseUrl}/mock-media/${name}.mp4`,
+          servingBaseUri: `data:image/png;base64,${PLACEHOLDER_PNG_BASE64}`,
+        },
+      },
+    },
+    sceneId: state.sceneId,
+    status: 'MEDIA_GENERATION_STATUS_SUCCESSFUL',
+    done: true,
+  };
+};
+
+const getVideoBuffer = (req, log) => {
+  if (config.videoFile) {
+    try {
+      return readFileSync(config.videoFile);
+    } catch (error) {
+      log('error', req, `❌ [MOCK] Could not read MOCK_VIDEO_FILE (${config.videoFile}):`, error.message);
+    }
+  }
+  // Not a playable video, but enough for the download and gallery flows.
+  return Buffer.from('MONOKLIX MOCK VIDEO');
+};
+
+const imagePanelsResponse = (count = 1) => ({
+  imagePanels: [{
+    prompt: 'mock',
+    generatedImages: Array.from({ length: count }, () => ({
+      encodedImage: PLACEHOLDER_PNG_BASE64,
+      seed: Math.floor(Math.random() * 2147483647),
+      mediaGenerationId: `mock-image-${randomUUID()}`,
+    })),
+  }],
+});
+
+// Text of the last user turn in a Gemini request, echoed back by the mock.
+const getGeminiPromptText = (body) => {
+  const parts = body?.contents?.[body.contents.length - 1]?.parts || [];
+  return parts.map(part => part.text || '').join(' ').trim();
+};
+
+/**
+ * Canned Gemini REST response used by geminiProxy.js in mock mode: `{ status, body }`. With
+ * `audio`, the reply is half a second of silent 24kHz PCM, like the TTS model returns.
+ */
+export const mockGeminiResponse = async (req, { audio = false } = {}) => {
+  await delay();
+  const errorResponse = ERROR_RESPONSES[getFailure(req)];
+  if (errorResponse) return errorResponse;
+
+  const part = audio
+    ? { inlineData: { mimeType: 'audio/L16;codec=pcm;rate=24000', data: Buffer.alloc(24000).toString('base64') } }
+    : { text: `Mock reply to: ${getGeminiPromptText(req.body).substring(0, 200)}` };
+  return {
+    status: 200,
+    body: {
+      candidates: [{ content: { role: 'model', parts: [part] }, finishReason: 'STOP', index: 0 }],
+      usageMetadata: { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 },
+    },
+  };
+};
+
+/**
+ * Registers the mock endpoints. Must be called before the real routes so these take precedence.
+ */
+export const registerMockRoutes = (app, log) => {
+  const handle = (label, handler) => async (req, res) => {
+    log('log', req, `🧪 [MOCK ${label}] Request`);
+    if (!requireAuth(req, res, log)) return;
+    await delay();
+    const failure = getFailure(req);
+    if (sendInjectedError(req, res, log, failure)) return;
+    handler(req, res, failure);
+  };
+
+  const generateVideo = (req, res, failure) => {
+    const ops = createOperations(req, failure);
+    log('log', req, `✅ [MOCK] Created ${ops.length} operation(s)${failure === 'stuck' ? ' that will never complete' : ''}`);
+    res.json({ operations: ops, remainingCredits: 100 });
+  };
+
+  app.post('/api/veo/generate-t2v', handle('T2V', generateVideo));
+  app.post('/api/veo/generate-i2v', handle('I2V', generateVideo));
+
+  app.post('/api/veo/status', handle('STATUS', (req, res) => {
+    const ops = (req.body?.operations || []).map(op => getOperationStatus(req, op));
+    log('log', req, '📊 [MOCK] Operation status:', ops[0]?.status);
+    res.json({ operations: ops });
+  }));
+
+  app.post('/api/veo/upload', handle('VEO UPLOAD', (req, res) => {
+    res.json({ mediaGenerationId: { mediaGenerationId: `mock-media-${randomUUID()}` } });
+  }));
+
+  app.post('/api/imagen/generate', handle('IMAGEN', (req, res) => {
+    res.json(imagePanelsResponse(req.body?.imageModelSettings?.sampleCount || 1));
+  }));
+
+  app.post('/api/imagen/run-recipe', handle('IMAGEN RECIPE', (req, res) => {
+    res.json(imagePanelsResponse(1));
+  }));
+
+  app.post('/api/imagen/upload', handle('IMAGEN UPLOAD', (req, res) => {
+    res.json({ result: { data: { json: { result: { uploadMediaGenerationId: `mock-media-${randomUUID()}` } } } } });
+  }));
+
+  const sendVideo = async (req, res) => {
+    await delay();
+    const buffer = getVideoBuffer(req, log);
+    res.setHeader('Content-Type', 'video/mp4');
+    res.setHeader('Content-Length', buffer.length);
+    res.setHeader('Content-Disposition', `inline; filename="monoklix-video-${Date.now()}.mp4"`);
+    res.send(buffer);
+  };
+
+  // The real download route fetches the URL it is given; in mock mode every video is served locally.
+  app.get('/api/veo/download-video', async (req, res) => {
+    log('log', req, '🧪 [MOCK DOWNLOAD] Request');
+    if (!req.query.url || typeof req.query.url !== 'string') {
+      return res.status(400).json({ error: 'Video URL is required' });
+    }
+    await sendVideo(req, res);
+  });
+
+  app.get('/mock-media/:file', sendVideo);
+
+  log('log', null, '🧪 MOCK MODE: Veo & Imagen endpoints are emulated locally.');
+  log('log', null, `🧪   Latency: ${config.latencyMs}ms (+0-${config.latencyJitterMs}ms), video duration: ${config.videoDurationMs}ms`);
+  log('log', null, `🧪   Injected failure: ${config.failure ? `${config.failure} (rate ${config.failureRate})` : 'none'}`);
+};
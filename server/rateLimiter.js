@@ -0,0 +1,142 @@
+import { createHash } from 'crypto';
+import { GENERATION_ROUTES, recordRateLimited } from './metrics.js';
+
+// ===============================
+// 🚦 RATE LIMITER
+// ===============================
+// Caps generations per user (x-user-username, or the client IP when there is none) and per
+// auth token: how many may run at once, and how many may start in any 60 second window.
+// Rejected requests get a 429 with Retry-After, in the same error shape as the upstream API.
+//
+// A generation holds its concurrency slot until the HTTP request finishes. Server-side Veo
+// jobs hold one until the job itself finishes (see veoJobs.js).
+//
+// Limits are kept in memory and apply to this server only.
+//
+// Environment (0 disables a limit):
+//   RATE_LIMIT_USER_CONCURRENCY    Generations running at once per user (default 4)
+//   RATE_LIMIT_USER_PER_MINUTE     Generations started per minute per user (default 10)
+//   RATE_LIMIT_TOKEN_CONCURRENCY   Generations running at once per token (default 4)
+//   RATE_LIMIT_TOKEN_PER_MINUTE    Generations started per minute per token (default 10)
+//   RATE_LIMIT_BUSY_RETRY_AFTER_S  Retry-After sent when a concurrency cap is hit (default 10)
+
+const WINDOW_MS = 60 * 1000;
+const ANONYMOUS_USERNAMES = ['', 'unknown', 'anonymous'];
+
+const readLimit = (name, fallback) => {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+};
+
+const config = {
+  user: { concurrency: readLimit('RATE_LIMIT_USER_CONCURRENCY', 4), perMinute: readLimit('RATE_LIMIT_USER_PER_MINUTE', 10) },
+  token: { concurrency: readLimit('RATE_LIMIT_TOKEN_CONCURRENCY', 4), perMinute: readLimit('RATE_LIMIT_TOKEN_PER_MINUTE', 10) },
+  busyRetryAfterSeconds: readLimit('RATE_LIMIT_BUSY_RETRY_AFTER_S', 10) || 10,
+};
+
+// Key ('user:<name>' or 'token:<hash>') -> generations currently holding a slot
+const active = new Map();
+// Key -> start times within the last minute
+const recentStarts = new Map();
+
+const hashToken = (token) => createHash('sha256').update(token).digest('hex').substring(0, 16);
+
+/**
+ * The keys a generation is counted against. Tokens are hashed so they are never kept in memory
+ * as map keys.
+ */
+export const getRateLimitIdentity = ({ username, token, ip }) => ({
+  user: ANONYMOUS_USERNAMES.includes(username || '') ? `ip:${ip || 'unknown'}` : `user:${username}`,
+  token: token ? `token:${hashToken(token)}` : null,
+});
+
+const pruneStarts = (key, now) => {
+  const starts = (recentStarts.get(key) || []).filter(time => now - time < WINDOW_MS);
+  if (starts.length > 0) {
+    recentStarts.set(key, starts);
+  } else {
+    recentStarts.delete(key);
+  }
+  return starts;
+};
+
+// Returns the first limit `key` would exceed, or null.
+const checkKey = (scope, key, now) => {
+  const limits = config[scope];
+  if (limits.concurrency && (active.get(key) || 0) >= limits.concurrency) {
+    return { scope, limit: 'concurrency', retryAfterSeconds: config.busyRetryAfterSeconds };
+  }
+  const starts = pruneStarts(key, now);
+  if (limits.perMinute && starts.length >= limits.perMinute) {
+    const oldestInWindow = starts[starts.length - limits.perMinute];
+    return { scope, limit: 'per_minute', retryAfterSeconds: Math.max(1, Math.ceil((oldestInWindow + WINDOW_MS - now) / 1000)) };
+  }
+  return null;
+};
+
+/**
+ * Holds a concurrency slot for `identity` and, unless `countStart` is false, counts a start
+ * against the per-minute limits. Returns a function that releases the slot (safe to call twice).
+ */
+export const acquireGenerationSlot = (identity, { countStart = true } = {}) => {
+  const now = Date.now();
+  const keys = [identity.user, identity.token].filter(Boolean);
+  keys.forEach(key => {
+    active.set(key, (active.get(key) || 0) + 1);
+    if (countStart) recentStarts.set(key, [...pruneStarts(key, now), now]);
+  });
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    keys.forEach(key => {
+      const count = (active.get(key) || 0) - 1;
+      if (count > 0) {
+        active.set(key, count);
+      } else {
+        active.delete(key);
+      }
+    });
+  };
+};
+
+/**
+ * Express middleware factory: rejects generation requests over a user or token limit with 429.
+ * Other routes pass straight through.
+ */
+export const createGenerationRateLimiter = (log) => (req, res, next) => {
+  if (req.method !== 'POST' || !GENERATION_ROUTES[req.path]) return next();
+
+  const identity = getRateLimitIdentity({
+    username: req.headers['x-user-username'],
+    token: req.headers.authorization?.replace('Bearer ', ''),
+    ip: req.ip,
+  });
+  const now = Date.now();
+  const exceeded = checkKey('user', identity.user, now) || (identity.token && checkKey('token', identity.token, now));
+
+  if (exceeded) {
+    recordRateLimited(exceeded.scope, exceeded.limit);
+    log('warn', req, `🚦 [RATE LIMIT] ${exceeded.scope} ${exceeded.limit} limit reached`, exceeded);
+    const subject = exceeded.scope === 'user' ? 'your account' : 'this token';
+    const reason = exceeded.limit === 'concurrency' ? 'Too many generations are running' : 'Too many generations were started in the last minute';
+    res.locals.rateLimited = exceeded;
+    res.setHeader('Retry-After', String(exceeded.retryAfterSeconds));
+    return res.status(429).json({
+      error: {
+        code: 429,
+        message: `${reason} for ${subject}. Try again in ${exceeded.retryAfterSeconds} seconds.`,
+        status: 'RESOURCE_EXHAUSTED',
+        scope: exceeded.scope,
+        limit: exceeded.limit,
+        retryAfterSeconds: exceeded.retryAfterSeconds,
+      },
+    });
+  }
+
+  const release = acquireGenerationSlot(identity);
+  res.on('finish', release);
+  res.on('close', release);
+  next();
+};
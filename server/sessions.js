@@ -0,0 +1,145 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { isSupabaseConfigured, supabaseRest } from './supabaseRest.js';
+
+// ===============================
+// 🎫 SESSIONS
+// ===============================
+// Signed session tokens issued at login (see auth.js). A token is
+// `<base64url payload>.<base64url HMAC>`, so any server sharing SESSION_SECRET can verify it
+// without a lookup.
+//
+// A login gets a short-lived access token, sent as X-Monoklix-Session, and a longer-lived
+// refresh token that is exchanged for a new pair before the access token expires. Both carry
+// the login time, so every session a user started before a forced logout can be refused.
+// A revocation takes effect at once on the server that handles it; the others pick it up
+// from users.force_logout_at.
+//
+// Environment:
+//   SESSION_SECRET              HMAC key; must be the same on every proxy server. Without it a
+//                               random key is used, and sessions stop working on restart.
+//   SESSION_TTL_MS              Access token lifetime (default 900000, 15 minutes)
+//   SESSION_REFRESH_TTL_MS      Refresh token lifetime (default 604800000, 7 days)
+//   SESSION_REVOCATION_SYNC_MS  How often forced logouts are read from Supabase (default 30000)
+
+export const SESSION_HEADER = 'x-monoklix-session';
+// Statuses allowed to generate, matching UserStatus in types.ts.
+const ACTIVE_USER_STATUSES = ['admin', 'lifetime', 'subscription', 'trial'];
+
+const config = {
+  secret: process.env.SESSION_SECRET || randomBytes(32).toString('hex'),
+  ttlMs: Number(process.env.SESSION_TTL_MS ?? 15 * 60 * 1000),
+  refreshTtlMs: Number(process.env.SESSION_REFRESH_TTL_MS ?? 7 * 24 * 60 * 60 * 1000),
+  revocationSyncMs: Number(process.env.SESSION_REVOCATION_SYNC_MS ?? 30 * 1000),
+};
+
+// User ID -> sessions that logged in at or before this time are refused
+const revokedBefore = new Map();
+
+export const hasConfiguredSessionSecret = () => !!process.env.SESSION_SECRET;
+
+const sign = (payload) => createHmac('sha256', config.secret).update(payload).digest('base64url');
+
+const encode = (claims) => {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+const decode = (token, type) => {
+  if (typeof token !== 'string') return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (claims.typ !== type || typeof claims.exp !== 'number' || claims.exp < Date.now()) return null;
+    if (claims.auth <= (revokedBefore.get(claims.sub) || 0)) return null;
+    return { userId: claims.sub, username: claims.name, role: claims.role, status: claims.status, authTime: claims.auth, expiresAt: claims.exp };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Issues an access and a refresh token for a verified user. `authTime` is the original login
+ * time and is kept across refreshes. Returns { sessionToken, expiresAt, refreshToken, refreshExpiresAt }.
+ */
+export const issueSession = ({ userId, username, role, status, authTime = Date.now() }) => {
+  const now = Date.now();
+  const claims = { sub: userId, name: username, role, status, auth: authTime };
+  const expiresAt = now + config.ttlMs;
+  const refreshExpiresAt = now + config.refreshTtlMs;
+  return {
+    sessionToken: encode({ ...claims, typ: 'access', exp: expiresAt }),
+    expiresAt,
+    refreshToken: encode({ ...claims, typ: 'refresh', exp: refreshExpiresAt }),
+    refreshExpiresAt,
+  };
+};
+
+/**
+ * Returns { userId, username, role, status, authTime, expiresAt } for a valid access token,
+ * otherwise null.
+ */
+export const verifySessionToken = (token) => decode(token, 'access');
+
+/**
+ * Same as verifySessionToken, for refresh tokens.
+ */
+export const verifyRefreshToken = (token) => decode(token, 'refresh');
+
+/**
+ * Refuses, on this server, every session the user started up to `at`.
+ */
+export const revokeUserSessions = (userId, at = Date.now()) => {
+  if (at > (revokedBefore.get(userId) || 0)) revokedBefore.set(userId, at);
+};
+
+/**
+ * Keeps revocations in step with users.force_logout_at, which forced logouts on every server
+ * write to.
+ */
+export const startRevocationSync = (log) => {
+  if (!isSupabaseConfigured()) return;
+  const sync = async () => {
+    try {
+      // Older logouts cannot affect a refresh token that is still valid.
+      const since = new Date(Date.now() - config.refreshTtlMs).toISOString();
+      const rows = await supabaseRest(`users?select=id,force_logout_at&force_logout_at=gt.${since}`);
+      rows.forEach(row => revokeUserSessions(row.id, new Date(row.force_logout_at).getTime()));
+    } catch (error) {
+      log('error', null, '❌ [SESSIONS] Could not sync forced logouts:', error.message);
+    }
+  };
+  sync();
+  setInterval(sync, config.revocationSyncMs).unref();
+};
+
+export const isActiveSession = (session) => ACTIVE_USER_STATUSES.includes(session.status);
+
+/**
+ * Express middleware: rejects requests without a valid session header. The session becomes the
+ * trusted identity (req.session, and x-user-username for logging and rate limits).
+ */
+export const requireSession = (req, res, next) => {
+  const session = verifySessionToken(req.headers[SESSION_HEADER]);
+  if (!session) {
+    return res.status(401).json({ error: { code: 401, message: 'Your session has expired. Please refresh the page.', status: 'SESSION_INVALID' } });
+  }
+  req.session = session;
+  req.headers['x-user-username'] = session.username;
+  next();
+};
+
+/**
+ * requireSession for routes that cost money: the account must also be active.
+ */
+export const requireActiveSession = (req, res, next) => requireSession(req, res, () => {
+  if (!isActiveSession(req.session)) {
+    return res.status(403).json({ error: { code: 403, message: 'Your account is not active.', status: 'PERMISSION_DENIED' } });
+  }
+  next();
+});
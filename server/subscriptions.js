@@ -0,0 +1,83 @@
+import { isSupabaseConfigured, supabaseRest } from './supabaseRest.js';
+
+// ===============================
+// 🗓️ SUBSCRIPTIONS
+// ===============================
+// Subscription and trial lifecycle. Subscriptions end at users.subscription_expiry. A trial
+// gets an end date the first time it is seen without one (at login or by the sweep), so
+// setting a user back to 'trial' starts a new trial. Users past their end date are downgraded
+// to 'inactive'; the expiry is kept so admins can see when it ran out and renew from there.
+//
+// Expiry is checked when a user logs in or refreshes their session, and by a periodic sweep,
+// so an expired user loses access within one access-token lifetime at most.
+//
+// Environment:
+//   TRIAL_DAYS                 Length of a trial in days (default 7)
+//   SUBSCRIPTION_SWEEP_MS      How often expired users are downgraded (default 900000)
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const config = {
+  trialMs: Number(process.env.TRIAL_DAYS ?? 7) * DAY_MS,
+  sweepMs: Number(process.env.SUBSCRIPTION_SWEEP_MS ?? 15 * 60 * 1000),
+};
+
+// Statuses that end at subscription_expiry
+const EXPIRING_STATUSES = ['subscription', 'trial'];
+
+const patchUser = async (userId, body) => {
+  const rows = await supabaseRest(`users?id=eq.${encodeURIComponent(userId)}`, { method: 'PATCH', body, prefer: 'return=representation' });
+  return rows[0] || null;
+};
+
+/**
+ * Applies the lifecycle to a freshly read users row and returns the row as it is now: a trial
+ * without an end date gets one, and an expired subscription or trial becomes 'inactive'.
+ */
+export const applySubscriptionLifecycle = async (user, log) => {
+  if (!user || !isSupabaseConfigured() || !EXPIRING_STATUSES.includes(user.status)) return user;
+
+  if (!user.subscription_expiry) {
+    if (user.status !== 'trial') return user;
+    const expiry = new Date(Date.now() + config.trialMs).toISOString();
+    log('log', null, `🗓️ [SUBSCRIPTIONS] Trial for user ${user.id} started, ends ${expiry}`);
+    return (await patchUser(user.id, { subscription_expiry: expiry })) || { ...user, subscription_expiry: expiry };
+  }
+
+  if (new Date(user.subscription_expiry).getTime() > Date.now()) return user;
+  log('log', null, `🗓️ [SUBSCRIPTIONS] ${user.status} for user ${user.id} expired on ${user.subscription_expiry}. Setting inactive.`);
+  return (await patchUser(user.id, { status: 'inactive' })) || { ...user, status: 'inactive' };
+};
+
+/**
+ * Starts the periodic sweep that dates new trials and downgrades expired users.
+ */
+export const startSubscriptionSweep = (log) => {
+  if (!isSupabaseConfigured()) {
+    log('warn', null, '⚠️ [SUBSCRIPTIONS] Supabase is not configured. Subscriptions will not expire.');
+    return;
+  }
+  const sweep = async () => {
+    try {
+      const now = new Date();
+      const trialEnd = new Date(now.getTime() + config.trialMs).toISOString();
+      const dated = await supabaseRest('users?status=eq.trial&subscription_expiry=is.null', {
+        method: 'PATCH',
+        body: { subscription_expiry: trialEnd },
+        prefer: 'return=representation',
+      });
+      const expired = await supabaseRest(`users?status=in.(${EXPIRING_STATUSES.join(',')})&subscription_expiry=lt.${now.toISOString()}`, {
+        method: 'PATCH',
+        body: { status: 'inactive' },
+        prefer: 'return=representation',
+      });
+      if (dated.length || expired.length) {
+        log('log', null, `🗓️ [SUBSCRIPTIONS] Sweep: ${dated.length} trial(s) started, ${expired.length} user(s) expired`);
+      }
+    } catch (error) {
+      log('error', null, '❌ [SUBSCRIPTIONS] Sweep failed:', error.message);
+    }
+  };
+  sweep();
+  setInterval(sweep, config.sweepMs).unref();
+};
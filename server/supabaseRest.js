@@ -0,0 +1,90 @@
+import fetch from 'node-fetch';
+
+// ===============================
+// 🗄️ SUPABASE REST
+// ===============================
+// Minimal PostgREST client for the tables the proxy reads and writes with the service role
+// key. The key never leaves the server.
+//
+// Environment:
+//   SUPABASE_URL               Project URL, e.g. https://<ref>.supabase.co
+//   SUPABASE_SERVICE_ROLE_KEY  Service role key (bypasses row level security)
+
+const SUPABASE_URL = (process.env.SUPABASE_URL || '').replace(/\/$/, '');
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+export const isSupabaseConfigured = () => !!(SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY);
+
+/**
+ * Calls `${SUPABASE_URL}/rest/v1/${path}` and returns the parsed JSON (null for empty bodies).
+ * `path` carries the table and PostgREST query, e.g. 'users?select=id&email=eq.a@b.com'.
+ * Failures are thrown with the HTTP `status` set, e.g. 409 for a unique constraint violation.
+ */
+export const supabaseRest = async (path, { method = 'GET', body, prefer } = {}) => {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured (set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY)');
+  }
+  const response = await fetch(`${SUPABASE_URL}/rest/v1/${path}`, {
+    method,
+    headers: {
+      'apikey': SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      ...(prefer && { 'Prefer': prefer }),
+    },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+  const text = await response.text();
+  if (!response.ok) {
+    throw Object.assign(
+      new Error(`Supabase ${method} ${path.split('?')[0]} failed (${response.status}): ${text.substring(0, 300)}`),
+      { status: response.status }
+    );
+  }
+  return text ? JSON.parse(text) : null;
+};
+
+// ===============================
+// 🪣 SUPABASE STORAGE
+// ===============================
+
+const storageRequest = async (path, { method = 'POST', body, contentType = 'application/json' } = {}) => {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured (set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY)');
+  }
+  const response = await fetch(`${SUPABASE_URL}/storage/v1/${path}`, {
+    method,
+    headers: {
+      'apikey': SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': contentType,
+    },
+    body: contentType === 'application/json' && body !== undefined ? JSON.stringify(body) : body,
+  });
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`Supabase storage ${method} ${path.split('/').slice(0, 3).join('/')} failed (${response.status}): ${text.substring(0, 300)}`);
+  }
+  return text ? JSON.parse(text) : null;
+};
+
+/**
+ * Uploads `buffer` to `bucket/objectPath`.
+ */
+export const uploadStorageObject = (bucket, objectPath, buffer, contentType) =>
+  storageRequest(`object/${bucket}/${objectPath}`, { body: buffer, contentType });
+
+/**
+ * Returns objectPath -> time-limited download URL for objects in a private bucket.
+ */
+export const signStorageObjects = async (bucket, objectPaths, expiresIn) => {
+  if (objectPaths.length === 0) return new Map();
+  const signed = await storageRequest(`object/sign/${bucket}`, { body: { expiresIn, paths: objectPaths } });
+  return new Map(signed.filter(entry => entry.signedURL).map(entry => [entry.path, `${SUPABASE_URL}/storage/v1${entry.signedURL}`]));
+};
+
+/**
+ * Deletes objects from `bucket`. Missing objects are ignored.
+ */
+export const removeStorageObjects = (bucket, objectPaths) =>
+  storageRequest(`object/${bucket}`, { method: 'DELETE', body: { prefixes: objectPaths } });
@@ -0,0 +1,226 @@
+import { createHash } from 'crypto';
+import { registerGaugeCollector } from './metrics.js';
+import { verifySessionToken, isActiveSession, requireSession, SESSION_HEADER } from './sessions.js';
+import { isSupabaseConfigured, supabaseRest } from './supabaseRest.js';
+
+// ===============================
+// 🔐 TOKEN VAULT
+// ===============================
+// The shared pool of Veo/Imagen bearer tokens lives here instead of in the browser. A client
+// sends its session (X-Monoklix-Session) in place of an Authorization header; the vault picks
+// a healthy token, injects it for the route and sends back only an opaque token ID
+// (X-Vault-Token-Id). Steps that must reuse the same token (upload -> generate -> status)
+// send that ID back in X-Vault-Token-Id.
+//
+// Requests that carry their own Authorization header (personal tokens) are left untouched.
+//
+// Tokens are rotated least-recently-used first among the healthiest. A 401 takes a token out
+// of rotation; 429 and 5xx responses put it on a cooldown that doubles with each failure.
+//
+// Environment:
+//   TOKEN_VAULT_TOKENS        Comma-separated tokens; overrides the Supabase pool (useful offline)
+//   TOKEN_VAULT_POOL_SIZE     Newest rows loaded from token_new_active (default 20)
+//   TOKEN_VAULT_REFRESH_MS    How often the pool is reloaded (default 300000)
+//   TOKEN_VAULT_COOLDOWN_MS   First cooldown after a failure (default 30000, max 10 minutes)
+
+const VAULT_PATH_PREFIXES = ['/api/veo/', '/api/imagen/'];
+const TOKEN_ID_HEADER = 'x-vault-token-id';
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+
+const config = {
+  staticTokens: (process.env.TOKEN_VAULT_TOKENS || '').split(',').map(token => token.trim()).filter(Boolean),
+  poolSize: Number(process.env.TOKEN_VAULT_POOL_SIZE ?? 20),
+  refreshMs: Number(process.env.TOKEN_VAULT_REFRESH_MS ?? 5 * 60 * 1000),
+  cooldownMs: Number(process.env.TOKEN_VAULT_COOLDOWN_MS ?? 30 * 1000),
+};
+
+// Token ID -> { id, token, createdAt, successes, failures, consecutiveFailures, cooldownUntil, expired, inUse, lastUsedAt }
+const pool = new Map();
+
+const getTokenId = (token) => createHash('sha256').update(token).digest('hex').substring(0, 16);
+
+const getTokenState = (entry, now = Date.now()) => {
+  if (entry.expired) return 'expired';
+  if (entry.cooldownUntil > now) return 'cooling_down';
+  return 'available';
+};
+
+registerGaugeCollector('vault_tokens', 'Tokens in the vault, by state.', () => {
+  const counts = { available: 0, cooling_down: 0, expired: 0 };
+  pool.forEach(entry => { counts[getTokenState(entry)] += 1; });
+  return Object.entries(counts).map(([state, count]) => [{ state }, count]);
+});
+
+// ===============================
+// 📥 POOL LOADING
+// ===============================
+
+const loadTokens = async (mockMode) => {
+  if (config.staticTokens.length > 0) {
+    return config.staticTokens.map(token => ({ token, createdAt: null }));
+  }
+  if (isSupabaseConfigured()) {
+    const rows = await supabaseRest(`token_new_active?select=token,created_at&order=created_at.desc&limit=${config.poolSize}`);
+    return rows.filter(row => row.token).map(row => ({ token: row.token, createdAt: row.created_at }));
+  }
+  if (mockMode) {
+    return Array.from({ length: 3 }, (_, i) => ({ token: `mock-vault-token-${i + 1}`, createdAt: null }));
+  }
+  return [];
+};
+
+// Replaces the pool contents, keeping health state for tokens that are still present.
+const refreshPool = async (log, mockMode) => {
+  try {
+    const tokens = await loadTokens(mockMode);
+    const ids = new Set();
+    tokens.forEach(({ token, createdAt }) => {
+      const id = getTokenId(token);
+      ids.add(id);
+      if (!pool.has(id)) {
+        pool.set(id, { id, token, createdAt, successes: 0, failures: 0, consecutiveFailures: 0, cooldownUntil: 0, expired: false, inUse: 0, lastUsedAt: 0 });
+      }
+    });
+    // Tokens removed from the source are dropped once nothing is using them.
+    pool.forEach((entry, id) => {
+      if (!ids.has(id) && entry.inUse === 0) pool.delete(id);
+    });
+    log('log', null, `🔐 [VAULT] Pool refreshed: ${ids.size} token(s)`);
+  } catch (error) {
+    log('error', null, '❌ [VAULT] Could not refresh the token pool, keeping the current one:', error.message);
+  }
+};
+
+// ===============================
+// 🎯 SELECTION & HEALTH
+// ===============================
+
+const pickToken = () => {
+  const now = Date.now();
+  const candidates = Array.from(pool.values()).filter(entry => getTokenState(entry, now) === 'available');
+  candidates.sort((a, b) => a.consecutiveFailures - b.consecutiveFailures || a.inUse - b.inUse || a.lastUsedAt - b.lastUsedAt);
+  return candidates[0] || null;
+};
+
+const getShortestCooldownSeconds = () => {
+  const now = Date.now();
+  const waits = Array.from(pool.values()).filter(entry => !entry.expired && entry.cooldownUntil > now).map(entry => entry.cooldownUntil - now);
+  return waits.length > 0 ? Math.ceil(Math.min(...waits) / 1000) : null;
+};
+
+const recordOutcome = (log, req, entry, status) => {
+  if (status >= 200 && status < 300) {
+    entry.successes += 1;
+    entry.consecutiveFailures = 0;
+    entry.cooldownUntil = 0;
+  } else if (status === 401) {
+    entry.expired = true;
+    log('warn', req, `🔐 [VAULT] Token ${entry.id} was rejected as expired and is out of rotation`);
+  } else if (status === 429 || status >= 500) {
+    entry.failures += 1;
+    entry.consecutiveFailures += 1;
+    const cooldown = Math.min(config.cooldownMs * 2 ** (entry.consecutiveFailures - 1), MAX_COOLDOWN_MS);
+    entry.cooldownUntil = Date.now() + cooldown;
+    log('warn', req, `🔐 [VAULT] Token ${entry.id} cooling down for ${Math.round(cooldown / 1000)}s after status ${status}`);
+  }
+  // Other 4xx responses are about the request (e.g. a blocked prompt), not the token.
+};
+
+/**
+ * The token behind a vault token ID, or null if it left the pool or expired. Server-side jobs
+ * keep only the ID, so no token is written to disk.
+ */
+export const getVaultToken = (id) => {
+  const entry = id ? pool.get(id) : null;
+  return entry && !entry.expired ? entry.token : null;
+};
+
+const vaultError = (res, status, message, extra = {}) => res.status(status).json({ error: { code: status, message, ...extra } });
+
+/**
+ * Express middleware factory: swaps a session for a pool token on POST /api/veo/* and
+ * /api/imagen/* requests. Requests without a session header pass straight through.
+ */
+export const createVaultAuth = (log) => (req, res, next) => {
+  const sessionToken = req.headers[SESSION_HEADER];
+  if (req.method !== 'POST' || !VAULT_PATH_PREFIXES.some(prefix => req.path.startsWith(prefix))) return next();
+  if (!sessionToken || req.headers.authorization) return next();
+
+  const session = verifySessionToken(sessionToken);
+  if (!session) {
+    return vaultError(res, 401, 'Your session has expired. Please refresh the page.', { status: 'SESSION_INVALID' });
+  }
+  if (!isActiveSession(session)) {
+    return vaultError(res, 403, 'Your account is not active.', { status: 'PERMISSION_DENIED' });
+  }
+  // The session is the trusted identity from here on (logging, rate limits, jobs).
+  req.headers['x-user-username'] = session.username;
+
+  const requestedId = req.headers[TOKEN_ID_HEADER];
+  let entry;
+  if (requestedId) {
+    entry = pool.get(requestedId);
+    if (!entry || entry.expired) {
+      return vaultError(res, 410, 'The token used for this step is no longer available. Please start again.', { status: 'VAULT_TOKEN_GONE' });
+    }
+  } else {
+    entry = pickToken();
+    if (!entry) {
+      const retryAfter = getShortestCooldownSeconds();
+      if (retryAfter) res.setHeader('Retry-After', String(retryAfter));
+      return vaultError(res, 503, 'No shared tokens are available right now. Please try again shortly.', { status: 'UNAVAILABLE' });
+    }
+  }
+
+  entry.inUse += 1;
+  entry.lastUsedAt = Date.now();
+  req.headers.authorization = `Bearer ${entry.token}`;
+  res.setHeader('X-Vault-Token-Id', entry.id);
+  log('debug', req, `🔐 [VAULT] Using token ${entry.id}${requestedId ? ' (pinned)' : ''}`);
+
+  let done = false;
+  const finish = (finished) => {
+    if (done) return;
+    done = true;
+    entry.inUse -= 1;
+    // Our own rate limiter's 429s say nothing about the token.
+    if (finished && !res.locals.rateLimited) recordOutcome(log, req, entry, res.statusCode);
+  };
+  res.on('finish', () => finish(true));
+  res.on('close', () => finish(res.writableFinished));
+  next();
+};
+
+// ===============================
+// 🛣️ ROUTES
+// ===============================
+
+/**
+ * Registers the status endpoint and starts keeping the pool fresh.
+ */
+export const registerTokenVaultRoutes = (app, log, { mockMode }) => {
+  refreshPool(log, mockMode);
+  setInterval(() => refreshPool(log, mockMode), config.refreshMs).unref();
+
+  // 📊 POOL STATUS (no token values)
+  app.get('/api/vault/status', requireSession, (req, res) => {
+    const now = Date.now();
+    const tokens = Array.from(pool.values()).map(entry => ({
+      id: entry.id,
+      state: getTokenState(entry, now),
+      createdAt: entry.createdAt,
+      successes: entry.successes,
+      failures: entry.failures,
+      inUse: entry.inUse,
+      lastUsedAt: entry.lastUsedAt || null,
+      cooldownSeconds: entry.cooldownUntil > now ? Math.ceil((entry.cooldownUntil - now) / 1000) : 0,
+    }));
+    res.json({
+      total: tokens.length,
+      available: tokens.filter(t => t.state === 'available').length,
+      coolingDown: tokens.filter(t => t.state === 'cooling_down').length,
+      expired: tokens.filter(t => t.state === 'expired').length,
+      tokens,
+    });
+  });
+};
@@ -0,0 +1,442 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import fetch from 'node-fetch';
+import { registerGaugeCollector } from './metrics.js';
+import { acquireGenerationSlot, getRateLimitIdentity } from './rateLimiter.js';
+import { refundCredits } from './credits.js';
+import { getVaultToken } from './tokenVault.js';
+import { getProgressPercent } from './videoProgress.js';
+
+// ===============================
+// 🎞️ SERVER-SIDE VEO JOBS
+// ===============================
+// The proxy starts a Veo generation, keeps polling upstream itself and pushes status to the
+// browser over Server-Sent Events (with a long-poll fallback). Job state is written to disk,
+// so a browser that closes or reloads can reconnect by job ID, and jobs survive a restart.
+// Tokens are never written to disk: a job started with a vault token keeps its token ID and
+// picks the token up again from the vault after a restart. A job started with a personal
+// token cannot, so it fails (and is refunded) when the server restarts.
+//
+// Upstream calls go back through this server's own /api/veo routes, so live and mock mode
+// behave the same.
+//
+// The job ID is the only credential needed to watch a job (EventSource cannot send headers).
+// IDs are random UUIDs and tokens are never included in responses.
+//
+// Environment:
+//   VEO_JOBS_FILE              Where job state is persisted (default ./data/veo-jobs.json)
+//   VEO_JOB_POLL_INTERVAL_MS   First upstream status check delay (default 10000)
+//   VEO_JOB_MAX_POLL_INTERVAL_MS  Upper bound for the backoff (default 30000)
+//   VEO_JOB_MAX_WAIT_MS        Deadline before a job is failed (default 900000)
+//   VEO_JOB_RETENTION_MS       How long finished jobs are kept (default 86400000)
+
+const config = {
+  jobsFile: process.env.VEO_JOBS_FILE || './data/veo-jobs.json',
+  pollIntervalMs: Number(process.env.VEO_JOB_POLL_INTERVAL_MS ?? 10000),
+  maxPollIntervalMs: Number(process.env.VEO_JOB_MAX_POLL_INTERVAL_MS ?? 30000),
+  maxWaitMs: Number(process.env.VEO_JOB_MAX_WAIT_MS ?? 15 * 60 * 1000),
+  retentionMs: Number(process.env.VEO_JOB_RETENTION_MS ?? 24 * 60 * 60 * 1000),
+};
+
+const BACKOFF_MULTIPLIER = 1.5;
+const MAX_CONSECUTIVE_POLL_ERRORS = 5;
+const MAX_LONG_POLL_WAIT_MS = 30000;
+const SSE_HEARTBEAT_MS = 15000;
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled'];
+const COMPLETED_UPSTREAM_STATUSES = [
+  'MEDIA_GENERATION_STATUS_COMPLETED',
+  'MEDIA_GENERATION_STATUS_SUCCESS',
+  'MEDIA_GENERATION_STATUS_SUCCESSFUL',
+];
+
+// Job ID -> job record (including the token, which stays in memory)
+const jobs = new Map();
+// Job ID -> pending poll timer
+const timers = new Map();
+// Job ID -> releases the job's rate limiter slot
+const slotReleases = new Map();
+// Emits the job ID whenever a job changes
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+const isTerminal = (job) => TERMINAL_STATUSES.includes(job.status);
+
+registerGaugeCollector('veo_jobs_active', 'Server-side Veo jobs that are still being polled, by type.', () => {
+  const counts = { t2v: 0, i2v: 0 };
+  for (const job of jobs.values()) {
+    if (!isTerminal(job)) counts[job.type] = (counts[job.type] || 0) + 1;
+  }
+  return Object.entries(counts).map(([type, count]) => [{ type }, count]);
+});
+
+// What clients get to see: everything except the token and raw upstream operations.
+const toPublicJob = (job) => ({
+  id: job.id,
+  type: job.type,
+  status: job.status,
+  progressPercent: job.progressPercent,
+  videoUrl: job.videoUrl,
+  thumbnailUrl: job.thumbnailUrl,
+  error: job.error,
+  version: job.version,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+});
+
+// ===============================
+// 💾 PERSISTENCE
+// ===============================
+
+const saveJobs = (log) => {
+  try {
+    mkdirSync(dirname(config.jobsFile), { recursive: true });
+    const tmpFile = `${config.jobsFile}.tmp`;
+    writeFileSync(tmpFile, JSON.stringify(Array.from(jobs.values(), ({ token, ...job }) => job)));
+    renameSync(tmpFile, config.jobsFile);
+  } catch (error) {
+    log('error', null, '❌ [VEO JOBS] Failed to persist jobs:', error.message);
+  }
+};
+
+const pruneJobs = () => {
+  const cutoff = Date.now() - config.retentionMs;
+  jobs.forEach((job, id) => {
+    if (isTerminal(job) && job.updatedAt < cutoff) jobs.delete(id);
+  });
+};
+
+const loadJobs = (log) => {
+  if (!existsSync(config.jobsFile)) return;
+  try {
+    const saved = JSON.parse(readFileSync(config.jobsFile, 'utf8'));
+    if (Array.isArray(saved)) {
+      saved.forEach(job => jobs.set(job.id, job));
+    }
+    pruneJobs();
+  } catch (error) {
+    log('error', null, `❌ [VEO JOBS] Could not read ${config.jobsFile}, starting with no jobs:`, error.message);
+  }
+};
+
+// A running job counts as a generation in progress for its user and token.
+const holdSlot = (job) => {
+  slotReleases.set(job.id, acquireGenerationSlot(getRateLimitIdentity({ username: job.username, token: job.token, ip: '127.0.0.1' }), { countStart: false }));
+};
+
+const releaseSlot = (jobId) => {
+  slotReleases.get(jobId)?.();
+  slotReleases.delete(jobId);
+};
+
+// The in-memory token, or the vault's token for a job restored from disk.
+const getJobToken = (job) => job.token || getVaultToken(job.vaultTokenId);
+
+const updateJob = (log, job, updates) => {
+  Object.assign(job, updates, { version: job.version + 1, updatedAt: Date.now() });
+  if (updates.status === 'failed' || updates.status === 'cancelled') {
+    refundCredits(job.creditChargeId, log, `video job ${job.id} ${updates.status}`);
+  }
+  if (isTerminal(job)) releaseSlot(job.id);
+  pruneJobs();
+  saveJobs(log);
+  jobEvents.emit('change', job.id);
+};
+
+// ===============================
+// 🔄 UPSTREAM POLLING
+// ===============================
+
+// Same rules as normalizeVideoOperation in services/proxySchemas.ts.
+const readOperation = (op) => {
+  const videoUrl = op.operation?.metadata?.video?.fifeUrl
+    || op.metadata?.video?.fifeUrl
+    || op.result?.generatedVideo?.[0]?.fifeUrl
+    || op.result?.generatedVideos?.[0]?.fifeUrl
+    || op.video?.fifeUrl
+    || op.fifeUrl
+    || null;
+  const thumbnailUrl = op.operation?.metadata?.video?.servingBaseUri || op.metadata?.video?.servingBaseUri || null;
+
+  let state = 'running';
+  if (op.status === 'MEDIA_GENERATION_STATUS_FAILED' || (op.error && op.done !== true)) {
+    state = 'failed';
+  } else if (op.done === true || COMPLETED_UPSTREAM_STATUSES.includes(op.status)) {
+    state = 'completed';
+  }
+
+  return { state, videoUrl, thumbnailUrl, progressPercent: getProgressPercent(op), errorMessage: op.error?.message || op.error?.code || null };
+};
+
+const callSelf = async (selfUrl, path, job, body) => {
+  const response = await fetch(`${selfUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${getJobToken(job)}`,
+      'x-user-username': job.username,
+      // Ties the proxy's own log lines for this job together.
+      'x-request-id': `veo-job-${job.id}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const text = await response.text();
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    data = { error: { message: `Non-JSON response (${response.status})` } };
+  }
+  return { response, data };
+};
+
+const schedulePoll = (ctx, job, delayMs) => {
+  clearTimeout(timers.get(job.id));
+  timers.set(job.id, setTimeout(() => pollJob(ctx, job.id), delayMs));
+};
+
+const pollJob = async (ctx, jobId) => {
+  const { log, selfUrl } = ctx;
+  timers.delete(jobId);
+  const job = jobs.get(jobId);
+  if (!job || isTerminal(job)) return;
+
+  if (Date.now() - job.createdAt > config.maxWaitMs) {
+    log('error', null, `⏱️ [VEO JOBS] Job ${job.id} timed out`);
+    updateJob(log, job, {
+      status: 'failed',
+      error: `Video generation timed out after ${Math.round(config.maxWaitMs / 60000)} minutes without finishing. Please try again.`,
+    });
+    return;
+  }
+
+  if (!getJobToken(job)) {
+    log('error', null, `🔑 [VEO JOBS] Job ${job.id} has no token after a restart`);
+    updateJob(log, job, { status: 'failed', error: 'The server restarted and the auth token used for this video is no longer available. Please try again.' });
+    return;
+  }
+
+  try {
+    const { response, data } = await callSelf(selfUrl, '/api/veo/status', job, { operations: job.operations });
+    if (isTerminal(job)) return; // Cancelled while the request was in flight
+
+    if (response.status === 401) {
+      updateJob(log, job, { status: 'failed', error: 'The auth token used for this video has expired. Please try again.' });
+      return;
+    }
+    if (!response.ok || !Array.isArray(data.operations) || data.operations.length === 0) {
+      throw new Error(data.error?.message || data.message || `Status check failed (${response.status})`);
+    }
+
+    const operation = readOperation(data.operations[0]);
+    const updates = { operations: data.operations, pollErrors: 0 };
+
+    if (operation.state === 'failed') {
+      log('error', null, `❌ [VEO JOBS] Job ${job.id} failed upstream:`, data.operations[0]);
+      updateJob(log, job, {
+        ...updates,
+        status: 'failed',
+        error: data.operations[0].status === 'MEDIA_GENERATION_STATUS_FAILED'
+          ? 'Video generation failed on the server. This often happens if your request was blocked by safety policies. Please try modifying your prompt or using a different image.'
+          : `Video generation failed: ${operation.errorMessage || 'Unknown error'}`,
+      });
+      return;
+    }
+
+    if (operation.state === 'completed') {
+      if (!operation.videoUrl) {
+        updateJob(log, job, {
+          ...updates,
+          status: 'failed',
+          error: 'Video generation finished without an error, but no output was produced. This may happen if your request was blocked by safety policies. Please try modifying your prompt or using a different image.',
+        });
+        return;
+      }
+      log('log', null, `✅ [VEO JOBS] Job ${job.id} completed`);
+      updateJob(log, job, { ...updates, status: 'completed', progressPercent: 100, videoUrl: operation.videoUrl, thumbnailUrl: operation.thumbnailUrl });
+      return;
+    }
+
+    if (operation.progressPercent !== job.progressPercent) {
+      updateJob(log, job, { ...updates, progressPercent: operation.progressPercent });
+    } else {
+      Object.assign(job, updates);
+    }
+  } catch (error) {
+    job.pollErrors = (job.pollErrors || 0) + 1;
+    log('error', null, `⚠️ [VEO JOBS] Status check for job ${job.id} failed (${job.pollErrors}/${MAX_CONSECUTIVE_POLL_ERRORS}):`, error.message);
+    if (job.pollErrors >= MAX_CONSECUTIVE_POLL_ERRORS) {
+      updateJob(log, job, { status: 'failed', error: `Video generation status stopped responding after ${job.pollErrors} status checks. Please try again.` });
+      return;
+    }
+  }
+
+  job.pollIntervalMs = Math.min((job.pollIntervalMs || config.pollIntervalMs) * BACKOFF_MULTIPLIER, config.maxPollIntervalMs);
+  schedulePoll(ctx, job, job.pollIntervalMs);
+};
+
+// ===============================
+// 📡 ROUTES
+// ===============================
+
+const writeSseEvent = (res, job) => {
+  res.write(`id: ${job.version}\nevent: job\ndata: ${JSON.stringify({ job: toPublicJob(job) })}\n\n`);
+};
+
+/**
+ * Registers the /api/veo/jobs routes and resumes polling for jobs that were running before a restart.
+ * `selfUrl` is the base URL this server can reach itself on.
+ */
+export const registerVeoJobRoutes = (app, log, { selfUrl }) => {
+  const ctx = { log, selfUrl };
+
+  loadJobs(log);
+  const resumed = Array.from(jobs.values()).filter(job => !isTerminal(job));
+  resumed.forEach(job => {
+    holdSlot(job);
+    schedulePoll(ctx, job, config.pollIntervalMs);
+  });
+
+  const getJobOr404 = (req, res) => {
+    const job = jobs.get(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: { code: 404, message: `Video job not found: ${req.params.id}` } });
+      return null;
+    }
+    return job;
+  };
+
+  // 🚀 START JOB
+  app.post('/api/veo/jobs', async (req, res) => {
+    log('log', req, '🎞️ [VEO JOBS] Start job');
+    try {
+      const authToken = req.headers.authorization?.replace('Bearer ', '');
+      if (!authToken) {
+        log('error', req, '❌ No auth token provided');
+        return res.status(401).json({ error: 'No auth token provided' });
+      }
+      const { type, request } = req.body || {};
+      if (type !== 't2v' && type !== 'i2v') {
+        return res.status(400).json({ error: { code: 400, message: "Job type must be 't2v' or 'i2v'" } });
+      }
+
+      const job = {
+        id: randomUUID(),
+        type,
+        status: 'running',
+        progressPercent: null,
+        videoUrl: null,
+        thumbnailUrl: null,
+        error: null,
+        version: 0,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        token: authToken,
+        // Set when the vault picked the token, so the job can resume after a restart
+        vaultTokenId: res.getHeader('X-Vault-Token-Id') || null,
+        username: req.headers['x-user-username'] || 'anonymous',
+        // Refunded if the job fails or is cancelled (see credits.js)
+        creditChargeId: res.locals.creditCharge?.id || null,
+        operations: [],
+      };
+
+      // Upstream errors are passed through as-is so the client's failover logic still applies.
+      const { response, data } = await callSelf(selfUrl, `/api/veo/generate-${type}`, job, request);
+      if (!response.ok) {
+        const retryAfter = response.headers.get('retry-after');
+        if (retryAfter) res.setHeader('Retry-After', retryAfter);
+        return res.status(response.status).json(data);
+      }
+      if (!Array.isArray(data.operations) || data.operations.length === 0) {
+        return res.status(502).json({ error: { code: 502, message: 'Video generation failed to start. The API did not return any operations.' } });
+      }
+
+      job.operations = data.operations;
+      jobs.set(job.id, job);
+      saveJobs(log);
+      holdSlot(job);
+      schedulePoll(ctx, job, config.pollIntervalMs);
+
+      log('log', req, `✅ [VEO JOBS] Job ${job.id} started`);
+      res.status(202).json({ job: toPublicJob(job) });
+    } catch (error) {
+      log('error', req, '❌ Proxy error (VEO JOBS START):', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 🔍 JOB STATUS (long-poll with ?since=<version>&wait=<ms>)
+  app.get('/api/veo/jobs/:id', (req, res) => {
+    const job = getJobOr404(req, res);
+    if (!job) return;
+
+    const since = Number(req.query.since);
+    const waitMs = Math.min(Number(req.query.wait) || 0, MAX_LONG_POLL_WAIT_MS);
+    if (!Number.isFinite(since) || job.version > since || isTerminal(job) || waitMs <= 0) {
+      return res.json({ job: toPublicJob(job) });
+    }
+
+    const finish = () => {
+      clearTimeout(timeout);
+      jobEvents.off('change', onChange);
+      if (!res.headersSent) res.json({ job: toPublicJob(job) });
+    };
+    const onChange = (changedId) => {
+      if (changedId === job.id) finish();
+    };
+    const timeout = setTimeout(finish, waitMs);
+    jobEvents.on('change', onChange);
+    req.on('close', () => {
+      clearTimeout(timeout);
+      jobEvents.off('change', onChange);
+    });
+  });
+
+  // 📡 JOB EVENTS (Server-Sent Events)
+  app.get('/api/veo/jobs/:id/events', (req, res) => {
+    const job = getJobOr404(req, res);
+    if (!job) return;
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    writeSseEvent(res, job);
+    if (isTerminal(job)) return res.end();
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+    const cleanup = () => {
+      clearInterval(heartbeat);
+      jobEvents.off('change', onChange);
+    };
+    const onChange = (changedId) => {
+      if (changedId !== job.id) return;
+      writeSseEvent(res, job);
+      if (isTerminal(job)) {
+        cleanup();
+        res.end();
+      }
+    };
+    jobEvents.on('change', onChange);
+    req.on('close', cleanup);
+  });
+
+  // 🛑 CANCEL JOB
+  app.delete('/api/veo/jobs/:id', (req, res) => {
+    const job = getJobOr404(req, res);
+    if (!job) return;
+    if (!isTerminal(job)) {
+      clearTimeout(timers.get(job.id));
+      timers.delete(job.id);
+      updateJob(log, job, { status: 'cancelled' });
+      log('log', req, `🛑 [VEO JOBS] Job ${job.id} cancelled`);
+    }
+    res.json({ job: toPublicJob(job) });
+  });
+
+  log('log', null, `🎞️ VEO JOBS: state in ${config.jobsFile}${resumed.length ? `, resumed ${resumed.length} running job(s)` : ''}`);
+};
@@ -0,0 +1,228 @@
+import { createHash, randomUUID } from 'crypto';
+import { createWriteStream, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, unlinkSync, utimesSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { fetchUpstream, registerGaugeCollector } from './metrics.js';
+
+// ===============================
+// 📦 VIDEO CACHE
+// ===============================
+// Generated videos are fetched from Google Storage once, kept on disk and served from there,
+// so repeat downloads and seeking (HTTP Range requests) never go back upstream. The cache is
+// bounded: when it grows past its size limit, the least recently used videos are deleted.
+//
+// Only URLs on allowlisted hosts are fetched, so download-video cannot be used to make the
+// proxy request arbitrary URLs. Redirects are checked against the same list.
+//
+// Environment:
+//   VIDEO_CACHE_DIR               Where videos are stored (default ./data/video-cache)
+//   VIDEO_CACHE_MAX_BYTES         Size limit for the cache (default 2147483648, 2 GB)
+//   VIDEO_CACHE_MAX_VIDEO_BYTES   Largest single video that is downloaded (default 536870912, 512 MB)
+//   VIDEO_DOWNLOAD_ALLOWED_HOSTS  Comma-separated hosts; '*.example.com' also matches subdomains
+//                                 (default storage.googleapis.com,*.storage.googleapis.com,*.googleusercontent.com)
+
+const DEFAULT_ALLOWED_HOSTS = 'storage.googleapis.com,*.storage.googleapis.com,*.googleusercontent.com';
+const MAX_REDIRECTS = 5;
+
+const config = {
+  dir: resolve(process.env.VIDEO_CACHE_DIR || './data/video-cache'),
+  maxBytes: Number(process.env.VIDEO_CACHE_MAX_BYTES ?? 2 * 1024 * 1024 * 1024),
+  maxVideoBytes: Number(process.env.VIDEO_CACHE_MAX_VIDEO_BYTES ?? 512 * 1024 * 1024),
+  allowedHosts: (process.env.VIDEO_DOWNLOAD_ALLOWED_HOSTS || DEFAULT_ALLOWED_HOSTS)
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean),
+};
+
+// Cache key -> { path, url, contentType, size, lastAccessed }
+const entries = new Map();
+// Cache key -> promise for a download in progress, so concurrent requests share one fetch
+const pendingFills = new Map();
+
+const getCacheKey = (url) => createHash('sha256').update(url).digest('hex');
+
+const getTotalBytes = () => Array.from(entries.values()).reduce((total, entry) => total + entry.size, 0);
+
+registerGaugeCollector('video_cache_bytes', 'Bytes of video held in the download cache.', () => [[{}, getTotalBytes()]]);
+registerGaugeCollector('video_cache_entries', 'Videos held in the download cache.', () => [[{}, entries.size]]);
+
+const hostMatches = (hostname, pattern) => {
+  if (pattern.startsWith('*.')) return hostname.endsWith(pattern.substring(1));
+  return hostname === pattern;
+};
+
+/**
+ * Checks that `url` is an https URL on an allowed host. Returns { allowed, reason }.
+ */
+export const checkVideoUrl = (url) => {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { allowed: false, reason: 'Video URL is not a valid URL' };
+  }
+  if (parsed.protocol !== 'https:') {
+    return { allowed: false, reason: 'Video URL must use https' };
+  }
+  const hostname = parsed.hostname.toLowerCase();
+  if (!config.allowedHosts.some(pattern => hostMatches(hostname, pattern))) {
+    return { allowed: false, reason: `Video host is not allowed: ${hostname}` };
+  }
+  return { allowed: true, reason: null };
+};
+
+// Deletes a video and its metadata. Unlinking a file that is still being streamed is fine:
+// the open handle keeps it readable.
+const deleteFiles = (path) => {
+  [path, `${path}.json`].forEach(file => {
+    try {
+      unlinkSync(file);
+    } catch {
+      // Already gone.
+    }
+  });
+};
+
+const removeEntry = (key) => {
+  const entry = entries.get(key);
+  entries.delete(key);
+  if (entry) deleteFiles(entry.path);
+};
+
+const evict = (log, keepKey) => {
+  const byAge = Array.from(entries.entries())
+    .filter(([key]) => key !== keepKey)
+    .sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
+  let total = getTotalBytes();
+  for (const [key, entry] of byAge) {
+    if (total <= config.maxBytes) break;
+    removeEntry(key);
+    total -= entry.size;
+    log('log', null, `🧹 [VIDEO CACHE] Evicted ${key.substring(0, 12)} (${entry.size} bytes)`);
+  }
+};
+
+const loadEntries = (log) => {
+  mkdirSync(config.dir, { recursive: true });
+  for (const file of readdirSync(config.dir)) {
+    const path = join(config.dir, file);
+    if (file.includes('.tmp-')) {
+      unlinkSync(path);
+      continue;
+    }
+    if (!file.endsWith('.mp4')) continue;
+    try {
+      const meta = JSON.parse(readFileSync(`${path}.json`, 'utf8'));
+      const stats = statSync(path);
+      entries.set(file.replace(/\.mp4$/, ''), { path, url: meta.url, contentType: meta.contentType, size: stats.size, lastAccessed: stats.mtimeMs });
+    } catch (error) {
+      log('warn', null, `⚠️ [VIDEO CACHE] Dropping unreadable entry ${file}:`, error.message);
+      deleteFiles(path);
+    }
+  }
+  evict(log, null);
+};
+
+let loaded = false;
+const ensureLoaded = (log) => {
+  if (loaded) return;
+  loaded = true;
+  try {
+    loadEntries(log);
+    log('log', null, `📦 [VIDEO CACHE] ${entries.size} video(s), ${getTotalBytes()} bytes in ${config.dir}`);
+  } catch (error) {
+    log('error', null, `❌ [VIDEO CACHE] Could not read ${config.dir}:`, error.message);
+  }
+};
+
+const downloadError = (message, status, details) => Object.assign(new Error(message), { status, details });
+
+// Fetches `url`, following redirects only to allowed hosts.
+const fetchVideo = async (url) => {
+  let currentUrl = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await fetchUpstream('videoDownload', currentUrl, { redirect: 'manual' });
+    if (response.status < 300 || response.status >= 400) return response;
+
+    const location = response.headers.get('location');
+    if (!location) return response;
+    currentUrl = new URL(location, currentUrl).toString();
+    const check = checkVideoUrl(currentUrl);
+    if (!check.allowed) {
+      throw downloadError(`Video download redirected to a disallowed URL. ${check.reason}`, 502);
+    }
+  }
+  throw downloadError('Video download redirected too many times', 502);
+};
+
+const tooLargeError = () => downloadError(`Video is larger than the ${config.maxVideoBytes}-byte limit`, 502);
+
+// Passes the download through, failing it once more than maxVideoBytes have arrived. The
+// Content-Length header can be missing or wrong, so the bytes themselves are counted.
+const limitSize = () => {
+  let received = 0;
+  return new Transform({
+    transform(chunk, _encoding, callback) {
+      received += chunk.length;
+      callback(received > config.maxVideoBytes ? tooLargeError() : null, chunk);
+    },
+  });
+};
+
+const fill = async (log, req, key, url) => {
+  const response = await fetchVideo(url);
+  if (!response.ok) {
+    throw downloadError(`Failed to download: ${response.statusText}`, response.status, await response.text());
+  }
+  if (Number(response.headers.get('content-length')) > config.maxVideoBytes) {
+    await response.body?.cancel();
+    throw tooLargeError();
+  }
+
+  const path = join(config.dir, `${key}.mp4`);
+  const tmpPath = `${path}.tmp-${randomUUID()}`;
+  try {
+    await pipeline(response.body, limitSize(), createWriteStream(tmpPath));
+  } catch (error) {
+    deleteFiles(tmpPath);
+    throw error;
+  }
+
+  const contentType = response.headers.get('content-type') || 'video/mp4';
+  writeFileSync(`${path}.json`, JSON.stringify({ url, contentType }));
+  renameSync(tmpPath, path);
+
+  const entry = { path, url, contentType, size: statSync(path).size, lastAccessed: Date.now() };
+  entries.set(key, entry);
+  log('log', req, `📦 [VIDEO CACHE] Stored ${key.substring(0, 12)} (${entry.size} bytes)`);
+  evict(log, key);
+  return entry;
+};
+
+/**
+ * Returns the cache entry for `url`, downloading it first if needed. `url` must already have
+ * passed checkVideoUrl. Upstream failures are thrown with `status` and `details` set.
+ */
+export const getCachedVideo = async (log, req, url) => {
+  ensureLoaded(log);
+  const key = getCacheKey(url);
+
+  const cached = entries.get(key);
+  if (cached && existsSync(cached.path)) {
+    cached.lastAccessed = Date.now();
+    try {
+      // The file's mtime is the persisted LRU timestamp.
+      utimesSync(cached.path, new Date(), new Date(cached.lastAccessed));
+    } catch {
+      // Only affects eviction order after a restart.
+    }
+    return { entry: cached, cacheHit: true };
+  }
+  if (cached) entries.delete(key);
+
+  if (!pendingFills.has(key)) {
+    pendingFills.set(key, fill(log, req, key, url).finally(() => pendingFills.delete(key)));
+  }
+  return { entry: await pendingFills.get(key), cacheHit: false };
+};
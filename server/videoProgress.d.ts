@@ -0,0 +1,3 @@
+// Types for videoProgress.js, which the browser imports as well (services/proxySchemas.ts).
+
+export declare const getProgressPercent: (op: object) => number | null;
@@ -0,0 +1,25 @@
+// ===============================
+// 📊 VIDEO PROGRESS
+// ===============================
+// Reads a Veo operation's progress as a whole percentage. The proxy's server-side jobs and the
+// browser (services/proxySchemas.ts) both use this, so they read upstream payloads the same way.
+//
+// `progressPercent` is already a percentage (0-100), so 1 means 1%. Only `progress` is a 0-1
+// fraction.
+
+const toNumber = (raw) => {
+  const value = typeof raw === 'string' ? parseFloat(raw) : raw;
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
+
+const clampPercent = (value) => Math.min(100, Math.max(0, Math.round(value)));
+
+/**
+ * The operation's progress from 0 to 100, or null if it reports none.
+ */
+export const getProgressPercent = (op) => {
+  const percent = toNumber(op.operation?.metadata?.progressPercent ?? op.metadata?.progressPercent ?? op.progressPercent);
+  if (percent !== null) return clampPercent(percent);
+  const fraction = toNumber(op.operation?.metadata?.progress ?? op.metadata?.progress ?? op.progress);
+  return fraction !== null ? clampPercent(fraction * 100) : null;
+};
@@ -0,0 +1,331 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { requireSession } from './sessions.js';
+import { isSupabaseConfigured, supabaseRest } from './supabaseRest.js';
+
+// ===============================
+// 🛒 WOOCOMMERCE WEBHOOK
+// ===============================
+// Provisions users from WooCommerce order webhooks. A paid order (processing or completed)
+// creates or upgrades the buyer's `users` row according to the products bought; a refunded
+// or cancelled order that provisioned it downgrades it to inactive. Every delivery is recorded
+// in the woocommerce_events table with its outcome, and admins can replay one with
+// POST /api/woocommerce/events/:id/replay.
+//
+// An order is provisioned at most once, also when deliveries of it arrive at the same time on
+// one or several servers: the event that provisions it first inserts the order into the
+// woocommerce_provisions table, whose primary key is order_id. A second insert fails, and its
+// event is a duplicate. Revoking the order deletes the row, so a restored order provisions again.
+//
+// WooCommerce signs each delivery with X-WC-Webhook-Signature: base64(HMAC-SHA256(body)).
+// The raw body is kept by express.json's `verify` hook in index.js.
+//
+// Environment:
+//   WOOCOMMERCE_WEBHOOK_SECRET      Secret set on the webhook in WooCommerce (required)
+//   WOOCOMMERCE_PLANS               Product ID or SKU -> plan, comma-separated:
+//                                   `<product>=lifetime` or `<product>=subscription[:days]`,
+//                                   e.g. `1234=lifetime,MONO-YEAR=subscription:365`
+//   WOOCOMMERCE_SUBSCRIPTION_DAYS   Length of a subscription without explicit days (default 30)
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAID_ORDER_STATUSES = ['processing', 'completed'];
+const REVOKED_ORDER_STATUSES = ['refunded', 'cancelled'];
+const ORDER_TOPICS = ['order.created', 'order.updated', 'order.restored'];
+// Statuses a webhook never changes; they are managed by hand in the admin dashboard.
+const PROTECTED_USER_STATUSES = ['admin'];
+
+const parsePlans = (value, defaultDays) => {
+  const plans = new Map();
+  value.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const [product, plan] = entry.split('=');
+    const [status, days] = (plan || '').split(':');
+    if (!product || !['lifetime', 'subscription'].includes(status)) return;
+    plans.set(product.trim(), { status, days: status === 'subscription' ? Number(days) || defaultDays : null });
+  });
+  return plans;
+};
+
+const config = {
+  secret: process.env.WOOCOMMERCE_WEBHOOK_SECRET || '',
+  subscriptionDays: Number(process.env.WOOCOMMERCE_SUBSCRIPTION_DAYS ?? 30),
+};
+config.plans = parsePlans(process.env.WOOCOMMERCE_PLANS || '', config.subscriptionDays);
+
+const verifySignature = (rawBody, signature) => {
+  if (!config.secret || !rawBody || typeof signature !== 'string') return false;
+  const expected = Buffer.from(createHmac('sha256', config.secret).update(rawBody).digest('base64'));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const webhookError = (res, status, message, code) => res.status(status).json({ error: { code: status, message, status: code } });
+
+// ===============================
+// 🧾 ORDER -> PLAN
+// ===============================
+
+const getPlanRank = (plan) => plan.status === 'lifetime' ? Infinity : plan.days;
+
+// The best plan among the order's line items: lifetime beats any subscription, and the
+// longest subscription wins.
+const getOrderPlan = (order) => {
+  let best = null;
+  (order.line_items || []).forEach(item => {
+    const plan = config.plans.get(String(item.product_id)) || (item.sku && config.plans.get(item.sku));
+    if (plan && (!best || getPlanRank(plan) > getPlanRank(best))) best = plan;
+  });
+  return best;
+};
+
+const getBuyer = (order) => {
+  const billing = order.billing || {};
+  return {
+    email: (billing.email || '').trim().toLowerCase(),
+    phone: billing.phone || '',
+    fullName: [billing.first_name, billing.last_name].filter(Boolean).join(' ').trim() || null,
+  };
+};
+
+const findUser = async (email) => {
+  const rows = await supabaseRest(`users?select=id,status,subscription_expiry&email=eq.${encodeURIComponent(email)}&limit=1`);
+  return rows[0] || null;
+};
+
+// Claims the order for this event. Resolves to false if another event already provisioned it
+// (and it was not revoked since). WooCommerce sends an order several times (created, then
+// updated on each status change), and a subscription must only be extended once.
+const claimOrder = async (orderId, eventId) => {
+  try {
+    await supabaseRest('woocommerce_provisions', {
+      method: 'POST',
+      prefer: 'return=minimal',
+      body: { order_id: orderId, event_id: eventId },
+    });
+    return true;
+  } catch (error) {
+    if (error.status === 409) return false;
+    throw error;
+  }
+};
+
+// Removes the order's claim. Resolves to whether there was one, i.e. the order is provisioned.
+const releaseOrder = async (orderId) => {
+  const rows = await supabaseRest(`woocommerce_provisions?order_id=eq.${orderId}`, {
+    method: 'DELETE',
+    prefer: 'return=representation',
+  });
+  return (rows || []).length > 0;
+};
+
+// Creates or upgrades the buyer's user to `plan`.
+const applyPlan = async (buyer, plan) => {
+  const user = await findUser(buyer.email);
+  let subscriptionExpiry = null;
+  if (plan.status === 'subscription') {
+    // Renewals extend an active subscription instead of restarting it.
+    const currentExpiry = user?.status === 'subscription' && user.subscription_expiry ? new Date(user.subscription_expiry).getTime() : 0;
+    subscriptionExpiry = new Date(Math.max(currentExpiry, Date.now()) + plan.days * DAY_MS).toISOString();
+  }
+
+  if (!user) {
+    await supabaseRest('users', {
+      method: 'POST',
+      body: {
+        id: randomUUID(),
+        email: buyer.email,
+        phone: buyer.phone,
+        full_name: buyer.fullName,
+        role: 'user',
+        status: plan.status,
+        subscription_expiry: subscriptionExpiry,
+        total_image: 0,
+        total_video: 0,
+      },
+    });
+    return { outcome: 'provisioned', message: `Created ${plan.status} user.` };
+  }
+
+  if (PROTECTED_USER_STATUSES.includes(user.status) || (user.status === 'lifetime' && plan.status === 'subscription')) {
+    // Still counts as provisioned: the buyer already has at least this plan.
+    return { outcome: 'provisioned', message: `User is already ${user.status}; left unchanged.` };
+  }
+  await supabaseRest(`users?id=eq.${user.id}`, {
+    method: 'PATCH',
+    body: { status: plan.status, subscription_expiry: subscriptionExpiry },
+  });
+  return { outcome: 'provisioned', message: `Updated user to ${plan.status}${subscriptionExpiry ? ` until ${subscriptionExpiry}` : ''}.` };
+};
+
+const provisionUser = async (order, plan, eventId) => {
+  const buyer = getBuyer(order);
+  if (!buyer.email) return { outcome: 'ignored', message: 'The order has no billing email.' };
+  if (!(await claimOrder(order.id, eventId))) {
+    return { outcome: 'duplicate', message: `Order ${order.id} was already provisioned.` };
+  }
+  try {
+    return await applyPlan(buyer, plan);
+  } catch (error) {
+    // Let a replay of this event provision the order.
+    await releaseOrder(order.id);
+    throw error;
+  }
+};
+
+// Sets the buyer's user to inactive, unless they keep a better plan.
+const revokePlan = async (order, plan) => {
+  const buyer = getBuyer(order);
+  const user = buyer.email ? await findUser(buyer.email) : null;
+  if (!user) return { outcome: 'ignored', message: 'No user exists for this order.' };
+  if (PROTECTED_USER_STATUSES.includes(user.status) || (user.status === 'lifetime' && plan.status === 'subscription')) {
+    // A refunded subscription does not take away a lifetime plan bought separately.
+    return { outcome: 'ignored', message: `User is ${user.status}; left unchanged.` };
+  }
+  await supabaseRest(`users?id=eq.${user.id}`, {
+    method: 'PATCH',
+    body: { status: 'inactive', subscription_expiry: null },
+  });
+  return { outcome: 'downgraded', message: `Order ${order.status}; user set to inactive.` };
+};
+
+// Only an order that provisioned the buyer takes the plan away again. WooCommerce also cancels
+// orders that were never paid (e.g. a failed renewal), and those must not touch a plan that an
+// earlier order paid for.
+const downgradeUser = async (order, plan, eventId) => {
+  if (!(await releaseOrder(order.id))) {
+    return { outcome: 'ignored', message: `Order ${order.id} was never provisioned.` };
+  }
+  try {
+    return await revokePlan(order, plan);
+  } catch (error) {
+    // Let a replay of this event downgrade the buyer.
+    await claimOrder(order.id, eventId);
+    throw error;
+  }
+};
+
+const processOrderEvent = async (topic, order, eventId) => {
+  if (!ORDER_TOPICS.includes(topic)) return { outcome: 'ignored', message: `Topic ${topic} is not handled.` };
+  const plan = getOrderPlan(order);
+  if (!plan) return { outcome: 'ignored', message: 'No product in the order is mapped in WOOCOMMERCE_PLANS.' };
+  if (PAID_ORDER_STATUSES.includes(order.status)) return provisionUser(order, plan, eventId);
+  if (REVOKED_ORDER_STATUSES.includes(order.status)) return downgradeUser(order, plan, eventId);
+  return { outcome: 'ignored', message: `Order status ${order.status} needs no action.` };
+};
+
+// ===============================
+// 🗃️ EVENT LOG
+// ===============================
+
+const recordEvent = async ({ deliveryId, topic, order }) => {
+  const rows = await supabaseRest('woocommerce_events', {
+    method: 'POST',
+    prefer: 'return=representation',
+    body: {
+      delivery_id: deliveryId || null,
+      topic,
+      order_id: order?.id ?? null,
+      order_status: order?.status ?? null,
+      payload: order,
+      outcome: 'received',
+    },
+  });
+  return rows[0];
+};
+
+// Runs an event and saves the outcome on its row. Failures are saved too, so they can be replayed.
+const runEvent = async (log, req, event) => {
+  let result;
+  try {
+    result = await processOrderEvent(event.topic, event.payload || {}, event.id);
+  } catch (error) {
+    log('error', req, `❌ [WOOCOMMERCE] Event ${event.id} failed:`, error);
+    result = { outcome: 'failed', message: error.message };
+  }
+  await supabaseRest(`woocommerce_events?id=eq.${event.id}`, {
+    method: 'PATCH',
+    body: { outcome: result.outcome, message: result.message, processed_at: new Date().toISOString() },
+  });
+  log(result.outcome === 'failed' ? 'warn' : 'log', req, `🛒 [WOOCOMMERCE] Event ${event.id} (order ${event.order_id}): ${result.outcome} - ${result.message}`);
+  return result;
+};
+
+// Admin check for the event routes: a valid session whose user is an admin.
+const requireAdmin = async (req, res, next) => {
+  try {
+    const rows = await supabaseRest(`users?select=role&id=eq.${encodeURIComponent(req.session.userId)}&limit=1`);
+    if (rows[0]?.role !== 'admin') return webhookError(res, 403, 'Admins only.', 'PERMISSION_DENIED');
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Registers the webhook endpoint and the admin endpoints for reviewing and replaying events.
+ */
+export const registerWooCommerceRoutes = (app, log) => {
+  if (!config.secret) {
+    log('warn', null, '⚠️ [WOOCOMMERCE] WOOCOMMERCE_WEBHOOK_SECRET is not set. Webhook deliveries will be rejected.');
+  }
+  if (config.plans.size === 0) {
+    log('warn', null, '⚠️ [WOOCOMMERCE] WOOCOMMERCE_PLANS is empty. Orders will be recorded but not provisioned.');
+  }
+
+  const requireSupabase = (req, res, next) => {
+    if (!isSupabaseConfigured()) return webhookError(res, 503, 'The user database is not configured on this server.', 'UNAVAILABLE');
+    next();
+  };
+
+  // 📬 WEBHOOK DELIVERY
+  app.post('/api/woocommerce/webhook', requireSupabase, async (req, res) => {
+    const topic = req.headers['x-wc-webhook-topic'];
+    const deliveryId = req.headers['x-wc-webhook-delivery-id'];
+    // WooCommerce pings a new webhook with an unsigned `webhook_id=<n>` form post.
+    if (!topic && !req.headers['x-wc-webhook-signature']) {
+      log('log', req, '🛒 [WOOCOMMERCE] Ping received');
+      return res.json({ ok: true });
+    }
+    if (!verifySignature(req.rawBody, req.headers['x-wc-webhook-signature'])) {
+      log('warn', req, '🛒 [WOOCOMMERCE] Rejected delivery with an invalid signature');
+      return webhookError(res, 401, 'Invalid webhook signature.', 'UNAUTHENTICATED');
+    }
+
+    log('log', req, `🛒 [WOOCOMMERCE] ${topic} for order ${req.body?.id} (delivery ${deliveryId})`);
+    try {
+      const event = await recordEvent({ deliveryId, topic, order: req.body });
+      const result = await runEvent(log, req, event);
+      // A failed event is answered with 200 all the same: it is saved for replay, and
+      // WooCommerce disables webhooks that keep failing.
+      res.json({ eventId: event.id, ...result });
+    } catch (error) {
+      log('error', req, '❌ Proxy error (WOOCOMMERCE WEBHOOK):', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 📋 LIST EVENTS (admins)
+  app.get('/api/woocommerce/events', requireSupabase, requireSession, requireAdmin, async (req, res) => {
+    try {
+      const outcome = typeof req.query.outcome === 'string' ? `&outcome=eq.${encodeURIComponent(req.query.outcome)}` : '';
+      const limit = Math.min(Number(req.query.limit) || 50, 500);
+      const rows = await supabaseRest(`woocommerce_events?select=id,created_at,delivery_id,topic,order_id,order_status,outcome,message,processed_at&order=created_at.desc&limit=${limit}${outcome}`);
+      res.json({ events: rows });
+    } catch (error) {
+      log('error', req, '❌ Proxy error (WOOCOMMERCE EVENTS):', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 🔁 REPLAY EVENT (admins)
+  app.post('/api/woocommerce/events/:id/replay', requireSupabase, requireSession, requireAdmin, async (req, res) => {
+    try {
+      const rows = await supabaseRest(`woocommerce_events?select=*&id=eq.${encodeURIComponent(req.params.id)}&limit=1`);
+      const event = rows[0];
+      if (!event) return webhookError(res, 404, 'Event not found.', 'NOT_FOUND');
+      log('log', req, `🔁 [WOOCOMMERCE] Replaying event ${event.id}`);
+      res.json({ eventId: event.id, ...(await runEvent(log, req, event)) });
+    } catch (error) {
+      log('error', req, '❌ Proxy error (WOOCOMMERCE REPLAY):', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+};
@@ -0,0 +1,101 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { createServer } from 'http';
+import express from 'express';
+
+// Runs the webhook route against a fake PostgREST that records every request it gets.
+
+const SECRET = 'test-webhook-secret';
+const USER = { id: 'user-1', status: 'subscription', subscription_expiry: '2099-01-01T00:00:00.000Z' };
+
+let supabase;
+let proxy;
+let requests;
+let provisionedOrders;
+
+const startServer = (handler) => new Promise(resolve => {
+  const server = createServer(handler);
+  server.listen(0, '127.0.0.1', () => resolve(server));
+});
+
+const getUrl = (server) => `http://127.0.0.1:${server.address().port}`;
+
+const fakeSupabase = (req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const url = new URL(req.url, 'http://supabase');
+    const table = url.pathname.replace('/rest/v1/', '');
+    requests.push({ method: req.method, table, query: url.search, body: body ? JSON.parse(body) : null });
+
+    let rows = [];
+    if (table === 'woocommerce_events' && req.method === 'POST') rows = [{ id: requests.length, ...JSON.parse(body) }];
+    if (table === 'users' && req.method === 'GET') rows = [USER];
+    if (table === 'woocommerce_provisions' && req.method === 'DELETE') {
+      const orderId = Number(url.searchParams.get('order_id').replace('eq.', ''));
+      rows = provisionedOrders.delete(orderId) ? [{ order_id: orderId }] : [];
+    }
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(rows));
+  });
+};
+
+const sendOrder = async (order) => {
+  const body = JSON.stringify(order);
+  const response = await fetch(`${getUrl(proxy)}/api/woocommerce/webhook`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-WC-Webhook-Topic': 'order.updated',
+      'X-WC-Webhook-Signature': createHmac('sha256', SECRET).update(body).digest('base64'),
+    },
+    body,
+  });
+  return response.json();
+};
+
+const order = (status) => ({ id: 42, status, billing: { email: 'buyer@example.com' }, line_items: [{ product_id: 7 }] });
+
+const getUserUpdates = () => requests.filter(request => request.table.startsWith('users') && request.method === 'PATCH');
+
+before(async () => {
+  supabase = await startServer(fakeSupabase);
+  process.env.SUPABASE_URL = getUrl(supabase);
+  process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-role-key';
+  process.env.WOOCOMMERCE_WEBHOOK_SECRET = SECRET;
+  process.env.WOOCOMMERCE_PLANS = '7=subscription:30';
+
+  // The modules read their configuration when they are first imported.
+  const { registerWooCommerceRoutes } = await import('./wooCommerce.js');
+  const app = express();
+  app.use(express.json({ verify: (req, _res, buf) => { req.rawBody = buf; } }));
+  registerWooCommerceRoutes(app, () => {});
+  proxy = await startServer(app);
+});
+
+after(() => {
+  proxy.close();
+  supabase.close();
+});
+
+beforeEach(() => {
+  requests = [];
+  provisionedOrders = new Set();
+});
+
+test('cancelling an order that was never provisioned leaves the user alone', async () => {
+  const result = await sendOrder(order('cancelled'));
+
+  assert.equal(result.outcome, 'ignored');
+  assert.deepEqual(getUserUpdates(), []);
+});
+
+test('cancelling a provisioned order sets the user to inactive', async () => {
+  provisionedOrders.add(42);
+
+  const result = await sendOrder(order('cancelled'));
+
+  assert.equal(result.outcome, 'downgraded');
+  assert.deepEqual(getUserUpdates().map(request => request.body), [{ status: 'inactive', subscription_expiry: null }]);
+});
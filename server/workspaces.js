@@ -0,0 +1,224 @@
+import { randomUUID } from 'crypto';
+import { requireActiveSession } from './sessions.js';
+import { isSupabaseConfigured, supabaseRest, uploadStorageObject, signStorageObjects, removeStorageObjects } from './supabaseRest.js';
+
+// ===============================
+// 👥 WORKSPACES
+// ===============================
+// Team workspaces: a group of users with one owner, a shared gallery that members publish
+// their outputs to, and shared brand assets (logos, product shots). Files live in a private
+// Supabase Storage bucket under <workspace id>/<item id>; the gallery hands out short-lived
+// signed URLs. Membership is checked on every request, so removing a member cuts off access.
+//
+// Tables:
+//   workspaces          id (uuid), name, owner_id, created_at
+//   workspace_members   workspace_id, user_id, role ('owner' | 'member'), created_at
+//   workspace_items     id (uuid), workspace_id, category ('gallery' | 'brand'), type, prompt,
+//                       mime_type, storage_path, size_bytes, author_id, author_name,
+//                       source_created_at, created_at
+//
+// Environment:
+//   WORKSPACE_BUCKET          Storage bucket for shared files (default workspace-gallery)
+//   WORKSPACE_URL_TTL_S       Lifetime of signed download URLs (default 3600)
+//   WORKSPACE_MAX_ITEM_BYTES  Largest file a member may publish (default 35 MB)
+
+const ITEM_TYPES = ['Image', 'Canvas', 'Video', 'Audio'];
+const ITEM_CATEGORIES = ['gallery', 'brand'];
+const MAX_NAME_LENGTH = 80;
+const MAX_PROMPT_LENGTH = 4000;
+
+const config = {
+  bucket: process.env.WORKSPACE_BUCKET || 'workspace-gallery',
+  urlTtlSeconds: Number(process.env.WORKSPACE_URL_TTL_S ?? 3600),
+  maxItemBytes: Number(process.env.WORKSPACE_MAX_ITEM_BYTES ?? 35 * 1024 * 1024),
+};
+
+const workspaceError = (res, status, message, code) => res.status(status).json({ error: { code: status, message, status: code } });
+
+const EXTENSIONS = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'video/mp4': 'mp4', 'audio/wav': 'wav', 'audio/mpeg': 'mp3' };
+
+const getMembership = async (workspaceId, userId) => {
+  const rows = await supabaseRest(`workspace_members?select=role&workspace_id=eq.${encodeURIComponent(workspaceId)}&user_id=eq.${encodeURIComponent(userId)}&limit=1`);
+  return rows[0] || null;
+};
+
+// Express middleware: loads the caller's membership of :id into req.membership, or 404s so
+// non-members cannot tell whether a workspace exists.
+const requireMember = async (req, res, next) => {
+  try {
+    const membership = await getMembership(req.params.id, req.session.userId);
+    if (!membership) return workspaceError(res, 404, 'Workspace not found.', 'NOT_FOUND');
+    req.membership = membership;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+const requireOwner = (req, res, next) => {
+  if (req.membership?.role !== 'owner') return workspaceError(res, 403, 'Only the workspace owner can do this.', 'PERMISSION_DENIED');
+  next();
+};
+
+const withSignedUrls = async (items) => {
+  const urls = await signStorageObjects(config.bucket, items.map(item => item.storage_path), config.urlTtlSeconds);
+  return items.map(item => ({ ...item, url: urls.get(item.storage_path) || null }));
+};
+
+/**
+ * Registers the workspace, membership and shared gallery endpoints. Every route needs an
+ * active session (see sessions.js) and Supabase.
+ */
+export const registerWorkspaceRoutes = (app, log) => {
+  const requireSupabase = (req, res, next) => {
+    if (!isSupabaseConfigured()) return workspaceError(res, 503, 'Workspaces are not configured on this server.', 'UNAVAILABLE');
+    next();
+  };
+  const guard = [requireSupabase, requireActiveSession];
+
+  const handle = (label, handler) => async (req, res) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      log('error', req, `❌ Proxy error (WORKSPACE ${label}):`, error);
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  // 📋 MY WORKSPACES
+  app.get('/api/workspaces', ...guard, handle('LIST', async (req, res) => {
+    const memberships = await supabaseRest(`workspace_members?select=role,workspaces(id,name,owner_id,created_at)&user_id=eq.${encodeURIComponent(req.session.userId)}`);
+    res.json({
+      workspaces: memberships
+        .filter(membership => membership.workspaces)
+        .map(membership => ({ ...membership.workspaces, role: membership.role })),
+    });
+  }));
+
+  // ➕ CREATE WORKSPACE
+  app.post('/api/workspaces', ...guard, handle('CREATE', async (req, res) => {
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return workspaceError(res, 400, `A name of 1-${MAX_NAME_LENGTH} characters is required.`, 'INVALID_ARGUMENT');
+    }
+    const [workspace] = await supabaseRest('workspaces', {
+      method: 'POST',
+      body: { id: randomUUID(), name, owner_id: req.session.userId },
+      prefer: 'return=representation',
+    });
+    await supabaseRest('workspace_members', {
+      method: 'POST',
+      body: { workspace_id: workspace.id, user_id: req.session.userId, role: 'owner' },
+    });
+    log('log', req, `👥 [WORKSPACE] Created "${name}" (${workspace.id})`);
+    res.status(201).json({ workspace: { ...workspace, role: 'owner' } });
+  }));
+
+  // 👤 MEMBERS
+  app.get('/api/workspaces/:id/members', ...guard, requireMember, handle('MEMBERS', async (req, res) => {
+    const members = await supabaseRest(`workspace_members?select=user_id,role,created_at,users(email,full_name)&workspace_id=eq.${encodeURIComponent(req.params.id)}&order=created_at.asc`);
+    res.json({
+      members: members.map(member => ({
+        userId: member.user_id,
+        role: member.role,
+        email: member.users?.email || null,
+        fullName: member.users?.full_name || null,
+        addedAt: member.created_at,
+      })),
+    });
+  }));
+
+  app.post('/api/workspaces/:id/members', ...guard, requireMember, requireOwner, handle('ADD MEMBER', async (req, res) => {
+    const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+    if (!email) return workspaceError(res, 400, 'Email is required.', 'INVALID_ARGUMENT');
+    const [user] = await supabaseRest(`users?select=id&email=eq.${encodeURIComponent(email)}&limit=1`);
+    if (!user) return workspaceError(res, 404, 'No user is registered with this email.', 'NOT_FOUND');
+    if (await getMembership(req.params.id, user.id)) {
+      return workspaceError(res, 409, 'This user is already a member.', 'ALREADY_EXISTS');
+    }
+    await supabaseRest('workspace_members', {
+      method: 'POST',
+      body: { workspace_id: req.params.id, user_id: user.id, role: 'member' },
+    });
+    log('log', req, `👥 [WORKSPACE] Added ${email} to ${req.params.id}`);
+    res.status(201).json({ ok: true });
+  }));
+
+  // Owners remove members; members may remove themselves (leave). The owner cannot leave.
+  app.delete('/api/workspaces/:id/members/:userId', ...guard, requireMember, handle('REMOVE MEMBER', async (req, res) => {
+    const isSelf = req.params.userId === req.session.userId;
+    if (!isSelf && req.membership.role !== 'owner') {
+      return workspaceError(res, 403, 'Only the workspace owner can remove members.', 'PERMISSION_DENIED');
+    }
+    if (isSelf && req.membership.role === 'owner') {
+      return workspaceError(res, 400, 'The owner cannot leave their own workspace.', 'FAILED_PRECONDITION');
+    }
+    await supabaseRest(`workspace_members?workspace_id=eq.${encodeURIComponent(req.params.id)}&user_id=eq.${encodeURIComponent(req.params.userId)}&role=eq.member`, { method: 'DELETE' });
+    log('log', req, `👥 [WORKSPACE] Removed user ${req.params.userId} from ${req.params.id}`);
+    res.json({ ok: true });
+  }));
+
+  // 🖼️ SHARED GALLERY
+  app.get('/api/workspaces/:id/items', ...guard, requireMember, handle('ITEMS', async (req, res) => {
+    const category = ITEM_CATEGORIES.includes(req.query.category) ? `&category=eq.${req.query.category}` : '';
+    const items = await supabaseRest(`workspace_items?select=*&workspace_id=eq.${encodeURIComponent(req.params.id)}${category}&order=created_at.desc&limit=200`);
+    res.json({ items: await withSignedUrls(items) });
+  }));
+
+  // Body: { category, type, prompt, mimeType, data (base64), sourceCreatedAt? }
+  app.post('/api/workspaces/:id/items', ...guard, requireMember, handle('PUBLISH', async (req, res) => {
+    const { category = 'gallery', type, prompt = '', mimeType, data, sourceCreatedAt } = req.body || {};
+    if (!ITEM_CATEGORIES.includes(category)) return workspaceError(res, 400, `category must be one of ${ITEM_CATEGORIES.join(', ')}.`, 'INVALID_ARGUMENT');
+    if (!ITEM_TYPES.includes(type)) return workspaceError(res, 400, `type must be one of ${ITEM_TYPES.join(', ')}.`, 'INVALID_ARGUMENT');
+    if (!EXTENSIONS[mimeType]) return workspaceError(res, 400, `Unsupported file type: ${mimeType}.`, 'INVALID_ARGUMENT');
+    if (typeof data !== 'string' || !data) return workspaceError(res, 400, 'data (base64) is required.', 'INVALID_ARGUMENT');
+
+    const buffer = Buffer.from(data, 'base64');
+    if (buffer.length > config.maxItemBytes) {
+      return workspaceError(res, 413, `Files larger than ${Math.round(config.maxItemBytes / 1024 / 1024)} MB cannot be shared.`, 'INVALID_ARGUMENT');
+    }
+
+    const id = randomUUID();
+    const storagePath = `${req.params.id}/${id}.${EXTENSIONS[mimeType]}`;
+    await uploadStorageObject(config.bucket, storagePath, buffer, mimeType);
+    try {
+      const [item] = await supabaseRest('workspace_items', {
+        method: 'POST',
+        body: {
+          id,
+          workspace_id: req.params.id,
+          category,
+          type,
+          prompt: String(prompt).substring(0, MAX_PROMPT_LENGTH),
+          mime_type: mimeType,
+          storage_path: storagePath,
+          size_bytes: buffer.length,
+          author_id: req.session.userId,
+          author_name: req.session.username,
+          source_created_at: Number.isFinite(sourceCreatedAt) ? new Date(sourceCreatedAt).toISOString() : null,
+        },
+        prefer: 'return=representation',
+      });
+      log('log', req, `🖼️ [WORKSPACE] Published ${type} to ${req.params.id} (${category}, ${buffer.length} bytes)`);
+      const [signed] = await withSignedUrls([item]);
+      res.status(201).json({ item: signed });
+    } catch (error) {
+      // Don't leave an orphaned file behind when the row could not be written.
+      await removeStorageObjects(config.bucket, [storagePath]).catch(() => {});
+      throw error;
+    }
+  }));
+
+  // Authors remove their own items; the owner can remove any.
+  app.delete('/api/workspaces/:id/items/:itemId', ...guard, requireMember, handle('DELETE ITEM', async (req, res) => {
+    const [item] = await supabaseRest(`workspace_items?select=id,author_id,storage_path&id=eq.${encodeURIComponent(req.params.itemId)}&workspace_id=eq.${encodeURIComponent(req.params.id)}&limit=1`);
+    if (!item) return workspaceError(res, 404, 'Item not found.', 'NOT_FOUND');
+    if (item.author_id !== req.session.userId && req.membership.role !== 'owner') {
+      return workspaceError(res, 403, 'Only the author or the workspace owner can remove this item.', 'PERMISSION_DENIED');
+    }
+    await supabaseRest(`workspace_items?id=eq.${encodeURIComponent(item.id)}`, { method: 'DELETE' });
+    await removeStorageObjects(config.bucket, [item.storage_path]);
+    log('log', req, `🗑️ [WORKSPACE] Removed item ${item.id} from ${req.params.id}`);
+    res.json({ ok: true });
+  }));
+};
@@ -7,9 +7,30 @@ export const MODELS = {
   text: 'gemini-2.5-flash',
   imageGeneration: 'imagen-4.0-generate-001',
   imageEdit: 'IMAGEN_RECIPE', // Represents all Imagen V3 recipe-based edits
+  tts: 'gemini-2.5-flash-preview-tts',
   videoGenerationDefault: 'veo-3.1-fast-generate-001',
   videoGenerationOptions: [
     { id: 'veo-3.1-fast-generate-001', label: 'Veo 3 (Fast)' },
     { id: 'veo-3.1-generate-001', label: 'Veo 3 (Standard)' },
   ],
 };
+
+/**
+ * Controls how long and how often Veo operations are polled for completion.
+ * The interval grows by `backoffMultiplier` after every check, capped at `maxIntervalMs`.
+ */
+export interface PollingPolicy {
+  initialIntervalMs: number;
+  maxIntervalMs: number;
+  backoffMultiplier: number;
+  maxWaitMs: number; // Hard wall-clock deadline for the whole polling phase
+  maxConsecutiveEmptyResponses: number;
+}
+
+export const VEO_POLLING_POLICY: PollingPolicy = {
+  initialIntervalMs: 10000,
+  maxIntervalMs: 30000,
+  backoffMultiplier: 1.5,
+  maxWaitMs: 15 * 60 * 1000,
+  maxConsecutiveEmptyResponses: 5,
+};
@@ -2,6 +2,7 @@ import { type AiLogItem } from '../types';
 import { supabase } from './supabaseClient';
 import { dbGetLogs, dbClearLogs, dbAddAndPruneLogEntry } from './indexedDBService';
 import { logActivity } from './userService';
+import { getSessionUser } from './authService';
 
 const MAX_LOG_ITEMS = 50;
 
@@ -10,16 +11,9 @@ const MAX_LOG_ITEMS = 50;
  * @returns {string | null} The user's ID or null if not authenticated.
  */
 const getCurrentUserId = (): string | null => {
-    try {
-        const savedUserJson = localStorage.getItem('currentUser');
-        if (savedUserJson) {
-            const user = JSON.parse(savedUserJson);
-            if (user && user.id) {
-                return user.id;
-            }
-        }
-    } catch (error) {
-        console.error("Failed to parse user from localStorage for AI log.", error);
+    const user = getSessionUser();
+    if (user) {
+        return user.id;
     }
     console.error("User not authenticated, cannot access AI log.");
     return null;
@@ -1,6 +1,12 @@
+import { v4 as uuidv4 } from 'uuid';
 import { addLogEntry } from './aiLogService';
-import { type User } from '../types';
 import { supabase } from './supabaseClient';
+import { abortableDelay, isAbortError, throwIfAborted } from '../utils/abortUtils';
+import { updateTokenStatusToExpired } from './userService';
+import { recordSuccess, recordFailure, markTokenExpired, getHealthScore, isCircuitOpen } from './healthRegistryService';
+import { ANY_VAULT_TOKEN, getVaultAuthHeaders, isVaultToken, toVaultToken } from './tokenVaultService';
+import { AuthSessionError, getSessionUser, invalidateSessionToken } from './authService';
+import { ensureCredits, getCreditOperation, markCreditsChanged } from './creditService';
 
 // Default fallback servers if session is empty
 const FALLBACK_SERVERS = [
@@ -33,59 +39,137 @@ export const getImagenProxyUrl = (): string => {
   return 'https://gemx.monoklix.com';
 };
 
-const getPersonalToken = (): { token: string; createdAt: string; } | null => {
+// Server URL -> features advertised on its /health endpoint
+const FEATURE_CACHE_TTL_MS = 5 * 60 * 1000;
+const proxyFeatureCache = new Map<string, { features: string[]; fetchedAt: number }>();
+
+/**
+ * Checks whether a proxy server advertises an optional feature (e.g. 'veo-jobs') on /health.
+ * Servers that are unreachable or predate feature flags are treated as not supporting it.
+ */
+export const proxySupportsFeature = async (serverUrl: string, feature: string): Promise<boolean> => {
+    const cached = proxyFeatureCache.get(serverUrl);
+    if (cached && Date.now() - cached.fetchedAt < FEATURE_CACHE_TTL_MS) {
+        return cached.features.includes(feature);
+    }
+    let features: string[] = [];
     try {
-        const userJson = localStorage.getItem('currentUser');
-        if (userJson) {
-            const user = JSON.parse(userJson);
-            if (user && user.personalAuthToken) {
-                return { token: user.personalAuthToken, createdAt: 'personal' };
-            }
+        const response = await fetch(`${serverUrl}/health`);
+        if (response.ok) {
+            const data = await response.json();
+            features = Array.isArray(data.features) ? data.features : [];
         }
     } catch (e) {
-        console.error("Could not parse user from localStorage to get personal token", e);
+        console.warn(`[API Client] Could not read features from ${serverUrl}/health`, e);
     }
-    return null;
+    proxyFeatureCache.set(serverUrl, { features, fetchedAt: Date.now() });
+    return features.includes(feature);
 };
 
-// Helper to get tokens from the shared pool
-const getSharedTokensFromSession = (): { token: string; createdAt: string }[] => {
-    try {
-        const tokensJSON = sessionStorage.getItem('veoAuthTokens');
-        if (tokensJSON) {
-            const parsed = JSON.parse(tokensJSON);
-            if (Array.isArray(parsed)) {
-                // Sort by newest first
-                return parsed.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-            }
-        }
-    } catch (e) {
-        console.warn("Failed to parse shared tokens from session:", e);
+const getPersonalToken = (): { token: string; createdAt: string; } | null => {
+    const user = getSessionUser();
+    return user?.personalAuthToken ? { token: user.personalAuthToken, createdAt: 'personal' } : null;
+};
+
+// Vault attempts per server. Each one may get a different pool token, because the vault
+// cools down tokens that just failed.
+const VAULT_ATTEMPTS_CURRENT_SERVER = 3;
+const VAULT_ATTEMPTS_BACKUP_SERVER = 1;
+
+const isExpiredTokenError = (status: number, lowerMsg: string): boolean => {
+    return status === 401
+        || lowerMsg.includes('invalid authentication credentials')
+        || lowerMsg.includes('unauthenticated');
+};
+
+// Records the outcome of a failed attempt against the token or the server, whichever is to blame.
+// Pool tokens are tracked by the vault itself, so only server failures are recorded for them.
+const recordAttemptFailure = (attempt: { token: string; serverUrl: string }, status: number, lowerMsg: string) => {
+    if (isVaultToken(attempt.token)) {
+        if (status >= 500) recordFailure('server', attempt.serverUrl);
+    } else if (isExpiredTokenError(status, lowerMsg)) {
+        console.warn(`[API Client] 🔑 Token ...${attempt.token.slice(-6)} looks expired. Reporting it.`);
+        markTokenExpired(attempt.token);
+        updateTokenStatusToExpired(attempt.token).catch(err => console.error('Failed to report expired token:', err));
+    } else if (status >= 500) {
+        recordFailure('server', attempt.serverUrl);
+    } else {
+        recordFailure('token', attempt.token);
     }
-    return [];
 };
 
-const getCurrentUserInternal = (): User | null => {
-    try {
-        const savedUserJson = localStorage.getItem('currentUser');
-        if (savedUserJson) {
-            const user = JSON.parse(savedUserJson) as User;
-            if (user && user.id) {
-                return user;
-            }
-        }
-    } catch (error) {
-        console.error("Failed to parse user from localStorage for activity log.", error);
+/**
+ * Thrown when the proxy answers with an error. Carries the proxy's X-Request-Id so the failure
+ * can be matched to the server logs.
+ */
+export class ProxyRequestError extends Error {
+    constructor(message: string, public readonly status: number, public readonly requestId: string | null) {
+        super(message);
+        this.name = 'ProxyRequestError';
+    }
+}
+
+// A vault request succeeded but the response did not name its pool token.
+class MissingVaultTokenError extends ProxyRequestError {
+    constructor(requestId: string | null) {
+        super('The proxy did not say which pool token it used, so the result cannot be followed up.', 502, requestId);
+        this.name = 'MissingVaultTokenError';
     }
-    return null;
+}
+
+/**
+ * Returns the proxy request ID attached to an error, if there is one.
+ */
+export const getProxyRequestId = (error: unknown): string | undefined => {
+    return error instanceof ProxyRequestError && error.requestId ? error.requestId : undefined;
+};
+
+// --- RATE LIMIT COOLDOWNS ---
+// The proxy answers 429 with Retry-After when a user or token limit is hit. Its error says
+// which: a 'user' limit applies to every token on that server, a 'token' limit only to that
+// token there. A 429 without a scope comes from upstream (token quota), so the token is
+// cooled down on every server.
+const DEFAULT_RETRY_AFTER_MS = 30 * 1000;
+const MAX_RETRY_AFTER_WAIT_MS = 60 * 1000;
+const rateLimitCooldowns = new Map<string, number>(); // key -> epoch ms when the attempt may retry
+
+const parseRetryAfter = (header: string | null): number => {
+    if (!header) return DEFAULT_RETRY_AFTER_MS;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? DEFAULT_RETRY_AFTER_MS : Math.max(0, date - Date.now());
+};
+
+const getCooldownKeys = (attempt: { token: string; serverUrl: string }) => [
+    `user@${attempt.serverUrl}`,
+    `${attempt.token}@${attempt.serverUrl}`,
+    `${attempt.token}@*`,
+];
+
+const getCooldownRemainingMs = (attempt: { token: string; serverUrl: string }): number => {
+    const now = Date.now();
+    return Math.max(0, ...getCooldownKeys(attempt).map(key => (rateLimitCooldowns.get(key) ?? 0) - now));
+};
+
+const markRateLimited = (attempt: { token: string; serverUrl: string }, scope: string | undefined, retryAfterMs: number) => {
+    const [userKey, tokenKey, upstreamKey] = getCooldownKeys(attempt);
+    const key = scope === 'user' ? userKey : scope === 'token' ? tokenKey : upstreamKey;
+    rateLimitCooldowns.set(key, Math.max(rateLimitCooldowns.get(key) ?? 0, Date.now() + retryAfterMs));
 };
 
+/**
+ * Creates a key that identifies one logical generation across retries and failover, so the
+ * proxy can return the original operation instead of starting a duplicate.
+ */
+export const createIdempotencyKey = (): string => uuidv4();
+
 // --- EXECUTE REQUEST WITH ROBUST FAILOVER ---
 
 interface RequestAttempt {
     token: string;
     serverUrl: string;
-    source: 'Specific' | 'Personal' | 'Pool';
+    source: 'Specific' | 'Personal' | 'Vault';
 }
 
 export const executeProxiedRequest = async (
@@ -94,28 +178,42 @@ export const executeProxiedRequest = async (
   requestBody: any,
   logContext: string,
   specificToken?: string,
-  onStatusUpdate?: (status: string) => void
-): Promise<{ data: any; successfulToken: string }> => {
+  onStatusUpdate?: (status: string) => void,
+  signal?: AbortSignal,
+  idempotencyKey?: string
+): Promise<{ data: any; successfulToken: string; serverUrl: string; requestId: string | null }> => {
   console.log(`[API Client] Starting process for: ${logContext}`);
+  throwIfAborted(signal);
   
   const currentServerUrl = serviceType === 'veo' ? getVeoProxyUrl() : getImagenProxyUrl();
 
-  // 1. Acquire Server Slot (Rate Limiting at Server Level)
+  // 1. Check Credits
+  // Pool generations are charged by the proxy; requests on the user's own token are free.
+  const apiPath = `/api/${serviceType}${relativePath}`;
+  const isCharged = getCreditOperation(apiPath, requestBody) !== null;
+  const usesOwnToken = specificToken ? !isVaultToken(specificToken) : !!getPersonalToken();
+  if (isCharged && !usesOwnToken) {
+    await ensureCredits(currentServerUrl, apiPath, requestBody);
+  }
+
+  // 2. Acquire Server Slot (Rate Limiting at Server Level)
   const isGenerationRequest = logContext.includes('GENERATE') || logContext.includes('RECIPE');
   
   if (isGenerationRequest) {
     if (onStatusUpdate) onStatusUpdate('Queueing...');
     await supabase.rpc('request_generation_slot', { cooldown_seconds: 10, server_url: currentServerUrl });
+    throwIfAborted(signal);
     if (onStatusUpdate) onStatusUpdate('Processing...');
   }
   
-  // 2. Build Attempt Strategy List
+  // 3. Build Attempt Strategy List
   let attempts: RequestAttempt[] = [];
   const usedAttempts = new Set<string>(); // To prevent duplicate token+server pairs
 
   const addAttempt = (attempt: RequestAttempt) => {
       const key = `${attempt.token.slice(-6)}@${attempt.serverUrl}`;
-      if (!usedAttempts.has(key)) {
+      // Repeated vault attempts are allowed: the vault picks the token each time.
+      if (attempt.source === 'Vault' || !usedAttempts.has(key)) {
           attempts.push(attempt);
           usedAttempts.add(key);
       }
@@ -129,59 +227,96 @@ export const executeProxiedRequest = async (
       addAttempt({ token: specificToken, serverUrl: currentServerUrl, source: 'Specific' });
   } else {
       // SCENARIO B: Robust User Generation (The "Bulletproof" Logic)
+      // The shared pool lives in each server's token vault, which picks and rotates tokens.
       const personal = getPersonalToken();
-      const allSharedTokens = getSharedTokensFromSession();
-      const newestPoolTokens = allSharedTokens.slice(0, 10); // Get 10 newest
-      const shuffledPool = [...newestPoolTokens].sort(() => 0.5 - Math.random()); // Shuffle for load balancing
+      const addVaultAttempts = (serverUrl: string, count: number) => {
+          for (let n = 0; n < count; n++) {
+              addAttempt({ token: ANY_VAULT_TOKEN, serverUrl, source: 'Vault' });
+          }
+      };
 
       // PHASE 1: Try on Current Server
       if (personal) {
           addAttempt({ token: personal.token, serverUrl: currentServerUrl, source: 'Personal' });
       }
-      shuffledPool.forEach(t => {
-          addAttempt({ token: t.token, serverUrl: currentServerUrl, source: 'Pool' });
-      });
+      addVaultAttempts(currentServerUrl, VAULT_ATTEMPTS_CURRENT_SERVER);
 
       // PHASE 2: Try on Backup Servers
       const otherServers = FALLBACK_SERVERS.filter(s => s !== currentServerUrl);
-      const backupServers = [...otherServers].sort(() => 0.5 - Math.random()).slice(0, 2); // Pick 2 random backups
+      const backupServers = [...otherServers]
+          .sort(() => 0.5 - Math.random())
+          .sort((a, b) => getHealthScore('server', b) - getHealthScore('server', a))
+          .slice(0, 2); // Pick the 2 healthiest backups, random among equals
 
       backupServers.forEach(backupServer => {
           if (personal) {
               addAttempt({ token: personal.token, serverUrl: backupServer, source: 'Personal' });
           }
-          // Try top 3 from shuffled pool on backup server
-          shuffledPool.slice(0, 3).forEach(t => {
-              addAttempt({ token: t.token, serverUrl: backupServer, source: 'Pool' });
-          });
+          addVaultAttempts(backupServer, VAULT_ATTEMPTS_BACKUP_SERVER);
       });
   }
 
-  if (attempts.length === 0) {
-      throw new Error(`No authentication tokens found. Please claim a token in Settings.`);
-  }
+  // Circuit breaker: tokens or servers that keep failing are only tried as a last resort.
+  const isBlocked = (attempt: RequestAttempt) => isCircuitOpen('token', attempt.token) || isCircuitOpen('server', attempt.serverUrl);
+  attempts = [...attempts.filter(a => !isBlocked(a)), ...attempts.filter(isBlocked)];
 
-  const currentUser = getCurrentUserInternal();
+  const currentUser = getSessionUser();
   let lastError: any = new Error("Unknown error");
+  // Idempotency keys are remembered per server. After an ambiguous error (no response, or a
+  // gateway error) the generation may already be running there, so it is repeated there once
+  // and never sent to another server, which does not know the key and would start a second one.
+  const repeatedAttempts = new Set<RequestAttempt>();
+  const isAmbiguousStatus = (status: number) => status === 502 || status === 504;
+  const stayOnServer = (i: number, attempt: RequestAttempt) => {
+      attempts = [...attempts.slice(0, i + 1), ...attempts.slice(i + 1).filter(a => a.serverUrl === attempt.serverUrl)];
+      if (!repeatedAttempts.has(attempt)) {
+          repeatedAttempts.add(attempt);
+          attempts.splice(i + 1, 0, attempt);
+      }
+  };
 
-  // 3. Execute the Strategy Loop
+  // 4. Execute the Strategy Loop
   for (let i = 0; i < attempts.length; i++) {
+      // Honor Retry-After: run an attempt that is not cooling down next, or wait for this one.
+      const cooldownMs = getCooldownRemainingMs(attempts[i]);
+      if (cooldownMs > 0) {
+          const readyIndex = attempts.findIndex((a, j) => j > i && getCooldownRemainingMs(a) === 0);
+          if (readyIndex !== -1) {
+              attempts.splice(i, 0, ...attempts.splice(readyIndex, 1));
+          } else {
+              const waitMs = Math.min(cooldownMs, MAX_RETRY_AFTER_WAIT_MS);
+              console.log(`[API Client] 🚦 All remaining attempts are rate limited. Waiting ${Math.ceil(waitMs / 1000)}s...`);
+              if (onStatusUpdate) onStatusUpdate(`Rate limited. Retrying in ${Math.ceil(waitMs / 1000)}s...`);
+              await abortableDelay(waitMs, signal);
+              if (onStatusUpdate) onStatusUpdate('Processing...');
+          }
+      }
+
       const attempt = attempts[i];
-      const isLastAttempt = i === attempts.length - 1;
+      let isLastAttempt = i === attempts.length - 1;
+      const attemptStartedAt = Date.now();
+      let responseReceived = false;
       
       try {
           const endpoint = `${attempt.serverUrl}/api/${serviceType}${relativePath}`;
           console.log(`[API Client] Attempt ${i + 1}/${attempts.length} | ${attempt.source} Token | Server: ${attempt.serverUrl}`);
 
+          const authHeaders: Record<string, string> = isVaultToken(attempt.token)
+              ? await getVaultAuthHeaders(attempt.token)
+              : { 'Authorization': `Bearer ${attempt.token}` };
           const response = await fetch(endpoint, {
               method: 'POST',
               headers: {
                   'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${attempt.token}`,
+                  ...authHeaders,
                   'x-user-username': currentUser?.username || 'unknown',
+                  ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
               },
               body: JSON.stringify(requestBody),
+              signal,
           });
+          responseReceived = true;
+          const requestId = response.headers.get('x-request-id');
 
           let data;
           const textResponse = await response.text();
@@ -196,20 +331,94 @@ export const executeProxiedRequest = async (
               const errorMessage = data.error?.message || data.message || `API call failed (${status})`;
               const lowerMsg = errorMessage.toLowerCase();
 
+              if (data.error?.status === 'SESSION_INVALID') {
+                  // The access token was revoked or expired early; the next attempt renews it, or logs out.
+                  invalidateSessionToken();
+                  console.warn(`[API Client] 🔐 Session rejected by ${attempt.serverUrl} (request ${requestId}). Trying next...`);
+                  if (isLastAttempt) throw new ProxyRequestError(errorMessage, status, requestId);
+                  continue;
+              }
+
+              if (status === 402) {
+                  // Out of credits. Every server reads the same ledger, so failing over won't help.
+                  console.warn(`[API Client] 🪙 Not enough credits (request ${requestId}).`);
+                  markCreditsChanged();
+                  throw new ProxyRequestError(errorMessage, status, requestId);
+              }
+
+              if (status === 429) {
+                  const scope: string | undefined = data.error?.scope;
+                  const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+                  // An upstream quota error on a pool token is handled by the vault, which cools that token down.
+                  if (scope || !isVaultToken(attempt.token)) markRateLimited(attempt, scope, retryAfterMs);
+                  // The proxy's own limits say nothing about token health; an upstream quota error does.
+                  if (!scope) recordAttemptFailure(attempt, status, lowerMsg);
+                  console.warn(`[API Client] 🚦 Attempt ${i + 1} rate limited (${scope || 'upstream'}, retry after ${Math.ceil(retryAfterMs / 1000)}s, request ${requestId}). Trying next...`);
+                  if (isLastAttempt) throw new ProxyRequestError(errorMessage, status, requestId);
+                  continue;
+              }
+
               if (status === 400 || lowerMsg.includes('safety') || lowerMsg.includes('blocked')) {
-                  console.warn(`[API Client] 🛑 Non-retriable error (${status}). Prompt issue.`);
-                  throw new Error(errorMessage);
+                  console.warn(`[API Client] 🛑 Non-retriable error (${status}). Prompt issue. Request ID: ${requestId}`);
+                  throw new ProxyRequestError(errorMessage, status, requestId);
+              }
+
+              recordAttemptFailure(attempt, status, lowerMsg);
+
+              if (idempotencyKey && isAmbiguousStatus(status)) {
+                  stayOnServer(i, attempt);
+                  isLastAttempt = i === attempts.length - 1;
               }
 
-              console.warn(`[API Client] ⚠️ Attempt ${i + 1} failed (${status}). Trying next...`);
-              if (isLastAttempt) throw new Error(errorMessage);
+              console.warn(`[API Client] ⚠️ Attempt ${i + 1} failed (${status}, request ${requestId}). Trying next...`);
+              if (isLastAttempt) throw new ProxyRequestError(errorMessage, status, requestId);
               continue;
           }
 
-          console.log(`✅ [API Client] Success using ${attempt.source} token on ${attempt.serverUrl}`);
-          return { data, successfulToken: attempt.token };
+          // Follow-up steps must reach the same pool token, so vault attempts report its ID.
+          const vaultTokenId = response.headers.get('x-vault-token-id');
+          if (isVaultToken(attempt.token) && !vaultTokenId) {
+              throw new MissingVaultTokenError(requestId);
+          }
+
+          const latencyMs = Date.now() - attemptStartedAt;
+          if (!isVaultToken(attempt.token)) recordSuccess('token', attempt.token, latencyMs);
+          recordSuccess('server', attempt.serverUrl, latencyMs);
+          const replayed = response.headers.get('idempotent-replayed') === 'true';
+          const successfulToken = isVaultToken(attempt.token) ? toVaultToken(vaultTokenId) : attempt.token;
+          console.log(`✅ [API Client] Success using ${attempt.source} token on ${attempt.serverUrl} (request ${requestId}${replayed ? ', replayed' : ''})`);
+          if (isCharged) markCreditsChanged();
+          return { data, successfulToken, serverUrl: attempt.serverUrl, requestId };
 
       } catch (error) {
+          // Cancellation is not a token or server failure: stop immediately without failover or logging.
+          if (isAbortError(error)) {
+              console.log(`[API Client] 🚫 Request cancelled: ${logContext}`);
+              throw error;
+          }
+
+          // Without a session no other server will answer differently.
+          if (error instanceof AuthSessionError && error.status === 401) {
+              throw error;
+          }
+          if (error instanceof ProxyRequestError && error.status === 402) {
+              throw error;
+          }
+          // The request went through, so another attempt could start a second operation.
+          if (error instanceof MissingVaultTokenError) {
+              throw error;
+          }
+
+          if (!responseReceived) {
+              // fetch() itself failed: the server is unreachable, not the token's fault.
+              recordFailure('server', attempt.serverUrl);
+              if (idempotencyKey) {
+                  stayOnServer(i, attempt);
+                  isLastAttempt = i === attempts.length - 1;
+                  console.warn(`[API Client] 🔁 Network error on ${attempt.serverUrl}. Staying on this server with the same idempotency key...`);
+              }
+          }
+
           lastError = error;
           const errMsg = error instanceof Error ? error.message : String(error);
           if (errMsg.includes('400') || errMsg.toLowerCase().includes('safety')) {
@@ -225,7 +434,8 @@ export const executeProxiedRequest = async (
                       output: errMsg, 
                       tokenCount: 0, 
                       status: 'Error', 
-                      error: errMsg 
+                      error: errMsg,
+                      requestId: getProxyRequestId(error),
                   });
               }
               throw lastError;
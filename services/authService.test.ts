@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('./supabaseClient', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+// The tests run in Node, so the browser APIs authService uses are stubbed.
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); },
+});
+vi.stubGlobal('window', { location: { hostname: 'localhost' } });
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+import {
+  verifyLoginCode,
+  getSessionUser,
+  signOut,
+} from './authService';
+
+const respondWith = (status: number, body: object) => {
+  mockFetch.mockImplementation(() => Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: () => null },
+    json: () => Promise.resolve(body),
+  }));
+};
+
+describe('authService', () => {
+  beforeEach(() => {
+    // Clear all mocks and the stored session before each test
+    vi.clearAllMocks();
+    signOut();
+  });
+
+  describe('verifyLoginCode', () => {
+    it('should store the session and return the user when the code is correct', async () => {
+      const mockProfile = {
+        id: 'user-123',
+        email: 'test@example.com',
+        created_at: new Date().toISOString(),
+        full_name: 'Test User',
+        phone: '12345',
+        role: 'user',
+        status: 'lifetime',
+        api_key: null,
+        avatar_url: null,
+        subscription_expiry: null,
+        webhook_url: null,
+      };
+      respondWith(200, {
+        sessionToken: 'access',
+        expiresAt: Date.now() + 15 * 60 * 1000,
+        refreshToken: 'refresh',
+        refreshExpiresAt: Date.now() + 7 * 24 * 60 * 60 * 1000,
+        user: mockProfile,
+      });
+
+      const result = await verifyLoginCode(' Test@Example.com ', '123456');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse((mockFetch.mock.calls[0][1] as any).body)).toEqual({ email: 'test@example.com', code: '123456' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.user.email).toBe('test@example.com');
+      }
+      expect(getSessionUser()?.id).toBe('user-123');
+    });
+
+    it('should fail to log in if the code is wrong', async () => {
+      respondWith(401, {
+        error: { code: 401, message: 'That code is not correct.', status: 'INVALID_CODE', reason: 'invalidCode', attemptsLeft: 4 },
+      });
+
+      const result = await verifyLoginCode('test@example.com', '000000');
+
+      expect(result.success).toBe(false);
+      if (result.success === false) {
+        expect(result.message).toBe('invalidCode');
+        expect(result.attemptsLeft).toBe(4);
+      }
+      expect(getSessionUser()).toBeNull();
+    });
+  });
+});
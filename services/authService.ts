@@ -0,0 +1,247 @@
+import { type User, type LoginResult } from '../types';
+import { mapProfileToUser } from './userService';
+import eventBus from './eventBus';
+
+// ===============================
+// 🔑 AUTH SESSION
+// ===============================
+// Login is passwordless: the proxy emails a one-time code and a magic link, and exchanges
+// either for a session (server/auth.js). The session is a short-lived access token, sent to
+// every proxy as X-Monoklix-Session, plus a refresh token that renews it. The signed-in user
+// is stored alongside it; services read identity through getSessionUser() rather than
+// trusting anything else in storage.
+
+const AUTH_STORAGE_KEY = 'monoklix_auth';
+// Access tokens this close to expiring are renewed before use.
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+interface StoredAuth {
+    sessionToken: string;
+    expiresAt: number;
+    refreshToken: string;
+    refreshExpiresAt: number;
+    user: User;
+}
+
+/**
+ * Thrown when there is no usable session and the user has to log in again.
+ */
+export class AuthSessionError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'AuthSessionError';
+    }
+}
+
+export type LoginStartResult =
+    | { success: true; expiresAt: number; devCode?: string }
+    | { success: false; message: string; retryAfterSeconds?: number };
+
+let pendingRefresh: Promise<string> | null = null;
+
+// Pending logins live in the memory of the server that started them, so every auth request
+// goes to the same server regardless of the proxy selected later.
+const getAuthServerUrl = (): string => {
+    if (window.location.hostname === 'localhost') {
+        return 'http://localhost:3001';
+    }
+    return 'https://veox.monoklix.com';
+};
+
+const loadAuth = (): StoredAuth | null => {
+    try {
+        const json = localStorage.getItem(AUTH_STORAGE_KEY);
+        const auth = json ? JSON.parse(json) as StoredAuth : null;
+        return auth && auth.refreshExpiresAt > Date.now() ? auth : null;
+    } catch (e) {
+        console.warn('[Auth] Could not read the stored session.', e);
+        return null;
+    }
+};
+
+const saveAuth = (auth: StoredAuth) => {
+    localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(auth));
+};
+
+const postToAuthServer = async (path: string, body: object, sessionToken?: string) => {
+    const response = await fetch(`${getAuthServerUrl()}/api/auth/${path}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(sessionToken && { 'X-Monoklix-Session': sessionToken }),
+        },
+        body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+    return { response, data };
+};
+
+// Stores a session returned by /login/verify or /refresh. `user` is the raw users row.
+const storeSession = (data: any): StoredAuth => {
+    const auth: StoredAuth = {
+        sessionToken: data.sessionToken,
+        expiresAt: data.expiresAt,
+        refreshToken: data.refreshToken,
+        refreshExpiresAt: data.refreshExpiresAt,
+        user: mapProfileToUser(data.user),
+    };
+    saveAuth(auth);
+    return auth;
+};
+
+const toFailure = (data: any, status: number): { success: false; message: string } => ({
+    success: false,
+    message: data.error?.reason || data.error?.message || `Login failed (${status})`,
+});
+
+/**
+ * Emails a one-time code and a magic link to a registered address.
+ */
+export const requestLoginCode = async (email: string): Promise<LoginStartResult> => {
+    const cleanedEmail = email.trim().toLowerCase();
+    if (!cleanedEmail) {
+        return { success: false, message: 'emailRequired' };
+    }
+    try {
+        const { response, data } = await postToAuthServer('login/start', { email: cleanedEmail });
+        if (!response.ok) {
+            const retryAfter = Number(response.headers.get('retry-after'));
+            return { ...toFailure(data, response.status), ...(retryAfter > 0 && { retryAfterSeconds: retryAfter }) };
+        }
+        if (data.devCode) console.log(`🧪 [Auth] Development login code: ${data.devCode}`);
+        return { success: true, expiresAt: data.expiresAt, devCode: data.devCode };
+    } catch (e) {
+        console.error('[Auth] Could not request a login code.', e);
+        return { success: false, message: 'networkError' };
+    }
+};
+
+const verifyLogin = async (body: object): Promise<LoginResult> => {
+    try {
+        const { response, data } = await postToAuthServer('login/verify', body);
+        if (!response.ok) {
+            return { ...toFailure(data, response.status), attemptsLeft: data.error?.attemptsLeft };
+        }
+        const auth = storeSession(data);
+        console.log('🔑 [Auth] Logged in.');
+        return { success: true, user: auth.user };
+    } catch (e) {
+        console.error('[Auth] Could not verify the login.', e);
+        return { success: false, message: 'networkError' };
+    }
+};
+
+/**
+ * Exchanges the emailed code for a session.
+ */
+export const verifyLoginCode = async (email: string, code: string): Promise<LoginResult> =>
+    verifyLogin({ email: email.trim().toLowerCase(), code: code.trim() });
+
+/**
+ * Exchanges the token from a magic link (`?login=`) for a session.
+ */
+export const verifyMagicLink = async (linkToken: string): Promise<LoginResult> =>
+    verifyLogin({ linkToken });
+
+const refreshSession = async (auth: StoredAuth): Promise<string> => {
+    let result;
+    try {
+        result = await postToAuthServer('refresh', { refreshToken: auth.refreshToken });
+    } catch (e) {
+        // Offline or the auth server is down: keep the session and let the caller retry.
+        throw new AuthSessionError('Could not reach the server to renew your session.', 0);
+    }
+    const { response, data } = result;
+    if (!response.ok) {
+        if (response.status === 401) {
+            localStorage.removeItem(AUTH_STORAGE_KEY);
+            console.warn('[Auth] Session could not be renewed. Logging out.');
+            eventBus.dispatch('sessionExpired');
+        }
+        throw new AuthSessionError(data.error?.message || `Could not renew your session (${response.status})`, response.status);
+    }
+    console.log('🔄 [Auth] Session renewed.');
+    eventBus.dispatch('userUsageUpdated', storeSession(data).user);
+    return data.sessionToken;
+};
+
+/**
+ * Returns a valid access token, renewing it first if it is about to expire.
+ * Throws AuthSessionError when the user must log in again.
+ */
+export const getSessionToken = async (): Promise<string> => {
+    const auth = loadAuth();
+    if (!auth) {
+        throw new AuthSessionError('Please log in again.', 401);
+    }
+    if (auth.expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+        return auth.sessionToken;
+    }
+    if (!pendingRefresh) {
+        pendingRefresh = refreshSession(auth).finally(() => { pendingRefresh = null; });
+    }
+    return pendingRefresh;
+};
+
+/**
+ * Marks the access token as unusable (e.g. after a proxy rejected it), so the next
+ * getSessionToken() renews it.
+ */
+export const invalidateSessionToken = () => {
+    const auth = loadAuth();
+    if (auth) saveAuth({ ...auth, expiresAt: 0 });
+};
+
+/**
+ * fetch() authenticated with the session's access token (X-Monoklix-Session). A 401 may mean
+ * the token was revoked or expired in the meantime, so the token is renewed and the request
+ * sent once more.
+ */
+export const fetchWithSession = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const send = async () => fetch(url, {
+        ...init,
+        headers: { ...(init.headers as Record<string, string> | undefined), 'X-Monoklix-Session': await getSessionToken() },
+    });
+
+    const response = await send();
+    if (response.status !== 401) return response;
+    invalidateSessionToken();
+    return send();
+};
+
+/**
+ * The signed-in user, or null if there is no session.
+ */
+export const getSessionUser = (): User | null => loadAuth()?.user ?? null;
+
+/**
+ * Replaces the stored user after a profile change. Does nothing when logged out.
+ */
+export const updateSessionUser = (user: User) => {
+    const auth = loadAuth();
+    if (auth) saveAuth({ ...auth, user });
+};
+
+/**
+ * Forgets the session in this browser.
+ */
+export const signOut = () => {
+    localStorage.removeItem(AUTH_STORAGE_KEY);
+};
+
+/**
+ * Ends every session of a user on all proxies. Admins may revoke anyone; others only themselves.
+ */
+export const revokeUserSessions = async (userId: string): Promise<boolean> => {
+    try {
+        const { response, data } = await postToAuthServer('revoke', { userId }, await getSessionToken());
+        if (!response.ok) {
+            console.error('[Auth] Failed to revoke sessions:', data.error?.message || response.status);
+            return false;
+        }
+        return true;
+    } catch (e) {
+        console.error('[Auth] Failed to revoke sessions:', e);
+        return false;
+    }
+};
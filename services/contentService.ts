@@ -2,6 +2,7 @@ import { type TutorialContent, type PlatformStatus, type Announcement, type Vira
 import { saveData, loadData } from './indexedDBService';
 import { supabase } from './supabaseClient';
 import { MODELS } from './aiConfig';
+import { checkPermission } from './permissionService';
 
 const TUTORIAL_CONTENT_KEY = 'monoklix-ai-tutorial-content';
 const PLATFORM_STATUS_KEY = 'monoklix-ai-platform-status';
@@ -47,6 +48,7 @@ export const getContent = async (): Promise<TutorialContent> => {
 };
 
 export const saveContent = async (content: TutorialContent) => {
+  if (!checkPermission('content.edit', 'saveContent')) return;
   try {
     await saveData(TUTORIAL_CONTENT_KEY, content);
   } catch (error) {
@@ -62,6 +64,7 @@ export const getPlatformStatus = async (): Promise<PlatformStatus> => {
 };
 
 export const savePlatformStatus = async (status: PlatformStatus) => {
+    if (!checkPermission('content.edit', 'savePlatformStatus')) return;
     await saveData(PLATFORM_STATUS_KEY, status);
 };
 
@@ -71,6 +74,7 @@ export const getAnnouncements = async (): Promise<Announcement[]> => {
 };
 
 export const saveAnnouncements = async (announcements: Announcement[]) => {
+    if (!checkPermission('content.edit', 'saveAnnouncements')) return;
     await saveData(ANNOUNCEMENTS_KEY, announcements);
 };
 
@@ -0,0 +1,122 @@
+import { fetchWithSession } from './authService';
+import eventBus from './eventBus';
+
+// ===============================
+// 🪙 CREDITS
+// ===============================
+// Generations through the shared token pool cost credits from a monthly allowance that
+// depends on the user's status. The proxy keeps the ledger and has the final say
+// (server/credits.js): it charges each generation, refunds failed ones and answers 402 when
+// the allowance is spent. The checks here only stop a request early and feed the usage meter.
+
+export type CreditOperation = 'veo_standard' | 'veo_fast' | 'imagen_generate' | 'imagen_recipe' | 'tts';
+
+export interface CreditSummary {
+    period: string; // 'YYYY-MM'
+    allowance: number | null; // null = unlimited
+    used: number;
+    remaining: number | null; // null = unlimited
+    resetsAt: number;
+    costs: Record<CreditOperation, number>;
+}
+
+/**
+ * Thrown when a generation needs more credits than the user has left this month.
+ */
+export class InsufficientCreditsError extends Error {
+    constructor(message: string, public readonly required: number, public readonly remaining: number, public readonly resetsAt: number) {
+        super(message);
+        this.name = 'InsufficientCreditsError';
+    }
+}
+
+// The balance is re-read at most this often for pre-flight checks.
+const SUMMARY_TTL_MS = 30 * 1000;
+
+let cachedSummary: { summary: CreditSummary; fetchedAt: number } | null = null;
+
+const getVeoOperation = (requests: unknown): { operation: CreditOperation; count: number } => {
+    const keys: string[] = Array.isArray(requests) ? requests.map(request => request?.videoModelKey || '') : [];
+    return {
+        operation: keys.some(key => !key.includes('fast')) ? 'veo_standard' : 'veo_fast',
+        count: Math.max(1, keys.length),
+    };
+};
+
+/**
+ * What a proxy request (e.g. '/api/veo/generate-t2v') is charged as, or null if it is free.
+ * Same rules as getChargedOperation in server/credits.js.
+ */
+export const getCreditOperation = (apiPath: string, requestBody: any): { operation: CreditOperation; count: number } | null => {
+    switch (apiPath) {
+        case '/api/veo/generate-t2v':
+        case '/api/veo/generate-i2v':
+            return getVeoOperation(requestBody?.requests);
+        case '/api/veo/jobs':
+            return getVeoOperation(requestBody?.request?.requests);
+        case '/api/imagen/generate':
+            return { operation: 'imagen_generate', count: 1 };
+        case '/api/imagen/run-recipe':
+            return { operation: 'imagen_recipe', count: 1 };
+        case '/api/gemini/tts':
+            return { operation: 'tts', count: 1 };
+        default:
+            return null;
+    }
+};
+
+/**
+ * Reads the signed-in user's credits from a proxy. Resolves to null when the proxy predates
+ * credits. Pass `force` to skip the short-lived cache.
+ */
+export const fetchCreditSummary = async (serverUrl: string, force = false): Promise<CreditSummary | null> => {
+    if (!force && cachedSummary && Date.now() - cachedSummary.fetchedAt < SUMMARY_TTL_MS) {
+        return cachedSummary.summary;
+    }
+    const response = await fetchWithSession(`${serverUrl}/api/credits`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+        throw new Error(`Could not load credits from ${serverUrl} (${response.status})`);
+    }
+    const summary: CreditSummary = await response.json();
+    cachedSummary = { summary, fetchedAt: Date.now() };
+    return summary;
+};
+
+/**
+ * Pre-flight check before a generation is sent. Throws InsufficientCreditsError when the
+ * allowance can't cover it. If the balance can't be read, the proxy decides instead.
+ */
+export const ensureCredits = async (serverUrl: string, apiPath: string, requestBody: any): Promise<void> => {
+    const charged = getCreditOperation(apiPath, requestBody);
+    if (!charged) return;
+
+    let summary: CreditSummary | null;
+    try {
+        summary = await fetchCreditSummary(serverUrl);
+    } catch (e) {
+        console.warn('🪙 [Credits] Could not check credits before the request.', e);
+        return;
+    }
+    if (!summary || summary.remaining === null) return;
+
+    const required = (summary.costs[charged.operation] ?? 0) * charged.count;
+    if (summary.remaining < required) {
+        console.warn(`🪙 [Credits] ${charged.operation} needs ${required} credits, ${summary.remaining} left.`);
+        throw new InsufficientCreditsError(
+            `Not enough credits: this needs ${required} and you have ${summary.remaining} left this month.`,
+            required,
+            summary.remaining,
+            summary.resetsAt,
+        );
+    }
+};
+
+/**
+ * Call after a generation was charged or refused, so the next check and the usage meters
+ * read the new balance.
+ */
+export const markCreditsChanged = () => {
+    cachedSummary = null;
+    eventBus.dispatch('creditsUpdated');
+};
@@ -1,5 +1,7 @@
 import eventBus from './eventBus';
 import { triggerErrorWebhook } from './webhookService';
+import { ProxyRequestError } from './apiClient';
+import { InsufficientCreditsError } from './creditService';
 
 /**
  * Handles API errors by identifying the error type, triggering auto-repair mechanisms,
@@ -8,6 +10,11 @@ import { triggerErrorWebhook } from './webhookService';
  * @returns {string} A translation key for the error message.
  */
 export const handleApiError = (error: unknown): string => {
+    // Running out of credits is expected, not a failure to report; the message says what's left.
+    if (error instanceof InsufficientCreditsError || (error instanceof ProxyRequestError && error.status === 402)) {
+        return error.message;
+    }
+
     console.error("Original API Error:", error);
     
     // Automatically trigger the webhook for admin notification
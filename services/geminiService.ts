@@ -1,52 +1,84 @@
-import { GoogleGenAI, Chat, GenerateContentResponse, Modality } from "@google/genai";
+import { GenerateContentResponse, type Content } from "@google/genai";
 import { addLogEntry } from './aiLogService';
 import { triggerUserWebhook } from './webhookService';
 import { MODELS } from './aiConfig';
-import { generateVideoWithVeo3, checkVideoStatus, uploadImageForVeo3 } from './veo3Service';
+import { generateVideoWithVeo3, pollVideoOperations, uploadImageForVeo3, startVideoJob, watchVideoJob, type VideoJobRef } from './veo3Service';
 import { cropImageToAspectRatio } from "./imageService";
 import { decodeBase64, createWavBlob } from '../utils/audioUtils';
-import { incrementImageUsage, incrementVideoUsage, getSharedMasterApiKey } from './userService';
+import { isAbortError, throwIfAborted } from '../utils/abortUtils';
+import { incrementImageUsage, incrementVideoUsage } from './userService';
 import { addHistoryItem } from "./historyService";
 import eventBus from "./eventBus";
-import { type User } from '../types';
-import { getImagenProxyUrl, getVeoProxyUrl } from './apiClient';
+import { getImagenProxyUrl, getVeoProxyUrl, getProxyRequestId, proxySupportsFeature, ProxyRequestError } from './apiClient';
+import { ensureCredits, getCreditOperation, markCreditsChanged } from './creditService';
 import { generateImageWithImagen } from "./imagenV3Service";
-
-
-const getActiveApiKey = (): string | null => {
-    // This key is set and managed by App.tsx, which places the correct key
-    // (either user's personal key or a temporary claimed key) into session storage.
-    return sessionStorage.getItem('monoklix_session_api_key');
+import { isVaultToken, VAULT_TOKEN_PREFIX } from './tokenVaultService';
+import { getSessionUser, fetchWithSession } from './authService';
+
+
+// ===============================
+// 💬 GEMINI PROXY
+// ===============================
+// Text, chat, search and TTS requests go through the selected proxy server, which holds the
+// Gemini API key (server/geminiProxy.js). They authenticate with the login session, like the
+// token vault.
+
+const postToGeminiProxy = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const serverUrl = getVeoProxyUrl();
+    const apiPath = `/api/gemini/${path}`;
+    const isCharged = getCreditOperation(apiPath, body) !== null;
+    if (isCharged) await ensureCredits(serverUrl, apiPath, body);
+    const response = await fetchWithSession(`${serverUrl}${apiPath}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (isCharged && (response.ok || response.status === 402)) markCreditsChanged();
+    if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        const message = data.error?.message || (typeof data.error === 'string' ? data.error : `Gemini request failed (${response.status})`);
+        throw new ProxyRequestError(message, response.status, response.headers.get('x-request-id'));
+    }
+    return response;
 };
 
-const getAiInstance = () => { // No longer async
-    const keyToUse = getActiveApiKey();
-    if (!keyToUse) {
-        throw new Error(`API Key not found. Please set a key in Settings or claim a temporary one.`);
-    }
-    return new GoogleGenAI({ apiKey: keyToUse });
+// The proxy returns the REST response as-is; wrapping it restores helpers such as `.text`.
+const toGenerateContentResponse = (data: object): GenerateContentResponse => Object.assign(new GenerateContentResponse(), data);
+
+const generateContentViaProxy = async (path: 'generate' | 'search' | 'tts', body: object): Promise<GenerateContentResponse> => {
+    const response = await postToGeminiProxy(path, body);
+    return toGenerateContentResponse(await response.json());
 };
 
-const getCurrentUser = (): User | null => {
-    try {
-        const savedUserJson = localStorage.getItem('currentUser');
-        if (savedUserJson) {
-            const user = JSON.parse(savedUserJson) as User;
-            if (user && user.id) {
-                return user;
+// Reads the proxy's Server-Sent Events stream, one GenerateContentResponse per `data:` line.
+async function* readGeminiStream(response: Response): AsyncGenerator<GenerateContentResponse> {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split(/\r?\n/);
+        buffer = done ? '' : lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.startsWith('data:')) {
+                yield toGenerateContentResponse(JSON.parse(line.substring(5)));
             }
         }
-    } catch (error) {
-        console.error("Failed to parse user from localStorage for usage tracking.", error);
+        if (done) return;
     }
-    return null;
-};
+}
 
 const getCurrentUserId = (): string | null => {
-    return getCurrentUser()?.id ?? null;
+    return getSessionUser()?.id ?? null;
 };
 
 const MAX_RETRIES = 5;
+// Statuses another attempt will not change: bad request, not logged in or not allowed, out of
+// credits, and unknown model.
+const NON_RETRIABLE_STATUSES = [400, 401, 402, 403, 404];
 
 /**
  * A wrapper function to automatically retry an API call on failure.
@@ -68,11 +100,10 @@ async function withRetry<T>(
       const errorMessage = error instanceof Error ? error.message : String(error);
       const lowerCaseMessage = errorMessage.toLowerCase();
 
-      // Don't retry on client-side errors like safety blocks or bad requests.
+      // Don't retry on client-side errors like safety blocks, bad requests or missing credits.
       // Do retry on server errors (5xx) or network issues.
       if (lowerCaseMessage.includes('safety') || 
-          (error as any)?.status === 400 ||
-          (error as any)?.status === 404) {
+          NON_RETRIABLE_STATUSES.includes((error as any)?.status)) {
         console.log("Non-retriable error detected, throwing immediately.", error);
         throw lastError;
       }
@@ -93,34 +124,50 @@ export interface MultimodalContent {
     mimeType: string;
 }
 
+/**
+ * A chat conversation. The proxy keeps no state, so the history is sent with every message.
+ */
+export interface ChatSession {
+    systemInstruction: string;
+    history: Content[];
+}
+
 /**
  * Creates a new chat session with a given system instruction.
  * @param {string} systemInstruction - The system instruction for the chat model.
- * @returns {Promise<Chat>} A new chat instance.
+ * @returns {Promise<ChatSession>} A new chat session.
  */
-export const createChatSession = async (systemInstruction: string): Promise<Chat> => {
-  const ai = getAiInstance();
-  return ai.chats.create({
-    model: MODELS.text,
-    config: {
-      systemInstruction: systemInstruction,
-      thinkingConfig: { thinkingBudget: 0 },
-    },
-  });
+export const createChatSession = async (systemInstruction: string): Promise<ChatSession> => {
+  return { systemInstruction, history: [] };
 };
 
 /**
- * Sends a message in a chat session and returns the streaming response.
- * @param {Chat} chat - The chat instance.
+ * Sends a message in a chat session and returns the streaming response. The exchange is added
+ * to the session's history once the stream completes.
+ * @param {ChatSession} chat - The chat session.
  * @param {string} prompt - The user's prompt.
  * @returns {Promise<AsyncGenerator<GenerateContentResponse>>} The streaming response from the model.
  */
-export const streamChatResponse = async (chat: Chat, prompt: string) => {
+export const streamChatResponse = async (chat: ChatSession, prompt: string) => {
     const model = `${MODELS.text} (stream)`;
     console.debug(`[Chat Prompt Sent]\n---\n${prompt}\n---`);
 
+    const userTurn: Content = { role: 'user', parts: [{ text: prompt }] };
     const apiCall = async () => {
-        return await chat.sendMessageStream({ message: prompt });
+        const response = await postToGeminiProxy('chat', {
+            model: MODELS.text,
+            systemInstruction: chat.systemInstruction,
+            contents: [...chat.history, userTurn],
+            generationConfig: { thinkingConfig: { thinkingBudget: 0 } },
+        });
+        return (async function* () {
+            let reply = '';
+            for await (const chunk of readGeminiStream(response)) {
+                reply += chunk.text ?? '';
+                yield chunk;
+            }
+            chat.history.push(userTurn, { role: 'model', parts: [{ text: reply }] });
+        })();
     };
     
     try {
@@ -159,6 +206,34 @@ export const streamChatResponse = async (chat: Chat, prompt: string) => {
     }
 };
 
+const downloadGeneratedVideo = async (
+    finalUrl: string | null,
+    thumbnailUrl: string | null,
+    model: string,
+    prompt: string,
+    signal?: AbortSignal
+): Promise<{ videoFile: File; thumbnailUrl: string | null; }> => {
+    if (!finalUrl) {
+        console.error('Operation finished but no video URL was returned.');
+        throw new Error("Video generation finished without an error, but no output was produced. This may happen if your request was blocked by safety policies. Please try modifying your prompt or using a different image.");
+    }
+    
+    const PROXY_URL = getVeoProxyUrl();
+    addLogEntry({ model, prompt, output: "Video ready. Downloading from proxy...", tokenCount: 0, status: "Success" });
+    const proxyDownloadUrl = `${PROXY_URL}/api/veo/download-video?url=${encodeURIComponent(finalUrl)}`;
+
+    const response = await fetch(proxyDownloadUrl, { signal });
+    if (!response.ok) {
+        // The proxy explains rejections (e.g. a video host outside its allowlist) in the body.
+        const details = await response.json().then(body => body?.error, () => null);
+        throw new Error(`Background download failed with status: ${response.status}${typeof details === 'string' ? ` (${details})` : ''}`);
+    }
+    const blob = await response.blob();
+    const videoFile = new File([blob], `monoklix-veo3-${Date.now()}.mp4`, { type: 'video/mp4' });
+
+    return { videoFile, thumbnailUrl };
+};
+
 /**
  * Generates a video from a text prompt and an optional image using the Veo3 service.
  * @param {string} prompt - The text prompt for video generation.
@@ -167,6 +242,9 @@ export const streamChatResponse = async (chat: Chat, prompt: string) => {
  * @param {string} resolution - The resolution (used by Veo3).
  * @param {string} negativePrompt - A negative prompt.
  * @param {{ imageBytes: string; mimeType: string }} [image] - Optional image data.
+ * @param {(status: string) => void} [onStatusUpdate] - Optional callback for progress messages.
+ * @param {AbortSignal} [signal] - Optional signal that cancels uploads, polling and the download.
+ * @param {number} [seed] - Optional seed; a random one is used when omitted.
  * @returns {Promise<{ videoFile: File; thumbnailUrl: string | null; }>} The generated video as a File object.
  */
 export const generateVideo = async (
@@ -176,9 +254,12 @@ export const generateVideo = async (
     resolution: string,
     negativePrompt: string,
     image: { imageBytes: string, mimeType: string } | undefined,
-    onStatusUpdate?: (status: string) => void
+    onStatusUpdate?: (status: string) => void,
+    signal?: AbortSignal,
+    seed?: number
 ): Promise<{ videoFile: File; thumbnailUrl: string | null; }> => {
     try {
+        throwIfAborted(signal);
         let processedImage = image;
 
         if (image && (aspectRatio === '16:9' || aspectRatio === '9:16')) {
@@ -207,26 +288,36 @@ export const generateVideo = async (
         if (processedImage) {
             addLogEntry({ model, prompt: "Uploading reference image...", output: "In progress...", tokenCount: 0, status: "Success" });
             // UPDATED: Capture the successful token from the upload process
-            const uploadResult = await uploadImageForVeo3(processedImage.imageBytes, processedImage.mimeType, aspectRatioForVeo3, onStatusUpdate);
+            const uploadResult = await uploadImageForVeo3(processedImage.imageBytes, processedImage.mimeType, aspectRatioForVeo3, onStatusUpdate, signal);
             imageMediaId = uploadResult.mediaId;
             successfulToken = uploadResult.successfulToken;
         }
 
         const useStandardModel = !model.includes('fast');
-        
-        addLogEntry({ model, prompt, output: "Starting video generation via proxy...", tokenCount: 0, status: "Success" });
-        console.debug(`[Video Prompt Sent]\n---\n${prompt}\n---`);
-        
-        // UPDATED: Pass the captured token to ensure session consistency
-        const { operations: initialOperations, successfulToken: generationToken } = await generateVideoWithVeo3({
+        const generationRequest = {
             prompt,
             imageMediaId,
             config: {
                 aspectRatio: aspectRatioForVeo3,
+                seed,
                 useStandardModel,
                 authToken: successfulToken || undefined, 
             },
-        }, onStatusUpdate);
+        };
+        
+        addLogEntry({ model, prompt, output: "Starting video generation via proxy...", tokenCount: 0, status: "Success" });
+        console.debug(`[Video Prompt Sent]\n---\n${prompt}\n---`);
+
+        // Proxies that track jobs themselves let the generation survive a page reload.
+        if (await proxySupportsFeature(getVeoProxyUrl(), 'veo-jobs')) {
+            const jobRef = await startVideoJob(generationRequest, onStatusUpdate, signal);
+            addLogEntry({ model, prompt, output: `Checking video status...`, tokenCount: 0, status: "Success" });
+            const job = await watchVideoJob(jobRef, onStatusUpdate, signal);
+            return await downloadGeneratedVideo(job.videoUrl, job.thumbnailUrl, model, prompt, signal);
+        }
+        
+        // UPDATED: Pass the captured token to ensure session consistency
+        const { operations: initialOperations, successfulToken: generationToken } = await generateVideoWithVeo3(generationRequest, onStatusUpdate, false, signal);
 
         const videoCreationToken = generationToken;
 
@@ -238,70 +329,48 @@ export const generateVideo = async (
             throw new Error("Video generation failed to start. The API did not return any operations.");
         }
 
-        let finalOperations: any[] = initialOperations;
-        let finalUrl: string | null = null;
-        let thumbnailUrl: string | null = null;
-        const POLL_INTERVAL = 10000;
-
-        while (!finalUrl) {
-            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
-            addLogEntry({ model, prompt, output: `Checking video status...`, tokenCount: 0, status: "Success" });
-
-            // UPDATED: Check status using the SAME token
-            const statusResponse = await checkVideoStatus(finalOperations, videoCreationToken, onStatusUpdate);
-            if (!statusResponse?.operations || statusResponse.operations.length === 0) {
-                console.warn('⚠️ Empty status response, retrying...');
-                continue;
-            }
-
-            finalOperations = statusResponse.operations;
-            const opStatus = finalOperations[0];
-            
-            // FIX: Added strict check for FAILED status string
-            if (opStatus.status === 'MEDIA_GENERATION_STATUS_FAILED') {
-                console.error('❌ Video generation failed with status FAILED. Full operation object:', JSON.stringify(opStatus, null, 2));
-                throw new Error("Video generation failed on the server. This often happens if your request was blocked by safety policies. Please try modifying your prompt or using a different image.");
-            }
+        addLogEntry({ model, prompt, output: `Checking video status...`, tokenCount: 0, status: "Success" });
+        // UPDATED: Check status using the SAME token
+        const opStatus = await pollVideoOperations(initialOperations, videoCreationToken, onStatusUpdate, signal);
 
-            const isCompleted = opStatus.done === true || ['MEDIA_GENERATION_STATUS_COMPLETED', 'MEDIA_GENERATION_STATUS_SUCCESS', 'MEDIA_GENERATION_STATUS_SUCCESSFUL'].includes(opStatus.status);
-
-            if (isCompleted) {
-                finalUrl = opStatus.operation?.metadata?.video?.fifeUrl
-                           || opStatus.metadata?.video?.fifeUrl
-                           || opStatus.result?.generatedVideo?.[0]?.fifeUrl
-                           || opStatus.result?.generatedVideos?.[0]?.fifeUrl
-                           || opStatus.video?.fifeUrl
-                           || opStatus.fifeUrl;
-                
-                thumbnailUrl = opStatus.operation?.metadata?.video?.servingBaseUri
-                            || opStatus.metadata?.video?.servingBaseUri
-                            || null;
-                
-                if (!finalUrl) {
-                    console.error('Operation finished but no video URL was returned. Full operation object:', JSON.stringify(opStatus, null, 2));
-                    throw new Error("Video generation finished without an error, but no output was produced. This may happen if your request was blocked by safety policies. Please try modifying your prompt or using a different image.");
-                }
-            } else if (opStatus.error) {
-                throw new Error(`Video generation failed: ${opStatus.error.message || opStatus.error.code || 'Unknown error'}`);
-            }
-        }
-        
-        const PROXY_URL = getVeoProxyUrl();
-        addLogEntry({ model, prompt, output: "Video ready. Downloading from proxy...", tokenCount: 0, status: "Success" });
-        const proxyDownloadUrl = `${PROXY_URL}/api/veo/download-video?url=${encodeURIComponent(finalUrl)}`;
+        return await downloadGeneratedVideo(opStatus.videoUrl, opStatus.thumbnailUrl, model, prompt, signal);
 
-        const response = await fetch(proxyDownloadUrl);
-        if (!response.ok) {
-            throw new Error(`Background download failed with status: ${response.status}`);
+    } catch (error) {
+        if (isAbortError(error)) {
+            addLogEntry({ model, prompt, output: "Video generation cancelled by user.", tokenCount: 0, status: 'Cancelled' });
+            throw error;
         }
-        const blob = await response.blob();
-        const videoFile = new File([blob], `monoklix-veo3-${Date.now()}.mp4`, { type: 'video/mp4' });
-
-        return { videoFile, thumbnailUrl };
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        addLogEntry({ model, prompt, output: `Video generation process failed: ${errorMessage}`, tokenCount: 0, status: 'Error', error: errorMessage, requestId: getProxyRequestId(error) });
+        throw error;
+    }
+};
 
+/**
+ * Reconnects to a video the proxy was still generating when the page was closed or reloaded.
+ * @param {VideoJobRef} jobRef - A pending job from getPendingVideoJobs().
+ * @param {(status: string) => void} [onStatusUpdate] - Optional callback for progress messages.
+ * @param {AbortSignal} [signal] - Optional signal that cancels the job and the download.
+ * @returns {Promise<{ videoFile: File; thumbnailUrl: string | null; }>} The generated video as a File object.
+ */
+export const resumeVideoGeneration = async (
+    jobRef: VideoJobRef,
+    onStatusUpdate?: (status: string) => void,
+    signal?: AbortSignal
+): Promise<{ videoFile: File; thumbnailUrl: string | null; }> => {
+    const model = MODELS.videoGenerationDefault;
+    const prompt = jobRef.prompt;
+    try {
+        addLogEntry({ model, prompt, output: `Reconnecting to video job ${jobRef.jobId}...`, tokenCount: 0, status: "Success" });
+        const job = await watchVideoJob(jobRef, onStatusUpdate, signal);
+        return await downloadGeneratedVideo(job.videoUrl, job.thumbnailUrl, model, prompt, signal);
     } catch (error) {
+        if (isAbortError(error)) {
+            addLogEntry({ model, prompt, output: "Video generation cancelled by user.", tokenCount: 0, status: 'Cancelled' });
+            throw error;
+        }
         const errorMessage = error instanceof Error ? error.message : String(error);
-        addLogEntry({ model, prompt, output: `Video generation process failed: ${errorMessage}`, tokenCount: 0, status: 'Error', error: errorMessage });
+        addLogEntry({ model, prompt, output: `Video generation process failed: ${errorMessage}`, tokenCount: 0, status: 'Error', error: errorMessage, requestId: getProxyRequestId(error) });
         throw error;
     }
 };
@@ -326,13 +395,10 @@ export const generateMultimodalContent = async (prompt: string, images: Multimod
     console.debug(`[Multimodal Prompt Sent]\n---\n${prompt}\n---`);
 
     const apiCall = async () => {
-        const ai = getAiInstance();
-        return await ai.models.generateContent({
+        return await generateContentViaProxy('generate', {
             model,
-            contents: { parts: [...imageParts, textPart] },
-            config: {
-                thinkingConfig: { thinkingBudget: 0 },
-            }
+            contents: [{ role: 'user', parts: [...imageParts, textPart] }],
+            generationConfig: { thinkingConfig: { thinkingBudget: 0 } },
         });
     };
     
@@ -379,13 +445,10 @@ export const generateText = async (prompt: string): Promise<string> => {
     console.debug(`[Text Prompt Sent]\n---\n${prompt}\n---`);
     
     const apiCall = async () => {
-        const ai = getAiInstance();
-        return await ai.models.generateContent({
+        return await generateContentViaProxy('generate', {
             model,
-            contents: { parts: [{ text: prompt }] },
-            config: {
-                thinkingConfig: { thinkingBudget: 0 },
-            }
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            generationConfig: { thinkingConfig: { thinkingBudget: 0 } },
         });
     };
 
@@ -430,14 +493,11 @@ export const generateContentWithGoogleSearch = async (prompt: string): Promise<G
     console.debug(`[Google Search Prompt Sent]\n---\n${prompt}\n---`);
     
     const apiCall = async () => {
-        const ai = getAiInstance();
-        return await ai.models.generateContent({
+        // The proxy adds the Google Search tool.
+        return await generateContentViaProxy('search', {
             model,
-            contents: { parts: [{ text: prompt }] },
-            config: {
-                tools: [{ googleSearch: {} }],
-                thinkingConfig: { thinkingBudget: 0 },
-            },
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            generationConfig: { thinkingConfig: { thinkingBudget: 0 } },
         });
     };
 
@@ -488,7 +548,7 @@ export const generateVoiceOver = async (
     generationMode: 'speak' | 'sing',
     musicStyle?: string
 ): Promise<Blob | null> => {
-    const model = 'gemini-2.5-flash-preview-tts';
+    const model = MODELS.tts;
     const webhookPrompt = generationMode === 'sing'
         ? `Sing: ${musicStyle}, Voice: ${actorId}, Lang: ${language}, Script: ${script.substring(0, 100)}...`
         : `Voice: ${actorId}, Lang: ${language}, Mood: ${mood}, Script: ${script.substring(0, 100)}...`;
@@ -531,19 +591,8 @@ export const generateVoiceOver = async (
     console.debug(`[Voice Over Prompt Sent]\n---\n${fullPrompt}\n---`);
 
     const apiCall = async () => {
-        const ai = getAiInstance();
-        return await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: fullPrompt }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: actorId },
-                    },
-                },
-            },
-        });
+        // The proxy fixes the TTS model and the audio response settings.
+        return await generateContentViaProxy('tts', { text: fullPrompt, voiceName: actorId });
     };
     
     try {
@@ -596,78 +645,6 @@ export const generateVoiceOver = async (
     }
 };
 
-/**
- * Runs a minimal, non-blocking health check on an API key for critical services.
- * @param {string} apiKeyToCheck - The API key to test.
- * @returns {Promise<{ image: boolean; veo3: boolean; }>} A promise that resolves to the status of image and VEO 3 models.
- */
-export const runMinimalHealthCheck = async (apiKeyToCheck: string): Promise<{ image: boolean; veo3: boolean; }> => {
-    if (!apiKeyToCheck) {
-        return { image: false, veo3: false };
-    }
-
-    const ai = new GoogleGenAI({ apiKey: apiKeyToCheck });
-
-    // A tiny, valid transparent PNG for image model checks
-    const tinyPngBase64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
-
-    const imageCheckPromise = ai.models.generateContent({
-        model: MODELS.imageEdit,
-        contents: { parts: [{ inlineData: { data: tinyPngBase64, mimeType: 'image/png' } }, { text: 'test' }] },
-        config: { responseModalities: [Modality.TEXT] }, // Only need a successful call, not an image back.
-    });
-
-    const veo3CheckPromise = ai.models.generateVideos({ 
-        model: 'veo-3.0-generate-001', 
-        prompt: 'test', 
-        config: { numberOfVideos: 1 } 
-    });
-
-    const [imageResult, veo3Result] = await Promise.allSettled([imageCheckPromise, veo3CheckPromise]);
-    
-    // Log failures for debugging without throwing
-    if (imageResult.status === 'rejected') console.debug(`Minimal health check failed for image:`, (imageResult.reason as Error).message);
-    if (veo3Result.status === 'rejected') console.debug(`Minimal health check failed for VEO 3:`, (veo3Result.reason as Error).message);
-
-    const isImageOk = imageResult.status === 'fulfilled';
-    // A fulfilled promise for generateVideos returns an Operation.
-    // If the operation has an `error` property immediately, it's a failure.
-    // This handles cases where the promise resolves but the operation is invalid from the start.
-    const isVeo3Ok = veo3Result.status === 'fulfilled' && !(veo3Result.value as any).error;
-
-    return {
-        image: isImageOk,
-        veo3: isVeo3Ok,
-    };
-};
-
-/**
- * A lightweight check specifically for the image model, for auto-key-claiming.
- * @param {string} apiKeyToCheck - The API key to test.
- * @returns {Promise<boolean>} A promise that resolves to true if the image model is accessible.
- */
-export const isImageModelHealthy = async (apiKeyToCheck: string): Promise<boolean> => {
-    if (!apiKeyToCheck) return false;
-
-    try {
-        const ai = new GoogleGenAI({ apiKey: apiKeyToCheck });
-        const tinyPngBase64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
-        
-        await ai.models.generateContent({
-            model: MODELS.imageEdit,
-            contents: { parts: [{ inlineData: { data: tinyPngBase64, mimeType: 'image/png' } }, { text: 'test' }] },
-            config: { responseModalities: [Modality.TEXT] },
-        });
-        
-        return true;
-    } catch (error) {
-        console.debug(`Image model health check failed for key:`, (error as Error).message);
-        return false;
-    }
-};
-
-
-
 // --- ADMIN API HEALTH CHECK ---
 
 export interface HealthCheckResult {
@@ -701,138 +678,96 @@ const getShortErrorMessage = (e: any): string => {
     return firstLine;
 };
 
-export const runApiHealthCheck = async (keys: { textKey?: string }): Promise<HealthCheckResult[]> => {
-    console.log('--- Starting Full API Health Check ---');
-    const { textKey } = keys;
-
-    if (!textKey) {
-        throw new Error("An API Key is required for a health check.");
-    }
+/**
+ * Whether the selected server has a Gemini API key. The key itself stays on the server.
+ */
+export const getGeminiStatus = async (): Promise<{ configured: boolean }> => {
+    const response = await fetchWithSession(`${getVeoProxyUrl()}/api/gemini/status`);
+    if (!response.ok) throw new ProxyRequestError(`Gemini status check failed (${response.status})`, response.status, response.headers.get('x-request-id'));
+    return response.json();
+};
 
-    const ai = new GoogleGenAI({ apiKey: textKey });
+/**
+ * Checks text generation with the server's Gemini key, then Imagen and Veo through the proxy.
+ * Admins can pass `apiKey` to check another key's text generation on the server instead.
+ */
+export const runApiHealthCheck = async (options: { apiKey?: string } = {}): Promise<HealthCheckResult[]> => {
+    console.log('--- Starting Full API Health Check ---');
     const results: HealthCheckResult[] = [];
 
     // 1. Text Generation
     console.log('1. Checking Text Generation (Gemini)...');
     try {
-        await ai.models.generateContent({ model: MODELS.text, contents: 'test', config: { maxOutputTokens: 2, thinkingConfig: { thinkingBudget: 1 } } });
-        results.push({ service: 'Text Generation', model: MODELS.text, status: 'operational', message: 'OK' });
-        console.log('   ✅ Text Generation OK');
+        const response = await postToGeminiProxy('health', { model: MODELS.text, apiKey: options.apiKey });
+        const { ok, message } = await response.json();
+        results.push({ service: 'Text Generation', model: MODELS.text, status: ok ? 'operational' : 'error', message });
+        console.log(ok ? '   ✅ Text Generation OK' : `   ❌ Text Generation FAILED: ${message}`);
     } catch (e: any) {
         results.push({ service: 'Text Generation', model: MODELS.text, status: 'error', message: getShortErrorMessage(e) });
         console.error('   ❌ Text Generation FAILED:', getShortErrorMessage(e));
     }
     
-    // Get tokens for proxied services
-    const getTokens = (): { token: string; createdAt: string }[] => {
-        const tokensJSON = sessionStorage.getItem('veoAuthTokens');
-        if (tokensJSON) {
-            try {
-                const parsed = JSON.parse(tokensJSON);
-                if (Array.isArray(parsed) && parsed.length > 0) return parsed;
-            } catch (e) { console.error("Could not parse proxy tokens for health check", e); }
-        }
-        return [];
-    };
-    const proxyTokens = getTokens();
+    // Proxied services authenticate with the personal token if set, otherwise through each
+    // server's token vault, so one request per service is enough.
+    const describeToken = (token: string) => isVaultToken(token) ? `(Using vault token ${token.substring(VAULT_TOKEN_PREFIX.length, VAULT_TOKEN_PREFIX.length + 8)})` : `(Using token ...${token.slice(-6)})`;
     const imagenModel = MODELS.imageGeneration;
     const videoModel = MODELS.videoGenerationDefault;
 
     // 2. Imagen Generation Check
     console.log('2. Checking Imagen Generation (Proxy)...');
-    if (proxyTokens.length === 0) {
-        results.push({ service: 'Imagen Generation', model: imagenModel, status: 'degraded', message: 'Health check skipped. Auth Token not found.' });
-        console.warn('   ⚠️ Imagen check skipped: No Auth Token found.');
-    } else {
-        let success = false;
-        let lastError: any = null;
-        for (let i = 0; i < proxyTokens.length; i++) {
-            console.log(`   - Testing with token #${i + 1}...`);
-            try {
-                await generateImageWithImagen({
-                    prompt: 'test',
-                    config: {
-                        authToken: proxyTokens[i].token,
-                        aspectRatio: '1:1',
-                    }
-                }, undefined, true);
-                results.push({ 
-                    service: 'Imagen Generation', 
-                    model: imagenModel, 
-                    status: 'operational', 
-                    message: 'Initial request successful.',
-                    details: `(Using token #${i + 1})`
-                });
-                console.log(`     ✅ Token #${i + 1} OK`);
-                success = true;
-                break;
-            } catch (e) {
-                lastError = e;
-                console.error(`     ❌ Token #${i + 1} FAILED:`, getShortErrorMessage(e));
-            }
-        }
-        if (!success) {
-            results.push({ 
-                service: 'Imagen Generation', 
-                model: imagenModel, 
-                status: 'error', 
-                message: getShortErrorMessage(lastError),
-                details: '(All available tokens failed)'
-            });
-        }
+    try {
+        await generateImageWithImagen({
+            prompt: 'test',
+            config: { aspectRatio: '1:1' }
+        }, undefined, true);
+        results.push({ 
+            service: 'Imagen Generation', 
+            model: imagenModel, 
+            status: 'operational', 
+            message: 'Initial request successful.',
+        });
+        console.log('   ✅ Imagen Generation OK');
+    } catch (e) {
+        results.push({ 
+            service: 'Imagen Generation', 
+            model: imagenModel, 
+            status: 'error', 
+            message: getShortErrorMessage(e),
+        });
+        console.error('   ❌ Imagen Generation FAILED:', getShortErrorMessage(e));
     }
 
     // 3. VEO 3.1 Generation
     console.log('3. Checking VEO 3.1 Generation (Proxy)...');
-    if (proxyTokens.length === 0) {
-        results.push({ service: 'VEO 3.1 Generation', model: videoModel, status: 'degraded', message: 'Health check skipped. Auth Token not found.' });
-        console.warn('   ⚠️ VEO check skipped: No Auth Token not found.');
-    } else {
-        let success = false;
-        let lastError: any = null;
-
-        for (let i = 0; i < proxyTokens.length; i++) {
-            const currentToken = proxyTokens[i].token;
-            console.log(`   - Testing with token #${i + 1}...`);
-            try {
-                const { operations: initialOperations } = await generateVideoWithVeo3({
-                    prompt: 'test',
-                    config: {
-                        authToken: currentToken,
-                        aspectRatio: 'landscape',
-                        useStandardModel: !videoModel.includes('fast'),
-                    },
-                }, undefined, true);
-
-                if (!initialOperations || initialOperations.length === 0 || (initialOperations[0] as any).error) {
-                    throw new Error((initialOperations[0] as any)?.error?.message || 'Initial request failed without specific error.');
-                }
-                
-                results.push({ 
-                    service: 'VEO 3.1 Generation', 
-                    model: videoModel, 
-                    status: 'operational', 
-                    message: 'Initial request successful.',
-                    details: `(Using token #${i + 1})`
-                });
-                console.log(`     ✅ Token #${i + 1} OK`);
-                success = true;
-                break;
-            } catch (e: any) {
-                lastError = e;
-                console.error(`     ❌ Token #${i + 1} FAILED:`, getShortErrorMessage(e));
-            }
-        }
+    try {
+        const { operations: initialOperations, successfulToken } = await generateVideoWithVeo3({
+            prompt: 'test',
+            config: {
+                aspectRatio: 'landscape',
+                useStandardModel: !videoModel.includes('fast'),
+            },
+        }, undefined, true);
 
-        if (!success) {
-            results.push({ 
-                service: 'VEO 3.1 Generation', 
-                model: videoModel, 
-                status: 'error', 
-                message: getShortErrorMessage(lastError),
-                details: '(All available tokens failed)'
-            });
+        if (!initialOperations || initialOperations.length === 0 || initialOperations[0].error) {
+            throw new Error(initialOperations[0]?.error?.message || 'Initial request failed without specific error.');
         }
+        
+        results.push({ 
+            service: 'VEO 3.1 Generation', 
+            model: videoModel, 
+            status: 'operational', 
+            message: 'Initial request successful.',
+            details: describeToken(successfulToken)
+        });
+        console.log('   ✅ VEO 3.1 Generation OK');
+    } catch (e: any) {
+        results.push({ 
+            service: 'VEO 3.1 Generation', 
+            model: videoModel, 
+            status: 'error', 
+            message: getShortErrorMessage(e),
+        });
+        console.error('   ❌ VEO 3.1 Generation FAILED:', getShortErrorMessage(e));
     }
     console.log('--- Health Check Complete ---');
     return results;
@@ -0,0 +1,60 @@
+import { type GenerationPreset, type GenerationSourceView, type HistoryItem, type View } from '../types';
+import { getReferenceImages } from './historyService';
+
+// ===============================
+// 🔁 REGENERATE / REMIX
+// ===============================
+// History items carry the inputs that made them (GenerationMetadata). A preset built from them
+// reopens the source tool filled in. Regenerate keeps the seed so the result comes out the same
+// or very close; Remix draws a new one.
+
+// Every tool that records metadata, and the suite it lives in
+const PRESET_SUITES: Record<GenerationSourceView, View> = {
+    'image-generation': 'ai-image-suite',
+    'product-photo': 'ai-image-suite',
+    'tiktok-affiliate': 'ai-image-suite',
+    'image-enhancer': 'ai-image-suite',
+    'background-remover': 'ai-image-suite',
+    'video-generation': 'ai-video-suite',
+    'voice-studio': 'ai-video-suite',
+    'content-ideas': 'ai-text-suite',
+    'marketing-copy': 'ai-text-suite',
+    'staff-monoklix': 'ai-text-suite',
+};
+
+/**
+ * A random seed for the Imagen and Veo APIs.
+ */
+export const createSeed = (): number => Math.floor(Math.random() * 2147483647);
+
+/**
+ * The seed for the `index`-th result of a batch: consecutive seeds from a kept seed (so the
+ * first result repeats the original), otherwise random.
+ */
+export const getBatchSeed = (keptSeed: number | null, index: number): number =>
+    keptSeed !== null ? keptSeed + index : createSeed();
+
+/**
+ * Whether the item's source tool can be reopened from its metadata. Items saved before
+ * metadata was recorded cannot.
+ */
+export const canRegenerate = (item: HistoryItem): boolean =>
+    !!item.metadata?.inputs && !!PRESET_SUITES[item.metadata.sourceView];
+
+/**
+ * The view that hosts the preset's source tool.
+ */
+export const getPresetView = (preset: GenerationPreset): View =>
+    PRESET_SUITES[preset.metadata.sourceView] || 'gallery';
+
+/**
+ * Builds the preset for an item, loading its reference images.
+ */
+export const buildGenerationPreset = async (item: HistoryItem, keepSeed: boolean): Promise<GenerationPreset | null> => {
+    if (!item.metadata || !canRegenerate(item)) return null;
+    const referenceImages = await getReferenceImages(item.metadata.referenceImageIds || []);
+    if (referenceImages.length < (item.metadata.referenceImageIds?.length || 0)) {
+        console.warn('🔁 [Regenerate] Some reference images of this item are no longer stored.');
+    }
+    return { metadata: item.metadata, referenceImages, keepSeed };
+};
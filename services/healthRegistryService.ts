@@ -0,0 +1,172 @@
+import eventBus from './eventBus';
+
+// ===============================
+// 🩺 TOKEN & SERVER HEALTH REGISTRY
+// ===============================
+// Remembers how each auth token and proxy server has behaved across requests, so
+// executeProxiedRequest can try healthy ones first and skip ones that keep failing.
+
+const STORAGE_KEY = 'monoklix_health_registry';
+const CIRCUIT_FAILURE_THRESHOLD = 3; // Consecutive failures before the circuit opens
+const CIRCUIT_OPEN_MS = 2 * 60 * 1000; // How long an open circuit blocks attempts
+const LATENCY_SMOOTHING = 0.3; // Weight of the newest sample in the latency moving average
+const SLOW_LATENCY_MS = 30000; // Latency at which the score penalty is at its maximum
+
+export type HealthSubject = 'token' | 'server';
+
+export interface HealthRecord {
+  id: string; // Server URL, or a masked token suffix
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  circuitOpenUntil?: number;
+  expired?: boolean;
+}
+
+export interface HealthEntry extends HealthRecord {
+  score: number;
+  circuitOpen: boolean;
+}
+
+interface HealthRegistry {
+  tokens: Record<string, HealthRecord>;
+  servers: Record<string, HealthRecord>;
+}
+
+// Tokens are never persisted in full, only a suffix long enough to tell them apart.
+const getTokenKey = (token: string): string => `...${token.slice(-8)}`;
+
+const getKey = (subject: HealthSubject, id: string): string => (subject === 'token' ? getTokenKey(id) : id);
+
+const loadRegistry = (): HealthRegistry => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (parsed && parsed.tokens && parsed.servers) {
+        return parsed;
+      }
+    }
+  } catch (e) {
+    console.warn('[Health Registry] Failed to load health registry, starting fresh.', e);
+  }
+  return { tokens: {}, servers: {} };
+};
+
+let registry: HealthRegistry = loadRegistry();
+
+const saveRegistry = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(registry));
+  } catch (e) {
+    console.warn('[Health Registry] Failed to save health registry.', e);
+  }
+  eventBus.dispatch('healthRegistryUpdated');
+};
+
+const getRecord = (subject: HealthSubject, id: string): HealthRecord => {
+  const bucket = subject === 'token' ? registry.tokens : registry.servers;
+  const key = getKey(subject, id);
+  if (!bucket[key]) {
+    bucket[key] = { id: key, successes: 0, failures: 0, consecutiveFailures: 0, avgLatencyMs: null };
+  }
+  return bucket[key];
+};
+
+const isRecordCircuitOpen = (record: HealthRecord): boolean => {
+  return record.expired === true || (!!record.circuitOpenUntil && record.circuitOpenUntil > Date.now());
+};
+
+const scoreRecord = (record: HealthRecord): number => {
+  if (record.expired) return 0;
+  // Laplace-smoothed success rate, so unknown tokens/servers start at a neutral 0.5.
+  const successRate = (record.successes + 1) / (record.successes + record.failures + 2);
+  const latencyPenalty = record.avgLatencyMs === null ? 0 : Math.min(record.avgLatencyMs / SLOW_LATENCY_MS, 1) * 0.2;
+  const circuitPenalty = isRecordCircuitOpen(record) ? 0.5 : 0;
+  return Math.max(0, successRate - latencyPenalty - circuitPenalty);
+};
+
+// ===============================
+// ✍️ RECORDING
+// ===============================
+
+/**
+ * Records a successful request. Closes the circuit if it was open and clears any expired flag.
+ */
+export const recordSuccess = (subject: HealthSubject, id: string, latencyMs: number): void => {
+  const record = getRecord(subject, id);
+  record.successes++;
+  record.consecutiveFailures = 0;
+  record.circuitOpenUntil = undefined;
+  record.expired = false;
+  record.lastSuccessAt = Date.now();
+  record.avgLatencyMs = record.avgLatencyMs === null
+    ? latencyMs
+    : Math.round(record.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING);
+  saveRegistry();
+};
+
+/**
+ * Records a failed request. Opens the circuit after repeated consecutive failures.
+ */
+export const recordFailure = (subject: HealthSubject, id: string): void => {
+  const record = getRecord(subject, id);
+  record.failures++;
+  record.consecutiveFailures++;
+  record.lastFailureAt = Date.now();
+  if (record.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    record.circuitOpenUntil = Date.now() + CIRCUIT_OPEN_MS;
+    console.warn(`🔌 [Health Registry] Circuit opened for ${subject} ${record.id} after ${record.consecutiveFailures} consecutive failures.`);
+  }
+  saveRegistry();
+};
+
+/**
+ * Marks a token as expired. Expired tokens are tried last and score 0.
+ */
+export const markTokenExpired = (token: string): void => {
+  const record = getRecord('token', token);
+  record.failures++;
+  record.consecutiveFailures++;
+  record.lastFailureAt = Date.now();
+  record.expired = true;
+  saveRegistry();
+};
+
+// ===============================
+// 🔍 QUERIES
+// ===============================
+
+export const isCircuitOpen = (subject: HealthSubject, id: string): boolean => {
+  const bucket = subject === 'token' ? registry.tokens : registry.servers;
+  const record = bucket[getKey(subject, id)];
+  return record ? isRecordCircuitOpen(record) : false;
+};
+
+/**
+ * Returns a score between 0 and 1. Tokens and servers with no history score 0.5.
+ */
+export const getHealthScore = (subject: HealthSubject, id: string): number => {
+  const bucket = subject === 'token' ? registry.tokens : registry.servers;
+  const record = bucket[getKey(subject, id)];
+  return record ? scoreRecord(record) : 0.5;
+};
+
+/**
+ * Returns every known token and server with its current score, best first.
+ */
+export const getHealthSnapshot = (): { tokens: HealthEntry[]; servers: HealthEntry[] } => {
+  const toEntries = (records: Record<string, HealthRecord>): HealthEntry[] =>
+    Object.values(records)
+      .map(record => ({ ...record, score: scoreRecord(record), circuitOpen: isRecordCircuitOpen(record) }))
+      .sort((a, b) => b.score - a.score);
+  return { tokens: toEntries(registry.tokens), servers: toEntries(registry.servers) };
+};
+
+export const resetHealthRegistry = (): void => {
+  registry = { tokens: {}, servers: {} };
+  saveRegistry();
+};
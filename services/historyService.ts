@@ -1,10 +1,174 @@
 import localforage from 'localforage';
 import { v4 as uuidv4 } from 'uuid';
-import { type HistoryItem } from '../types';
-import { cacheVideo, getCachedVideo, deleteCachedVideo } from './videoCacheService';
+import { type HistoryFolder, type HistoryItem, type HistoryQuery, type HistoryQueryResult } from '../types';
+import { cacheVideo, getCachedVideo, deleteCachedVideo, setVideoPinned, touchCachedVideo } from './videoCacheService';
+import { dbGetHistory, dbSearchHistory, dbGetHistoryTags, dbGetHistoryItem, dbPutHistoryItems, dbDeleteHistoryItem, dbClearHistory, dbAddAndPruneHistory, dbGetHistoryFolders, dbPutHistoryFolder, dbDeleteHistoryFolder, dbGetReferenceImages, dbGetReferenceImagesForUser, dbPutReferenceImages, dbDeleteReferenceImages, loadData, saveData, type StoredReferenceImage } from './indexedDBService';
+import { getSessionUser } from './authService';
+import { createZip, readZip, type ZipEntry } from './zipService';
+import { decodeBase64 } from '../utils/audioUtils';
 
-const HISTORY_KEY = 'monoklix_history';
+// Favourites do not count towards the limit
 const MAX_HISTORY_ITEMS = 100;
+const MAX_TAG_LENGTH = 40;
+// Reference images younger than this are kept even if no item uses them yet: they are saved
+// before the generation that uses them finishes.
+const REFERENCE_GRACE_MS = 60 * 60 * 1000;
+
+// ===============================
+// 🗄️ STORAGE SCHEMA
+// ===============================
+// History lives in the 'history' store of indexedDBService, scoped to the signed-in user.
+// The schema version is kept in the settings store:
+//   0  every user's history in one localforage array under 'monoklix_history' (no userId)
+//   1  one IndexedDB record per item, with userId
+// Videos stay in the video cache either way; items point at them with 'cached:<id>'.
+
+const HISTORY_SCHEMA_VERSION = 1;
+const SCHEMA_VERSION_KEY = 'historySchemaVersion';
+const LEGACY_HISTORY_KEY = 'monoklix_history';
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Moves the v0 localforage history into IndexedDB. Legacy items have no owner, so they go to the
+ * user who is signed in when it runs. The legacy copy is removed only after every item has been
+ * written, and the writes replace by ID, so an interrupted run simply repeats.
+ */
+const migrateLegacyHistory = async (userId: string): Promise<void> => {
+  const version = (await loadData<number>(SCHEMA_VERSION_KEY)) ?? 0;
+  if (version >= HISTORY_SCHEMA_VERSION) return;
+
+  const legacyItems = await localforage.getItem<HistoryItem[]>(LEGACY_HISTORY_KEY) || [];
+  if (legacyItems.length > 0) {
+    console.log(`🗄️ Migrating ${legacyItems.length} history item(s) to IndexedDB...`);
+    await dbPutHistoryItems(legacyItems.map(item => ({
+      ...item,
+      id: item.id || uuidv4(),
+      userId: item.userId || userId,
+      timestamp: item.timestamp || 0,
+    })));
+  }
+
+  await saveData(SCHEMA_VERSION_KEY, HISTORY_SCHEMA_VERSION);
+  await localforage.removeItem(LEGACY_HISTORY_KEY);
+  console.log(`✅ History schema is at version ${HISTORY_SCHEMA_VERSION}`);
+};
+
+/**
+ * The signed-in user's ID once their history is readable, or null when nobody is signed in.
+ * A failed migration leaves the legacy data alone and is retried on the next call.
+ */
+const getHistoryUserId = async (): Promise<string | null> => {
+  const userId = getSessionUser()?.id;
+  if (!userId) {
+    console.error('User not authenticated, cannot access history.');
+    return null;
+  }
+  if (!migration) {
+    migration = migrateLegacyHistory(userId).catch(error => {
+      migration = null;
+      throw error;
+    });
+  }
+  await migration;
+  return userId;
+};
+
+const getCachedVideoId = (item: HistoryItem): string | null =>
+  item.type === 'Video' && typeof item.result === 'string' && item.result.startsWith('cached:')
+    ? item.result.replace('cached:', '')
+    : null;
+
+const deleteItemVideo = async (item: HistoryItem): Promise<void> => {
+  const videoId = getCachedVideoId(item);
+  if (!videoId) return;
+  await deleteCachedVideo(videoId).catch(err =>
+    console.warn('Failed to delete cached video:', err)
+  );
+};
+
+/**
+ * Swaps a cached video reference for the video itself, or 'unavailable' if it is gone.
+ */
+const resolveCachedVideo = async (item: HistoryItem): Promise<HistoryItem> => {
+  const videoId = getCachedVideoId(item);
+  if (!videoId) return item;
+
+  const cachedBlob = await getCachedVideo(videoId);
+  if (cachedBlob) {
+    // Return item with blob for immediate use
+    return { ...item, result: cachedBlob };
+  }
+  // Video was evicted from cache or corrupted. Mark it as unavailable.
+  console.warn(`⚠️ Cached video not found: ${videoId}`);
+  return { ...item, result: 'unavailable' };
+};
+
+/**
+ * Deletes the user's reference images that no history item points at any more.
+ */
+const pruneReferenceImages = async (userId: string): Promise<void> => {
+  try {
+    const inUse = new Set((await dbGetHistory(userId)).flatMap(item => item.metadata?.referenceImageIds || []));
+    const cutoff = Date.now() - REFERENCE_GRACE_MS;
+    const unused = (await dbGetReferenceImagesForUser(userId))
+      .filter(image => !inUse.has(image.id) && image.timestamp < cutoff)
+      .map(image => image.id);
+    if (unused.length > 0) await dbDeleteReferenceImages(unused);
+  } catch (error) {
+    console.warn('⚠️ Failed to prune reference images:', error);
+  }
+};
+
+const hashImage = async (base64: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(base64));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Users of the same browser share the store, so the ID includes the user: one user's copy
+// never overwrites, or gets pruned with, another's.
+const getReferenceImageId = async (userId: string, base64: string): Promise<string> => `ref-${userId}-${await hashImage(base64)}`;
+
+// ===============================
+// 🖼️ REFERENCE IMAGES
+// ===============================
+
+/**
+ * Keeps the images a generation started from and returns their IDs for GenerationMetadata.
+ * The same image always gets the same ID for a user, so reusing it costs no extra space. Returns no IDs
+ * if they cannot be stored; the item is still worth saving without them.
+ */
+export const saveReferenceImages = async (images: { base64: string; mimeType: string }[]): Promise<string[]> => {
+  try {
+    const userId = await getHistoryUserId();
+    if (!userId || images.length === 0) return [];
+
+    const stored = await Promise.all(images.map(async image => ({
+      id: await getReferenceImageId(userId, image.base64),
+      userId,
+      base64: image.base64,
+      mimeType: image.mimeType,
+      timestamp: Date.now(),
+    })));
+    await dbPutReferenceImages(stored);
+    return stored.map(image => image.id);
+  } catch (error) {
+    console.warn('⚠️ Failed to save reference images:', error);
+    return [];
+  }
+};
+
+/**
+ * Loads reference images by ID, in the same order. Images that are gone are left out.
+ */
+export const getReferenceImages = async (ids: string[]): Promise<{ base64: string; mimeType: string }[]> => {
+  const userId = await getHistoryUserId();
+  if (!userId || ids.length === 0) return [];
+  const images = await dbGetReferenceImages(ids);
+  return images
+    .filter(image => image.userId === userId)
+    .map(({ base64, mimeType }) => ({ base64, mimeType }));
+};
 
 // ===============================
 // 📝 HISTORY MANAGEMENT
@@ -15,22 +179,26 @@ const MAX_HISTORY_ITEMS = 100;
  */
 export const addHistoryItem = async (item: Omit<HistoryItem, 'id' | 'timestamp'>): Promise<void> => {
   try {
+    const userId = await getHistoryUserId();
+    if (!userId) return;
+
     const newItem: HistoryItem = {
       ...item,
       id: uuidv4(),
+      userId,
       timestamp: Date.now(),
     };
 
     // ✅ If it's a video, cache it persistently
     if (item.type === 'Video' && item.result instanceof Blob) {
       console.log('💾 Caching video to persistent storage...');
-      
+
       await cacheVideo(
         newItem.id,
         item.result,
         {
           prompt: item.prompt,
-          model: 'veo-3.0', // You can pass this from the caller
+          model: item.metadata?.model,
           duration: undefined // Can calculate if needed
         }
       );
@@ -39,25 +207,11 @@ export const addHistoryItem = async (item: Omit<HistoryItem, 'id' | 'timestamp'>
       newItem.result = `cached:${newItem.id}`;
     }
 
-    const history = await localforage.getItem<HistoryItem[]>(HISTORY_KEY) || [];
-    history.unshift(newItem);
-
-    // Limit history size
-    if (history.length > MAX_HISTORY_ITEMS) {
-      const removed = history.splice(MAX_HISTORY_ITEMS);
-      
-      // Clean up cached videos for removed items
-      for (const item of removed) {
-        if (item.type === 'Video' && typeof item.result === 'string' && item.result.startsWith('cached:')) {
-          const videoId = item.result.replace('cached:', '');
-          await deleteCachedVideo(videoId).catch(err => 
-            console.warn('Failed to delete cached video:', err)
-          );
-        }
-      }
-    }
+    // Limit history size, and clean up cached videos for removed items
+    const removed = await dbAddAndPruneHistory([newItem], userId, MAX_HISTORY_ITEMS);
+    await Promise.all(removed.map(deleteItemVideo));
+    if (removed.length > 0) await pruneReferenceImages(userId);
 
-    await localforage.setItem(HISTORY_KEY, history);
     console.log('✅ History item added:', newItem.id);
 
   } catch (error) {
@@ -71,30 +225,11 @@ export const addHistoryItem = async (item: Omit<HistoryItem, 'id' | 'timestamp'>
  */
 export const getHistory = async (): Promise<HistoryItem[]> => {
   try {
-    const history = await localforage.getItem<HistoryItem[]>(HISTORY_KEY) || [];
-    
-    // ✅ Resolve cached video references
-    const resolvedHistory = await Promise.all(
-      history.map(async (item) => {
-        if (item.type === 'Video' && typeof item.result === 'string' && item.result.startsWith('cached:')) {
-          const videoId = item.result.replace('cached:', '');
-          const cachedBlob = await getCachedVideo(videoId);
-          
-          if (cachedBlob) {
-            // Return item with blob for immediate use
-            return { ...item, result: cachedBlob };
-          } else {
-            // Video was evicted from cache or corrupted. Mark it as unavailable.
-            console.warn(`⚠️ Cached video not found: ${videoId}`);
-            return { ...item, result: 'unavailable' };
-          }
-        }
-        return item;
-      })
-    );
+    const userId = await getHistoryUserId();
+    if (!userId) return [];
 
     // Return all items, letting the UI handle the 'unavailable' state
-    return resolvedHistory;
+    return await Promise.all((await dbGetHistory(userId)).map(resolveCachedVideo));
 
   } catch (error) {
     console.error('❌ Failed to get history:', error);
@@ -107,8 +242,9 @@ export const getHistory = async (): Promise<HistoryItem[]> => {
  */
 export const getHistoryItemById = async (id: string): Promise<HistoryItem | null> => {
   try {
-    const history = await getHistory();
-    return history.find(item => item.id === id) || null;
+    const userId = await getHistoryUserId();
+    const item = userId ? await dbGetHistoryItem(id) : null;
+    return item && item.userId === userId ? await resolveCachedVideo(item) : null;
   } catch (error) {
     console.error('❌ Failed to get history item:', error);
     return null;
@@ -120,26 +256,20 @@ export const getHistoryItemById = async (id: string): Promise<HistoryItem | null
  */
 export const deleteHistoryItem = async (id: string): Promise<void> => {
   try {
-    const history = await localforage.getItem<HistoryItem[]>(HISTORY_KEY) || [];
-    const itemIndex = history.findIndex(item => item.id === id);
-    
-    if (itemIndex === -1) {
+    const userId = await getHistoryUserId();
+    if (!userId) return;
+    const item = await dbGetHistoryItem(id);
+
+    if (!item || item.userId !== userId) {
       console.warn('⚠️ History item not found:', id);
       return;
     }
 
-    const item = history[itemIndex];
-
     // Delete cached video if exists
-    if (item.type === 'Video' && typeof item.result === 'string' && item.result.startsWith('cached:')) {
-      const videoId = item.result.replace('cached:', '');
-      await deleteCachedVideo(videoId).catch(err =>
-        console.warn('Failed to delete cached video:', err)
-      );
-    }
+    await deleteItemVideo(item);
 
-    history.splice(itemIndex, 1);
-    await localforage.setItem(HISTORY_KEY, history);
+    await dbDeleteHistoryItem(id);
+    await pruneReferenceImages(userId);
     console.log('✅ History item deleted:', id);
 
   } catch (error) {
@@ -149,24 +279,19 @@ export const deleteHistoryItem = async (id: string): Promise<void> => {
 };
 
 /**
- * Clear entire history and video cache
+ * Clear the signed-in user's history and their cached videos
  */
 export const clearHistory = async (): Promise<void> => {
   try {
-    const history = await localforage.getItem<HistoryItem[]>(HISTORY_KEY) || [];
+    const userId = await getHistoryUserId();
+    if (!userId) return;
 
     // Delete all cached videos
-    const deletePromises = history
-      .filter(item => item.type === 'Video' && typeof item.result === 'string' && item.result.startsWith('cached:'))
-      .map(item => {
-        const videoId = (item.result as string).replace('cached:', '');
-        return deleteCachedVideo(videoId).catch(err =>
-          console.warn('Failed to delete cached video:', err)
-        );
-      });
-
-    await Promise.all(deletePromises);
-    await localforage.removeItem(HISTORY_KEY);
+    const history = await dbGetHistory(userId);
+    await Promise.all(history.map(deleteItemVideo));
+
+    await dbClearHistory(userId);
+    await pruneReferenceImages(userId);
     console.log('✅ History cleared');
 
   } catch (error) {
@@ -180,37 +305,362 @@ export const clearHistory = async (): Promise<void> => {
  */
 export const getHistoryByType = async (type: HistoryItem['type']): Promise<HistoryItem[]> => {
   try {
-    const history = await getHistory();
-    return history.filter(item => item.type === type);
+    const userId = await getHistoryUserId();
+    if (!userId) return [];
+    return await Promise.all((await dbGetHistory(userId, { type })).map(resolveCachedVideo));
   } catch (error) {
     console.error('❌ Failed to get history by type:', error);
     return [];
   }
 };
 
+// ===============================
+// 🔎 SEARCH & ORGANIZE
+// ===============================
+
+// The gallery's filters, saved per user so they survive reloads
+export type GalleryFilters = Omit<HistoryQuery, 'types' | 'offset' | 'limit'>;
+
+const galleryFiltersKey = (userId: string) => `galleryFilters:${userId}`;
+
 /**
- * Export history as JSON (without video blobs)
+ * Tags as stored: trimmed, lower-case, without repeats or empty ones.
  */
-export const exportHistory = async (): Promise<string> => {
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(tag => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH)).filter(Boolean)));
+
+/**
+ * Search the signed-in user's history. See HistoryQuery.
+ */
+export const searchHistory = async (query: HistoryQuery): Promise<HistoryQueryResult> => {
   try {
-    const history = await localforage.getItem<HistoryItem[]>(HISTORY_KEY) || [];
-    
-    // Convert to exportable format (remove blobs)
-    const exportData = history.map(item => ({
-      id: item.id,
-      type: item.type,
-      prompt: item.prompt,
-      timestamp: item.timestamp,
-      // Store video reference only
-      result: item.type === 'Video' ? 'cached' : item.result
-    }));
-
-    return JSON.stringify(exportData, null, 2);
+    const userId = await getHistoryUserId();
+    if (!userId) return { items: [], total: 0 };
+    const result = await dbSearchHistory(userId, { ...query, tags: query.tags && normalizeTags(query.tags) });
+    return { ...result, items: await Promise.all(result.items.map(resolveCachedVideo)) };
+  } catch (error) {
+    console.error('❌ Failed to search history:', error);
+    return { items: [], total: 0 };
+  }
+};
+
+/**
+ * Changes the tags, favourite mark or folder of one of the user's items.
+ */
+export const updateHistoryItem = async (id: string, changes: Partial<Pick<HistoryItem, 'tags' | 'favoriteAt' | 'folderId'>>): Promise<void> => {
+  const userId = await getHistoryUserId();
+  if (!userId) return;
+  const item = await dbGetHistoryItem(id);
+  if (!item || item.userId !== userId) {
+    throw new Error('This item is not in your gallery.');
+  }
+  const tags = changes.tags ? normalizeTags(changes.tags) : item.tags;
+  await dbPutHistoryItems([{ ...item, ...changes, tags }]);
+
+  // A favourite's video is pinned in the video cache, so it is never evicted
+  const videoId = getCachedVideoId(item);
+  if (videoId && 'favoriteAt' in changes) {
+    await setVideoPinned(videoId, changes.favoriteAt !== undefined).catch(err =>
+      console.warn('Failed to pin cached video:', err)
+    );
+  }
+};
+
+export const setHistoryItemFavorite = (id: string, favorite: boolean): Promise<void> =>
+  updateHistoryItem(id, { favoriteAt: favorite ? Date.now() : undefined });
+
+/**
+ * Marks an item's video as just watched or downloaded, so the video cache evicts it last.
+ * Videos are cached under their item's ID.
+ */
+export const markHistoryVideoUsed = (item: HistoryItem): Promise<void> =>
+  item.type === 'Video' ? touchCachedVideo(item.id) : Promise.resolve();
+
+/**
+ * Every tag on the user's items, alphabetically.
+ */
+export const getHistoryTags = async (): Promise<string[]> => {
+  const userId = await getHistoryUserId();
+  return userId ? dbGetHistoryTags(userId) : [];
+};
+
+/**
+ * The user's folders, by name.
+ */
+export const getHistoryFolders = async (): Promise<HistoryFolder[]> => {
+  const userId = await getHistoryUserId();
+  if (!userId) return [];
+  return (await dbGetHistoryFolders(userId)).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createHistoryFolder = async (name: string): Promise<HistoryFolder | null> => {
+  const userId = await getHistoryUserId();
+  if (!userId || !name.trim()) return null;
+  const folder: HistoryFolder = { id: uuidv4(), userId, name: name.trim(), createdAt: Date.now() };
+  await dbPutHistoryFolder(folder);
+  return folder;
+};
+
+export const renameHistoryFolder = async (folder: HistoryFolder, name: string): Promise<void> => {
+  if (!name.trim()) return;
+  await dbPutHistoryFolder({ ...folder, name: name.trim() });
+};
+
+/**
+ * Deletes a folder but not its items, which move out of it.
+ */
+export const deleteHistoryFolder = async (folderId: string): Promise<void> => {
+  const userId = await getHistoryUserId();
+  if (userId) await dbDeleteHistoryFolder(userId, folderId);
+};
+
+export const loadGalleryFilters = async (): Promise<GalleryFilters | null> => {
+  const userId = getSessionUser()?.id;
+  return userId ? loadData<GalleryFilters>(galleryFiltersKey(userId)) : null;
+};
+
+export const saveGalleryFilters = async (filters: GalleryFilters): Promise<void> => {
+  const userId = getSessionUser()?.id;
+  if (userId) await saveData(galleryFiltersKey(userId), filters);
+};
+
+// ===============================
+// 💾 BACKUP & RESTORE
+// ===============================
+// A backup is a ZIP archive (zipService) holding manifest.json and the media as files:
+//   media/<item id>.<ext>        images, videos and audio
+//   references/<image id>.<ext>  the reference images the items' metadata points at
+// Text items (copy, storyboards) stay in the manifest. Folders are saved by name.
+
+const BACKUP_FORMAT = 'monoklix-gallery-backup';
+const BACKUP_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+};
+
+interface BackupItem extends Omit<HistoryItem, 'result' | 'userId' | 'folderId'> {
+  file?: string; // Media in the archive
+  mimeType?: string;
+  text?: string; // Result of text items
+  folder?: string; // Folder name
+}
+
+interface BackupReference {
+  id: string;
+  file: string;
+  mimeType: string;
+}
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  items: BackupItem[];
+  references: BackupReference[];
+}
+
+export interface HistoryBackup {
+  archive: Blob;
+  itemCount: number;
+  missingMedia: number; // Items left out because their video is no longer cached
+}
+
+export interface HistoryImportResult {
+  imported: number;
+  duplicates: number; // Already in the gallery
+  failed: number; // Media missing from the archive or not storable
+  trimmed: number; // Removed to keep the history within its limit
+}
+
+const getFileName = (folder: string, id: string, mimeType: string) =>
+  `${folder}/${id}.${FILE_EXTENSIONS[mimeType.split(';')[0]] || 'bin'}`;
+
+// Identifies an item independently of its ID, which changes when it is restored under another one
+const getItemFingerprint = (item: Pick<HistoryItem, 'type' | 'timestamp' | 'prompt'>) =>
+  `${item.type}:${item.timestamp}:${item.prompt}`;
 
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+  reader.onerror = reject;
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * Packs the signed-in user's gallery into a backup archive, or only the items matching
+ * `query`. Videos that are no longer cached are left out and counted in `missingMedia`.
+ */
+export const exportHistoryArchive = async (query?: HistoryQuery): Promise<HistoryBackup> => {
+  const userId = await getHistoryUserId();
+  if (!userId) throw new Error('User not authenticated, cannot export history.');
+
+  const history = query
+    ? (await dbSearchHistory(userId, { ...query, tags: query.tags && normalizeTags(query.tags), offset: 0, limit: undefined })).items
+    : await dbGetHistory(userId);
+  const folderNames = new Map((await dbGetHistoryFolders(userId)).map(folder => [folder.id, folder.name]));
+  const entries: ZipEntry[] = [];
+  const items: BackupItem[] = [];
+  let missingMedia = 0;
+
+  for (const { result, userId: _userId, folderId, ...item } of history) {
+    const backupItem: BackupItem = { ...item, folder: folderId ? folderNames.get(folderId) : undefined };
+    let media: Blob | null = null;
+
+    if ((item.type === 'Image' || item.type === 'Canvas') && typeof result === 'string') {
+      media = new Blob([decodeBase64(result)], { type: 'image/png' });
+    } else if (result instanceof Blob) {
+      media = result;
+    } else if (item.type === 'Video') {
+      const videoId = getCachedVideoId({ ...item, result });
+      media = videoId ? await getCachedVideo(videoId) : null;
+      if (!media) {
+        missingMedia++;
+        continue;
+      }
+    } else {
+      backupItem.text = result;
+    }
+
+    if (media) {
+      backupItem.mimeType = media.type || (item.type === 'Video' ? 'video/mp4' : 'audio/wav');
+      backupItem.file = getFileName('media', item.id, backupItem.mimeType);
+      entries.push({ name: backupItem.file, data: media });
+    }
+    items.push(backupItem);
+  }
+
+  const referenceIds = Array.from(new Set(items.flatMap(item => item.metadata?.referenceImageIds || [])));
+  const references: BackupReference[] = [];
+  for (const image of await dbGetReferenceImages(referenceIds)) {
+    if (image.userId !== userId) continue;
+    const file = getFileName('references', image.id, image.mimeType);
+    references.push({ id: image.id, file, mimeType: image.mimeType });
+    entries.push({ name: file, data: new Blob([decodeBase64(image.base64)], { type: image.mimeType }) });
+  }
+
+  const manifest: BackupManifest = { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: Date.now(), items, references };
+  entries.unshift({ name: MANIFEST_FILE, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) });
+
+  console.log(`💾 Exported ${items.length} history item(s), ${missingMedia} left out without media`);
+  return { archive: await createZip(entries), itemCount: items.length, missingMedia };
+};
+
+/**
+ * Restores a backup archive into the signed-in user's gallery. Items already in the gallery
+ * (same ID, or same type, time and prompt) are skipped. Videos go back into the video cache.
+ * The history limit still applies afterwards, so restoring more than it holds keeps the
+ * newest items and the favourites.
+ */
+export const importHistoryArchive = async (file: Blob): Promise<HistoryImportResult> => {
+  const userId = await getHistoryUserId();
+  if (!userId) throw new Error('User not authenticated, cannot import history.');
+
+  const files = await readZip(file);
+  const manifestFile = files.get(MANIFEST_FILE);
+  const manifest = manifestFile ? JSON.parse(await manifestFile.text()) as BackupManifest : null;
+  if (manifest?.format !== BACKUP_FORMAT || !Array.isArray(manifest.items)) {
+    throw new Error('This file is not a gallery backup.');
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app.');
+  }
+
+  const existing = await dbGetHistory(userId);
+  const knownIds = new Set(existing.map(item => item.id));
+  const knownFingerprints = new Set(existing.map(getItemFingerprint));
+  const folders = new Map((await dbGetHistoryFolders(userId)).map(folder => [folder.name, folder]));
+  const result: HistoryImportResult = { imported: 0, duplicates: 0, failed: 0, trimmed: 0 };
+  const newItems: HistoryItem[] = [];
+
+  // Reference images get this user's IDs, whoever made the backup. Backup ID -> image to store.
+  const references = new Map<string, StoredReferenceImage>();
+  for (const reference of manifest.references || []) {
+    const data = files.get(reference.file);
+    if (!data) continue;
+    const base64 = await blobToBase64(data);
+    references.set(reference.id, { id: await getReferenceImageId(userId, base64), userId, base64, mimeType: reference.mimeType, timestamp: Date.now() });
+  }
+  const toReferenceIds = (ids?: string[]) => ids?.flatMap(backupId => references.get(backupId)?.id || []);
+
+  for (const { file: mediaFile, mimeType, text, folder: folderName, ...item } of manifest.items) {
+    const fingerprint = getItemFingerprint(item);
+    if (knownIds.has(item.id) || knownFingerprints.has(fingerprint)) {
+      result.duplicates++;
+      continue;
+    }
+    knownFingerprints.add(fingerprint);
+
+    try {
+      // The ID can belong to another user of this browser
+      const id = (await dbGetHistoryItem(item.id)) ? uuidv4() : item.id;
+      const media = mediaFile ? files.get(mediaFile) : undefined;
+      let itemResult: string | Blob;
+
+      if (media) {
+        const typedMedia = new Blob([media], { type: mimeType });
+        if (item.type === 'Image' || item.type === 'Canvas') {
+          itemResult = await blobToBase64(typedMedia);
+        } else if (item.type === 'Video') {
+          await cacheVideo(id, typedMedia, { prompt: item.prompt, model: item.metadata?.model }, item.favoriteAt !== undefined);
+          itemResult = `cached:${id}`;
+        } else {
+          itemResult = typedMedia;
+        }
+      } else if (!mediaFile && typeof text === 'string') {
+        itemResult = text;
+      } else {
+        console.warn(`⚠️ Backup item ${item.id} has no media in the archive.`);
+        result.failed++;
+        continue;
+      }
+
+      let folderId: string | undefined;
+      if (folderName) {
+        let folder = folders.get(folderName);
+        if (!folder) {
+          folder = { id: uuidv4(), userId, name: folderName, createdAt: Date.now() };
+          await dbPutHistoryFolder(folder);
+          folders.set(folderName, folder);
+        }
+        folderId = folder.id;
+      }
+
+      const metadata = item.metadata && { ...item.metadata, referenceImageIds: toReferenceIds(item.metadata.referenceImageIds) };
+      newItems.push({ ...item, id, userId, result: itemResult, tags: item.tags && normalizeTags(item.tags), folderId, metadata });
+      knownIds.add(id);
+    } catch (error) {
+      console.warn(`⚠️ Failed to restore backup item ${item.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  const referenceIds = new Set(newItems.flatMap(item => item.metadata?.referenceImageIds || []));
+  const usedReferences = Array.from(references.values()).filter(reference => referenceIds.has(reference.id));
+  if (usedReferences.length > 0) await dbPutReferenceImages(usedReferences);
+
+  try {
+    const removed = await dbAddAndPruneHistory(newItems, userId, MAX_HISTORY_ITEMS);
+    await Promise.all(removed.map(deleteItemVideo));
+    if (removed.length > 0) await pruneReferenceImages(userId);
+    result.imported = newItems.length;
+    result.trimmed = removed.length;
   } catch (error) {
-    console.error('❌ Failed to export history:', error);
+    // Nothing was written, so the videos cached above belong to no item
+    await Promise.all(newItems.map(deleteItemVideo));
     throw error;
   }
+
+  console.log(`💾 Restored ${result.imported} history item(s): ${result.duplicates} duplicate(s), ${result.failed} failed, ${result.trimmed} trimmed`);
+  return result;
 };
 
 /**
@@ -228,7 +678,7 @@ export const getHistoryStats = async (): Promise<{
 
     for (const item of history) {
       byType[item.type] = (byType[item.type] || 0) + 1;
-      
+
       if (item.result instanceof Blob) {
         totalSize += item.result.size;
       }
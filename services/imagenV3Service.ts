@@ -1,9 +1,18 @@
 import { v4 as uuidv4 } from 'uuid';
-import { executeProxiedRequest } from './apiClient';
+import { createIdempotencyKey, executeProxiedRequest } from './apiClient';
 import { generateVideoWithVeo3 } from './veo3Service';
+import {
+  parseImagePanelsResponse,
+  parseUploadResponse,
+  type ImageAspectRatioEnum,
+  type ImagenGenerateRequestBody,
+  type ImagenImagePanelsResponse,
+  type ImagenRecipeRequestBody,
+  type ImagenUploadRequestBody,
+} from './proxySchemas';
 
 // This map translates user-friendly aspect ratios to the API-specific enums.
-const aspectRatioApiMap: { [key: string]: string } = {
+const aspectRatioApiMap: { [key: string]: ImageAspectRatioEnum } = {
     "1:1": "IMAGE_ASPECT_RATIO_SQUARE",
     "16:9": "IMAGE_ASPECT_RATIO_LANDSCAPE",
     "9:16": "IMAGE_ASPECT_RATIO_PORTRAIT",
@@ -37,10 +46,11 @@ export const uploadImageForImagen = async (
     base64Image: string, 
     mimeType: string, 
     authToken?: string, 
-    onStatusUpdate?: (status: string) => void
+    onStatusUpdate?: (status: string) => void,
+    signal?: AbortSignal
 ): Promise<{ mediaId: string; successfulToken: string }> => {
   console.log(`📤 [Imagen Service] Preparing to upload image for Imagen. MimeType: ${mimeType}`);
-  const requestBody = {
+  const requestBody: ImagenUploadRequestBody = {
     clientContext: { 
       sessionId: `;${Date.now()}` 
     },
@@ -57,25 +67,18 @@ export const uploadImageForImagen = async (
     requestBody, 
     'IMAGEN UPLOAD', 
     authToken, 
-    onStatusUpdate
+    onStatusUpdate,
+    signal
   );
 
-  const mediaId = 
-    data.result?.data?.json?.result?.uploadMediaGenerationId || 
-    data.mediaGenerationId?.mediaGenerationId || 
-    data.mediaId;
-
-  if (!mediaId) {
-    console.error("No mediaId in response:", JSON.stringify(data, null, 2));
-    throw new Error('Upload succeeded but no mediaId was returned from the proxy.');
-  }
+  const mediaId = parseUploadResponse(data, 'IMAGEN UPLOAD');
   console.log(`📤 [Imagen Service] Image upload successful. Media ID: ${mediaId} using token ...${successfulToken.slice(-6)}`);
   
   return { mediaId, successfulToken };
 };
 
 
-export const generateImageWithImagen = async (request: ImageGenerationRequest, onStatusUpdate?: (status: string) => void, isHealthCheck = false) => {
+export const generateImageWithImagen = async (request: ImageGenerationRequest, onStatusUpdate?: (status: string) => void, isHealthCheck = false, signal?: AbortSignal): Promise<ImagenImagePanelsResponse> => {
   console.log(`🎨 [Imagen Service] Preparing generateImageWithImagen (T2I) request...`);
   const { prompt, config } = request;
   
@@ -83,7 +86,7 @@ export const generateImageWithImagen = async (request: ImageGenerationRequest, o
   
   console.debug(`[Imagen T2I Prompt Sent]\n---\n${fullPrompt}\n---`);
 
-  const requestBody = {
+  const requestBody: ImagenGenerateRequestBody = {
       clientContext: {
           tool: 'BACKBONE',
           sessionId: `;${Date.now()}`
@@ -100,16 +103,19 @@ export const generateImageWithImagen = async (request: ImageGenerationRequest, o
   const logContext = isHealthCheck ? 'IMAGEN HEALTH CHECK' : 'IMAGEN GENERATE';
   console.log(`🎨 [Imagen Service] Sending T2I request to API client.`);
   
-  const { data: result } = await executeProxiedRequest(
+  const { data } = await executeProxiedRequest(
     '/generate',
     'imagen',
     requestBody,
     logContext,
     config.authToken,
-    onStatusUpdate
+    onStatusUpdate,
+    signal,
+    createIdempotencyKey()
   );
 
-  console.log(`🎨 [Imagen Service] Received T2I result with ${result.imagePanels?.length || 0} panels.`);
+  const result = parseImagePanelsResponse(data, logContext);
+  console.log(`🎨 [Imagen Service] Received T2I result with ${result.imagePanels.length} panels.`);
   return result;
 };
 
@@ -117,11 +123,11 @@ export const runImageRecipe = async (request: {
     userInstruction: string;
     recipeMediaInputs: RecipeMediaInput[];
     config: Omit<ImagenConfig, 'negativePrompt'>;
-}, onStatusUpdate?: (status: string) => void) => {
+}, onStatusUpdate?: (status: string) => void, signal?: AbortSignal): Promise<ImagenImagePanelsResponse> => {
     console.log(`✏️ [Imagen Service] Preparing runImageRecipe request with ${request.recipeMediaInputs.length} media inputs.`);
     const { userInstruction, recipeMediaInputs, config } = request;
     
-    const requestBody = {
+    const requestBody: ImagenRecipeRequestBody = {
         clientContext: {
             tool: 'BACKBONE',
             sessionId: `;${Date.now()}`
@@ -135,15 +141,18 @@ export const runImageRecipe = async (request: {
         recipeMediaInputs
     };
 
-    const { data: result } = await executeProxiedRequest(
+    const { data } = await executeProxiedRequest(
       '/run-recipe',
       'imagen',
       requestBody,
       'IMAGEN RECIPE',
       config.authToken, // CRITICAL: This must be the SAME token used for upload
-      onStatusUpdate
+      onStatusUpdate,
+      signal,
+      createIdempotencyKey()
     );
-    console.log(`✏️ [Imagen Service] Received recipe result with ${result.imagePanels?.length || 0} panels.`);
+    const result = parseImagePanelsResponse(data, 'IMAGEN RECIPE');
+    console.log(`✏️ [Imagen Service] Received recipe result with ${result.imagePanels.length} panels.`);
     return result;
 };
 
@@ -151,7 +160,7 @@ export const editOrComposeWithImagen = async (request: {
     prompt: string,
     images: { base64: string, mimeType: string, category: string, caption: string }[],
     config: ImagenConfig
-}, onStatusUpdate?: (status: string) => void) => {
+}, onStatusUpdate?: (status: string) => void, signal?: AbortSignal): Promise<ImagenImagePanelsResponse> => {
     console.log(`🎨➡️✏️ [Imagen Service] Starting editOrComposeWithImagen flow with ${request.images.length} images.`);
     
     console.debug(`[Imagen Edit/Compose Prompt Sent]\n---\n${request.prompt}\n---`);
@@ -171,7 +180,8 @@ export const editOrComposeWithImagen = async (request: {
             img.base64, 
             img.mimeType, 
             consistentToken, 
-            onStatusUpdate
+            onStatusUpdate,
+            signal
         );
         
         // Lock in this token for the rest of the process
@@ -202,7 +212,7 @@ export const editOrComposeWithImagen = async (request: {
             ...request.config,
             authToken: consistentToken // Force use of the token that owns the media IDs
         }
-    }, onStatusUpdate);
+    }, onStatusUpdate, signal);
     
     return result;
 };
@@ -1,11 +1,40 @@
-import { type AiLogItem, type HistoryItem } from '../types';
+import { type AiLogItem, type HistoryFolder, type HistoryItem, type HistoryQuery, type HistoryQueryResult } from '../types';
 
 const DB_NAME = 'monoklix-ai-db';
-const DB_VERSION = 2; // Incremented version to trigger onupgradeneeded
+const DB_VERSION = 5; // 3: per-user compound indexes on history, 4: reference images, 5: gallery search and folders
 const STORES = {
     SETTINGS: 'settings',
     HISTORY: 'history',
     LOGS: 'logs',
+    REFERENCES: 'references',
+    FOLDERS: 'folders',
+};
+
+// History records also carry the keys of the search indexes, prefixed with the owner's ID so a
+// lookup never reaches another user's items. They are derived on every write and never returned.
+type StoredHistoryItem = HistoryItem & {
+    searchKeys: string[]; // '<userId>:<word>' for each word of the prompt
+    tagKeys: string[]; // '<userId>:<tag>'
+};
+
+/**
+ * The lower-case words of a text, at least two characters long, without repeats.
+ */
+const toWords = (text: string): string[] =>
+    Array.from(new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= 2)));
+
+const toStoredHistoryItem = (item: HistoryItem): StoredHistoryItem => {
+    const owner = item.userId ?? '';
+    return {
+        ...item,
+        searchKeys: toWords(item.prompt || '').map(word => `${owner}:${word}`),
+        tagKeys: (item.tags || []).map(tag => `${owner}:${tag}`),
+    };
+};
+
+const fromStoredHistoryItem = (stored: StoredHistoryItem): HistoryItem => {
+    const { searchKeys, tagKeys, ...item } = stored;
+    return item;
 };
 
 let db: IDBDatabase | null = null;
@@ -23,11 +52,17 @@ const openDB = (): Promise<IDBDatabase> => {
 
         request.onsuccess = (event) => {
             db = (event.target as IDBOpenDBRequest).result;
+            // Another tab is upgrading the schema: let go so it isn't blocked, and reopen on next use.
+            db.onversionchange = () => {
+                db?.close();
+                db = null;
+            };
             resolve(db);
         };
 
         request.onupgradeneeded = (event) => {
             const dbInstance = (event.target as IDBOpenDBRequest).result;
+            const upgradeTransaction = (event.target as IDBOpenDBRequest).transaction!;
             // Old version might have a 'keyValueStore'. We can delete it upon upgrade.
             if (dbInstance.objectStoreNames.contains('keyValueStore')) {
                 dbInstance.deleteObjectStore('keyValueStore');
@@ -41,6 +76,38 @@ const openDB = (): Promise<IDBDatabase> => {
                 historyStore.createIndex('userId', 'userId', { unique: false });
                 historyStore.createIndex('timestamp', 'timestamp', { unique: false });
             }
+            // v3: newest-first and by-type queries for one user without scanning their whole history.
+            const historyStore = upgradeTransaction.objectStore(STORES.HISTORY);
+            if (!historyStore.indexNames.contains('userId_timestamp')) {
+                historyStore.createIndex('userId_timestamp', ['userId', 'timestamp'], { unique: false });
+            }
+            if (!historyStore.indexNames.contains('userId_type')) {
+                historyStore.createIndex('userId_type', ['userId', 'type'], { unique: false });
+            }
+            // v4: source images of history items, shared by ID between the items that used them.
+            if (!dbInstance.objectStoreNames.contains(STORES.REFERENCES)) {
+                const referencesStore = dbInstance.createObjectStore(STORES.REFERENCES, { keyPath: 'id' });
+                referencesStore.createIndex('userId', 'userId', { unique: false });
+            }
+            // v5: gallery search, tags, favourites and folders. Items written before get their
+            // search keys here.
+            if (!historyStore.indexNames.contains('searchKeys')) {
+                historyStore.createIndex('searchKeys', 'searchKeys', { unique: false, multiEntry: true });
+                historyStore.createIndex('tagKeys', 'tagKeys', { unique: false, multiEntry: true });
+                historyStore.createIndex('userId_folderId', ['userId', 'folderId'], { unique: false });
+                historyStore.createIndex('userId_favoriteAt', ['userId', 'favoriteAt'], { unique: false });
+                historyStore.openCursor().onsuccess = (cursorEvent) => {
+                    const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue>).result;
+                    if (cursor) {
+                        cursor.update(toStoredHistoryItem(cursor.value));
+                        cursor.continue();
+                    }
+                };
+            }
+            if (!dbInstance.objectStoreNames.contains(STORES.FOLDERS)) {
+                const foldersStore = dbInstance.createObjectStore(STORES.FOLDERS, { keyPath: 'id' });
+                foldersStore.createIndex('userId', 'userId', { unique: false });
+            }
             if (!dbInstance.objectStoreNames.contains(STORES.LOGS)) {
                 const logsStore = dbInstance.createObjectStore(STORES.LOGS, { keyPath: 'id' });
                 logsStore.createIndex('userId', 'userId', { unique: false });
@@ -135,37 +202,52 @@ const clearItemsForUser = async (storeName: string, userId: string): Promise<voi
     });
 };
 
+const putItems = async <T>(storeName: string, items: T[]): Promise<void> => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    items.forEach(item => store.put(item));
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = (event) => reject((event.target as IDBTransaction).error);
+        transaction.onabort = (event) => reject((event.target as IDBTransaction).error);
+    });
+};
+
 /**
  * FIX: Combines adding and pruning into a single transaction to prevent deadlocks.
  * This is the core fix for the hanging log page and items not saving to the gallery.
+ * Items for which `isKept` returns true are never pruned and do not count towards `maxItems`.
+ * Resolves to the items that were pruned.
  */
-const addAndPrune = async (storeName: string, item: any, userId: string, maxItems: number) => {
+const addAndPrune = async <T extends { id: string; timestamp: number }>(storeName: string, newItems: T[], userId: string, maxItems: number, isKept?: (item: T) => boolean): Promise<T[]> => {
     const dbInstance = await openDB();
     const transaction = dbInstance.transaction(storeName, 'readwrite');
     const store = transaction.objectStore(storeName);
     const userIndex = store.index('userId');
 
-    // Add the new item first.
-    store.add(item);
+    // Add the new items first.
+    newItems.forEach(item => store.add(item));
 
     // Now, find all items for the user and delete the oldest if over the limit.
     const getRequest = userIndex.getAll(userId);
+    let itemsToDelete: T[] = [];
     
     getRequest.onsuccess = () => {
-        const items = getRequest.result;
+        const items = (getRequest.result as T[]).filter(storedItem => !isKept?.(storedItem));
         if (items.length > maxItems) {
             // Sort by timestamp ascending (oldest first)
             items.sort((a, b) => a.timestamp - b.timestamp);
-            const itemsToDelete = items.slice(0, items.length - maxItems);
+            itemsToDelete = items.slice(0, items.length - maxItems);
             itemsToDelete.forEach(oldItem => {
                 store.delete(oldItem.id);
             });
         }
     };
     
-    return new Promise<void>((resolve, reject) => {
+    return new Promise<T[]>((resolve, reject) => {
         transaction.oncomplete = () => {
-            resolve();
+            resolve(itemsToDelete);
         };
         transaction.onerror = (event) => {
             reject((event.target as IDBTransaction).error);
@@ -177,13 +259,227 @@ const addAndPrune = async (storeName: string, item: any, userId: string, maxItem
 };
 
 
+// --- History Queries ---
+
+/**
+ * One user's history, newest first, read through the compound indexes. `type` narrows it to one
+ * kind of item; `limit` stops after that many.
+ */
+const queryHistory = async (userId: string, { type, limit }: { type?: HistoryItem['type']; limit?: number } = {}): Promise<HistoryItem[]> => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(STORES.HISTORY, 'readonly');
+    const store = transaction.objectStore(STORES.HISTORY);
+
+    if (type) {
+        const request = store.index('userId_type').getAll([userId, type]);
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => {
+                const sorted = (request.result as StoredHistoryItem[]).map(fromStoredHistoryItem).sort((a, b) => b.timestamp - a.timestamp);
+                resolve(limit ? sorted.slice(0, limit) : sorted);
+            };
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    const range = IDBKeyRange.bound([userId, -Infinity], [userId, Infinity]);
+    const request = store.index('userId_timestamp').openCursor(range, 'prev');
+    const items: HistoryItem[] = [];
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor && (!limit || items.length < limit)) {
+                items.push(fromStoredHistoryItem(cursor.value));
+                cursor.continue();
+            } else {
+                resolve(items);
+            }
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const getHistoryItem = async (id: string): Promise<HistoryItem | null> => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(STORES.HISTORY, 'readonly');
+    const request = transaction.objectStore(STORES.HISTORY).get(id);
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result ? fromStoredHistoryItem(request.result as StoredHistoryItem) : null);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const getKeys = (source: IDBIndex, query: IDBKeyRange): Promise<string[]> => {
+    const request = source.getAllKeys(query);
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result as string[]);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const intersect = (keySets: Set<string>[]): Set<string> | null =>
+    keySets.length === 0
+        ? null
+        : keySets.reduce((result, keys) => new Set([...result].filter(key => keys.has(key))));
+
+/**
+ * Runs a gallery search. Each condition is answered by an index and yields the IDs of its
+ * matches; only the IDs in every set are read, in the requested order, one page at a time.
+ */
+const searchHistory = async (userId: string, query: HistoryQuery): Promise<HistoryQueryResult> => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(STORES.HISTORY, 'readonly');
+    const store = transaction.objectStore(STORES.HISTORY);
+    const userRange = IDBKeyRange.bound([userId, -Infinity], [userId, Infinity]);
+    const toSet = (keys: string[][]) => new Set(keys.flat());
+
+    const conditions: Promise<Set<string>>[] = [];
+    if (query.types && query.types.length > 0) {
+        conditions.push(Promise.all(query.types.map(type => getKeys(store.index('userId_type'), IDBKeyRange.only([userId, type])))).then(toSet));
+    }
+    toWords(query.search || '').forEach(word => {
+        // Prefix match: 'sun' finds 'sunglasses'
+        const range = IDBKeyRange.bound(`${userId}:${word}`, `${userId}:${word}\uffff`);
+        conditions.push(getKeys(store.index('searchKeys'), range).then(keys => new Set(keys)));
+    });
+    (query.tags || []).forEach(tag => {
+        conditions.push(getKeys(store.index('tagKeys'), IDBKeyRange.only(`${userId}:${tag}`)).then(keys => new Set(keys)));
+    });
+    if (query.folderId) {
+        conditions.push(getKeys(store.index('userId_folderId'), IDBKeyRange.only([userId, query.folderId])).then(keys => new Set(keys)));
+    }
+    if (query.favoritesOnly) {
+        conditions.push(getKeys(store.index('userId_favoriteAt'), userRange).then(keys => new Set(keys)));
+    }
+
+    // The date range and the order both come from the timestamp index.
+    const dateRange = IDBKeyRange.bound([userId, query.from ?? -Infinity], [userId, query.to ?? Infinity]);
+    const [matches, byTime] = await Promise.all([
+        Promise.all(conditions).then(intersect),
+        getKeys(store.index('userId_timestamp'), dateRange),
+    ]);
+    let ids = byTime.filter(id => !matches || matches.has(id));
+    if (query.sort !== 'oldest') ids.reverse();
+    if (query.sort === 'favoritesFirst') {
+        const found = new Set(ids);
+        const favorites = (await getKeys(store.index('userId_favoriteAt'), userRange)).reverse().filter(id => found.has(id));
+        const favoriteSet = new Set(favorites);
+        ids = [...favorites, ...ids.filter(id => !favoriteSet.has(id))];
+    }
+
+    const offset = query.offset ?? 0;
+    const page = ids.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+    const items = await Promise.all(page.map(id => new Promise<HistoryItem>((resolve, reject) => {
+        const request = store.get(id);
+        request.onsuccess = () => resolve(fromStoredHistoryItem(request.result as StoredHistoryItem));
+        request.onerror = () => reject(request.error);
+    })));
+    return { items, total: ids.length };
+};
+
+/**
+ * Every tag the user has used, in alphabetical order.
+ */
+const getHistoryTags = async (userId: string): Promise<string[]> => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(STORES.HISTORY, 'readonly');
+    const prefix = `${userId}:`;
+    const request = transaction.objectStore(STORES.HISTORY).index('tagKeys')
+        .openKeyCursor(IDBKeyRange.bound(prefix, `${prefix}\uffff`), 'nextunique');
+    const tags: string[] = [];
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor) {
+                tags.push((cursor.key as string).slice(prefix.length));
+                cursor.continue();
+            } else {
+                resolve(tags);
+            }
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Deletes a folder. Its items stay in the history, outside any folder.
+ */
+const deleteHistoryFolder = async (userId: string, folderId: string): Promise<void> => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction([STORES.HISTORY, STORES.FOLDERS], 'readwrite');
+    transaction.objectStore(STORES.FOLDERS).delete(folderId);
+    const request = transaction.objectStore(STORES.HISTORY).index('userId_folderId').openCursor(IDBKeyRange.only([userId, folderId]));
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+            const { folderId: _removed, ...item } = cursor.value as StoredHistoryItem;
+            cursor.update(item);
+            cursor.continue();
+        }
+    };
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = (event) => reject((event.target as IDBTransaction).error);
+        transaction.onabort = (event) => reject((event.target as IDBTransaction).error);
+    });
+};
+
 // --- Exported History Functions ---
-export const dbGetHistory = (userId: string) => getAllItemsForUser<HistoryItem>(STORES.HISTORY, userId);
+export const dbGetHistory = (userId: string, options?: { type?: HistoryItem['type']; limit?: number }) => queryHistory(userId, options);
+export const dbSearchHistory = (userId: string, query: HistoryQuery) => searchHistory(userId, query);
+export const dbGetHistoryTags = (userId: string) => getHistoryTags(userId);
+export const dbGetHistoryItem = (id: string) => getHistoryItem(id);
+// Writes many items in one transaction, replacing items with the same ID. Nothing is pruned.
+export const dbPutHistoryItems = (items: HistoryItem[]) => putItems(STORES.HISTORY, items.map(toStoredHistoryItem));
 export const dbDeleteHistoryItem = (id: string) => deleteItem(STORES.HISTORY, id);
 export const dbClearHistory = (userId: string) => clearItemsForUser(STORES.HISTORY, userId);
-export const dbAddAndPruneHistory = (item: HistoryItem, userId: string, max: number) => addAndPrune(STORES.HISTORY, item, userId, max);
+// Favourites are kept beyond the limit.
+export const dbAddAndPruneHistory = async (items: HistoryItem[], userId: string, max: number): Promise<HistoryItem[]> =>
+    (await addAndPrune(STORES.HISTORY, items.map(toStoredHistoryItem), userId, max, stored => stored.favoriteAt !== undefined)).map(fromStoredHistoryItem);
+
+// --- Folder Functions ---
+export const dbGetHistoryFolders = (userId: string) => getAllItemsForUser<HistoryFolder>(STORES.FOLDERS, userId);
+export const dbPutHistoryFolder = (folder: HistoryFolder) => putItems(STORES.FOLDERS, [folder]);
+export const dbDeleteHistoryFolder = (userId: string, folderId: string) => deleteHistoryFolder(userId, folderId);
+
+// --- Reference Image Functions ---
+
+export interface StoredReferenceImage {
+    id: string;
+    userId: string;
+    base64: string;
+    mimeType: string;
+    timestamp: number;
+}
+
+const getReferenceImages = async (ids: string[]): Promise<StoredReferenceImage[]> => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(STORES.REFERENCES, 'readonly');
+    const store = transaction.objectStore(STORES.REFERENCES);
+    const results = await Promise.all(ids.map(id => new Promise<StoredReferenceImage | null>((resolve, reject) => {
+        const request = store.get(id);
+        request.onsuccess = () => resolve((request.result as StoredReferenceImage) || null);
+        request.onerror = () => reject(request.error);
+    })));
+    return results.filter((image): image is StoredReferenceImage => image !== null);
+};
+
+const deleteItems = async (storeName: string, ids: string[]): Promise<void> => {
+    const dbInstance = await openDB();
+    const transaction = dbInstance.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    ids.forEach(id => store.delete(id));
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = (event) => reject((event.target as IDBTransaction).error);
+    });
+};
+
+export const dbGetReferenceImages = (ids: string[]) => getReferenceImages(ids);
+export const dbGetReferenceImagesForUser = (userId: string) => getAllItemsForUser<StoredReferenceImage>(STORES.REFERENCES, userId);
+export const dbPutReferenceImages = (images: StoredReferenceImage[]) => putItems(STORES.REFERENCES, images);
+export const dbDeleteReferenceImages = (ids: string[]) => deleteItems(STORES.REFERENCES, ids);
 
 // --- Exported Log Functions ---
 export const dbGetLogs = (userId: string) => getAllItemsForUser<AiLogItem>(STORES.LOGS, userId);
 export const dbClearLogs = (userId: string) => clearItemsForUser(STORES.LOGS, userId);
-export const dbAddAndPruneLogEntry = (item: AiLogItem, userId: string, max: number) => addAndPrune(STORES.LOGS, item, userId, max);
\ No newline at end of file
+export const dbAddAndPruneLogEntry = (item: AiLogItem, userId: string, max: number) => addAndPrune(STORES.LOGS, [item], userId, max);
\ No newline at end of file
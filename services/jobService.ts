@@ -0,0 +1,313 @@
+import { v4 as uuidv4 } from 'uuid';
+import { type GenerationJob, type HistoryItem } from '../types';
+import { addHistoryItem } from './historyService';
+import { createAbortError, isAbortError } from '../utils/abortUtils';
+
+// ===============================
+// 🧵 BACKGROUND JOB MANAGER
+// ===============================
+// Generations run here instead of inside view state, so switching views in App.tsx
+// no longer orphans a running job. Views start jobs, subscribe to their progress and
+// reattach on mount; results are saved to history even if the view is gone.
+
+const MAX_FINISHED_JOBS = 20;
+
+export interface JobContext {
+  jobId: string;
+  setStatus: (message: string) => void;
+  // Aborted by cancelJob. Pass it down to the generation services so in-flight requests stop.
+  signal: AbortSignal;
+}
+
+export interface JobSpec<T> {
+  kind: GenerationJob['kind'];
+  label: string;
+  sourceView: string;
+  sourceKey?: string;
+  // Jobs sharing a queue run one at a time, in the order they were started.
+  queue?: string;
+  run: (ctx: JobContext) => Promise<T>;
+  // Builds the history item for a successful result. Saved by the job manager itself.
+  toHistoryItem?: (result: T) => Omit<HistoryItem, 'id' | 'timestamp'> | null;
+  // Runs after the history item has been saved, e.g. to increment usage counters.
+  afterSave?: (result: T) => Promise<void> | void;
+}
+
+type JobsListener = (jobs: GenerationJob[]) => void;
+type JobListener = (job: GenerationJob) => void;
+
+const jobs = new Map<string, GenerationJob>();
+const specs = new Map<string, JobSpec<any>>();
+const queues = new Map<string, string[]>();
+const runningQueues = new Set<string>();
+const abortControllers = new Map<string, AbortController>();
+const completionWaiters = new Map<string, { resolve: (value: any) => void; reject: (reason: unknown) => void }[]>();
+const jobsListeners = new Set<JobsListener>();
+const jobListeners = new Map<string, Set<JobListener>>();
+
+// ===============================
+// 🔔 SUBSCRIPTIONS
+// ===============================
+
+const notify = (jobId: string) => {
+  const job = jobs.get(jobId);
+  if (job) {
+    jobListeners.get(jobId)?.forEach(listener => listener({ ...job }));
+  }
+  const snapshot = getJobs();
+  jobsListeners.forEach(listener => listener(snapshot));
+};
+
+const updateJob = (jobId: string, updates: Partial<GenerationJob>) => {
+  const job = jobs.get(jobId);
+  if (!job) return;
+  jobs.set(jobId, { ...job, ...updates });
+  notify(jobId);
+};
+
+/**
+ * Subscribe to the full job list. The listener is called immediately with the current jobs.
+ */
+export const subscribeToJobs = (listener: JobsListener): (() => void) => {
+  jobsListeners.add(listener);
+  listener(getJobs());
+  return () => {
+    jobsListeners.delete(listener);
+  };
+};
+
+/**
+ * Subscribe to a single job. The listener is called immediately if the job exists.
+ */
+export const subscribeToJob = <T = unknown>(jobId: string, listener: (job: GenerationJob<T>) => void): (() => void) => {
+  if (!jobListeners.has(jobId)) {
+    jobListeners.set(jobId, new Set());
+  }
+  const typedListener = listener as JobListener;
+  jobListeners.get(jobId)!.add(typedListener);
+
+  const job = jobs.get(jobId);
+  if (job) typedListener({ ...job });
+
+  return () => {
+    jobListeners.get(jobId)?.delete(typedListener);
+  };
+};
+
+// ===============================
+// 🔍 QUERIES
+// ===============================
+
+/**
+ * Get all jobs, newest first
+ */
+export const getJobs = (): GenerationJob[] => {
+  return Array.from(jobs.values())
+    .map(job => ({ ...job }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getJob = <T = unknown>(jobId: string): GenerationJob<T> | null => {
+  const job = jobs.get(jobId);
+  return job ? ({ ...job } as GenerationJob<T>) : null;
+};
+
+export const isJobActive = (job: GenerationJob): boolean => {
+  return job.status === 'queued' || job.status === 'running';
+};
+
+/**
+ * Find the jobs started by a given tool, newest first. Used by views to reattach on mount.
+ */
+export const findJobs = <T = unknown>(sourceView: string, sourceKey?: string): GenerationJob<T>[] => {
+  return getJobs().filter(job =>
+    job.sourceView === sourceView && (sourceKey === undefined || job.sourceKey === sourceKey)
+  ) as GenerationJob<T>[];
+};
+
+/**
+ * Resolves with the job result once it completes, or rejects with its error.
+ */
+export const waitForJob = <T = unknown>(jobId: string): Promise<T> => {
+  const job = jobs.get(jobId);
+  if (!job) {
+    return Promise.reject(new Error(`Job not found: ${jobId}`));
+  }
+  if (job.status === 'completed') {
+    return Promise.resolve(job.result as T);
+  }
+  if (job.status === 'failed') {
+    return Promise.reject(new Error(job.error));
+  }
+  if (job.status === 'cancelled') {
+    return Promise.reject(createAbortError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    if (!completionWaiters.has(jobId)) {
+      completionWaiters.set(jobId, []);
+    }
+    completionWaiters.get(jobId)!.push({ resolve, reject });
+  });
+};
+
+// ===============================
+// 🚀 EXECUTION
+// ===============================
+
+const settleWaiters = (jobId: string, result: unknown, error?: unknown) => {
+  const waiters = completionWaiters.get(jobId) || [];
+  completionWaiters.delete(jobId);
+  waiters.forEach(waiter => (error !== undefined ? waiter.reject(error) : waiter.resolve(result)));
+};
+
+const pruneFinishedJobs = () => {
+  const finished = getJobs().filter(job => !isJobActive(job));
+  finished.slice(MAX_FINISHED_JOBS).forEach(job => removeJob(job.id));
+};
+
+const executeJob = async (jobId: string): Promise<void> => {
+  const spec = specs.get(jobId);
+  if (!spec) return;
+
+  const controller = new AbortController();
+  abortControllers.set(jobId, controller);
+  updateJob(jobId, { status: 'running', statusMessage: 'Starting...', startedAt: Date.now() });
+
+  const context: JobContext = {
+    jobId,
+    setStatus: (message: string) => updateJob(jobId, { statusMessage: message }),
+    signal: controller.signal,
+  };
+
+  try {
+    const result = await spec.run(context);
+
+    // Persist before announcing completion so the gallery is up to date when views react.
+    const historyItem = spec.toHistoryItem?.(result);
+    if (historyItem) {
+      try {
+        await addHistoryItem(historyItem);
+        await spec.afterSave?.(result);
+      } catch (saveError) {
+        console.error(`❌ [Job Manager] Job ${jobId} finished but its result could not be saved:`, saveError);
+      }
+    }
+
+    updateJob(jobId, { status: 'completed', statusMessage: 'Completed', result, finishedAt: Date.now() });
+    console.log(`✅ [Job Manager] Job completed: ${jobId}`);
+    settleWaiters(jobId, result);
+  } catch (error) {
+    if (isAbortError(error)) {
+      updateJob(jobId, { status: 'cancelled', statusMessage: 'Cancelled', finishedAt: Date.now() });
+      console.log(`🚫 [Job Manager] Job cancelled: ${jobId}`);
+      settleWaiters(jobId, undefined, error);
+      return;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    updateJob(jobId, { status: 'failed', statusMessage: 'Failed', error: errorMessage, finishedAt: Date.now() });
+    console.error(`❌ [Job Manager] Job failed: ${jobId}`, errorMessage);
+    settleWaiters(jobId, undefined, error);
+  } finally {
+    abortControllers.delete(jobId);
+    specs.delete(jobId);
+    pruneFinishedJobs();
+  }
+};
+
+const drainQueue = async (queueName: string): Promise<void> => {
+  if (runningQueues.has(queueName)) return;
+  runningQueues.add(queueName);
+  try {
+    let nextJobId = queues.get(queueName)?.shift();
+    while (nextJobId) {
+      await executeJob(nextJobId);
+      nextJobId = queues.get(queueName)?.shift();
+    }
+  } finally {
+    runningQueues.delete(queueName);
+    queues.delete(queueName);
+  }
+};
+
+/**
+ * Start a generation job. Returns the job ID immediately; use subscribeToJob or waitForJob for the outcome.
+ */
+export const startJob = <T>(spec: JobSpec<T>): string => {
+  const jobId = uuidv4();
+  const job: GenerationJob<T> = {
+    id: jobId,
+    kind: spec.kind,
+    label: spec.label,
+    sourceView: spec.sourceView,
+    sourceKey: spec.sourceKey,
+    status: 'queued',
+    statusMessage: 'Queued',
+    createdAt: Date.now(),
+  };
+
+  jobs.set(jobId, job);
+  specs.set(jobId, spec);
+
+  const queueName = spec.queue || jobId;
+  if (!queues.has(queueName)) {
+    queues.set(queueName, []);
+  }
+  queues.get(queueName)!.push(jobId);
+
+  console.log(`🧵 [Job Manager] Job queued: ${jobId} (${spec.label})`);
+  notify(jobId);
+  drainQueue(queueName);
+
+  return jobId;
+};
+
+const dropFromQueue = (jobId: string) => {
+  queues.forEach(queue => {
+    const position = queue.indexOf(jobId);
+    if (position !== -1) queue.splice(position, 1);
+  });
+  specs.delete(jobId);
+};
+
+/**
+ * Cancel a job. A running job has its signal aborted and settles as 'cancelled' once its
+ * requests stop; a queued job is marked cancelled straight away and never starts.
+ */
+export const cancelJob = (jobId: string): void => {
+  const job = jobs.get(jobId);
+  if (!job) return;
+
+  if (job.status === 'running') {
+    updateJob(jobId, { statusMessage: 'Cancelling...' });
+    abortControllers.get(jobId)?.abort();
+  } else if (job.status === 'queued') {
+    dropFromQueue(jobId);
+    updateJob(jobId, { status: 'cancelled', statusMessage: 'Cancelled', finishedAt: Date.now() });
+    settleWaiters(jobId, undefined, createAbortError());
+  }
+};
+
+/**
+ * Remove a job from the tray. Queued jobs are dropped before they start; running jobs cannot be removed.
+ */
+export const removeJob = (jobId: string): void => {
+  const job = jobs.get(jobId);
+  if (!job || job.status === 'running') return;
+
+  if (job.status === 'queued') {
+    dropFromQueue(jobId);
+    settleWaiters(jobId, undefined, new Error('Job was removed before it started.'));
+  }
+
+  jobs.delete(jobId);
+  jobListeners.delete(jobId);
+  const snapshot = getJobs();
+  jobsListeners.forEach(listener => listener(snapshot));
+};
+
+/**
+ * Remove all finished jobs from the tray.
+ */
+export const clearFinishedJobs = (): void => {
+  getJobs().filter(job => !isJobActive(job)).forEach(job => removeJob(job.id));
+};
@@ -0,0 +1,44 @@
+import { type User, type UserRole, type Permission } from '../types';
+import { getSessionUser } from './authService';
+
+// ===============================
+// 🛡️ PERMISSIONS
+// ===============================
+// What each role may do. Navigation, Settings tabs and the admin service functions all check
+// this one matrix, so hiding a button and refusing the call can't drift apart.
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    admin: [
+        'users.view', 'users.edit', 'users.create', 'users.remove', 'users.forceLogout',
+        'users.import', 'users.export', 'content.edit', 'servers.view', 'tokens.generate',
+    ],
+    support: ['users.view', 'users.forceLogout'],
+    content_editor: ['content.edit'],
+    server_operator: ['servers.view'],
+    user: [],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+    admin: 'Admin',
+    support: 'Support Agent',
+    content_editor: 'Content Editor',
+    server_operator: 'Server Operator',
+    user: 'User',
+};
+
+/**
+ * Whether `user` (default: the signed-in user) holds `permission`. Unknown roles hold none.
+ */
+export const hasPermission = (permission: Permission, user: Pick<User, 'role'> | null = getSessionUser()): boolean => {
+    if (!user) return false;
+    return ROLE_PERMISSIONS[user.role]?.includes(permission) ?? false;
+};
+
+/**
+ * Guard for service functions: logs and returns false when the signed-in user lacks `permission`.
+ */
+export const checkPermission = (permission: Permission, action: string): boolean => {
+    if (hasPermission(permission)) return true;
+    console.warn(`🛡️ [Permissions] ${action} refused: missing '${permission}'.`);
+    return false;
+};
@@ -0,0 +1,181 @@
+// ===============================
+// 📈 PROXY METRICS
+// ===============================
+// Reads the Prometheus text served on each proxy server's /metrics endpoint and reduces it
+// to the numbers the Master Dashboard charts.
+
+const METRIC_PREFIX = 'monoklix_proxy_';
+
+export interface MetricSample {
+    name: string;
+    labels: Record<string, string>;
+    value: number;
+}
+
+export interface LatencyBucket {
+    /** Upper bound in seconds (Infinity for the +Inf bucket). */
+    le: number;
+    /** Cumulative count of observations <= le. */
+    count: number;
+}
+
+export interface RouteMetrics {
+    route: string;
+    requests: number;
+    clientErrors: number;
+    serverErrors: number;
+    averageSeconds: number | null;
+    p95Seconds: number | null;
+    bytes: number;
+}
+
+export interface ProxyMetricsSummary {
+    serverUrl: string;
+    fetchedAt: number;
+    uptimeSeconds: number | null;
+    totalRequests: number;
+    totalServerErrors: number;
+    totalBytes: number;
+    routes: RouteMetrics[];
+    /** Upstream status code (or 'network_error') -> count, across all upstream endpoints. */
+    upstreamStatuses: Record<string, number>;
+    /** Generation type -> requests currently waiting on upstream. */
+    inFlightGenerations: Record<string, number>;
+    activeVideoJobs: number;
+    /** Request latency across all routes, cumulative. */
+    latencyBuckets: LatencyBucket[];
+}
+
+const SAMPLE_PATTERN = /^([a-zA-Z_:][\w:]*)(?:\{(.*)\})?\s+(\S+)/;
+const LABEL_PATTERN = /(\w+)="((?:[^"\\]|\\.)*)"/g;
+
+const unescapeLabelValue = (value: string): string =>
+    value.replace(/\\(["\\n])/g, (_, char: string) => (char === 'n' ? '\n' : char));
+
+const parseSampleValue = (value: string): number => {
+    if (value === '+Inf') return Infinity;
+    if (value === '-Inf') return -Infinity;
+    return Number(value);
+};
+
+/**
+ * Parses the Prometheus text exposition format into samples. Comments, blank lines and
+ * malformed lines are skipped.
+ */
+export const parsePrometheusText = (text: string): MetricSample[] => {
+    const samples: MetricSample[] = [];
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+
+        const match = line.match(SAMPLE_PATTERN);
+        if (!match) continue;
+
+        const labels: Record<string, string> = {};
+        for (const [, key, value] of (match[2] || '').matchAll(LABEL_PATTERN)) {
+            labels[key] = unescapeLabelValue(value);
+        }
+        const value = parseSampleValue(match[3]);
+        if (Number.isNaN(value)) continue;
+        samples.push({ name: match[1], labels, value });
+    }
+    return samples;
+};
+
+/**
+ * Estimates a quantile from cumulative histogram buckets, interpolating linearly inside the
+ * bucket the quantile falls in (the same approach as PromQL's histogram_quantile).
+ */
+export const estimateQuantile = (buckets: LatencyBucket[], quantile: number): number | null => {
+    const sorted = [...buckets].sort((a, b) => a.le - b.le);
+    const total = sorted[sorted.length - 1]?.count ?? 0;
+    if (total === 0) return null;
+
+    const rank = quantile * total;
+    let previousBound = 0;
+    let previousCount = 0;
+    for (const bucket of sorted) {
+        if (bucket.count >= rank) {
+            // Observations beyond the last finite bound can only be reported as that bound.
+            if (bucket.le === Infinity) return previousBound;
+            const inBucket = bucket.count - previousCount;
+            if (inBucket === 0) return bucket.le;
+            return previousBound + (bucket.le - previousBound) * ((rank - previousCount) / inBucket);
+        }
+        previousBound = bucket.le;
+        previousCount = bucket.count;
+    }
+    return previousBound;
+};
+
+const sumBy = (samples: MetricSample[], name: string, keyLabel: string): Record<string, number> => {
+    const totals: Record<string, number> = {};
+    samples.filter(sample => sample.name === name).forEach(sample => {
+        const key = sample.labels[keyLabel] ?? '';
+        totals[key] = (totals[key] || 0) + sample.value;
+    });
+    return totals;
+};
+
+const mergeBuckets = (samples: MetricSample[]): LatencyBucket[] => {
+    const byBound = new Map<number, number>();
+    samples.forEach(sample => {
+        const le = parseSampleValue(sample.labels.le);
+        byBound.set(le, (byBound.get(le) || 0) + sample.value);
+    });
+    return Array.from(byBound.entries()).map(([le, count]) => ({ le, count })).sort((a, b) => a.le - b.le);
+};
+
+/**
+ * Reduces raw samples from one server into per-route and server-wide figures.
+ */
+export const summarizeProxyMetrics = (serverUrl: string, samples: MetricSample[]): ProxyMetricsSummary => {
+    const requestSamples = samples.filter(s => s.name === `${METRIC_PREFIX}http_requests_total`);
+    const bucketSamples = samples.filter(s => s.name === `${METRIC_PREFIX}http_request_duration_seconds_bucket`);
+    const durationSums = sumBy(samples, `${METRIC_PREFIX}http_request_duration_seconds_sum`, 'route');
+    const durationCounts = sumBy(samples, `${METRIC_PREFIX}http_request_duration_seconds_count`, 'route');
+    const bytesByRoute = sumBy(samples, `${METRIC_PREFIX}http_response_bytes_total`, 'route');
+
+    const routeNames = new Set([...requestSamples.map(s => s.labels.route), ...Object.keys(bytesByRoute)]);
+    const routes: RouteMetrics[] = Array.from(routeNames).map(route => {
+        const forRoute = requestSamples.filter(s => s.labels.route === route);
+        const count = durationCounts[route] || 0;
+        return {
+            route,
+            requests: forRoute.reduce((total, s) => total + s.value, 0),
+            clientErrors: forRoute.filter(s => s.labels.status?.startsWith('4')).reduce((total, s) => total + s.value, 0),
+            serverErrors: forRoute.filter(s => s.labels.status?.startsWith('5')).reduce((total, s) => total + s.value, 0),
+            averageSeconds: count > 0 ? (durationSums[route] || 0) / count : null,
+            p95Seconds: estimateQuantile(mergeBuckets(bucketSamples.filter(s => s.labels.route === route)), 0.95),
+            bytes: bytesByRoute[route] || 0,
+        };
+    }).sort((a, b) => b.requests - a.requests);
+
+    const startTime = samples.find(s => s.name === `${METRIC_PREFIX}start_time_seconds`)?.value;
+    const fetchedAt = Date.now();
+
+    return {
+        serverUrl,
+        fetchedAt,
+        uptimeSeconds: startTime ? Math.max(0, fetchedAt / 1000 - startTime) : null,
+        totalRequests: routes.reduce((total, r) => total + r.requests, 0),
+        totalServerErrors: routes.reduce((total, r) => total + r.serverErrors, 0),
+        totalBytes: routes.reduce((total, r) => total + r.bytes, 0),
+        routes,
+        upstreamStatuses: sumBy(samples, `${METRIC_PREFIX}upstream_responses_total`, 'status'),
+        inFlightGenerations: sumBy(samples, `${METRIC_PREFIX}in_flight_generations`, 'type'),
+        activeVideoJobs: Object.values(sumBy(samples, `${METRIC_PREFIX}veo_jobs_active`, 'type')).reduce((total, n) => total + n, 0),
+        latencyBuckets: mergeBuckets(bucketSamples),
+    };
+};
+
+/**
+ * Fetches and summarizes /metrics from one proxy server.
+ */
+export const fetchProxyMetrics = async (serverUrl: string, signal?: AbortSignal): Promise<ProxyMetricsSummary> => {
+    const response = await fetch(`${serverUrl}/metrics`, { signal });
+    if (!response.ok) {
+        throw new Error(`Metrics request failed with status ${response.status}`);
+    }
+    return summarizeProxyMetrics(serverUrl, parsePrometheusText(await response.text()));
+};
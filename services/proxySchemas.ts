@@ -0,0 +1,325 @@
+// ===============================
+// 📐 VEO & IMAGEN PROXY PAYLOADS
+// ===============================
+// Request/response shapes for the proxy endpoints in server/index.js, plus runtime
+// validation. Upstream responses are not versioned and have changed shape before, so
+// everything read from them goes through the parsers and normalizer below.
+
+import { getProgressPercent } from '../server/videoProgress.js';
+
+// --- Enums ---
+
+export const MEDIA_GENERATION_STATUSES = [
+  'MEDIA_GENERATION_STATUS_PENDING',
+  'MEDIA_GENERATION_STATUS_ACTIVE',
+  'MEDIA_GENERATION_STATUS_COMPLETED',
+  'MEDIA_GENERATION_STATUS_SUCCESS',
+  'MEDIA_GENERATION_STATUS_SUCCESSFUL',
+  'MEDIA_GENERATION_STATUS_FAILED',
+] as const;
+
+export type MediaGenerationStatus = typeof MEDIA_GENERATION_STATUSES[number];
+
+const COMPLETED_STATUSES: MediaGenerationStatus[] = [
+  'MEDIA_GENERATION_STATUS_COMPLETED',
+  'MEDIA_GENERATION_STATUS_SUCCESS',
+  'MEDIA_GENERATION_STATUS_SUCCESSFUL',
+];
+
+export type VideoAspectRatioEnum = 'VIDEO_ASPECT_RATIO_LANDSCAPE' | 'VIDEO_ASPECT_RATIO_PORTRAIT';
+
+export type ImageAspectRatioEnum =
+  | 'IMAGE_ASPECT_RATIO_SQUARE'
+  | 'IMAGE_ASPECT_RATIO_LANDSCAPE'
+  | 'IMAGE_ASPECT_RATIO_PORTRAIT'
+  | 'IMAGE_ASPECT_RATIO_FOUR_THREE'
+  | 'IMAGE_ASPECT_RATIO_THREE_FOUR';
+
+// --- Requests ---
+
+export interface VeoGenerateRequestBody {
+  clientContext: { tool: 'PINHOLE'; userPaygateTier: string };
+  requests: {
+    aspectRatio: VideoAspectRatioEnum;
+    seed: number;
+    textInput: { prompt: string };
+    videoModelKey: string;
+    metadata: { sceneId: string };
+    startImage?: { mediaId: string };
+  }[];
+}
+
+export interface VeoUploadRequestBody {
+  imageInput: { rawImageBytes: string; mimeType: string; isUserUploaded: boolean; aspectRatio: ImageAspectRatioEnum };
+  clientContext: { sessionId: string; tool: 'ASSET_MANAGER' };
+}
+
+export interface VeoStatusRequestBody {
+  operations: VeoOperation[];
+}
+
+export interface VeoJobRequestBody {
+  type: 't2v' | 'i2v';
+  request: VeoGenerateRequestBody;
+}
+
+export interface ImagenUploadRequestBody {
+  clientContext: { sessionId: string };
+  imageInput: { rawImageBytes: string; mimeType: string };
+}
+
+export interface ImagenGenerateRequestBody {
+  clientContext: { tool: 'BACKBONE'; sessionId: string };
+  imageModelSettings: { imageModel: string; aspectRatio: ImageAspectRatioEnum };
+  prompt: string;
+  mediaCategory: string;
+  seed: number;
+}
+
+export interface ImagenRecipeRequestBody {
+  clientContext: { tool: 'BACKBONE'; sessionId: string };
+  seed: number;
+  imageModelSettings: { imageModel: string; aspectRatio: ImageAspectRatioEnum };
+  userInstruction: string;
+  recipeMediaInputs: { caption: string; mediaInput: { mediaCategory: string; mediaGenerationId: string } }[];
+}
+
+// --- Responses ---
+
+export interface VeoVideoMetadata {
+  fifeUrl?: string;
+  servingBaseUri?: string;
+}
+
+interface VeoOperationMetadata {
+  video?: VeoVideoMetadata;
+  progressPercent?: number | string;
+  progress?: number | string;
+}
+
+export interface VeoOperation {
+  operation?: { name: string; metadata?: VeoOperationMetadata };
+  sceneId?: string;
+  status?: MediaGenerationStatus | string;
+  done?: boolean;
+  error?: { code?: number | string; message?: string };
+  // Older and alternative response shapes seen from the upstream API.
+  metadata?: VeoOperationMetadata;
+  result?: { generatedVideo?: VeoVideoMetadata[]; generatedVideos?: VeoVideoMetadata[] };
+  video?: VeoVideoMetadata;
+  fifeUrl?: string;
+  progressPercent?: number | string;
+  progress?: number | string;
+}
+
+export interface VeoOperationsResponse {
+  operations: VeoOperation[];
+  remainingCredits?: number;
+}
+
+export type VeoServerJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+// A video generation tracked by the proxy itself (server/veoJobs.js).
+export interface VeoServerJob {
+  id: string;
+  type: 't2v' | 'i2v';
+  status: VeoServerJobStatus;
+  progressPercent: number | null;
+  videoUrl: string | null;
+  thumbnailUrl: string | null;
+  error: string | null;
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ImagenGeneratedImage {
+  encodedImage: string;
+  seed?: number;
+  mediaGenerationId?: string;
+}
+
+export interface ImagenImagePanel {
+  prompt?: string;
+  generatedImages: ImagenGeneratedImage[];
+}
+
+export interface ImagenImagePanelsResponse {
+  imagePanels: ImagenImagePanel[];
+}
+
+// ===============================
+// ✅ VALIDATION
+// ===============================
+
+/**
+ * Thrown when a proxy response does not match the expected shape.
+ */
+export class ProxyPayloadError extends Error {
+  constructor(
+    public readonly context: string,
+    public readonly path: string,
+    public readonly expected: string,
+    received: unknown
+  ) {
+    const receivedType = Array.isArray(received) ? 'array' : received === null ? 'null' : typeof received;
+    super(`Unexpected response from ${context}: expected ${path} to be ${expected}, got ${receivedType}. The upstream API may have changed.`);
+    this.name = 'ProxyPayloadError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectObject = (value: unknown, context: string, path: string): Record<string, any> => {
+  if (!isObject(value)) throw new ProxyPayloadError(context, path, 'an object', value);
+  return value;
+};
+
+const expectArray = (value: unknown, context: string, path: string): unknown[] => {
+  if (!Array.isArray(value)) throw new ProxyPayloadError(context, path, 'an array', value);
+  return value;
+};
+
+const expectOptionalString = (value: unknown, context: string, path: string): void => {
+  if (value !== undefined && typeof value !== 'string') throw new ProxyPayloadError(context, path, 'a string', value);
+};
+
+const validateOperation = (value: unknown, context: string, path: string): VeoOperation => {
+  const op = expectObject(value, context, path);
+  if (op.operation !== undefined) {
+    expectObject(op.operation, context, `${path}.operation`);
+    expectOptionalString(op.operation.name, context, `${path}.operation.name`);
+  }
+  expectOptionalString(op.status, context, `${path}.status`);
+  if (op.done !== undefined && typeof op.done !== 'boolean') {
+    throw new ProxyPayloadError(context, `${path}.done`, 'a boolean', op.done);
+  }
+  if (op.error !== undefined) expectObject(op.error, context, `${path}.error`);
+  if (typeof op.status === 'string' && !(MEDIA_GENERATION_STATUSES as readonly string[]).includes(op.status)) {
+    console.warn(`⚠️ [Proxy Schemas] Unknown media generation status from ${context}: ${op.status}`);
+  }
+  return op as VeoOperation;
+};
+
+/**
+ * Validates a Veo generate or status response.
+ * Generate responses must contain at least one operation; status responses may be empty while the upstream catches up.
+ */
+export const parseVeoOperationsResponse = (data: unknown, context: string, allowEmpty = false): VeoOperationsResponse => {
+  const body = expectObject(data, context, 'response');
+  if (allowEmpty && body.operations === undefined) {
+    return { operations: [] };
+  }
+  const operations = expectArray(body.operations, context, 'operations')
+    .map((op, i) => validateOperation(op, context, `operations[${i}]`));
+  if (!allowEmpty && operations.length === 0) {
+    throw new ProxyPayloadError(context, 'operations', 'a non-empty array', operations);
+  }
+  return { operations, remainingCredits: typeof body.remainingCredits === 'number' ? body.remainingCredits : undefined };
+};
+
+/**
+ * Validates an Imagen generate or recipe response.
+ */
+export const parseImagePanelsResponse = (data: unknown, context: string): ImagenImagePanelsResponse => {
+  const body = expectObject(data, context, 'response');
+  const imagePanels = expectArray(body.imagePanels, context, 'imagePanels').map((panelValue, i) => {
+    const panel = expectObject(panelValue, context, `imagePanels[${i}]`);
+    const generatedImages = expectArray(panel.generatedImages, context, `imagePanels[${i}].generatedImages`).map((imageValue, j) => {
+      const image = expectObject(imageValue, context, `imagePanels[${i}].generatedImages[${j}]`);
+      if (typeof image.encodedImage !== 'string') {
+        throw new ProxyPayloadError(context, `imagePanels[${i}].generatedImages[${j}].encodedImage`, 'a base64 string', image.encodedImage);
+      }
+      return image as ImagenGeneratedImage;
+    });
+    return { ...panel, generatedImages } as ImagenImagePanel;
+  });
+  return { imagePanels };
+};
+
+const VEO_SERVER_JOB_STATUSES: VeoServerJobStatus[] = ['running', 'completed', 'failed', 'cancelled'];
+
+/**
+ * Validates a `{ job }` response (or SSE event payload) from the proxy's Veo job endpoints.
+ */
+export const parseVeoServerJobResponse = (data: unknown, context: string): VeoServerJob => {
+  const job = expectObject(expectObject(data, context, 'response').job, context, 'job');
+  if (typeof job.id !== 'string') throw new ProxyPayloadError(context, 'job.id', 'a string', job.id);
+  if (!VEO_SERVER_JOB_STATUSES.includes(job.status)) {
+    throw new ProxyPayloadError(context, 'job.status', `one of ${VEO_SERVER_JOB_STATUSES.join(', ')}`, job.status);
+  }
+  if (typeof job.version !== 'number') throw new ProxyPayloadError(context, 'job.version', 'a number', job.version);
+  expectOptionalString(job.videoUrl ?? undefined, context, 'job.videoUrl');
+  return job as VeoServerJob;
+};
+
+/**
+ * Extracts the media ID from a Veo or Imagen upload response.
+ */
+export const parseUploadResponse = (data: unknown, context: string): string => {
+  const body = expectObject(data, context, 'response');
+  const mediaId = body.result?.data?.json?.result?.uploadMediaGenerationId
+    || body.mediaGenerationId?.mediaGenerationId
+    || body.mediaId;
+  if (typeof mediaId !== 'string' || !mediaId) {
+    throw new ProxyPayloadError(context, 'mediaGenerationId.mediaGenerationId', 'a media ID string', mediaId);
+  }
+  return mediaId;
+};
+
+// ===============================
+// 🧹 NORMALIZER
+// ===============================
+
+export type VideoOperationState = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface NormalizedVideoOperation {
+  name: string | null;
+  state: VideoOperationState;
+  status: string | null;
+  progressPercent: number | null;
+  videoUrl: string | null;
+  thumbnailUrl: string | null;
+  errorMessage: string | null;
+}
+
+/**
+ * Reduces a Veo operation, whichever response shape it arrived in, to a single clean object.
+ */
+export const normalizeVideoOperation = (op: VeoOperation): NormalizedVideoOperation => {
+  const status = op.status ?? null;
+  const videoUrl = op.operation?.metadata?.video?.fifeUrl
+    || op.metadata?.video?.fifeUrl
+    || op.result?.generatedVideo?.[0]?.fifeUrl
+    || op.result?.generatedVideos?.[0]?.fifeUrl
+    || op.video?.fifeUrl
+    || op.fifeUrl
+    || null;
+  const thumbnailUrl = op.operation?.metadata?.video?.servingBaseUri
+    || op.metadata?.video?.servingBaseUri
+    || null;
+  // Shared with the proxy's server-side jobs
+  const progressPercent = getProgressPercent(op);
+
+  let state: VideoOperationState;
+  if (status === 'MEDIA_GENERATION_STATUS_FAILED' || (op.error && op.done !== true)) {
+    state = 'failed';
+  } else if (op.done === true || (COMPLETED_STATUSES as string[]).includes(status ?? '')) {
+    state = 'completed';
+  } else if (status === 'MEDIA_GENERATION_STATUS_PENDING') {
+    state = 'pending';
+  } else {
+    state = 'running';
+  }
+
+  return {
+    name: op.operation?.name ?? null,
+    state,
+    status,
+    progressPercent,
+    videoUrl,
+    thumbnailUrl,
+    errorMessage: op.error ? String(op.error.message || op.error.code || 'Unknown error') : null,
+  };
+};
@@ -0,0 +1,74 @@
+import eventBus from './eventBus';
+
+// ===============================
+// 💽 STORAGE QUOTA
+// ===============================
+// Everything the app keeps in the browser (history, video cache, settings) counts against the
+// quota the browser gives this site. Unless storage is persistent, the browser may also clear
+// all of it when the disk runs low. The video cache evicts its oldest unpinned videos to stay
+// under STORAGE_EVICTION_RATIO, and a 'storageWarning' event tells the app when usage passes
+// STORAGE_WARNING_RATIO or videos were evicted.
+
+export const STORAGE_WARNING_RATIO = 0.8;
+export const STORAGE_EVICTION_RATIO = 0.9;
+
+export interface StorageEstimate {
+    usage: number; // bytes
+    quota: number; // bytes
+    ratio: number; // usage / quota
+    persisted: boolean;
+}
+
+export interface StorageWarning {
+    estimate: StorageEstimate | null;
+    evicted: number; // Videos just removed from the cache to free space
+}
+
+/**
+ * How much of the site's quota is used, or null if the browser cannot tell.
+ */
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+    if (!navigator.storage?.estimate) return null;
+    try {
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+        return { usage, quota, ratio: quota > 0 ? usage / quota : 0, persisted };
+    } catch (error) {
+        console.warn('💽 [Storage] Could not estimate storage usage.', error);
+        return null;
+    }
+};
+
+/**
+ * Asks the browser not to clear the site's data when the disk runs low. Some browsers decide on
+ * their own (e.g. by how often the site is used), others ask the user. Resolves to whether
+ * storage is persistent now.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (!navigator.storage?.persist) return false;
+    try {
+        const persisted = await navigator.storage.persist();
+        console.log(`💽 [Storage] Persistent storage ${persisted ? 'granted' : 'not granted'}`);
+        return persisted;
+    } catch (error) {
+        console.warn('💽 [Storage] Could not request persistent storage.', error);
+        return false;
+    }
+};
+
+/**
+ * Dispatches 'storageWarning' with a StorageWarning when usage is past STORAGE_WARNING_RATIO
+ * or `evicted` videos were just removed.
+ */
+export const checkStorageQuota = async (evicted = 0): Promise<void> => {
+    const estimate = await getStorageEstimate();
+    if (evicted > 0 || (estimate && estimate.ratio >= STORAGE_WARNING_RATIO)) {
+        const warning: StorageWarning = { estimate, evicted };
+        eventBus.dispatch('storageWarning', warning);
+    }
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+    return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
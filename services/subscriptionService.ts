@@ -0,0 +1,69 @@
+import { type User, type UserStatus } from '../types';
+import { getSessionToken, invalidateSessionToken } from './authService';
+
+// ===============================
+// 🗓️ SUBSCRIPTIONS
+// ===============================
+// Subscriptions and trials end at `subscriptionExpiry`. The proxy downgrades expired users to
+// 'inactive' at login, on session refresh and in a periodic sweep (server/subscriptions.js);
+// this side warns before the end date and picks the downgrade up as soon as it is due.
+
+// Users are warned this many days before their subscription or trial ends.
+export const RENEWAL_WARNING_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that end at subscriptionExpiry
+const EXPIRING_STATUSES: UserStatus[] = ['subscription', 'trial'];
+
+export type SubscriptionPhase = 'none' | 'active' | 'expiringSoon' | 'expired';
+
+export interface SubscriptionState {
+    phase: SubscriptionPhase; // 'none' = the status does not expire, or no end date is set yet
+    expiresAt: number | null;
+    daysLeft: number | null; // whole days, rounded up
+}
+
+/**
+ * Where the user's subscription or trial stands. Inactive users whose subscription ran out
+ * (the expiry is kept on downgrade) read as 'expired'.
+ */
+export const getSubscriptionState = (user: User, now = Date.now()): SubscriptionState => {
+    const expiresAt = user.subscriptionExpiry ?? null;
+    const expires = EXPIRING_STATUSES.includes(user.status) || user.status === 'inactive';
+    if (!expires || expiresAt === null) {
+        return { phase: 'none', expiresAt, daysLeft: null };
+    }
+    const daysLeft = Math.max(0, Math.ceil((expiresAt - now) / DAY_MS));
+    if (expiresAt <= now) return { phase: 'expired', expiresAt, daysLeft };
+    if (user.status === 'inactive') return { phase: 'none', expiresAt, daysLeft: null };
+    return { phase: daysLeft <= RENEWAL_WARNING_DAYS ? 'expiringSoon' : 'active', expiresAt, daysLeft };
+};
+
+/**
+ * Users whose subscription or trial ends within `days`, plus inactive users whose subscription
+ * has already run out, soonest first. For the admin dashboard's renewal list.
+ */
+export const getExpiringUsers = (users: User[], days = RENEWAL_WARNING_DAYS, now = Date.now()): User[] =>
+    users
+        .filter(user => {
+            const state = getSubscriptionState(user, now);
+            return state.phase === 'expired' || (state.phase !== 'none' && (state.daysLeft ?? Infinity) <= days);
+        })
+        .sort((a, b) => (a.subscriptionExpiry ?? 0) - (b.subscriptionExpiry ?? 0));
+
+/**
+ * Call periodically with the signed-in user. Once their end date has passed but their status
+ * still says otherwise, renews the session so the proxy applies the downgrade; the new user
+ * arrives through the 'userUsageUpdated' event.
+ */
+export const syncExpiredSubscription = async (user: User): Promise<void> => {
+    if (!EXPIRING_STATUSES.includes(user.status) || getSubscriptionState(user).phase !== 'expired') return;
+    console.log(`🗓️ [Subscriptions] ${user.status} ended. Refreshing the session to apply it.`);
+    try {
+        invalidateSessionToken();
+        await getSessionToken();
+    } catch (e) {
+        console.warn('🗓️ [Subscriptions] Could not refresh the session after expiry.', e);
+    }
+};
@@ -53,7 +53,7 @@ export interface Database {
           email: string
           phone: string
           // FIX: Use string literals instead of circular enum reference for correct type inference
-          role: 'admin' | 'user'
+          role: 'admin' | 'support' | 'content_editor' | 'server_operator' | 'user'
           // FIX: Use string literals to include 'subscription' and 'trial' statuses
           status: 'pending_payment' | 'inactive' | 'lifetime' | 'admin' | 'subscription' | 'trial'
           api_key: string | null
@@ -76,7 +76,7 @@ export interface Database {
           email: string
           phone: string
           // FIX: Use string literals to include 'subscription' and 'trial' statuses
-          role?: 'admin' | 'user'
+          role?: 'admin' | 'support' | 'content_editor' | 'server_operator' | 'user'
           // FIX: Use string literals to include 'subscription' and 'trial' statuses
           status?: 'pending_payment' | 'inactive' | 'lifetime' | 'admin' | 'subscription' | 'trial'
           api_key?: string | null
@@ -97,7 +97,7 @@ export interface Database {
           email?: string
           phone?: string
           // FIX: Use string literals to include 'subscription' and 'trial' statuses
-          role?: 'admin' | 'user'
+          role?: 'admin' | 'support' | 'content_editor' | 'server_operator' | 'user'
           // FIX: Use string literals to include 'subscription' and 'trial' statuses
           status?: 'pending_payment' | 'inactive' | 'lifetime' | 'admin' | 'subscription' | 'trial'
           api_key?: string | null
@@ -273,7 +273,7 @@ export interface Database {
       };
     }
     Enums: {
-      user_role: 'admin' | 'user'
+      user_role: 'admin' | 'support' | 'content_editor' | 'server_operator' | 'user'
       user_status: 'pending_payment' | 'inactive' | 'lifetime' | 'admin' | 'subscription' | 'trial'
       proxy_server_status: 'active' | 'maintenance' | 'disabled'
     }
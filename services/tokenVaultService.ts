@@ -0,0 +1,71 @@
+import { getSessionToken, fetchWithSession } from './authService';
+
+// ===============================
+// 🔐 TOKEN VAULT
+// ===============================
+// The shared Veo/Imagen token pool is held by the proxy servers (server/tokenVault.js). The
+// browser never sees those tokens: it sends the login session (see authService.ts), and the
+// proxy swaps it for a pool token on each request. A response names the token it used
+// (X-Vault-Token-Id); the API client reports it as `vault:<id>`, and passing that back as the
+// token pins follow-up steps (upload -> generate -> status) to the same pool token.
+
+export const VAULT_TOKEN_PREFIX = 'vault:';
+/** Token value meaning "whichever pool token the vault picks". */
+export const ANY_VAULT_TOKEN = VAULT_TOKEN_PREFIX;
+
+export type VaultTokenState = 'available' | 'cooling_down' | 'expired';
+
+export interface VaultTokenStatus {
+    id: string;
+    state: VaultTokenState;
+    createdAt: string | null;
+    successes: number;
+    failures: number;
+    inUse: number;
+    lastUsedAt: number | null;
+    cooldownSeconds: number;
+}
+
+export interface VaultStatus {
+    total: number;
+    available: number;
+    coolingDown: number;
+    expired: number;
+    tokens: VaultTokenStatus[];
+}
+
+export const isVaultToken = (token: string | null | undefined): boolean => !!token && token.startsWith(VAULT_TOKEN_PREFIX);
+
+/**
+ * The `vault:<id>` for a pool token ID. Throws without an ID: an empty one would mean "any
+ * pool token", and the follow-up steps would land on a token that never saw the operation.
+ */
+export const toVaultToken = (tokenId: string | null): string => {
+    if (!tokenId) throw new Error('The proxy did not say which pool token it used.');
+    return `${VAULT_TOKEN_PREFIX}${tokenId}`;
+};
+
+const getVaultTokenId = (token: string): string | null => token.substring(VAULT_TOKEN_PREFIX.length) || null;
+
+/**
+ * Headers that authenticate a proxy request through the vault. `token` is ANY_VAULT_TOKEN or
+ * a `vault:<id>` returned by an earlier step.
+ */
+export const getVaultAuthHeaders = async (token: string = ANY_VAULT_TOKEN): Promise<Record<string, string>> => {
+    const tokenId = getVaultTokenId(token);
+    return {
+        'X-Monoklix-Session': await getSessionToken(),
+        ...(tokenId && { 'X-Vault-Token-Id': tokenId }),
+    };
+};
+
+/**
+ * Fetches pool health from a proxy's vault. Token values are never included.
+ */
+export const fetchVaultStatus = async (serverUrl: string, signal?: AbortSignal): Promise<VaultStatus> => {
+    const response = await fetchWithSession(`${serverUrl}/api/vault/status`, { signal });
+    if (!response.ok) {
+        throw new Error(`Could not load token vault status from ${serverUrl} (${response.status})`);
+    }
+    return response.json();
+};
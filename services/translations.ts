@@ -16,6 +16,9 @@ const translations = {
             errors: {
                 emailRequired: 'Email is required to log in.',
                 emailNotRegistered: 'This email is not registered. Please check your email or sign up for an account.',
+                invalidCode: 'That code is not correct. Please check the email and try again.',
+                loginExpired: 'This code or link has expired. Please request a new one.',
+                tooManyAttempts: 'Too many wrong codes. Please request a new one.',
                 tokenInvalid: 'Your connection token is invalid or has expired. A new one will be assigned automatically.',
                 safetyBlock: 'The request was blocked by the safety filter. Please modify your prompt.',
                 badRequest: 'The AI model reported a problem with the request (Bad Request). Please check your input.',
@@ -36,10 +39,14 @@ const translations = {
             clearCacheError: 'Failed to clear session. Please try clearing your browser cache manually.',
             tokenRefreshed: 'Your personal connection token was invalid and has been cleared. The system will attempt to assign a new one on your next request.',
             sessionTerminated: 'Your session has been terminated remotely by an administrator. Please log in again.',
+            sessionExpired: 'Your session has expired. Please log in again.',
             accessDenied: 'Access Denied',
             adminOnlyFeature: 'This feature is available for administrators only.',
             subscriptionExpired: 'Subscription Expired',
             subscriptionExpiredMessage: 'Your subscription has ended. Please renew your plan to continue accessing this feature.\n\n[BUTTON]Renew Subscription[URL]https://monoklix.com/step/checkout/',
+            subscriptionExpiringSoon: 'Your subscription ends in {days} day(s), on {date}. Renew before then to keep your access.',
+            storageAlmostFull: 'Browser storage for this site is {percent}% full. Back up your gallery, or pin the videos you want to keep in Settings, before older videos are removed.',
+            storageVideosEvicted: '{count} older video(s) were removed from this browser to free space. Pin videos in Settings to keep them.',
             accountStatusBlocked: 'Your account is currently {status}. Please contact support for assistance.',
             openMenu: 'Open menu',
             openConsole: 'Open Console Log',
@@ -64,15 +71,43 @@ const translations = {
             server: 'Server',
             confirmButton: 'Confirm & Connect'
         },
-        claimTokenModal: {
-            searchingTitle: 'Searching for New Token',
-            searchingMessage: 'Please wait while we find an available connection slot...',
-            successTitle: 'Token Claimed!',
-            successMessage: 'A new secure token has been assigned to your account.',
-            errorTitle: 'Assignment Failed',
-            errorMessageDefault: 'An unknown error occurred.',
-            closeButton: 'Close',
-            retryButton: 'Try Again',
+        tokenVaultStatus: {
+            title: 'Shared Token Vault',
+            description: 'Shared Veo & Imagen tokens are kept on the server and picked for each request automatically. You never need to claim one.',
+            server: 'Server',
+            refresh: 'Refresh',
+            available: 'Available',
+            coolingDown: 'Cooling Down',
+            expired: 'Expired',
+            token: 'Token',
+            successes: 'OK',
+            failures: 'Failed',
+            lastUsed: 'Last used',
+            never: 'Never',
+            cooldown: 'ready in {seconds}s',
+            test: 'Test',
+            noTokens: 'The vault on this server has no tokens.',
+            loadFail: 'Could not load the vault status.',
+        },
+        creditMeter: {
+            title: 'Credits',
+            usage: '{used} of {allowance} used',
+            remaining: '{remaining} left',
+            unlimited: 'Unlimited credits',
+            resetsOn: 'Resets on {date}',
+            costsTitle: 'Cost per generation',
+            personalTokenNote: 'Generations on your personal token are free.',
+            operations: {
+                veo_standard: 'Video (Veo standard)',
+                veo_fast: 'Video (Veo fast)',
+                imagen_generate: 'Image',
+                imagen_recipe: 'Image edit / composition',
+                tts: 'Voice (text-to-speech)',
+            },
+        },
+        seedNotice: {
+            keptSeed: 'Reusing seed {seed} from the original.',
+            newSeed: 'Use a new seed',
         },
         apiKeyStatus: {
             ariaLabel: 'API Key Status',
@@ -80,11 +115,13 @@ const translations = {
             sharedApiKey: 'Shared API Key',
             authToken: 'Auth Token',
             notLoaded: 'Not Loaded',
+            configured: 'Configured',
+            notConfigured: 'Not Configured',
             notAssigned: 'Not Assigned',
             healthCheck: 'Health Check',
-            claimNew: 'Claim New',
+            tokenVault: 'Token Vault',
             personalToken: 'Personal Token',
-            noPersonalToken: 'No personal token is saved. You are using a shared token.',
+            noPersonalToken: 'No personal token is saved. You are using the shared token vault.',
             healthCheckFailed: 'Health Check Failed',
             unavailable: 'Unavailable',
             update: 'Update',
@@ -97,6 +134,13 @@ const translations = {
             currentServer: 'Current Server',
             changeServer: 'Change Server',
             notSet: 'Not Set',
+            connectionHealth: 'Connection Health',
+            servers: 'Servers',
+            tokens: 'Tokens',
+            noHealthData: 'No requests recorded yet.',
+            circuitOpen: 'Paused',
+            expired: 'Expired',
+            resetScores: 'Reset scores',
         },
         sidebar: {
             home: "e-Tutorial",
@@ -114,6 +158,10 @@ const translations = {
             settings: "Settings",
             logout: "Logout",
             closeMenu: "Close menu",
+            backgroundJobs: "Background Jobs",
+            clearFinishedJobs: "Clear finished",
+            dismissJob: "Dismiss job",
+            cancelJob: "Cancel",
         },
         consoleLogSidebar: {
             title: 'Generation Status',
@@ -125,7 +173,14 @@ const translations = {
             title: 'Welcome Back!',
             subtitle: 'Log in to access the MONOklix.com AI platform.',
             emailPlaceholder: 'Enter your registered email address',
-            loginButton: 'Log In',
+            loginButton: 'Send Login Code',
+            codeSentTo: 'We emailed a 6-digit code and a login link to {email}.',
+            codePlaceholder: 'Enter the 6-digit code',
+            verifyButton: 'Log In',
+            attemptsLeft: '{count} attempt(s) left.',
+            resendCode: 'Resend code',
+            resendIn: 'Resend in {seconds}s',
+            useDifferentEmail: 'Use a different email',
             noAccount: "Don't have an account?",
             registerButton: 'Register Now'
         },
@@ -157,6 +212,7 @@ const translations = {
             activeKey: 'Active Gemini Key:',
             noKey: 'User has no key',
             notSet: 'Not Set',
+            serverKey: 'Held by the server',
             failed: 'Health Check Failed',
             unknownError: 'Unknown error',
         },
@@ -673,6 +729,7 @@ const translations = {
             tabs: {
                 images: 'Images',
                 videos: 'Videos',
+                workspace: 'Workspace',
                 log: 'API Log'
             },
             emptyTitle: 'Your {tab} Gallery is Empty',
@@ -682,10 +739,95 @@ const translations = {
             deleteEntry: 'Delete History Entry',
             reEdit: 'Re-edit Image',
             createVideo: 'Create Video',
+            regenerate: 'Regenerate',
+            regenerateHelp: 'Open the original tool with the same settings and seed',
+            remix: 'Remix',
+            remixHelp: 'Open the original tool with the same settings and a new seed',
+            regenerateFailed: 'Could not reopen this item in its tool.',
+            favorite: 'Add to favourites',
+            unfavorite: 'Remove from favourites',
+            organizeItem: 'Tags & folder',
+            filters: {
+                searchPlaceholder: 'Search prompts...',
+                folder: 'Folder',
+                allFolders: 'All folders',
+                newFolder: 'New folder',
+                newFolderPrompt: 'Name of the new folder:',
+                renameFolder: 'Rename folder',
+                renameFolderPrompt: 'New name for this folder:',
+                deleteFolder: 'Delete folder',
+                confirmDeleteFolder: 'Delete the folder "{folder}"? Its items stay in your gallery.',
+                favoritesOnly: 'Favourites only',
+                tags: 'Tags:',
+                from: 'From',
+                to: 'To',
+                sortLabel: 'Sort',
+                sort: {
+                    newest: 'Newest first',
+                    oldest: 'Oldest first',
+                    favoritesFirst: 'Favourites first',
+                },
+                clear: 'Clear filters',
+                loadMore: 'Load more ({count} left)',
+                noMatches: 'No items match these filters.',
+            },
+            backup: {
+                backup: 'Back up',
+                backupHelp: 'Download your whole gallery, with its media, as a ZIP file.',
+                backupFiltered: 'Back up filtered',
+                backupFilteredHelp: 'Download only the images and videos matching the current filters.',
+                restore: 'Restore',
+                restoreHelp: 'Add the items of a gallery backup to your gallery.',
+                missingMedia: '{count} video(s) are no longer stored in this browser and were left out of the backup.',
+                failed: 'Backup failed:',
+                restored: 'Restored {imported} item(s). {duplicates} were already in your gallery, {failed} could not be restored.',
+                trimmed: '{count} older item(s) were removed to stay within the gallery limit.',
+                restoreFailed: 'Restore failed:',
+            },
+            organize: {
+                title: 'Tags & Folder',
+                tags: 'Tags',
+                tagsPlaceholder: 'e.g. campaign, summer, client-a',
+                folder: 'Folder',
+                noFolder: 'No folder',
+                save: 'Save',
+                cancel: 'Cancel',
+            },
             download: 'Download',
             delete: 'Delete',
             // FIX: Add missing key for delete confirmation.
             confirmDelete: 'Are you sure you want to delete this item from your history?',
+            publish: 'Publish to Workspace',
+            published: 'Published to {workspace}.',
+            chooseWorkspace: 'Publish to which workspace?',
+            noWorkspaces: 'Create a workspace in the Workspace tab first.',
+            workspace: {
+                title: 'Team Workspace',
+                select: 'Workspace',
+                create: 'Create Workspace',
+                createPlaceholder: 'e.g. Agency Team',
+                emptyTitle: 'No Workspaces Yet',
+                emptySubtitle: 'Create a workspace to share outputs and brand assets with your team.',
+                owner: 'Owner',
+                member: 'Member',
+                sharedGallery: 'Shared Gallery',
+                brandAssets: 'Brand Assets',
+                members: 'Members',
+                galleryEmpty: 'Nothing has been published yet. Use "Publish to Workspace" on any image or video.',
+                brandEmpty: 'No brand assets yet.',
+                uploadAsset: 'Upload Asset',
+                byAuthor: 'by {author}',
+                createdOn: 'Created {date}',
+                addMember: 'Add',
+                addMemberPlaceholder: "Member's email",
+                removeMember: 'Remove',
+                leave: 'Leave Workspace',
+                confirmRemoveMember: 'Remove {email} from this workspace?',
+                confirmLeave: 'Leave this workspace? You will lose access to its shared gallery.',
+                confirmDeleteItem: 'Remove this item from the workspace for everyone?',
+                you: '(you)',
+                loadError: 'Could not load the workspace: {error}',
+            },
             log: {
                 title: 'AI API Log',
                 clear: 'Clear Logs',
@@ -701,6 +843,7 @@ const translations = {
                 cost: 'Est. Cost / Tokens:',
                 na: 'N/A',
                 error: 'Error:',
+                requestId: 'Request ID:',
                 preview: 'Preview',
             }
         },
@@ -736,25 +879,44 @@ const translations = {
                 fail: 'Failed: {message}'
             },
             cache: {
-                title: 'Video Cache Manager',
-                subtitle: 'Manage your locally cached videos',
+                title: 'Storage Manager',
+                subtitle: 'See how much browser storage this site uses and choose which videos to keep',
                 loading: 'Loading cache stats...',
-                storageUsed: 'Storage Used',
+                siteStorage: 'Browser Storage',
+                usageOf: '{usage} of {quota} ({percent}%)',
+                estimateUnavailable: 'This browser does not report how much storage is available.',
+                almostFull: '⚠️ Storage is almost full. Unpinned videos will be removed, oldest first.',
+                persistent: 'Persistent storage',
+                persistentOn: 'On: the browser will not clear this site\'s data when space runs low.',
+                persistentOff: 'Off: the browser may clear this site\'s data when space runs low.',
+                makePersistent: 'Make Persistent',
+                persistDenied: 'The browser did not allow persistent storage. Browsers usually allow it for sites you use often or have bookmarked.',
+                storageUsed: 'Video Cache',
                 videosCached: 'Videos Cached',
+                pinnedVideos: 'Pinned',
+                videosTitle: 'Cached Videos',
+                noVideos: 'No videos are cached.',
+                untitled: 'Untitled video',
+                videoDetails: '{size} · last watched {date}',
+                pin: 'Pin: favourite it in the gallery and never remove it automatically',
+                unpin: 'Unpin and remove from favourites',
+                pinFail: 'Could not change the pin.',
+                deleteVideo: 'Delete video',
+                confirmDeleteVideo: 'Delete this video from the cache? Its gallery item will show as unavailable.',
                 howItWorks: 'How Video Caching Works',
-                l1: '• Videos are stored locally and persistently in your browser (using IndexedDB).',
-                l2: '• There are no automatic limits on size or number of videos.',
-                l3: '• Storage is only limited by the amount of space your browser has available.',
-                l4: '• Videos persist even after closing the browser.',
+                l1: '• Videos are stored in your browser (IndexedDB) and count towards the storage your browser gives this site.',
+                l2: '• Up to {videos} unpinned videos and {size} MB are kept. Past that, the least recently watched unpinned videos are removed.',
+                l3: '• Unpinned videos are also removed when the site nears its storage quota. You are warned before that happens.',
+                l4: '• Pinned videos are never removed automatically. A video is pinned while it is a favourite in the gallery.',
                 refresh: 'Refresh Stats',
                 clear: 'Clear All Cache',
                 clearing: 'Clearing...',
-                confirmClear: 'Are you sure you want to clear the entire video cache? This cannot be undone.',
+                confirmClear: 'Are you sure you want to clear the entire video cache, including pinned videos? This cannot be undone.',
                 clearSuccess: 'Video cache cleared successfully!',
                 clearFail: 'Failed to clear cache. Please try again.',
                 tips: 'Tips',
                 tip1: '• Clear cache if videos are not loading properly',
-                tip2: '• Old videos are automatically removed to save space',
+                tip2: '• Back up your gallery before clearing browser data or switching devices',
                 tip3: '• Cache is shared across all tabs of this website',
                 tip4: '• Incognito mode does not persist cache',
                 failLoad: 'Failed to load cache statistics',
@@ -771,21 +933,9 @@ const translations = {
                 saving: 'Saving...',
                 runTest: 'Test',
                 testing: 'Testing...',
-                claimNew: 'Claim!',
                 updated: 'Updated!',
                 saveFail: 'Save failed.',
-                tokenGroupTitle: 'Veo 3.0 Authentication Pool',
-                tokenGroupDesc: 'These special tokens are required <strong>only for the Veo 3.0 & Imagen V3 models</strong>. Test a token to check its health or claim a working one as your personal token.',
-                sharedToken: 'Shared Token',
-                created: 'Created',
-                test: 'Test',
-                claim: 'Claim',
-                claimed: 'Claimed',
-                confirmClaim: 'Are you sure you want to claim this token (...{token}) as your personal token? This will overwrite your existing personal token.',
-                claiming: 'Claiming token ...{token}...',
-                claimFail: 'Failed to claim token. It may have been taken by another user.',
-                claimSuccess: 'Token successfully claimed and set as your personal token!',
-                noTokens: 'No shared authentication tokens were found.',
+                authTokenHint: 'Optional. Without a personal token, requests use the shared token vault.',
                 healthCheckTitle: 'API Health Check',
                 healthCheckDesc: 'Run a comprehensive check on all integrated AI services to ensure they are configured correctly and operational. This will make small API calls to each service.',
                 runCheck: 'Run Full System Check',
@@ -1,10 +1,12 @@
-import { type User, type LoginResult, UserRole, UserStatus } from '../types';
+import { type User, type AiLogItem, UserRole, UserStatus } from '../types';
 import { supabase, type Database } from './supabaseClient';
 import { loadData } from './indexedDBService';
 import { MODELS } from './aiConfig';
 import { APP_VERSION } from './appConfig';
 import { v4 as uuidv4 } from 'uuid';
 import { getProxyServers } from './contentService';
+import { getSessionUser, revokeUserSessions, signOut } from './authService';
+import { checkPermission } from './permissionService';
 
 // FIX: Correctly reference the 'users' table as defined in the Supabase types.
 type UserProfileData = Database['public']['Tables']['users']['Row'];
@@ -36,7 +38,7 @@ const getErrorMessage = (error: unknown): string => {
 /**
  * Maps a user profile from the database to the application's User type.
  */
-const mapProfileToUser = (
+export const mapProfileToUser = (
   profile: UserProfileData
 ): User => {
   return {
@@ -63,38 +65,15 @@ const mapProfileToUser = (
   };
 };
 
-// Log in a user by checking their email directly against the database.
-export const loginUser = async (email: string): Promise<LoginResult> => {
-    const cleanedEmail = email.trim().toLowerCase();
-    if (!cleanedEmail) {
-        return { success: false, message: 'emailRequired' };
-    }
-    
-    // FIX: Use the correct table name 'users'.
-    const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('email', cleanedEmail)
-        .single();
-    
-    if (userData && !userError) {
-        const typedData = userData as UserProfileData;
-        const user = mapProfileToUser(typedData);
-        return { success: true, user };
-    }
-
-    return { success: false, message: 'emailNotRegistered' };
-};
-
-// Sign out the current user (clears Supabase session)
+// Sign out the current user (forgets the proxy-issued session in this browser)
 export const signOutUser = async (): Promise<void> => {
-    // Session is managed in App.tsx via localStorage. No Supabase call needed.
-    // This function is kept for structural consistency if called from somewhere.
-    return Promise.resolve();
+    signOut();
 };
 
 // Get all users (for admin dashboard)
 export const getAllUsers = async (): Promise<User[] | null> => {
+    if (!checkPermission('users.view', 'getAllUsers')) return null;
+
     // FIX: Use the correct table name 'users'.
     const { data, error } = await supabase.from('users').select('*');
 
@@ -108,6 +87,8 @@ export const getAllUsers = async (): Promise<User[] | null> => {
 
 // Update a user's status
 export const updateUserStatus = async (userId: string, status: UserStatus): Promise<boolean> => {
+    if (!checkPermission('users.edit', 'updateUserStatus')) return false;
+
     const updatePayload: { status: UserStatus; subscription_expiry?: string | null } = { status: status };
 
     // If status is NOT subscription, clear the expiry date.
@@ -132,6 +113,8 @@ export const updateUserStatus = async (userId: string, status: UserStatus): Prom
  * Sets a user to the 'subscription' status and calculates their expiry date.
  */
 export const updateUserSubscription = async (userId: string, expiryMonths: 6 | 12): Promise<boolean> => {
+    if (!checkPermission('users.edit', 'updateUserSubscription')) return false;
+
     const expiryDate = new Date();
     expiryDate.setMonth(expiryDate.getMonth() + expiryMonths);
 
@@ -148,23 +131,41 @@ export const updateUserSubscription = async (userId: string, expiryMonths: 6 | 1
     return true;
 };
 
+/**
+ * Renews several subscriptions at once. A subscription that is still running is extended from
+ * its current end date; expired ones and trials start from today.
+ */
+export const renewUserSubscriptions = async (users: User[], expiryMonths: 6 | 12): Promise<{ renewed: number; failed: number }> => {
+    if (!checkPermission('users.edit', 'renewUserSubscriptions')) return { renewed: 0, failed: users.length };
+
+    const results = await Promise.all(users.map(async user => {
+        const runningUntil = user.status === 'subscription' && user.subscriptionExpiry ? user.subscriptionExpiry : 0;
+        const expiryDate = new Date(Math.max(runningUntil, Date.now()));
+        expiryDate.setMonth(expiryDate.getMonth() + expiryMonths);
+
+        const { error } = await supabase
+            .from('users')
+            .update({ status: 'subscription', subscription_expiry: expiryDate.toISOString() })
+            .eq('id', user.id);
+
+        if (error) {
+            console.error(`Failed to renew subscription for ${user.email}:`, getErrorMessage(error));
+            return false;
+        }
+        return true;
+    }));
+    const renewed = results.filter(Boolean).length;
+    return { renewed, failed: results.length - renewed };
+};
+
 
 /**
- * Triggers a remote logout for a user by setting the `force_logout_at` timestamp.
- * This does not change their account status.
+ * Triggers a remote logout for a user. The proxy revokes their sessions and sets the
+ * `force_logout_at` timestamp, which open tabs listen for. This does not change their account status.
  */
 export const forceUserLogout = async (userId: string): Promise<boolean> => {
-    // FIX: Use the correct table name 'users'.
-    const { error } = await supabase
-        .from('users')
-        .update({ force_logout_at: new Date().toISOString() })
-        .eq('id', userId);
-
-    if (error) {
-        console.error("Failed to force logout:", getErrorMessage(error));
-        return false;
-    }
-    return true;
+    if (!checkPermission('users.forceLogout', 'forceUserLogout')) return false;
+    return revokeUserSessions(userId);
 };
 
 // Update user profile details (non-sensitive)
@@ -200,6 +201,9 @@ export const updateUserProfile = async (
  * Replaces the entire user database with an imported list.
  */
 export const replaceUsers = async (importedUsers: User[]): Promise<{ success: boolean; message: string }> => {
+    if (!checkPermission('users.import', 'replaceUsers')) {
+        return { success: false, message: 'You do not have permission to import users.' };
+    }
     try {
         if (!Array.isArray(importedUsers)) {
             return { success: false, message: 'Import file must be an array of users.' };
@@ -241,6 +245,7 @@ export const replaceUsers = async (importedUsers: User[]): Promise<{ success: bo
 };
 
 export const exportAllUserData = async (): Promise<UserProfileData[] | null> => {
+     if (!checkPermission('users.export', 'exportAllUserData')) return null;
      // FIX: Use the correct table name 'users'.
      const { data, error } = await supabase.from('users').select('*');
      if (error) {
@@ -317,6 +322,11 @@ export const saveUserPersonalAuthToken = async (
   userId: string,
   token: string | null
 ): Promise<{ success: true; user: User } | { success: false; message: string }> => {
+    // Users manage their own token; anyone else's needs users.edit.
+    if (userId !== getSessionUser()?.id && !checkPermission('users.edit', 'saveUserPersonalAuthToken')) {
+        return { success: false, message: 'You do not have permission to change this user.' };
+    }
+
     // FIX: Use the correct table name 'users'.
     const { data: updatedData, error } = await supabase
         .from('users')
@@ -342,74 +352,6 @@ export const saveUserPersonalAuthToken = async (
     return { success: true, user: updatedProfile };
 };
 
-/**
- * Assigns a personal auth token to a user and increments the usage count for that token.
- * This version uses a database function (RPC) to perform an atomic check-and-increment,
- * which is the robust solution to prevent race conditions.
- * @param userId The ID of the user.
- * @param token The token string to assign.
- * @returns The updated user object on success.
- */
-export const assignPersonalTokenAndIncrementUsage = async (userId: string, token: string): Promise<{ success: true, user: User } | { success: false, message: string }> => {
-    try {
-        // Step 1: Atomically increment the token count using a database function (RPC).
-        const { data: rpcSuccess, error: rpcError } = await supabase.rpc(
-            'increment_token_if_available', 
-            { token_to_check: token }
-        );
-
-        if (rpcError) {
-            throw new Error(`Database function error: ${rpcError.message}. Ensure the 'increment_token_if_available' function exists in Supabase.`);
-        }
-        
-        if (rpcSuccess !== true) {
-            // This is not an error, but a normal race condition outcome. The slot was taken.
-            const message = `Token usage limit was reached at the time of assignment. Trying next token.`;
-            console.log(`Token slot for ...${token.slice(-6)} was taken by another user. Trying next token.`);
-            return { success: false, message: message };
-        }
-
-        // Step 2: If the increment was successful, assign the token to the user.
-        // FIX: Use the correct table name 'users'.
-        const { data: updatedUserData, error: userUpdateError } = await supabase
-            .from('users')
-            .update({ personal_auth_token: token })
-            .eq('id', userId)
-            .select()
-            .single();
-        
-        if (userUpdateError) {
-             console.error("CRITICAL: Failed to assign token to user AFTER incrementing count. Manual DB correction may be needed for token:", token);
-             
-             const message = getErrorMessage(userUpdateError);
-             if (message.includes("column") && message.includes("does not exist")) {
-                 if (message.includes('personal_auth_token')) {
-                     return { success: false, message: 'DB_SCHEMA_MISSING_COLUMN_personal_auth_token' };
-                 }
-             }
-             throw userUpdateError;
-        }
-
-        if (!updatedUserData) {
-            throw new Error(`User with ID ${userId} not found after update. Assignment may have failed due to database permissions (RLS).`);
-        }
-
-        const user = mapProfileToUser(updatedUserData as UserProfileData);
-        return { success: true, user };
-
-    } catch (error) {
-        const message = getErrorMessage(error);
-        console.error("Failed to assign token and increment usage:", message);
-        
-        if (message.includes('DB_SCHEMA_MISSING_COLUMN_personal_auth_token')) {
-            return { success: false, message: 'DB_SCHEMA_MISSING_COLUMN_personal_auth_token' };
-        }
-        
-        return { success: false, message };
-    }
-};
-
-
 /**
  * Type definition for the structured details of an AI generation log.
  * Keys use snake_case to match the database schema directly.
@@ -419,7 +361,7 @@ type AiGenerationLogData = {
     prompt: string;
     output: string;
     token_count: number;
-    status: 'Success' | 'Error';
+    status: AiLogItem['status'];
     error_message?: string | null;
 };
 
@@ -433,22 +375,7 @@ export const logActivity = async (
     activity_type: 'login' | 'ai_generation',
     details?: AiGenerationLogData
 ): Promise<void> => {
-    const getCurrentUserInternal = (): User | null => {
-        try {
-            const savedUserJson = localStorage.getItem('currentUser');
-            if (savedUserJson) {
-                const user = JSON.parse(savedUserJson) as User;
-                if (user && user.id) {
-                    return user;
-                }
-            }
-        } catch (error) {
-            console.error("Failed to parse user from localStorage for activity log.", error);
-        }
-        return null;
-    };
-
-    const user = getCurrentUserInternal();
+    const user = getSessionUser();
 
     if (!user) {
         // Fail silently if no user. We don't want to block user actions for logging.
@@ -482,53 +409,6 @@ export const logActivity = async (
     }
 };
 
-/**
- * Fetches the most recent VEO 3.0 auth tokens from the Supabase auth_token table.
- * @returns {Promise<{ token: string; createdAt: string }[] | null>} An array of token objects or null if not found/error.
- */
-export const getVeoAuthTokens = async (): Promise<{ token: string; createdAt: string }[] | null> => {
-    // FIX: Use the correct table name 'token_new_active'.
-    const { data, error } = await supabase
-        .from('token_new_active')
-        .select('token, created_at')
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-    if (error) {
-        console.error('Error getting VEO auth tokens:', getErrorMessage(error));
-        return null;
-    }
-
-    if (data && data.length > 0) {
-        // FIX: With the correct table name, 'data' is now correctly typed, resolving property access errors.
-        return data.map(item => ({ token: item.token, createdAt: item.created_at }));
-    }
-    
-    return null;
-};
-
-
-/**
- * Fetches the latest shared master API key from the database.
- * This key is used for trial users or users with low usage.
- * @returns {Promise<string | null>} The API key string or null if not found/error.
- */
-export const getSharedMasterApiKey = async (): Promise<string | null> => {
-    const { data, error } = await supabase
-        .from('master_api_key')
-        .select('api_key')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single();
-
-    if (error) {
-        console.error('Error getting shared master API key:', getErrorMessage(error));
-        return null;
-    }
-
-    return data?.api_key || null;
-};
-
 // FIX: Add missing functions and types for ApiGeneratorView.
 /**
  * Type definition for an API key available for claiming.
@@ -747,6 +627,9 @@ export const updateTokenStatusToExpired = async (token: string): Promise<void> =
 };
 
 export const addNewUser = async (userData: { email: string; phone: string; status: UserStatus; fullName: string; role: UserRole; batch_02: string | null }): Promise<{ success: boolean; message?: string, user?: User }> => {
+    if (!checkPermission('users.create', 'addNewUser')) {
+        return { success: false, message: 'You do not have permission to add users.' };
+    }
     const { email, phone, status, fullName, role, batch_02 } = userData;
     const cleanedEmail = email.trim().toLowerCase();
 
@@ -796,6 +679,9 @@ export const addNewUser = async (userData: { email: string; phone: string; statu
 };
 
 export const removeUser = async (userId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!checkPermission('users.remove', 'removeUser')) {
+        return { success: false, message: 'You do not have permission to remove users.' };
+    }
     const { error } = await supabase
         .from('users')
         .delete()
@@ -809,6 +695,8 @@ export const removeUser = async (userId: string): Promise<{ success: boolean; me
 };
 
 export const updateUserBatch02 = async (userId: string, batch_02: string | null): Promise<boolean> => {
+    if (!checkPermission('users.edit', 'updateUserBatch02')) return false;
+
     const { error } = await supabase
         .from('users')
         .update({ batch_02 })
@@ -1,5 +1,21 @@
 import { v4 as uuidv4 } from 'uuid';
-import { executeProxiedRequest } from './apiClient';
+import { createIdempotencyKey, executeProxiedRequest } from './apiClient';
+import { VEO_POLLING_POLICY, type PollingPolicy } from './aiConfig';
+import { abortableDelay, createAbortError, isAbortError, throwIfAborted } from '../utils/abortUtils';
+import {
+  parseVeoOperationsResponse,
+  parseVeoServerJobResponse,
+  parseUploadResponse,
+  normalizeVideoOperation,
+  type NormalizedVideoOperation,
+  type VeoGenerateRequestBody,
+  type VeoJobRequestBody,
+  type VeoServerJob,
+  type VeoOperation,
+  type VeoOperationsResponse,
+  type VeoStatusRequestBody,
+  type VeoUploadRequestBody,
+} from './proxySchemas';
 
 interface Veo3Config {
   authToken: string;
@@ -14,12 +30,7 @@ interface VideoGenerationRequest {
   config: Omit<Veo3Config, 'authToken'> & { authToken?: string };
 }
 
-export const generateVideoWithVeo3 = async (
-    request: VideoGenerationRequest,
-    onStatusUpdate?: (status: string) => void,
-    isHealthCheck = false
-): Promise<{ operations: any[]; successfulToken: string }> => {
-  console.log('🎬 [VEO Service] Preparing generateVideoWithVeo3 request...');
+const buildGenerateRequestBody = (request: VideoGenerationRequest): VeoGenerateRequestBody => {
   const { prompt, imageMediaId, config } = request;
   const isImageToVideo = !!imageMediaId;
 
@@ -35,14 +46,14 @@ export const generateVideoWithVeo3 = async (
       : 'veo_3_1_t2v_fast_portrait_ultra';
   }
 
-  const aspectRatioValue = config.aspectRatio === 'landscape'
+  const aspectRatioValue: VeoGenerateRequestBody['requests'][number]['aspectRatio'] = config.aspectRatio === 'landscape'
     ? 'VIDEO_ASPECT_RATIO_LANDSCAPE'
     : 'VIDEO_ASPECT_RATIO_PORTRAIT';
 
   const seed = config.seed || Math.floor(Math.random() * 2147483647);
   const sceneId = uuidv4();
 
-  const requestBody: any = {
+  const requestBody: VeoGenerateRequestBody = {
     clientContext: {
       tool: 'PINHOLE',
       userPaygateTier: 'PAYGATE_TIER_TWO'
@@ -60,6 +71,20 @@ export const generateVideoWithVeo3 = async (
     requestBody.requests[0].startImage = { mediaId: imageMediaId };
   }
 
+  return requestBody;
+};
+
+export const generateVideoWithVeo3 = async (
+    request: VideoGenerationRequest,
+    onStatusUpdate?: (status: string) => void,
+    isHealthCheck = false,
+    signal?: AbortSignal
+): Promise<{ operations: VeoOperation[]; successfulToken: string }> => {
+  console.log('🎬 [VEO Service] Preparing generateVideoWithVeo3 request...');
+  const { imageMediaId, config } = request;
+  const isImageToVideo = !!imageMediaId;
+  const requestBody = buildGenerateRequestBody(request);
+
   console.log('🎬 [VEO Service] Constructed T2V/I2V request body. Sending to API client.');
   const relativePath = isImageToVideo ? '/generate-i2v' : '/generate-t2v';
   
@@ -75,15 +100,23 @@ export const generateVideoWithVeo3 = async (
     requestBody,
     logContext,
     config.authToken, 
-    onStatusUpdate
+    onStatusUpdate,
+    signal,
+    createIdempotencyKey()
   );
-  console.log('🎬 [VEO Service] Received operations from API client:', data.operations?.length || 0);
-  return { operations: data.operations || [], successfulToken };
+  const { operations } = parseVeoOperationsResponse(data, logContext);
+  console.log('🎬 [VEO Service] Received operations from API client:', operations.length);
+  return { operations, successfulToken };
 };
 
-export const checkVideoStatus = async (operations: any[], token: string, onStatusUpdate?: (status: string) => void) => {
+export const checkVideoStatus = async (
+  operations: VeoOperation[],
+  token: string,
+  onStatusUpdate?: (status: string) => void,
+  signal?: AbortSignal
+): Promise<VeoOperationsResponse> => {
   console.log(`🔍 [VEO Service] Checking status for ${operations.length} operations...`);
-  const payload = { operations };
+  const payload: VeoStatusRequestBody = { operations };
 
   const { data } = await executeProxiedRequest(
     '/status',
@@ -91,36 +124,113 @@ export const checkVideoStatus = async (operations: any[], token: string, onStatu
     payload,
     'VEO STATUS',
     token, // Must use same token as generation
-    onStatusUpdate
+    onStatusUpdate,
+    signal
   );
-  
-  if (data.operations && data.operations.length > 0) {
-    data.operations.forEach((op: any, idx: number) => {
-      console.log(`📊 Operation ${idx + 1} status:`, {
-        status: op.status,
-        done: op.done,
-        hasResult: !!op.result,
-        hasError: !!op.error,
-        operationName: op.operation?.name
-      });
+
+  // The upstream sometimes answers with no operations while a job is still being scheduled.
+  const response = parseVeoOperationsResponse(data, 'VEO STATUS', true);
+  response.operations.forEach((op, idx) => {
+    console.log(`📊 Operation ${idx + 1} status:`, {
+      status: op.status,
+      done: op.done,
+      hasResult: !!op.result,
+      hasError: !!op.error,
+      operationName: op.operation?.name
     });
+  });
+
+  return response;
+};
+
+/**
+ * Thrown when a Veo operation does not finish within the polling policy's limits.
+ */
+export class VideoPollingTimeoutError extends Error {
+  constructor(
+    public readonly reason: 'deadline' | 'empty-responses',
+    public readonly elapsedMs: number,
+    public readonly attempts: number
+  ) {
+    super(reason === 'deadline'
+      ? `Video generation timed out after ${Math.round(elapsedMs / 60000)} minutes without finishing. Please try again.`
+      : `Video generation status stopped responding after ${attempts} status checks. Please try again.`);
+    this.name = 'VideoPollingTimeoutError';
   }
+}
+
+/**
+ * Polls Veo operations until the first one finishes, fails, or the polling policy gives up.
+ * Returns the finished operation, normalized; throws VideoPollingTimeoutError when limits are exceeded.
+ */
+export const pollVideoOperations = async (
+  operations: VeoOperation[],
+  token: string,
+  onStatusUpdate?: (status: string) => void,
+  signal?: AbortSignal,
+  policy: PollingPolicy = VEO_POLLING_POLICY
+): Promise<NormalizedVideoOperation> => {
+  const startedAt = Date.now();
+  let currentOperations = operations;
+  let interval = policy.initialIntervalMs;
+  let attempts = 0;
+  let consecutiveEmptyResponses = 0;
+
+  while (true) {
+    const elapsed = Date.now() - startedAt;
+    if (elapsed + interval > policy.maxWaitMs) {
+      throw new VideoPollingTimeoutError('deadline', elapsed, attempts);
+    }
+    await abortableDelay(interval, signal);
+    interval = Math.min(interval * policy.backoffMultiplier, policy.maxIntervalMs);
+    attempts++;
+
+    const statusResponse = await checkVideoStatus(currentOperations, token, onStatusUpdate, signal);
+    if (statusResponse.operations.length === 0) {
+      consecutiveEmptyResponses++;
+      console.warn(`⚠️ [VEO Service] Empty status response (${consecutiveEmptyResponses}/${policy.maxConsecutiveEmptyResponses}), retrying...`);
+      if (consecutiveEmptyResponses >= policy.maxConsecutiveEmptyResponses) {
+        throw new VideoPollingTimeoutError('empty-responses', Date.now() - startedAt, attempts);
+      }
+      continue;
+    }
+    consecutiveEmptyResponses = 0;
 
-  return data;
+    currentOperations = statusResponse.operations;
+    const opStatus = normalizeVideoOperation(currentOperations[0]);
+
+    if (opStatus.status === 'MEDIA_GENERATION_STATUS_FAILED') {
+      console.error('❌ Video generation failed with status FAILED. Full operation object:', JSON.stringify(currentOperations[0], null, 2));
+      throw new Error("Video generation failed on the server. This often happens if your request was blocked by safety policies. Please try modifying your prompt or using a different image.");
+    }
+
+    if (opStatus.state === 'completed') {
+      return opStatus;
+    }
+
+    if (opStatus.state === 'failed') {
+      throw new Error(`Video generation failed: ${opStatus.errorMessage}`);
+    }
+
+    if (onStatusUpdate) {
+      onStatusUpdate(opStatus.progressPercent !== null ? `Generating... ${opStatus.progressPercent}%` : 'Generating...');
+    }
+  }
 };
 
 export const uploadImageForVeo3 = async (
   base64Image: string,
   mimeType: string,
   aspectRatio: 'landscape' | 'portrait',
-  onStatusUpdate?: (status: string) => void
+  onStatusUpdate?: (status: string) => void,
+  signal?: AbortSignal
 ): Promise<{ mediaId: string; successfulToken: string }> => {
   console.log(`📤 [VEO Service] Preparing to upload image for VEO. MimeType: ${mimeType}`);
   const imageAspectRatioEnum = aspectRatio === 'landscape' 
     ? 'IMAGE_ASPECT_RATIO_LANDSCAPE' 
     : 'IMAGE_ASPECT_RATIO_PORTRAIT';
 
-  const requestBody = {
+  const requestBody: VeoUploadRequestBody = {
     imageInput: {
       rawImageBytes: base64Image,
       mimeType: mimeType,
@@ -139,16 +249,232 @@ export const uploadImageForVeo3 = async (
     requestBody,
     'VEO UPLOAD',
     undefined, // Let it use the robust logic to find a working token initially
-    onStatusUpdate
+    onStatusUpdate,
+    signal
   );
 
-  const mediaId = data.mediaGenerationId?.mediaGenerationId || data.mediaId;
-  
-  if (!mediaId) {
-    console.error('❌ No mediaId in response:', JSON.stringify(data, null, 2));
-    throw new Error('Upload succeeded but no mediaId returned');
-  }
-  
+  const mediaId = parseUploadResponse(data, 'VEO UPLOAD');
+
   console.log(`📤 [VEO Service] Image upload successful. Media ID: ${mediaId} with token ...${successfulToken.slice(-6)}`);
   return { mediaId, successfulToken };
-};
\ No newline at end of file
+};
+// ===============================
+// 🎞️ SERVER-SIDE VIDEO JOBS
+// ===============================
+// Proxies that advertise 'veo-jobs' poll upstream themselves and push status over SSE.
+// Started jobs are remembered in localStorage so they can be picked up again after a reload.
+
+const PENDING_JOBS_STORAGE_KEY = 'monoklix_pending_veo_jobs';
+const LONG_POLL_WAIT_MS = 25000;
+
+// Jobs being followed by watchVideoJob in this page session
+const watchedJobIds = new Set<string>();
+
+export interface VideoJobRef {
+  jobId: string;
+  serverUrl: string;
+  prompt: string;
+  createdAt: number;
+}
+
+const loadPendingVideoJobs = (): VideoJobRef[] => {
+  try {
+    const saved = localStorage.getItem(PENDING_JOBS_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn('[VEO Service] Failed to read pending video jobs.', e);
+    return [];
+  }
+};
+
+/**
+ * Server jobs that were started but are not being watched, e.g. because the page was reloaded.
+ */
+export const getPendingVideoJobs = (): VideoJobRef[] => {
+  return loadPendingVideoJobs().filter(ref => !watchedJobIds.has(ref.jobId));
+};
+
+const savePendingVideoJobs = (refs: VideoJobRef[]) => {
+  try {
+    localStorage.setItem(PENDING_JOBS_STORAGE_KEY, JSON.stringify(refs));
+  } catch (e) {
+    console.warn('[VEO Service] Failed to save pending video jobs.', e);
+  }
+};
+
+const removePendingVideoJob = (jobId: string) => {
+  savePendingVideoJobs(loadPendingVideoJobs().filter(ref => ref.jobId !== jobId));
+};
+
+const getJobUrl = (ref: VideoJobRef) => `${ref.serverUrl}/api/veo/jobs/${encodeURIComponent(ref.jobId)}`;
+
+/**
+ * Starts a video generation that the proxy tracks itself. Only call this when the proxy advertises 'veo-jobs'.
+ */
+export const startVideoJob = async (
+  request: VideoGenerationRequest,
+  onStatusUpdate?: (status: string) => void,
+  signal?: AbortSignal
+): Promise<VideoJobRef> => {
+  const isImageToVideo = !!request.imageMediaId;
+  const requestBody: VeoJobRequestBody = {
+    type: isImageToVideo ? 'i2v' : 't2v',
+    request: buildGenerateRequestBody(request),
+  };
+  const logContext = isImageToVideo ? 'VEO I2V GENERATE' : 'VEO T2V GENERATE';
+
+  const { data, serverUrl } = await executeProxiedRequest(
+    '/jobs',
+    'veo',
+    requestBody,
+    logContext,
+    request.config.authToken,
+    onStatusUpdate,
+    signal,
+    createIdempotencyKey()
+  );
+  const job = parseVeoServerJobResponse(data, 'VEO JOB START');
+  // The job lives on whichever server accepted it, which may be a failover server.
+  const ref: VideoJobRef = { jobId: job.id, serverUrl, prompt: request.prompt, createdAt: Date.now() };
+  savePendingVideoJobs([...loadPendingVideoJobs(), ref]);
+  console.log(`🎞️ [VEO Service] Server job ${job.id} started on ${serverUrl}`);
+  return ref;
+};
+
+/**
+ * Asks the proxy to stop a job. Failures are only logged: the job will time out on the server anyway.
+ */
+export const cancelVideoJob = async (ref: VideoJobRef): Promise<void> => {
+  removePendingVideoJob(ref.jobId);
+  try {
+    await fetch(getJobUrl(ref), { method: 'DELETE' });
+  } catch (e) {
+    console.warn(`[VEO Service] Could not cancel server job ${ref.jobId}`, e);
+  }
+};
+
+// Resolves with the job once it leaves 'running', or with null if the stream breaks.
+const streamVideoJob = (
+  ref: VideoJobRef,
+  onUpdate: (job: VeoServerJob) => void,
+  signal: AbortSignal | undefined,
+  deadline: number
+): Promise<VeoServerJob | null> => new Promise((resolve, reject) => {
+  const source = new EventSource(`${getJobUrl(ref)}/events`);
+  let settled = false;
+
+  const finish = (settle: () => void) => {
+    if (settled) return;
+    settled = true;
+    clearTimeout(timer);
+    source.close();
+    signal?.removeEventListener('abort', onAbort);
+    settle();
+  };
+  const onAbort = () => finish(() => reject(createAbortError()));
+  const timer = setTimeout(
+    () => finish(() => reject(new VideoPollingTimeoutError('deadline', Date.now() - ref.createdAt, 0))),
+    Math.max(0, deadline - Date.now())
+  );
+
+  signal?.addEventListener('abort', onAbort, { once: true });
+  source.addEventListener('job', (event) => {
+    try {
+      const job = parseVeoServerJobResponse(JSON.parse((event as MessageEvent).data), 'VEO JOB EVENTS');
+      if (job.status === 'running') {
+        onUpdate(job);
+      } else {
+        finish(() => resolve(job));
+      }
+    } catch (error) {
+      finish(() => reject(error));
+    }
+  });
+  // EventSource would reconnect forever on its own; long-polling has bounded retries instead.
+  source.onerror = () => {
+    console.warn(`⚠️ [VEO Service] Event stream for job ${ref.jobId} failed, falling back to long-polling.`);
+    finish(() => resolve(null));
+  };
+});
+
+const longPollVideoJob = async (
+  ref: VideoJobRef,
+  onUpdate: (job: VeoServerJob) => void,
+  signal: AbortSignal | undefined,
+  deadline: number,
+  policy: PollingPolicy
+): Promise<VeoServerJob> => {
+  let version = -1;
+  let attempts = 0;
+  let consecutiveFailures = 0;
+
+  while (true) {
+    if (Date.now() > deadline) {
+      throw new VideoPollingTimeoutError('deadline', Date.now() - ref.createdAt, attempts);
+    }
+    attempts++;
+
+    let response: Response | null = null;
+    try {
+      response = await fetch(`${getJobUrl(ref)}?since=${version}&wait=${LONG_POLL_WAIT_MS}`, { signal });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+    }
+
+    if (response?.status === 404) {
+      throw new Error('This video is no longer being tracked by the server. Please generate it again.');
+    }
+    if (!response?.ok) {
+      consecutiveFailures++;
+      console.warn(`⚠️ [VEO Service] Job status request failed (${consecutiveFailures}/${policy.maxConsecutiveEmptyResponses}), retrying...`);
+      if (consecutiveFailures >= policy.maxConsecutiveEmptyResponses) {
+        throw new VideoPollingTimeoutError('empty-responses', Date.now() - ref.createdAt, attempts);
+      }
+      await abortableDelay(policy.initialIntervalMs, signal);
+      continue;
+    }
+    consecutiveFailures = 0;
+
+    const job = parseVeoServerJobResponse(await response.json(), 'VEO JOB STATUS');
+    if (job.status !== 'running') return job;
+    if (job.version !== version) onUpdate(job);
+    version = job.version;
+  }
+};
+
+/**
+ * Follows a server-side job until it finishes, over SSE with a long-poll fallback.
+ * Returns the completed job. Aborting the signal cancels the job on the server too.
+ */
+export const watchVideoJob = async (
+  ref: VideoJobRef,
+  onStatusUpdate?: (status: string) => void,
+  signal?: AbortSignal,
+  policy: PollingPolicy = VEO_POLLING_POLICY
+): Promise<VeoServerJob> => {
+  watchedJobIds.add(ref.jobId);
+  const deadline = ref.createdAt + policy.maxWaitMs;
+  const onUpdate = (job: VeoServerJob) => {
+    onStatusUpdate?.(job.progressPercent !== null ? `Generating... ${job.progressPercent}%` : 'Generating...');
+  };
+
+  try {
+    throwIfAborted(signal);
+    onStatusUpdate?.('Generating...');
+    const streamed = typeof EventSource !== 'undefined' ? await streamVideoJob(ref, onUpdate, signal, deadline) : null;
+    const job = streamed ?? await longPollVideoJob(ref, onUpdate, signal, deadline, policy);
+
+    if (job.status === 'cancelled') throw createAbortError();
+    if (job.status === 'failed') throw new Error(job.error || 'Video generation failed on the server.');
+    return job;
+  } catch (error) {
+    if (isAbortError(error)) {
+      await cancelVideoJob(ref);
+    }
+    throw error;
+  } finally {
+    watchedJobIds.delete(ref.jobId);
+    removePendingVideoJob(ref.jobId);
+  }
+};
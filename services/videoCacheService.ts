@@ -1,19 +1,22 @@
 import localforage from 'localforage';
+import { getStorageEstimate, checkStorageQuota, STORAGE_EVICTION_RATIO } from './storageService';
 
 // ===============================
 // 📦 VIDEO CACHE CONFIGURATION
 // ===============================
 
+// Index of cached video ID to last access, kept apart so an access does not rewrite the blob
 const VIDEO_CACHE_KEY = 'monoklix_video_cache';
-// NOTA: Had ini tidak lagi dikuatkuasakan untuk storan kekal.
-const MAX_CACHE_SIZE_MB = 500;
-const MAX_VIDEOS = 50;
+// Limits for unpinned videos. Pinned videos do not count towards them and are never evicted.
+export const MAX_CACHE_SIZE_MB = 500;
+export const MAX_VIDEOS = 50;
 
 interface CachedVideo {
   id: string;
   blob: Blob;
-  timestamp: number;
+  timestamp: number; // When it was cached. The last access is in the index.
   size: number; // in bytes
+  pinned?: boolean;
   metadata: {
     prompt?: string;
     model?: string;
@@ -21,9 +24,13 @@ interface CachedVideo {
   };
 }
 
+// A cached video without its blob, for listing. Its timestamp is the last access.
+export type CachedVideoInfo = Omit<CachedVideo, 'blob'>;
+
 interface CacheStats {
   totalSize: number;
   totalVideos: number;
+  pinnedVideos: number;
   oldestVideo: number;
   newestVideo: number;
 }
@@ -40,24 +47,26 @@ const videoStorage = localforage.createInstance({
 // ===============================
 
 /**
- * Save video to persistent cache
+ * Save video to persistent cache, evicting the least recently used unpinned videos first if
+ * the cache limits or the storage quota require it
  */
 export const cacheVideo = async (
   videoId: string,
   blob: Blob,
-  metadata?: { prompt?: string; model?: string; duration?: number }
+  metadata?: { prompt?: string; model?: string; duration?: number },
+  pinned = false
 ): Promise<void> => {
   try {
     console.log(`💾 Caching video: ${videoId} (${(blob.size / 1024 / 1024).toFixed(2)} MB)`);
 
-    // DILUMPUHKAN: Tidak lagi menguatkuasakan had cache untuk storan kekal.
-    // await enforceCacheLimits(blob.size);
+    const evicted = await enforceCacheLimits(pinned ? 0 : blob.size, blob.size);
 
     const cachedVideo: CachedVideo = {
       id: videoId,
       blob,
       timestamp: Date.now(),
       size: blob.size,
+      pinned,
       metadata: metadata || {}
     };
 
@@ -66,6 +75,7 @@ export const cacheVideo = async (
 
     // Update cache index
     await updateCacheIndex(videoId, blob.size);
+    await checkStorageQuota(evicted);
 
   } catch (error) {
     console.error('❌ Failed to cache video:', error);
@@ -74,7 +84,7 @@ export const cacheVideo = async (
 };
 
 /**
- * Retrieve video from cache
+ * Retrieve video from cache. Reading does not count as an access; see touchCachedVideo.
  */
 export const getCachedVideo = async (videoId: string): Promise<Blob | null> => {
   try {
@@ -86,11 +96,6 @@ export const getCachedVideo = async (videoId: string): Promise<Blob | null> => {
     }
 
     console.log(`✅ Video retrieved from cache: ${videoId}`);
-    
-    // Update access timestamp (LRU)
-    cached.timestamp = Date.now();
-    await videoStorage.setItem(videoId, cached);
-    
     return cached.blob;
 
   } catch (error) {
@@ -99,6 +104,20 @@ export const getCachedVideo = async (videoId: string): Promise<Blob | null> => {
   }
 };
 
+/**
+ * Records that the user watched or downloaded a cached video, so it is evicted last
+ */
+export const touchCachedVideo = async (videoId: string): Promise<void> => {
+  try {
+    const index = await localforage.getItem<Record<string, number>>(VIDEO_CACHE_KEY) || {};
+    if (!(videoId in index)) return;
+    index[videoId] = Date.now();
+    await localforage.setItem(VIDEO_CACHE_KEY, index);
+  } catch (error) {
+    console.error('❌ Failed to update cache index:', error);
+  }
+};
+
 /**
  * Check if video exists in cache
  */
@@ -112,6 +131,28 @@ export const isVideoCached = async (videoId: string): Promise<boolean> => {
   }
 };
 
+/**
+ * Pin a cached video so it is never evicted, or unpin it
+ */
+export const setVideoPinned = async (videoId: string, pinned: boolean): Promise<void> => {
+  const cached = await videoStorage.getItem<CachedVideo>(videoId);
+  if (!cached || !!cached.pinned === pinned) return;
+  await videoStorage.setItem(videoId, { ...cached, pinned });
+  console.log(`📌 ${pinned ? 'Pinned' : 'Unpinned'} cached video: ${videoId}`);
+};
+
+/**
+ * Every cached video without its blob, most recently used first
+ */
+export const getCachedVideos = async (): Promise<CachedVideoInfo[]> => {
+  const index = await localforage.getItem<Record<string, number>>(VIDEO_CACHE_KEY) || {};
+  const videos: CachedVideoInfo[] = [];
+  await videoStorage.iterate<CachedVideo, void>(({ blob, ...info }) => {
+    videos.push({ ...info, timestamp: index[info.id] ?? info.timestamp });
+  });
+  return videos.sort((a, b) => b.timestamp - a.timestamp);
+};
+
 /**
  * Delete video from cache
  */
@@ -148,30 +189,28 @@ export const clearVideoCache = async (): Promise<void> => {
  */
 export const getCacheStats = async (): Promise<CacheStats> => {
   try {
-    const keys = await videoStorage.keys();
+    const videos = await getCachedVideos();
     let totalSize = 0;
     let oldestTimestamp = Infinity;
     let newestTimestamp = 0;
 
-    for (const key of keys) {
-      const cached = await videoStorage.getItem<CachedVideo>(key);
-      if (cached) {
-        totalSize += cached.size;
-        if (cached.timestamp < oldestTimestamp) oldestTimestamp = cached.timestamp;
-        if (cached.timestamp > newestTimestamp) newestTimestamp = cached.timestamp;
-      }
+    for (const cached of videos) {
+      totalSize += cached.size;
+      if (cached.timestamp < oldestTimestamp) oldestTimestamp = cached.timestamp;
+      if (cached.timestamp > newestTimestamp) newestTimestamp = cached.timestamp;
     }
 
     return {
       totalSize,
-      totalVideos: keys.length,
+      totalVideos: videos.length,
+      pinnedVideos: videos.filter(video => video.pinned).length,
       oldestVideo: oldestTimestamp === Infinity ? 0 : oldestTimestamp,
       newestVideo: newestTimestamp
     };
 
   } catch (error) {
     console.error('❌ Failed to get cache stats:', error);
-    return { totalSize: 0, totalVideos: 0, oldestVideo: 0, newestVideo: 0 };
+    return { totalSize: 0, totalVideos: 0, pinnedVideos: 0, oldestVideo: 0, newestVideo: 0 };
   }
 };
 
@@ -213,48 +252,48 @@ const updateCacheIndex = async (videoId: string, sizeChange: number): Promise<vo
 };
 
 /**
- * Enforce cache size and count limits (LRU eviction)
- * NOTA: Fungsi ini kini dilumpuhkan dalam `cacheVideo` untuk menyediakan storan kekal.
+ * Evicts the least recently used unpinned videos until a new video fits: the unpinned videos
+ * stay within MAX_VIDEOS and MAX_CACHE_SIZE_MB (`countedSize` is what the new video adds to
+ * them, 0 if it is pinned), and the site's storage stays under STORAGE_EVICTION_RATIO of the
+ * quota (`newVideoSize`). Resolves to the number of videos evicted.
  */
-const enforceCacheLimits = async (newVideoSize: number): Promise<void> => {
-  const stats = await getCacheStats();
+const enforceCacheLimits = async (countedSize: number, newVideoSize: number): Promise<number> => {
   const maxSizeBytes = MAX_CACHE_SIZE_MB * 1024 * 1024;
+  const unpinned = (await getCachedVideos()).filter(video => !video.pinned);
+  const estimate = await getStorageEstimate();
+
+  let currentSize = unpinned.reduce((sum, video) => sum + video.size, 0);
+  let currentCount = unpinned.length;
+  // Bytes to free for the quota; unknown quota means no pressure
+  let overQuota = estimate && estimate.quota > 0
+    ? estimate.usage + newVideoSize - estimate.quota * STORAGE_EVICTION_RATIO
+    : 0;
+  const isOverLimit = () =>
+    overQuota > 0 || (countedSize > 0 && (currentCount >= MAX_VIDEOS || currentSize + countedSize > maxSizeBytes));
+
+  if (!isOverLimit()) return 0;
+  console.log('⚠️ Cache limit reached, evicting old videos...');
+
+  // Oldest access first
+  unpinned.sort((a, b) => a.timestamp - b.timestamp);
+  let evicted = 0;
+
+  for (const video of unpinned) {
+    if (!isOverLimit()) break;
+
+    console.log(`🗑️ Evicting old video: ${video.id} (${(video.size / 1024 / 1024).toFixed(2)} MB)`);
+    await deleteCachedVideo(video.id);
+    currentSize -= video.size;
+    currentCount--;
+    overQuota -= video.size;
+    evicted++;
+  }
 
-  // Check if adding new video would exceed limits
-  if (stats.totalVideos >= MAX_VIDEOS || (stats.totalSize + newVideoSize) > maxSizeBytes) {
-    console.log('⚠️ Cache limit reached, evicting old videos...');
-    
-    // Get all videos sorted by timestamp (oldest first)
-    const keys = await videoStorage.keys();
-    const videos: Array<{ id: string; timestamp: number; size: number }> = [];
-
-    for (const key of keys) {
-      const cached = await videoStorage.getItem<CachedVideo>(key);
-      if (cached) {
-        videos.push({ id: cached.id, timestamp: cached.timestamp, size: cached.size });
-      }
-    }
-
-    // Sort by timestamp (oldest first)
-    videos.sort((a, b) => a.timestamp - b.timestamp);
-
-    // Evict oldest videos until we have space
-    let currentSize = stats.totalSize;
-    let currentCount = stats.totalVideos;
-
-    for (const video of videos) {
-      if (currentCount < MAX_VIDEOS && (currentSize + newVideoSize) <= maxSizeBytes) {
-        break;
-      }
-
-      console.log(`🗑️ Evicting old video: ${video.id} (${(video.size / 1024 / 1024).toFixed(2)} MB)`);
-      await deleteCachedVideo(video.id);
-      currentSize -= video.size;
-      currentCount--;
-    }
-
-    console.log(`✅ Cache cleaned: ${currentCount} videos, ${(currentSize / 1024 / 1024).toFixed(2)} MB`);
+  if (isOverLimit()) {
+    console.warn('⚠️ Only pinned videos are left to evict. Caching the new video anyway.');
   }
+  console.log(`✅ Cache cleaned: ${evicted} evicted, ${currentCount} unpinned videos, ${(currentSize / 1024 / 1024).toFixed(2)} MB`);
+  return evicted;
 };
 
 // ===============================
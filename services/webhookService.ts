@@ -1,5 +1,6 @@
 import { supabase } from './supabaseClient';
-import { type HistoryItem, type User, type ErrorWebhookPayload } from '../types';
+import { type HistoryItem, type ErrorWebhookPayload } from '../types';
+import { getSessionUser } from './authService';
 
 // Webhook URL for error notifications.
 // PASTE YOUR ERROR WEBHOOK URL HERE. Leave it empty to disable.
@@ -31,25 +32,10 @@ export type WebhookPayload = {
     userId: string;
 };
 
-const getCurrentUserFromSession = (): User | null => {
-    try {
-        const savedUserJson = localStorage.getItem('currentUser');
-        if (savedUserJson) {
-            const user = JSON.parse(savedUserJson) as User;
-            if (user && user.id) {
-                return user;
-            }
-        }
-    } catch (error) {
-        console.error("Failed to parse user from localStorage for webhook.", error);
-    }
-    return null;
-}
-
 export const triggerUserWebhook = async (
     data: Omit<WebhookPayload, 'timestamp' | 'userId' | 'result' | 'mimeType'> & { result: string | Blob, mimeType?: string }
 ) => {
-    const user = getCurrentUserFromSession();
+    const user = getSessionUser();
     if (!user) {
         console.error("User not authenticated, cannot trigger webhook.");
         return;
@@ -105,7 +91,7 @@ export const triggerErrorWebhook = (error: unknown) => {
         return; // Disabled
     }
 
-    const user = getCurrentUserFromSession();
+    const user = getSessionUser();
 
     let errorMessage: string;
     let errorObject: any;
@@ -146,7 +132,7 @@ export const triggerErrorWebhook = (error: unknown) => {
 
 // FIX: Add missing sendTestUserWebhook function.
 export const sendTestUserWebhook = async (): Promise<{ success: boolean; message: string }> => {
-    const user = getCurrentUserFromSession();
+    const user = getSessionUser();
     if (!user) {
         return { success: false, message: "webhookNotAuth" };
     }
@@ -195,7 +181,7 @@ export const sendSocialPostToWebhook = async (
     scheduleDate: string,
     mediaItems: HistoryItem[]
 ): Promise<{ success: boolean; message: string }> => {
-    const user = getCurrentUserFromSession();
+    const user = getSessionUser();
     if (!user?.id) {
         return { success: false, message: "You are not logged in." };
     }
@@ -0,0 +1,164 @@
+import { type HistoryItem, type Workspace, type WorkspaceMember, type WorkspaceItem, type WorkspaceItemCategory } from '../types';
+import { getVeoProxyUrl } from './apiClient';
+import { fetchWithSession } from './authService';
+
+// ===============================
+// 👥 WORKSPACES
+// ===============================
+// Team workspaces live on the proxy (server/workspaces.js) and in Supabase, so every proxy
+// serves the same data. History stays per-device; publishing copies an item into the
+// workspace's shared gallery, where every member can see and download it.
+
+type WorkspaceItemType = WorkspaceItem['type'];
+
+const toTime = (value: string | null | undefined): number => (value ? new Date(value).getTime() : 0);
+
+const mapWorkspace = (row: any): Workspace => ({
+    id: row.id,
+    name: row.name,
+    ownerId: row.owner_id,
+    role: row.role,
+    createdAt: toTime(row.created_at),
+});
+
+const mapMember = (row: any): WorkspaceMember => ({ ...row, addedAt: toTime(row.addedAt) });
+
+const mapItem = (row: any): WorkspaceItem => ({
+    id: row.id,
+    workspaceId: row.workspace_id,
+    category: row.category,
+    type: row.type,
+    prompt: row.prompt || '',
+    mimeType: row.mime_type,
+    url: row.url,
+    sizeBytes: row.size_bytes,
+    authorId: row.author_id,
+    authorName: row.author_name || '',
+    sourceCreatedAt: row.source_created_at ? toTime(row.source_created_at) : null,
+    createdAt: toTime(row.created_at),
+});
+
+const requestWorkspaceApi = async (path: string, options: { method?: string; body?: object } = {}): Promise<any> => {
+    const response = await fetchWithSession(`${getVeoProxyUrl()}/api/workspaces${path}`, {
+        method: options.method || 'GET',
+        headers: options.body ? { 'Content-Type': 'application/json' } : {},
+        body: options.body ? JSON.stringify(options.body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(data.error?.message || (typeof data.error === 'string' ? data.error : `Workspace request failed (${response.status})`));
+    }
+    return data;
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+});
+
+/**
+ * Workspaces the signed-in user belongs to, with their role in each.
+ */
+export const getWorkspaces = async (): Promise<Workspace[]> => {
+    const data = await requestWorkspaceApi('');
+    return data.workspaces.map(mapWorkspace);
+};
+
+/**
+ * Creates a workspace owned by the signed-in user.
+ */
+export const createWorkspace = async (name: string): Promise<Workspace> => {
+    const data = await requestWorkspaceApi('', { method: 'POST', body: { name: name.trim() } });
+    console.log(`👥 [Workspaces] Created "${data.workspace.name}".`);
+    return mapWorkspace(data.workspace);
+};
+
+export const getWorkspaceMembers = async (workspaceId: string): Promise<WorkspaceMember[]> => {
+    const data = await requestWorkspaceApi(`/${encodeURIComponent(workspaceId)}/members`);
+    return data.members.map(mapMember);
+};
+
+/**
+ * Adds a registered user by email. Owner only.
+ */
+export const addWorkspaceMember = async (workspaceId: string, email: string): Promise<void> => {
+    await requestWorkspaceApi(`/${encodeURIComponent(workspaceId)}/members`, { method: 'POST', body: { email: email.trim().toLowerCase() } });
+};
+
+/**
+ * Removes a member (owner only), or leaves the workspace when `userId` is the signed-in user.
+ */
+export const removeWorkspaceMember = async (workspaceId: string, userId: string): Promise<void> => {
+    await requestWorkspaceApi(`/${encodeURIComponent(workspaceId)}/members/${encodeURIComponent(userId)}`, { method: 'DELETE' });
+};
+
+/**
+ * Newest first. Item URLs are signed and expire after about an hour; fetch again to renew them.
+ */
+export const getWorkspaceItems = async (workspaceId: string, category?: WorkspaceItemCategory): Promise<WorkspaceItem[]> => {
+    const query = category ? `?category=${category}` : '';
+    const data = await requestWorkspaceApi(`/${encodeURIComponent(workspaceId)}/items${query}`);
+    return data.items.map(mapItem);
+};
+
+const publishFile = async (
+    workspaceId: string,
+    category: WorkspaceItemCategory,
+    file: { type: WorkspaceItemType; prompt: string; mimeType: string; base64: string; createdAt?: number },
+): Promise<WorkspaceItem> => {
+    const data = await requestWorkspaceApi(`/${encodeURIComponent(workspaceId)}/items`, {
+        method: 'POST',
+        body: {
+            category,
+            type: file.type,
+            prompt: file.prompt,
+            mimeType: file.mimeType,
+            data: file.base64,
+            sourceCreatedAt: file.createdAt,
+        },
+    });
+    console.log(`👥 [Workspaces] Published a ${file.type.toLowerCase()} to the ${category === 'brand' ? 'brand assets' : 'shared gallery'}.`);
+    return mapItem(data.item);
+};
+
+/**
+ * Copies a history item (image, canvas, video or audio) into a workspace's shared gallery.
+ * The author and the original creation time travel with it.
+ */
+export const publishHistoryItem = async (workspaceId: string, item: HistoryItem): Promise<WorkspaceItem> => {
+    if (item.type !== 'Image' && item.type !== 'Canvas' && item.type !== 'Video' && item.type !== 'Audio') {
+        throw new Error(`${item.type} items cannot be shared.`);
+    }
+    if (item.result === 'unavailable') {
+        throw new Error('This item is no longer stored on this device.');
+    }
+    const isBlob = item.result instanceof Blob;
+    return publishFile(workspaceId, 'gallery', {
+        type: item.type,
+        prompt: item.prompt,
+        mimeType: isBlob ? (item.result as Blob).type || (item.type === 'Video' ? 'video/mp4' : 'audio/wav') : 'image/png',
+        base64: isBlob ? await blobToBase64(item.result as Blob) : item.result as string,
+        createdAt: item.timestamp,
+    });
+};
+
+/**
+ * Uploads a brand asset (logo, product shot) from the user's device.
+ */
+export const uploadBrandAsset = async (workspaceId: string, file: File): Promise<WorkspaceItem> =>
+    publishFile(workspaceId, 'brand', {
+        type: 'Image',
+        prompt: file.name,
+        mimeType: file.type,
+        base64: await blobToBase64(file),
+        createdAt: file.lastModified,
+    });
+
+/**
+ * Authors may remove their own items; the owner may remove any.
+ */
+export const deleteWorkspaceItem = async (workspaceId: string, itemId: string): Promise<void> => {
+    await requestWorkspaceApi(`/${encodeURIComponent(workspaceId)}/items/${encodeURIComponent(itemId)}`, { method: 'DELETE' });
+};
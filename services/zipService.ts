@@ -0,0 +1,161 @@
+// ===============================
+// 🗜️ ZIP ARCHIVES
+// ===============================
+// A small ZIP writer and reader for gallery backups. Files are written uncompressed ("stored"):
+// the media is already compressed, so deflating it again gains little. The reader also takes
+// deflated entries, so an archive that was unpacked and zipped again by another tool still
+// restores. ZIP64 is not supported, so an archive must stay under 4 GB.
+
+export interface ZipEntry {
+    name: string; // Path inside the archive, '/'-separated
+    data: Blob;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+// The end record is 22 bytes plus a comment of up to 64 KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, which is what ZIP headers hold
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Packs the entries into a ZIP archive.
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(new Date());
+    const parts: BlobPart[] = [];
+    const centralRecords: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const data = new Uint8Array(await entry.data.arrayBuffer());
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER, true);
+        local.setUint16(4, 20, true); // version needed
+        local.setUint16(6, UTF8_NAMES, true);
+        local.setUint16(8, METHOD_STORED, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true); // extra field length
+        parts.push(local.buffer, name, data);
+
+        const central = new DataView(new ArrayBuffer(46 + name.length));
+        central.setUint32(0, CENTRAL_HEADER, true);
+        central.setUint16(4, 20, true); // version made by
+        central.setUint16(6, 20, true); // version needed
+        central.setUint16(8, UTF8_NAMES, true);
+        central.setUint16(10, METHOD_STORED, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        const centralBytes = new Uint8Array(central.buffer);
+        centralBytes.set(name, 46);
+        centralRecords.push(centralBytes);
+
+        offset += 30 + name.length + data.length;
+    }
+
+    const centralSize = centralRecords.reduce((sum, record) => sum + record.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+    parts.push(...centralRecords, end.buffer);
+
+    return new Blob(parts, { type: 'application/zip' });
+};
+
+const inflateRaw = async (data: Blob): Promise<Blob> => {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error('This browser cannot read compressed ZIP entries.');
+    }
+    return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+};
+
+/**
+ * Reads the files of a ZIP archive, keyed by their path inside it. Folders are left out.
+ * Throws if the file is not a ZIP archive or uses a compression method other than deflate.
+ */
+export const readZip = async (file: Blob): Promise<Map<string, Blob>> => {
+    const tailStart = Math.max(0, file.size - MAX_END_RECORD_SEARCH);
+    const tail = new DataView(await file.slice(tailStart).arrayBuffer());
+    let endOffset = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+        if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset < 0) throw new Error('The file is not a ZIP archive.');
+
+    const entryCount = tail.getUint16(endOffset + 10, true);
+    const centralSize = tail.getUint32(endOffset + 12, true);
+    const centralOffset = tail.getUint32(endOffset + 16, true);
+    const central = new DataView(await file.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+    const decoder = new TextDecoder();
+    const files = new Map<string, Blob>();
+
+    let position = 0;
+    for (let i = 0; i < entryCount; i++) {
+        if (central.getUint32(position, true) !== CENTRAL_HEADER) throw new Error('The ZIP archive is damaged.');
+        const method = central.getUint16(position + 10, true);
+        const compressedSize = central.getUint32(position + 20, true);
+        const nameLength = central.getUint16(position + 28, true);
+        const extraLength = central.getUint16(position + 30, true);
+        const commentLength = central.getUint16(position + 32, true);
+        const localOffset = central.getUint32(position + 42, true);
+        const name = decoder.decode(new Uint8Array(central.buffer, position + 46, nameLength));
+        position += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+
+        // The local header's name and extra field can differ in length from the central copy
+        const local = new DataView(await file.slice(localOffset, localOffset + 30).arrayBuffer());
+        if (local.getUint32(0, true) !== LOCAL_HEADER) throw new Error('The ZIP archive is damaged.');
+        const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const data = file.slice(dataStart, dataStart + compressedSize);
+
+        if (method === METHOD_STORED) files.set(name, data);
+        else if (method === METHOD_DEFLATED) files.set(name, await inflateRaw(data));
+        else throw new Error(`The ZIP entry "${name}" uses an unsupported compression method.`);
+    }
+    return files;
+};
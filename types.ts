@@ -1,4 +1,5 @@
 import type { ComponentType } from 'react';
+import type { CreativeDirectionState } from './services/creativeDirectionService';
 
 // FIX: Add Language type for internationalization.
 export type Language = 'en' | 'ms';
@@ -30,7 +31,8 @@ export interface NavItem {
   url?: string;
   isNew?: boolean;
   isExternal?: boolean;
-  roles?: ('admin' | 'user')[];
+  // Hidden unless the user holds this permission.
+  permission?: Permission;
   disabledForStatus?: UserStatus[];
   hideForStatus?: UserStatus[];
   isSpecial?: boolean; // Added for unique styling like the e-course button
@@ -40,6 +42,35 @@ export interface NavItem {
 // FIX: Added 'Audio' to the HistoryItemType to support it as a valid type for history items.
 export type HistoryItemType = 'Image' | 'Video' | 'Storyboard' | 'Canvas' | 'Audio' | 'Copy';
 
+// The tool a history item was made in. Only tools that can be reopened from a preset record
+// metadata; the storyboard, product ad and batch tools save items without it.
+export type GenerationSourceView =
+  | 'image-generation'
+  | 'product-photo'
+  | 'tiktok-affiliate'
+  | 'image-enhancer'
+  | 'background-remover'
+  | 'video-generation'
+  | 'voice-studio'
+  | 'content-ideas'
+  | 'marketing-copy'
+  | 'staff-monoklix';
+
+// How a history item was made, so the source tool can be reopened with the same inputs.
+export interface GenerationMetadata {
+  sourceView: GenerationSourceView;
+  model?: string;
+  seed?: number;
+  aspectRatio?: string;
+  // Reference images kept by historyService (see saveReferenceImages)
+  referenceImageIds?: string[];
+  creativeDirection?: CreativeDirectionState;
+  // The language of the generated content, or the UI language for tools without one
+  language?: string;
+  // Any other form fields of the source tool, e.g. { prompt, negativePrompt }
+  inputs?: Record<string, unknown>;
+}
+
 export interface HistoryItem {
   id: string;
   userId?: string; // Made optional to support older history items
@@ -48,6 +79,97 @@ export interface HistoryItem {
   // result can be a base64 string for images/canvas, a Blob for video/audio, or plain text for copy/storyboard.
   result: string | Blob; 
   timestamp: number;
+  metadata?: GenerationMetadata; // Missing on items saved before it was recorded
+  tags?: string[]; // Lower-case, set by the user in the gallery
+  favoriteAt?: number; // When the user made it a favourite. Favourites are never pruned.
+  folderId?: string;
+}
+
+// A gallery folder. Each history item is in at most one.
+export interface HistoryFolder {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: number;
+}
+
+export type HistorySort = 'newest' | 'oldest' | 'favoritesFirst';
+
+// A gallery search. Every condition that is set must match.
+export interface HistoryQuery {
+  types?: HistoryItemType[];
+  search?: string; // Each word must start a word of the prompt
+  tags?: string[]; // Items must have all of them
+  folderId?: string;
+  favoritesOnly?: boolean;
+  from?: number; // Inclusive timestamps
+  to?: number;
+  sort?: HistorySort;
+  offset?: number;
+  limit?: number;
+}
+
+export interface HistoryQueryResult {
+  items: HistoryItem[];
+  total: number; // Matches before offset and limit
+}
+
+// Reopens a tool filled in from a history item's metadata. Regenerate keeps the seed; Remix draws a new one.
+export interface GenerationPreset {
+  metadata: GenerationMetadata;
+  referenceImages: { base64: string; mimeType: string; }[];
+  keepSeed: boolean;
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationJob<T = unknown> {
+  id: string;
+  kind: 'video' | 'image';
+  label: string;
+  sourceView: string; // The tool that started the job, e.g. 'video-generation'
+  sourceKey?: string; // Distinguishes jobs within one tool, e.g. a storyboard scene index
+  status: GenerationJobStatus;
+  statusMessage: string;
+  result?: T;
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export type WorkspaceRole = 'owner' | 'member';
+export type WorkspaceItemCategory = 'gallery' | 'brand';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  role: WorkspaceRole; // The signed-in user's role in this workspace
+  createdAt: number;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  role: WorkspaceRole;
+  email: string | null;
+  fullName: string | null;
+  addedAt: number;
+}
+
+export interface WorkspaceItem {
+  id: string;
+  workspaceId: string;
+  category: WorkspaceItemCategory;
+  type: 'Image' | 'Canvas' | 'Video' | 'Audio';
+  prompt: string;
+  mimeType: string;
+  url: string | null; // Short-lived signed URL
+  sizeBytes: number;
+  authorId: string;
+  authorName: string;
+  sourceCreatedAt: number | null; // When the author generated it
+  createdAt: number; // When it was published to the workspace
 }
 
 export interface AiLogItem {
@@ -59,8 +181,9 @@ export interface AiLogItem {
   output: string; // Can be text, a message like "1 image generated", or an error message
   tokenCount: number;
   cost?: number; // Estimated cost in USD, primarily for video generation
-  status: 'Success' | 'Error';
+  status: 'Success' | 'Error' | 'Cancelled';
   error?: string;
+  requestId?: string; // Proxy X-Request-Id, for finding the request in the server logs
   mediaOutput?: string | Blob; // Base64 string for images, Blob for video/audio.
 }
 
@@ -77,7 +200,19 @@ export interface TutorialContent {
   tutorials: Tutorial[];
 }
 
-export type UserRole = 'admin' | 'user';
+export type UserRole = 'admin' | 'support' | 'content_editor' | 'server_operator' | 'user';
+// Checked against the role matrix in services/permissionService.ts.
+export type Permission =
+  | 'users.view'
+  | 'users.edit'
+  | 'users.create'
+  | 'users.remove'
+  | 'users.forceLogout'
+  | 'users.import'
+  | 'users.export'
+  | 'content.edit'
+  | 'servers.view'
+  | 'tokens.generate';
 // FIX: Expanded UserStatus to include 'subscription' and 'trial' statuses.
 export type UserStatus = 'lifetime' | 'admin' | 'inactive' | 'pending_payment' | 'subscription' | 'trial';
 
@@ -105,7 +240,7 @@ export interface User {
   batch_02?: string | null;
 }
 
-export type LoginResult = { success: true; user: User } | { success: false; message: string };
+export type LoginResult = { success: true; user: User } | { success: false; message: string; attemptsLeft?: number };
 
 export interface Announcement {
   id: string;
@@ -0,0 +1,54 @@
+/**
+ * Creates the error thrown when an operation is cancelled through an AbortSignal.
+ * Matches the DOMException that fetch() throws, so callers only need one check.
+ * @param message Optional message describing what was cancelled.
+ * @returns An Error whose name is 'AbortError'.
+ */
+export function createAbortError(message = 'The operation was cancelled.'): Error {
+    const error = new Error(message);
+    error.name = 'AbortError';
+    return error;
+}
+
+/**
+ * Checks whether an error was caused by cancellation rather than a real failure.
+ * @param error The caught error.
+ * @returns True if the error is an AbortError from fetch() or createAbortError().
+ */
+export function isAbortError(error: unknown): boolean {
+    return !!error && typeof error === 'object' && (error as { name?: string }).name === 'AbortError';
+}
+
+/**
+ * Throws an AbortError if the signal has already been aborted.
+ * @param signal The optional AbortSignal to check.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw createAbortError();
+    }
+}
+
+/**
+ * Waits for the given time, rejecting early with an AbortError if the signal is aborted.
+ * @param ms The delay in milliseconds.
+ * @param signal The optional AbortSignal that cancels the wait.
+ * @returns A promise that resolves once the delay has elapsed.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
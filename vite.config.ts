@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import { fileURLToPath, URL } from 'node:url';
@@ -41,5 +42,9 @@ export default defineConfig(({ mode }) => {
       outDir: 'dist',
       sourcemap: false,
     },
+    test: {
+      // Only the frontend's tests; the proxy in server/ runs its own with `npm test` there.
+      include: ['**/*.test.{ts,tsx}'],
+    },
   };
 });
\ No newline at end of file